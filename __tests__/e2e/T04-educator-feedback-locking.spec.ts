@@ -1,8 +1,8 @@
 /**
  * T04: Educator Feedback & Project Locking E2E Test
  * 
- * Tests that an educator saving feedback and locking the project successfully 
- * changes the project phase to 'closed' and that student inputs are then disabled.
+ * Tests that saving an assessment only stores a draft, and that publishing it
+ * to the team changes the project phase to 'closed' and disables student inputs.
  */
 
 import { test, expect } from '@playwright/test';
@@ -42,7 +42,7 @@ test.describe('Educator Feedback & Project Locking', () => {
     }
   });
 
-  test('educator can assess project and lock it, disabling student inputs', async ({ page, browser }) => {
+  test('educator can save a draft assessment and publish it, locking the project', async ({ page, browser }) => {
     // Step 1: Login as educator and navigate to project
     await loginUser(page, 'educator1');
     await page.goto(`/p/${projectId}`);
@@ -62,17 +62,43 @@ test.describe('Educator Feedback & Project Locking', () => {
     // Debug: Take screenshot to see the form state
     await page.screenshot({ path: 'debug-before-submit.png' });
     
-    // Step 4: Click "Save Feedback & Lock Project"
-    await page.click('button:has-text("Save Feedback & Lock Project")');
-    
-    // Step 5: Confirm in dialog
-    await expect(page.locator('text=Confirm Project Assessment')).toBeVisible();
-    await page.click('button:has-text("Confirm & Lock Project")');
-    
-    // Step 6: Wait for the action to complete (no need to check redirect)
-    await page.waitForTimeout(2000);
-    
-    // Step 7: Verify project phase changed to 'closed' in database
+    // Step 4: Save the assessment as a draft
+    await page.click('button:has-text("Save Draft")');
+    await expect(page.locator('text=Draft saved. Students will see it once you publish it.')).toBeVisible();
+
+    // Step 5: Saving a draft leaves the project open and the assessment hidden from the team
+    const { data: draftProject } = await supabaseAdmin
+      .from('projects')
+      .select('phase')
+      .eq('id', projectId)
+      .single();
+
+    expect(draftProject?.phase).toBe('post');
+
+    const { data: draftAssessment } = await supabaseAdmin
+      .from('assessments')
+      .select('status')
+      .eq('project_id', projectId)
+      .single();
+
+    expect(draftAssessment?.status).toBe('draft');
+
+    // Step 6: Publish to the team and confirm in the dialog
+    await page.click('button:has-text("Publish to Team")');
+    await expect(page.locator('text=Publish Assessment')).toBeVisible();
+    await page.click('[role="alertdialog"] button:has-text("Publish")');
+    await expect(page.locator('text=Assessment published.')).toBeVisible();
+
+    // Step 7: Verify publishing marked the assessment final and closed the project
+    const { data: publishedAssessment } = await supabaseAdmin
+      .from('assessments')
+      .select('status, published_at')
+      .eq('project_id', projectId)
+      .single();
+
+    expect(publishedAssessment?.status).toBe('final');
+    expect(publishedAssessment?.published_at).not.toBeNull();
+
     const { data: project } = await supabaseAdmin
       .from('projects')
       .select('phase')
@@ -0,0 +1,201 @@
+/**
+ * T-07: Resilient AI Calls
+ *
+ * Tests the resilience wrapper applied to every LLM provider:
+ * 1. Retryable failures are retried; other failures are not
+ * 2. Slow calls time out and the provider request is cancelled
+ * 3. Repeated failures open the circuit, which then fails fast
+ * 4. Failures are classified into the error codes logged in ai_usage
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  AiTimeoutError,
+  AiUnavailableError,
+  aiFailureResponse,
+  getAiErrorCode,
+  withResilience,
+  type LlmProvider,
+  type LlmRequest,
+  type LlmResult,
+  type LlmStreamChunk
+} from '@/lib/ai';
+import { resetCircuitBreakers } from '@/lib/ai/resilience';
+import { ConfigurationError, ExternalServiceError } from '@/lib/shared/errors';
+
+/** Errors shaped like the ones the provider SDKs throw */
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+/**
+ * Provider whose generate() plays back the given outcomes in order
+ */
+function scriptedProvider(outcomes: Array<Error | 'ok' | 'hang'>) {
+  let calls = 0;
+  const provider: LlmProvider = {
+    name: 'fixture',
+    model: 'scripted',
+    async generate(): Promise<LlmResult> {
+      const outcome = outcomes[Math.min(calls++, outcomes.length - 1)];
+      if (outcome === 'hang') return new Promise(() => {});
+      if (outcome instanceof Error) throw outcome;
+      return { text: 'ok', model: 'scripted' };
+    },
+    async generateJson() {
+      throw new Error('not used');
+    },
+    async *stream() {
+      yield { text: 'ok' };
+    },
+  };
+  return { provider, calls: () => calls };
+}
+
+const FAST = { baseDelayMs: 1, maxDelayMs: 2, timeoutMs: 50 };
+
+describe('T-07: Resilient AI Calls', () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  describe('Retries', () => {
+    it('should retry rate limits and server errors until a call succeeds', async () => {
+      const { provider, calls } = scriptedProvider([httpError(429), httpError(503), 'ok']);
+      const result = await withResilience(provider, FAST).generate({ prompt: 'hi' });
+
+      expect(result.text).toBe('ok');
+      expect(calls()).toBe(3);
+    });
+
+    it('should not retry errors that will not go away', async () => {
+      const { provider, calls } = scriptedProvider([httpError(400)]);
+
+      await expect(withResilience(provider, FAST).generate({ prompt: 'hi' })).rejects.toThrow('HTTP 400');
+      expect(calls()).toBe(1);
+    });
+
+    it('should give up after the last attempt', async () => {
+      const { provider, calls } = scriptedProvider([httpError(503)]);
+
+      await expect(
+        withResilience(provider, { ...FAST, maxAttempts: 2 }).generate({ prompt: 'hi' })
+      ).rejects.toThrow('HTTP 503');
+      expect(calls()).toBe(2);
+    });
+  });
+
+  describe('Timeouts', () => {
+    it('should time out calls that take too long', async () => {
+      const { provider } = scriptedProvider(['hang']);
+
+      await expect(
+        withResilience(provider, { ...FAST, maxAttempts: 1 }).generate({ prompt: 'hi' })
+      ).rejects.toBeInstanceOf(AiTimeoutError);
+    });
+
+    it('should cancel the provider request of each timed-out attempt', async () => {
+      const signals: AbortSignal[] = [];
+      const provider: LlmProvider = {
+        ...scriptedProvider(['ok']).provider,
+        generate(request: LlmRequest): Promise<LlmResult> {
+          signals.push(request.signal!);
+          return new Promise(() => {});
+        },
+      };
+
+      await expect(
+        withResilience(provider, { ...FAST, maxAttempts: 2 }).generate({ prompt: 'hi' })
+      ).rejects.toBeInstanceOf(AiTimeoutError);
+      expect(signals).toHaveLength(2);
+      expect(signals.every(signal => signal.aborted)).toBe(true);
+    });
+
+    it('should cancel and close a stream when a chunk times out', async () => {
+      let streamSignal: AbortSignal | undefined;
+      let closed = false;
+      const provider: LlmProvider = {
+        ...scriptedProvider(['ok']).provider,
+        stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+          streamSignal = request.signal;
+          let sent = false;
+          return {
+            [Symbol.asyncIterator]: () => ({
+              next: async (): Promise<IteratorResult<LlmStreamChunk>> => {
+                if (sent) return new Promise(() => {});
+                sent = true;
+                return { done: false, value: { text: 'first' } };
+              },
+              return: async (): Promise<IteratorResult<LlmStreamChunk>> => {
+                closed = true;
+                return { done: true, value: undefined };
+              },
+            }),
+          };
+        },
+      };
+
+      const chunks: string[] = [];
+      await expect((async () => {
+        for await (const chunk of withResilience(provider, { ...FAST, maxAttempts: 1 }).stream({ prompt: 'hi' })) {
+          chunks.push(chunk.text);
+        }
+      })()).rejects.toBeInstanceOf(AiTimeoutError);
+
+      expect(chunks).toEqual(['first']);
+      expect(streamSignal?.aborted).toBe(true);
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    it('should fail fast once the circuit opens and recover after a successful trial', async () => {
+      const { provider, calls } = scriptedProvider([httpError(503), httpError(503), 'ok']);
+      const resilient = withResilience(provider, {
+        ...FAST,
+        maxAttempts: 1,
+        failureThreshold: 2,
+        openDurationMs: 200,
+      });
+
+      await expect(resilient.generate({ prompt: 'hi' })).rejects.toThrow('HTTP 503');
+      await expect(resilient.generate({ prompt: 'hi' })).rejects.toThrow('HTTP 503');
+
+      await expect(resilient.generate({ prompt: 'hi' })).rejects.toBeInstanceOf(AiUnavailableError);
+      expect(calls()).toBe(2);
+
+      await new Promise(resolve => setTimeout(resolve, 250));
+      await expect(resilient.generate({ prompt: 'hi' })).resolves.toMatchObject({ text: 'ok' });
+      await expect(resilient.generate({ prompt: 'hi' })).resolves.toMatchObject({ text: 'ok' });
+      expect(calls()).toBe(4);
+    });
+
+    it('should not open the circuit for errors the provider answered with', async () => {
+      const { provider } = scriptedProvider([httpError(400)]);
+      const resilient = withResilience(provider, { ...FAST, failureThreshold: 1 });
+
+      await expect(resilient.generate({ prompt: 'hi' })).rejects.toThrow('HTTP 400');
+      await expect(resilient.generate({ prompt: 'hi' })).rejects.toThrow('HTTP 400');
+    });
+  });
+
+  describe('Error Codes', () => {
+    it('should classify failures for ai_usage', () => {
+      expect(getAiErrorCode(httpError(429))).toBe('rate_limited');
+      expect(getAiErrorCode(httpError(503))).toBe('provider_unavailable');
+      expect(getAiErrorCode(new AiTimeoutError('gemini', 'generate', 10))).toBe('timeout');
+      expect(getAiErrorCode(new AiUnavailableError('gemini', 10))).toBe('circuit_open');
+      expect(getAiErrorCode(new ConfigurationError('GEMINI_API_KEY', 'missing'))).toBe('configuration');
+      expect(getAiErrorCode(new ExternalServiceError('gemini', 'validate_output', 'bad'))).toBe('invalid_response');
+      expect(getAiErrorCode(new Error('something else'))).toBe('provider_error');
+    });
+
+    it('should return a friendly message while the circuit is open', () => {
+      const failure = aiFailureResponse(new AiUnavailableError('gemini', 10), 'fallback');
+
+      expect(failure.status).toBe(503);
+      expect(failure.body.errorCode).toBe('circuit_open');
+      expect(failure.body.error).toContain('temporarily unavailable');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * T-08: Assessment Moderation
+ *
+ * Tests how independent assessors' scores are reconciled:
+ * 1. Scores are combined by mean, median, lowest or highest
+ * 2. Combined scores are rounded as configured and kept within the rubric range
+ * 3. Disagreement beyond the course limit is left to the moderator
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_MODERATION_RULE,
+  aggregateScores,
+  measureDisagreement,
+  reconcileCriterion,
+  roundScore
+} from '@/lib/shared/assessment-moderation';
+
+describe('T-08: Assessment Moderation', () => {
+  describe('aggregateScores', () => {
+    it('combines scores with each aggregation', () => {
+      const scores = [4, 2, 3, 5];
+
+      expect(aggregateScores(scores, 'mean')).toBe(3.5);
+      expect(aggregateScores(scores, 'median')).toBe(3.5);
+      expect(aggregateScores(scores, 'lowest')).toBe(2);
+      expect(aggregateScores(scores, 'highest')).toBe(5);
+    });
+
+    it('takes the middle score as the median of an odd count', () => {
+      expect(aggregateScores([5, 1, 4], 'median')).toBe(4);
+    });
+  });
+
+  describe('roundScore', () => {
+    it('rounds as configured', () => {
+      expect(roundScore(3.5, 'nearest', 5)).toBe(4);
+      expect(roundScore(3.5, 'down', 5)).toBe(3);
+      expect(roundScore(3.2, 'up', 5)).toBe(4);
+    });
+
+    it('ignores floating point noise when rounding up', () => {
+      expect(roundScore((0.1 + 0.2) * 10, 'up', 5)).toBe(3);
+    });
+
+    it('keeps scores within the rubric range', () => {
+      expect(roundScore(7, 'nearest', 5)).toBe(5);
+      expect(roundScore(0.2, 'down', 5)).toBe(1);
+    });
+  });
+
+  describe('measureDisagreement', () => {
+    it('reports the spread between assessors', () => {
+      const disagreement = measureDisagreement([2, 5, 4], 2);
+
+      expect(disagreement).toMatchObject({ min: 2, max: 5, spread: 3, exceedsLimit: true });
+      expect(disagreement.mean).toBeCloseTo(11 / 3);
+    });
+
+    it('never exceeds the limit when the course sets none', () => {
+      expect(measureDisagreement([1, 5], null).exceedsLimit).toBe(false);
+    });
+  });
+
+  describe('reconcileCriterion', () => {
+    it('proposes the average and the course rule score', () => {
+      const reconciliation = reconcileCriterion([3, 4], 5, {
+        ...DEFAULT_MODERATION_RULE,
+        aggregation: 'lowest'
+      });
+
+      expect(reconciliation.average).toBe(4);
+      expect(reconciliation.courseRule).toBe(3);
+    });
+
+    it('leaves the course rule score to the moderator when assessors are too far apart', () => {
+      const reconciliation = reconcileCriterion([1, 5], 5, {
+        ...DEFAULT_MODERATION_RULE,
+        maxDisagreement: 2
+      });
+
+      expect(reconciliation.average).toBe(3);
+      expect(reconciliation.courseRule).toBeNull();
+    });
+  });
+});
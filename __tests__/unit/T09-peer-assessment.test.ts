@@ -0,0 +1,94 @@
+/**
+ * T-09: Peer Assessment
+ *
+ * Tests the WebPA contribution factors computed from teammates' ratings:
+ * 1. Equal ratings give every member a factor of 1
+ * 2. Each rater's points are shared out, so generous raters carry no extra weight
+ * 3. Missing ratings neither raise nor lower anyone's factor
+ * 4. Factors adjust the weighted share of the team score, capped at the maximum
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  averageReceivedScore,
+  computeContributionFactors,
+  individualScore,
+  type PeerRating
+} from '@/lib/shared/peer-assessment';
+
+const MEMBERS = ['ana', 'ben', 'cai'];
+
+/** Ratings on a single criterion */
+function rate(raterId: string, scores: Record<string, number>): PeerRating[] {
+  return Object.entries(scores).map(([rateeId, score]) => ({ raterId, rateeId, criterionId: 'effort', score }));
+}
+
+describe('T-09: Peer Assessment', () => {
+  describe('computeContributionFactors', () => {
+    it('gives every member a factor of 1 when all ratings are equal', () => {
+      const factors = computeContributionFactors(MEMBERS, [
+        ...rate('ana', { ben: 5, cai: 5 }),
+        ...rate('ben', { ana: 2, cai: 2 }),
+        ...rate('cai', { ana: 4, ben: 4 })
+      ]);
+
+      for (const member of MEMBERS) {
+        expect(factors.get(member)).toEqual({ factor: 1, ratedBy: 2 });
+      }
+    });
+
+    it('shares out each rater\'s points in proportion to the scores they gave', () => {
+      const factors = computeContributionFactors(MEMBERS, [
+        ...rate('ana', { ben: 4, cai: 2 }),
+        ...rate('ben', { ana: 3, cai: 3 }),
+        ...rate('cai', { ana: 5, ben: 5 })
+      ]);
+
+      expect(factors.get('ana')?.factor).toBeCloseTo(1);
+      expect(factors.get('ben')?.factor).toBeCloseTo(7 / 6);
+      expect(factors.get('cai')?.factor).toBeCloseTo(5 / 6);
+    });
+
+    it('averages over the teammates who rated, leaving unrated members without a factor', () => {
+      const factors = computeContributionFactors(MEMBERS, rate('ana', { ben: 4, cai: 2 }));
+
+      expect(factors.get('ben')).toEqual({ factor: expect.closeTo(4 / 3), ratedBy: 1 });
+      expect(factors.get('cai')?.factor).toBeCloseTo(2 / 3);
+      expect(factors.get('ana')).toEqual({ factor: null, ratedBy: 0 });
+    });
+
+    it('ignores self ratings and ratings of people outside the team', () => {
+      const factors = computeContributionFactors(MEMBERS, [
+        ...rate('ana', { ana: 5, ben: 3, cai: 3, dev: 1 }),
+        ...rate('dev', { ana: 5 })
+      ]);
+
+      expect(factors.get('ben')?.factor).toBe(1);
+      expect(factors.get('ana')?.factor).toBeNull();
+    });
+  });
+
+  describe('individualScore', () => {
+    it('adjusts only the weighted share of the team score', () => {
+      expect(individualScore(20, 30, 1.2, 0.5)).toBe(22);
+      expect(individualScore(20, 30, 0.5, 0)).toBe(20);
+    });
+
+    it('never goes above the maximum score', () => {
+      expect(individualScore(28, 30, 1.5, 1)).toBe(30);
+    });
+
+    it('awards the team score to members nobody rated', () => {
+      expect(individualScore(20, 30, null, 1)).toBe(20);
+    });
+  });
+
+  describe('averageReceivedScore', () => {
+    it('averages the scores a member received on a criterion', () => {
+      const ratings = [...rate('ana', { ben: 4 }), ...rate('cai', { ben: 3 })];
+
+      expect(averageReceivedScore(ratings, 'ben', 'effort')).toBe(3.5);
+      expect(averageReceivedScore(ratings, 'ana', 'effort')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * T-10: AI Quota Usage
+ *
+ * Tests which AI calls count towards a team's quota:
+ * 1. Calls students make are totalled across features
+ * 2. Calls the system runs on the team's behalf are left out
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { INTERNAL_AI_FEATURES, sumQuotaUsage } from '@/lib/ai/quota';
+
+describe('T-10: AI Quota Usage', () => {
+  it('totals calls and tokens across student-facing features', () => {
+    expect(sumQuotaUsage([
+      { feature: 'tutor', call_count: 4, token_count: 1200 },
+      { feature: 'suggest_goals', call_count: 1, token_count: 300 }
+    ])).toEqual({ calls: 5, tokens: 1500 });
+  });
+
+  it('leaves out rolling tutor summaries', () => {
+    expect(sumQuotaUsage([
+      { feature: 'tutor', call_count: 2, token_count: 800 },
+      { feature: 'tutor_summary', call_count: 1, token_count: 2000 }
+    ])).toEqual({ calls: 2, tokens: 800 });
+  });
+
+  it('reports no usage when only internal calls were made', () => {
+    const usage = INTERNAL_AI_FEATURES.map(feature => ({ feature, call_count: 3, token_count: 90 }));
+
+    expect(sumQuotaUsage(usage)).toEqual({ calls: 0, tokens: 0 });
+    expect(sumQuotaUsage([])).toEqual({ calls: 0, tokens: 0 });
+  });
+});
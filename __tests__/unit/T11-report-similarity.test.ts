@@ -0,0 +1,100 @@
+/**
+ * T-11: Report Similarity
+ *
+ * Tests the word-shingle comparison behind the final report similarity check:
+ * 1. Shared passages are found regardless of case and punctuation
+ * 2. Passages shorter than a shingle, and reports shorter than one, never match
+ * 3. Empty reports have no similarity
+ * 4. Matches below the reporting threshold are not shown to educators
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MIN_REPORTED_SIMILARITY,
+  SHINGLE_SIZE,
+  compareReports,
+  isReportedMatch
+} from '@/lib/shared/report-similarity';
+
+const SHARED = 'the water samples from the river showed high nitrate levels after heavy rain';
+
+/** Distinct filler words so only the intended passages overlap */
+function filler(prefix: string, count: number): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+}
+
+describe('T-11: Report Similarity', () => {
+  describe('compareReports', () => {
+    it('finds a copied passage regardless of case and punctuation', () => {
+      const comparison = compareReports(
+        `${filler('a', 20)} ${SHARED} ${filler('b', 20)}`,
+        `${filler('c', 10)} The water samples, from the river, showed HIGH nitrate levels after heavy rain. ${filler('d', 10)}`
+      );
+
+      expect(comparison.passages).toHaveLength(1);
+      expect(comparison.passages[0].words).toBe(13);
+      expect(comparison.passages[0].text).toBe(SHARED);
+      expect(comparison.similarity).toBeCloseTo(13 / 53);
+      expect(comparison.otherSimilarity).toBeCloseTo(13 / 33);
+    });
+
+    it('scores identical reports as fully similar', () => {
+      const comparison = compareReports(SHARED, SHARED);
+
+      expect(comparison.similarity).toBe(1);
+      expect(comparison.otherSimilarity).toBe(1);
+    });
+
+    it('ignores shared runs shorter than a shingle', () => {
+      const shortRun = SHARED.split(' ').slice(0, SHINGLE_SIZE - 1).join(' ');
+      const comparison = compareReports(
+        `${filler('a', 20)} ${shortRun} ${filler('b', 20)}`,
+        `${filler('c', 20)} ${shortRun} ${filler('d', 20)}`
+      );
+
+      expect(comparison).toEqual({ similarity: 0, otherSimilarity: 0, passages: [] });
+    });
+
+    it('never matches reports shorter than a shingle', () => {
+      const short = 'nitrate levels rose after rain';
+
+      expect(compareReports(short, short)).toEqual({ similarity: 0, otherSimilarity: 0, passages: [] });
+      expect(compareReports(short, SHARED).passages).toEqual([]);
+    });
+
+    it('gives empty reports no similarity', () => {
+      expect(compareReports('', SHARED)).toEqual({ similarity: 0, otherSimilarity: 0, passages: [] });
+      expect(compareReports('   ', '')).toEqual({ similarity: 0, otherSimilarity: 0, passages: [] });
+    });
+  });
+
+  describe('isReportedMatch', () => {
+    it('reports overlaps at or above the threshold in either direction', () => {
+      const passage = SHARED.split(' ').slice(0, SHINGLE_SIZE).join(' ');
+      const comparison = compareReports(
+        `${passage} ${filler('a', 92)}`,
+        `${passage} ${filler('b', 800)}`
+      );
+
+      expect(comparison.similarity).toBeCloseTo(0.08);
+      expect(comparison.otherSimilarity).toBeLessThan(MIN_REPORTED_SIMILARITY);
+      expect(isReportedMatch(comparison)).toBe(true);
+    });
+
+    it('does not report small overlaps in long reports', () => {
+      const passage = SHARED.split(' ').slice(0, SHINGLE_SIZE).join(' ');
+      const comparison = compareReports(
+        `${passage} ${filler('a', 492)}`,
+        `${passage} ${filler('b', 492)}`
+      );
+
+      expect(comparison.passages).toHaveLength(1);
+      expect(comparison.similarity).toBeCloseTo(0.016);
+      expect(isReportedMatch(comparison)).toBe(false);
+    });
+
+    it('does not report comparisons without shared passages', () => {
+      expect(isReportedMatch(compareReports(filler('a', 50), filler('b', 50)))).toBe(false);
+    });
+  });
+});
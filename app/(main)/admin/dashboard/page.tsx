@@ -7,6 +7,7 @@ import {
   getAllTeams, 
   getAllCourses,
   getAllProjects,
+  getAiServiceStatus,
   deleteUser,
   deleteTeam,
   deleteCourse,
@@ -15,7 +16,9 @@ import {
   type UserWithDetails,
   type TeamWithDetails,
   type CourseWithDetails,
-  type ProjectWithDetails
+  type ProjectWithDetails,
+  type AiServiceStatus,
+  type AiOutageWindow
 } from "@/lib/actions/admin";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -42,6 +45,7 @@ export default function AdminDashboard() {
   const [teams, setTeams] = useState<TeamWithDetails[]>([]);
   const [courses, setCourses] = useState<CourseWithDetails[]>([]);
   const [projects, setProjects] = useState<ProjectWithDetails[]>([]);
+  const [aiStatus, setAiStatus] = useState<AiServiceStatus | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Modal state
@@ -81,11 +85,12 @@ export default function AdminDashboard() {
     setError(null);
     
     try {
-      const [usersResult, teamsResult, coursesResult, projectsResult] = await Promise.all([
+      const [usersResult, teamsResult, coursesResult, projectsResult, aiStatusResult] = await Promise.all([
         getAllUsers(),
         getAllTeams(),
         getAllCourses(),
         getAllProjects(),
+        getAiServiceStatus(),
       ]);
 
       if (usersResult.success) {
@@ -115,6 +120,13 @@ export default function AdminDashboard() {
         setError(`Failed to load projects: ${projectsResult.error}`);
         return;
       }
+
+      if (aiStatusResult.success) {
+        setAiStatus(aiStatusResult.data);
+      } else {
+        setError(`Failed to load AI status: ${aiStatusResult.error}`);
+        return;
+      }
     } catch {
       setError("Failed to load data");
     }
@@ -367,6 +379,53 @@ export default function AdminDashboard() {
     },
   ];
 
+  const outageColumns: TableColumn<AiOutageWindow>[] = [
+    { 
+      key: "start", 
+      header: "Started",
+      cell: (outage) => new Date(outage.start).toLocaleString()
+    },
+    { 
+      key: "end", 
+      header: "Duration",
+      cell: (outage) => {
+        const minutes = Math.round((new Date(outage.end).getTime() - new Date(outage.start).getTime()) / 60000);
+        return minutes < 1 ? "Under a minute" : `${minutes} min`;
+      }
+    },
+    { 
+      key: "failureCount", 
+      header: "Failures",
+      cell: (outage) => (
+        <Badge variant="outline">
+          {outage.failureCount} failed
+        </Badge>
+      )
+    },
+    { 
+      key: "errorCodes", 
+      header: "Error Codes",
+      cell: (outage) => (
+        <div className="flex flex-wrap gap-1">
+          {Object.entries(outage.errorCodes).map(([code, count]) => (
+            <Badge key={code} variant={code === 'circuit_open' ? 'destructive' : 'secondary'}>
+              {code.replace(/_/g, ' ')} ({count})
+            </Badge>
+          ))}
+        </div>
+      )
+    },
+    { 
+      key: "features", 
+      header: "Features",
+      cell: (outage) => outage.features.join(", ")
+    },
+    { 
+      key: "affectedUsers", 
+      header: "Users Affected"
+    },
+  ];
+
   if (dashboardLoading) {
     return (
       <div className="space-y-6">
@@ -427,6 +486,7 @@ export default function AdminDashboard() {
           <TabsTrigger value="teams">Teams</TabsTrigger>
           <TabsTrigger value="courses">Courses</TabsTrigger>
           <TabsTrigger value="projects">Projects</TabsTrigger>
+          <TabsTrigger value="ai-status">AI Status</TabsTrigger>
         </TabsList>
 
         <TabsContent value="users" className="space-y-4">
@@ -479,6 +539,22 @@ export default function AdminDashboard() {
             emptyMessage="No projects found"
           />
         </TabsContent>
+
+        <TabsContent value="ai-status" className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold">AI Service Status</h2>
+            {aiStatus && (
+              <p className="text-sm text-muted-foreground">
+                {aiStatus.failedCalls} of {aiStatus.totalCalls} AI calls failed since {new Date(aiStatus.since).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+          <DataTable
+            data={aiStatus?.windows ?? []}
+            columns={outageColumns}
+            emptyMessage="No AI outages in the last 7 days"
+          />
+        </TabsContent>
       </Tabs>
 
       {/* Modals */}
@@ -0,0 +1,45 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getCourseAiQuotas } from "@/lib/actions/ai-quotas";
+import { AiQuotaSettings } from "@/components/pblab/educator/ai-quota-settings";
+
+export default async function CourseAiQuotasPage({
+  params
+}: {
+  params: Promise<{ courseId: string }>
+}) {
+  const { courseId } = await params;
+
+  const result = await getCourseAiQuotas(courseId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <span>{result.data.course.name}</span>
+        <span>→</span>
+        <span>AI Quotas</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">AI Quotas</h1>
+        <p className="text-muted-foreground">
+          Limit how many AI requests and tokens each team can use per day or week.
+        </p>
+      </div>
+
+      <div className="max-w-4xl">
+        <AiQuotaSettings settings={result.data} />
+      </div>
+    </div>
+  );
+}
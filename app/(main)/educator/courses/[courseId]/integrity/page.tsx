@@ -0,0 +1,46 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getCourseIntegrityFlags } from "@/lib/actions/ai-integrity";
+import { IntegrityReviewQueue } from "@/components/pblab/educator/integrity-review-queue";
+
+export default async function CourseIntegrityPage({
+  params
+}: {
+  params: Promise<{ courseId: string }>
+}) {
+  const { courseId } = await params;
+
+  const result = await getCourseIntegrityFlags(courseId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <span>{result.data.course.name}</span>
+        <span>→</span>
+        <span>Integrity Flags</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Integrity Flags</h1>
+        <p className="text-muted-foreground">
+          AI tutor turns flagged for answer seeking, ghostwriting, off-topic use or answers given away.
+          Flags are automated and can be wrong, so review the exchange before acting.
+        </p>
+      </div>
+
+      <div className="max-w-4xl">
+        <IntegrityReviewQueue queue={result.data} />
+      </div>
+    </div>
+  );
+}
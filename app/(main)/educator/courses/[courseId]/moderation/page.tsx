@@ -0,0 +1,46 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getCourseModerationSettings } from "@/lib/actions/assessment-moderation";
+import { ModerationSettings } from "@/components/pblab/educator/moderation-settings";
+
+export default async function CourseModerationPage({
+  params
+}: {
+  params: Promise<{ courseId: string }>
+}) {
+  const { courseId } = await params;
+
+  const result = await getCourseModerationSettings(courseId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <span>{result.data.course.name}</span>
+        <span>→</span>
+        <span>Assessment Moderation</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Assessment Moderation</h1>
+        <p className="text-muted-foreground">
+          Have several assessors grade each report independently, then reconcile their scores into the
+          assessment the team sees.
+        </p>
+      </div>
+
+      <div className="max-w-4xl">
+        <ModerationSettings settings={result.data} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getCourseTutorTranscripts } from "@/lib/actions/ai-transcripts";
+import { TutorTranscriptReview } from "@/components/pblab/educator/tutor-transcript-review";
+
+export default async function CourseTranscriptsPage({
+  params
+}: {
+  params: Promise<{ courseId: string }>
+}) {
+  const { courseId } = await params;
+
+  const result = await getCourseTutorTranscripts(courseId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <span>{result.data.course.name}</span>
+        <span>→</span>
+        <span>Tutor Transcripts</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Tutor Transcripts</h1>
+        <p className="text-muted-foreground">
+          Review every team&apos;s AI tutor conversation and leave private notes on individual exchanges.
+        </p>
+      </div>
+
+      <TutorTranscriptReview initial={result.data} />
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { Plus } from "lucide-react";
+import { TutorFeedbackSummary } from "@/components/pblab/educator/tutor-feedback-summary";
+import { AssessmentPublishQueue } from "@/components/pblab/educator/assessment-publish-queue";
 
 export default function EducatorDashboard() {
   const [data, setData] = useState<EducatorDashboardData | null>(null);
@@ -122,6 +124,35 @@ export default function EducatorDashboard() {
                   <div className="flex gap-4 text-xs text-muted-foreground">
                     <span>{course.team_count} teams</span>
                     <span>{course.problem_count} problems</span>
+                    <Link
+                      href={`/educator/courses/${course.id}/ai-quotas`}
+                      className="hover:text-foreground hover:underline"
+                    >
+                      AI quotas
+                    </Link>
+                    <Link
+                      href={`/educator/courses/${course.id}/transcripts`}
+                      className="hover:text-foreground hover:underline"
+                    >
+                      Tutor transcripts
+                    </Link>
+                    <Link
+                      href={`/educator/courses/${course.id}/moderation`}
+                      className="hover:text-foreground hover:underline"
+                    >
+                      Moderation
+                    </Link>
+                    <Link
+                      href={`/educator/courses/${course.id}/integrity`}
+                      className="hover:text-foreground hover:underline"
+                    >
+                      Integrity flags
+                      {course.open_flag_count > 0 && (
+                        <Badge variant="destructive" className="ml-1 px-1.5 py-0 text-[10px]">
+                          {course.open_flag_count}
+                        </Badge>
+                      )}
+                    </Link>
                   </div>
                 </div>
               ))}
@@ -261,6 +292,10 @@ export default function EducatorDashboard() {
           )}
         </div>
       </div>
+
+      <AssessmentPublishQueue />
+
+      <TutorFeedbackSummary />
     </div>
   );
 }
\ No newline at end of file
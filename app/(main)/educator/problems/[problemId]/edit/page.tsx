@@ -0,0 +1,48 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getProblemForEdit } from "@/lib/actions/problems";
+import { EditProblemForm } from "@/components/pblab/educator/edit-problem-form";
+
+export default async function EditProblemPage({
+  params
+}: {
+  params: Promise<{ problemId: string }>
+}) {
+  const { problemId } = await params;
+
+  const result = await getProblemForEdit(problemId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <span>Edit Problem</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Edit Problem</h1>
+        <p className="text-muted-foreground">
+          Update the problem in {result.data.course.name} and how the AI tutor supports it.
+          {' '}
+          <Link href={`/educator/problems/${problemId}/peer-assessment`} className="hover:text-foreground hover:underline">
+            Peer assessment settings
+          </Link>
+        </p>
+      </div>
+
+      {/* Form Section */}
+      <div className="max-w-4xl">
+        <EditProblemForm problem={result.data} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getPeerAssessmentSetup } from "@/lib/actions/peer-assessment";
+import { PeerAssessmentSettings } from "@/components/pblab/educator/peer-assessment-settings";
+
+export default async function ProblemPeerAssessmentPage({
+  params
+}: {
+  params: Promise<{ problemId: string }>
+}) {
+  const { problemId } = await params;
+
+  const result = await getPeerAssessmentSetup(problemId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <Link href={`/educator/problems/${problemId}/edit`} className="hover:text-foreground">
+          {result.data.problem.title}
+        </Link>
+        <span>→</span>
+        <span>Peer Assessment</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Peer Assessment</h1>
+        <p className="text-muted-foreground">
+          Have students in {result.data.course.name} rate their teammates&apos; contributions at the end
+          of the project.
+        </p>
+      </div>
+
+      <div className="max-w-4xl">
+        <PeerAssessmentSettings setup={result.data} />
+      </div>
+    </div>
+  );
+}
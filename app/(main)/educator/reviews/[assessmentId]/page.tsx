@@ -0,0 +1,44 @@
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { getAssessmentReview } from "@/lib/actions/assessment-workflow";
+import { AssessmentReviewForm } from "@/components/pblab/educator/assessment-review-form";
+
+export default async function AssessmentReviewPage({
+  params
+}: {
+  params: Promise<{ assessmentId: string }>
+}) {
+  const { assessmentId } = await params;
+
+  const result = await getAssessmentReview(assessmentId);
+
+  if (!result.success) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Link href="/educator/dashboard" className="hover:text-foreground">
+          Dashboard
+        </Link>
+        <span>→</span>
+        <span>Assessment Review</span>
+      </div>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{result.data.problem_title}</h1>
+        <p className="text-muted-foreground">
+          {result.data.assessor_name} asked you to review their assessment of {result.data.team_name} before
+          it is published to the team.
+        </p>
+      </div>
+
+      <div className="max-w-4xl">
+        <AssessmentReviewForm review={result.data} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+import { createClient } from "@/lib/supabase/server";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { canEducatorAssessProject, saveAiAssessmentDraft } from "@/lib/actions/assessments";
+import { aiFailureResponse, getLlmProvider, type JsonSchema, type LlmJsonResult, type LlmProvider } from "@/lib/ai";
+import { buildAssessmentPrompt } from "@/lib/ai/assessment";
+import { NextRequest, NextResponse } from "next/server";
+
+// Force Node.js runtime to support the AI provider SDKs
+export const runtime = 'nodejs';
+
+/**
+ * Shape of a single criterion score returned by the model
+ */
+interface AiCriterionScore {
+  criterion_id: string;
+  score: number;
+  justification: string;
+}
+
+/**
+ * POST /api/ai/assess
+ *
+ * Drafts a rubric assessment for a project in the post phase.
+ * Scores the cached final report content against the problem's rubric criteria
+ * and stores the result as a draft assessment with AI-generated scores,
+ * which the educator reviews and edits before submitting.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const { projectId } = await request.json();
+
+    // Validate required parameters
+    if (!projectId || typeof projectId !== 'string') {
+      return NextResponse.json(
+        { error: "projectId is required and must be a valid string" },
+        { status: 400 }
+      );
+    }
+
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
+      return NextResponse.json(
+        { error: "AI service is not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = await createClient();
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Verify the educator may assess this project (role, course ownership, phase, no prior assessment)
+    const permission = await canEducatorAssessProject(projectId);
+    if (!permission.success) {
+      return NextResponse.json(
+        { error: permission.error },
+        { status: 500 }
+      );
+    }
+    if (!permission.data.canAssess) {
+      return NextResponse.json(
+        { error: permission.data.reason || "You cannot assess this project" },
+        { status: 403 }
+      );
+    }
+
+    // Fetch the cached report content and rubric criteria
+    const { data: projectData, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        final_report_content,
+        problems!inner (
+          title,
+          description,
+          rubrics (
+            rubric_criteria (
+              id,
+              criterion_text,
+              max_score,
+              sort_order
+            )
+          )
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !projectData) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const reportContent = projectData.final_report_content?.trim();
+    if (!reportContent) {
+      return NextResponse.json(
+        { error: "The final report content is not available yet. Ask the team to resubmit their report." },
+        { status: 400 }
+      );
+    }
+
+    const problem = projectData.problems;
+    const criteria = [...(problem.rubrics?.rubric_criteria || [])]
+      .sort((a, b) => a.sort_order - b.sort_order);
+
+    if (criteria.length === 0) {
+      return NextResponse.json(
+        { error: "This problem has no rubric criteria to assess against" },
+        { status: 400 }
+      );
+    }
+
+    // Problem, rubric and report are delimited as untrusted content
+    const prompt = buildAssessmentPrompt(problem, criteria, reportContent);
+
+    const assessmentSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        scores: {
+          type: 'array',
+          minItems: criteria.length,
+          maxItems: criteria.length,
+          items: {
+            type: 'object',
+            properties: {
+              criterion_id: { type: 'string', enum: criteria.map(c => c.id) },
+              score: { type: 'integer', minimum: 1, maximum: Math.max(...criteria.map(c => c.max_score)) },
+              justification: { type: 'string' }
+            },
+            required: ['criterion_id', 'score', 'justification']
+          }
+        },
+        overall_feedback: { type: 'string' }
+      },
+      required: ['scores', 'overall_feedback']
+    };
+
+    // Make API call to the configured provider
+    let response: LlmJsonResult<{
+      scores?: Array<Partial<AiCriterionScore>>;
+      overall_feedback?: unknown;
+    }>;
+    try {
+      response = await provider.generateJson({
+        prompt,
+        temperature: 0.2,           // Low temperature for consistent grading
+        maxOutputTokens: 40000,
+      }, assessmentSchema);
+    } catch (generateError) {
+      console.error('Failed to generate AI assessment:', generateError);
+      await logAiFailure({
+        userId: user.id,
+        projectId,
+        feature: 'assessment',
+        prompt: { problem_title: problem.title, model_used: provider.model },
+        error: generateError
+      });
+      const failure = aiFailureResponse(generateError, "Failed to generate assessment. Please try again.");
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    const generatedText = response.text;
+
+    // Keep one well-formed score per rubric criterion
+    let scores: AiCriterionScore[];
+    let overallFeedback: string | undefined;
+    try {
+      const parsed = response.data;
+
+      scores = criteria
+        .map(criterion => {
+          const entry = parsed.scores?.find(s => s.criterion_id === criterion.id);
+          if (!entry || typeof entry.score !== 'number' || typeof entry.justification !== 'string') {
+            return null;
+          }
+          return {
+            criterion_id: criterion.id,
+            score: Math.min(Math.max(Math.round(entry.score), 1), criterion.max_score),
+            justification: entry.justification.trim() || 'No justification provided.'
+          };
+        })
+        .filter((entry): entry is AiCriterionScore => entry !== null);
+
+      if (scores.length !== criteria.length) {
+        throw new Error('AI response did not score every rubric criterion');
+      }
+
+      overallFeedback = typeof parsed.overall_feedback === 'string'
+        ? parsed.overall_feedback
+        : undefined;
+    } catch (parseError) {
+      console.error('Failed to parse AI assessment:', parseError);
+      return NextResponse.json(
+        { error: "The AI returned an incomplete assessment. Please try again." },
+        { status: 502 }
+      );
+    }
+
+    // Store the draft for the educator to review
+    const draftResult = await saveAiAssessmentDraft({
+      projectId,
+      scores,
+      overall_feedback: overallFeedback
+    });
+
+    if (!draftResult.success) {
+      return NextResponse.json(
+        { error: draftResult.error },
+        { status: 500 }
+      );
+    }
+
+    // Log AI usage for analytics and audit trail
+    try {
+      await logAiUsage({
+        userId: user.id,
+        projectId: projectId,
+        feature: 'assessment',
+        prompt: {
+          problem_title: problem.title,
+          criteria_count: criteria.length,
+          report_length: reportContent.length,
+          model_used: provider.model
+        },
+        response: {
+          assessment_id: draftResult.id,
+          scores: scores.map(s => ({ criterion_id: s.criterion_id, score: s.score })),
+          raw_response: generatedText
+        },
+        totalTokens: response.usage?.totalTokens
+      });
+    } catch (logError) {
+      // Log the error but don't fail the request
+      console.error('Failed to log AI usage:', logError);
+    }
+
+    // Return successful response
+    return NextResponse.json({
+      success: true,
+      assessmentId: draftResult.id,
+    });
+
+  } catch (error: unknown) {
+    console.error('AI assess error:', error);
+
+    // Handle specific error types
+    const errorObj = error as { status?: number; message?: string };
+    if (errorObj?.status === 429) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please try again in a few minutes." },
+        { status: 429 }
+      );
+    }
+
+    if (errorObj?.message?.includes('API key')) {
+      return NextResponse.json(
+        { error: "AI service configuration error" },
+        { status: 500 }
+      );
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      { error: "Failed to generate AI assessment draft. Please try again." },
+      { status: 500 }
+    );
+  }
+}
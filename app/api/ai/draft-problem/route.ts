@@ -0,0 +1,162 @@
+import { createClient } from "@/lib/supabase/server";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { aiFailureResponse, getLlmProvider, type LlmProvider } from "@/lib/ai";
+import { draftProblem, type ProblemDraftResult } from "@/lib/ai/problem-authoring";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import { NextRequest, NextResponse } from "next/server";
+
+// Force Node.js runtime to support the AI provider SDKs
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/ai/draft-problem
+ *
+ * Drafts a PBL problem for the problem creation form: a title, a Markdown
+ * scenario, staged information reveals and a rubric in `RubricData` shape.
+ * Nothing is saved; the educator accepts the parts they want into the form.
+ * Educators only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const { topic, level, outcomes } = await request.json();
+
+    // Validate required parameters
+    if (!topic || typeof topic !== 'string' || topic.trim().length === 0) {
+      return NextResponse.json(
+        { error: "topic is required and must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    if (!level || typeof level !== 'string' || level.trim().length === 0) {
+      return NextResponse.json(
+        { error: "level is required and must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(outcomes) || outcomes.some(outcome => typeof outcome !== 'string')) {
+      return NextResponse.json(
+        { error: "outcomes must be a list of strings" },
+        { status: 400 }
+      );
+    }
+
+    const targetOutcomes = outcomes.map((outcome: string) => outcome.trim()).filter(Boolean);
+    if (targetOutcomes.length === 0) {
+      return NextResponse.json(
+        { error: "At least one target outcome is required" },
+        { status: 400 }
+      );
+    }
+
+    if (topic.length > 500 || level.length > 200 || targetOutcomes.join('').length > 3000) {
+      return NextResponse.json(
+        { error: "Topic, level or outcomes are too long" },
+        { status: 400 }
+      );
+    }
+
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
+      return NextResponse.json(
+        { error: "AI service is not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = await createClient();
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Only educators author problems
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || !hasEducatorPermissions(userData.role)) {
+      return NextResponse.json(
+        { error: "Only educators can draft problems" },
+        { status: 403 }
+      );
+    }
+
+    const input = { topic: topic.trim(), level: level.trim(), outcomes: targetOutcomes };
+
+    let result: ProblemDraftResult;
+    try {
+      result = await draftProblem(provider, input);
+    } catch (draftError) {
+      console.error('Failed to draft problem:', draftError);
+      await logAiFailure({
+        userId: user.id,
+        feature: 'problem_authoring',
+        prompt: { topic: input.topic, level: input.level, model_used: provider.model },
+        error: draftError
+      });
+      const failure = aiFailureResponse(draftError, "The AI returned an incomplete draft. Please try again.");
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    // Log AI usage for analytics and audit trail
+    try {
+      await logAiUsage({
+        userId: user.id,
+        feature: 'problem_authoring',
+        prompt: {
+          ...input,
+          model_used: result.model
+        },
+        response: {
+          title: result.draft.title,
+          reveals_count: result.draft.reveals.length,
+          criteria_count: result.draft.rubric.criteria.length,
+          raw_response: result.text
+        },
+        totalTokens: result.usage?.totalTokens
+      });
+    } catch (logError) {
+      // Log the error but don't fail the request
+      console.error('Failed to log AI usage:', logError);
+    }
+
+    // Return successful response
+    return NextResponse.json({
+      success: true,
+      draft: result.draft,
+    });
+
+  } catch (error: unknown) {
+    console.error('AI draft-problem error:', error);
+
+    // Handle specific error types
+    const errorObj = error as { status?: number; message?: string };
+    if (errorObj?.status === 429) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please try again in a few minutes." },
+        { status: 429 }
+      );
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      { error: "Failed to draft the problem. Please try again." },
+      { status: 500 }
+    );
+  }
+}
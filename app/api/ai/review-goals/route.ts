@@ -0,0 +1,211 @@
+import { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import type { Json } from "@/lib/db.types";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { aiFailureResponse, getLlmProvider, type LlmProvider } from "@/lib/ai";
+import { reviewLearningGoals, type LearningGoalReviewResult } from "@/lib/ai/learning-goals";
+import { checkAiQuota, quotaExceededBody } from "@/lib/ai/quota";
+import { NextRequest, NextResponse } from "next/server";
+
+// Force Node.js runtime to support the AI provider SDKs
+export const runtime = 'nodejs';
+
+/** Longest goals text accepted for review */
+const MAX_GOALS_LENGTH = 10000;
+
+/**
+ * POST /api/ai/review-goals
+ *
+ * Reviews a team's learning goals against the project's problem. Each goal is
+ * scored for specificity, measurability and alignment, with feedback and a
+ * suggested rewrite. The goals themselves are not changed. Every review is
+ * stored in learning_goal_reviews so educators can see the feedback students
+ * received. Only team members can request a review.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const { projectId, goals } = await request.json();
+
+    // Validate required parameters
+    if (!projectId || typeof projectId !== 'string') {
+      return NextResponse.json(
+        { error: "projectId is required and must be a valid string" },
+        { status: 400 }
+      );
+    }
+
+    if (!goals || typeof goals !== 'string' || !goals.trim()) {
+      return NextResponse.json(
+        { error: "Write some learning goals before asking for a review" },
+        { status: 400 }
+      );
+    }
+
+    if (goals.length > MAX_GOALS_LENGTH) {
+      return NextResponse.json(
+        { error: `Learning goals must be ${MAX_GOALS_LENGTH} characters or fewer to review` },
+        { status: 400 }
+      );
+    }
+
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
+      return NextResponse.json(
+        { error: "AI service is not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = await createClient();
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Fetch project and associated problem data with authorization check
+    // RLS policies will ensure user only sees projects they have access to
+    const { data: projectData, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        phase,
+        team_id,
+        problems!inner (
+          title,
+          description
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !projectData) {
+      return NextResponse.json(
+        { error: "Project not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    // Reviews are stored as feedback the team received, so only members can ask
+    const { data: membership } = await supabase
+      .from('teams_users')
+      .select('team_id')
+      .eq('team_id', projectData.team_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "Only team members can request a review of their learning goals" },
+        { status: 403 }
+      );
+    }
+
+    if (projectData.phase === 'closed') {
+      return NextResponse.json(
+        { error: "Learning goals cannot be reviewed in a closed project" },
+        { status: 400 }
+      );
+    }
+
+    // Enforce the team's AI quota before calling the model
+    const quota = await checkAiQuota(supabase, projectId);
+    if (quota?.exceeded) {
+      return NextResponse.json(quotaExceededBody(quota), { status: 429 });
+    }
+
+    const problem = projectData.problems;
+
+    // Request the review as JSON, validated against the schema with one repair attempt
+    let result: LearningGoalReviewResult;
+    try {
+      result = await reviewLearningGoals(provider, problem, goals);
+    } catch (reviewError) {
+      console.error('Failed to review learning goals:', reviewError);
+      await logAiFailure({
+        userId: user.id,
+        projectId,
+        feature: 'goal_review',
+        prompt: { problem_title: problem.title, goals_length: goals.length, model_used: provider.model },
+        error: reviewError
+      });
+      const failure = aiFailureResponse(reviewError, "Failed to review your learning goals. Please try again.");
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    // Store the review so educators can see the feedback the team received.
+    // Users can only read reviews, so it is written with the service client.
+    let saved: { id: string; created_at: string } | null = null;
+    try {
+      const { data, error: saveError } = await createServiceClient()
+        .from('learning_goal_reviews')
+        .insert({
+          project_id: projectId,
+          requested_by: user.id,
+          goals,
+          review: result.review as unknown as Json,
+          model: result.model,
+        })
+        .select('id, created_at')
+        .single();
+
+      if (saveError || !data) {
+        console.error('Failed to save learning goal review:', saveError);
+      } else {
+        saved = data;
+      }
+    } catch (saveError) {
+      console.error('Failed to save learning goal review:', saveError);
+    }
+
+    // Log AI usage for analytics and audit trail
+    try {
+      await logAiUsage({
+        userId: user.id,
+        projectId: projectId,
+        feature: 'goal_review',
+        prompt: {
+          problem_title: problem.title,
+          goals,
+          model_used: result.model
+        },
+        response: {
+          review: result.review as unknown as Json,
+          review_id: saved?.id ?? null,
+          repaired: result.repaired,
+          raw_response: result.text
+        },
+        totalTokens: result.usage?.totalTokens
+      });
+    } catch (logError) {
+      // Log the error but don't fail the request
+      console.error('Failed to log AI usage:', logError);
+    }
+
+    // Return successful response
+    return NextResponse.json({
+      success: true,
+      review: result.review,
+      reviewedAt: saved?.created_at ?? new Date().toISOString(),
+    });
+
+  } catch (error: unknown) {
+    console.error('AI review-goals error:', error);
+
+    // Generic error response
+    return NextResponse.json(
+      { error: "Failed to review your learning goals. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { createClient } from "@/lib/supabase/server";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { aiFailureResponse, getLlmProvider, type LlmProvider } from "@/lib/ai";
+import { critiqueRubric, generateRubric } from "@/lib/ai/rubric-authoring";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import type { RubricCriterionData } from "@/lib/types/problems";
+import { NextRequest, NextResponse } from "next/server";
+
+// Force Node.js runtime to support the AI provider SDKs
+export const runtime = 'nodejs';
+
+/**
+ * Check that a request body value is a usable list of rubric criteria
+ */
+function isCriteriaList(value: unknown): value is RubricCriterionData[] {
+  return Array.isArray(value) && value.length > 0 && value.length <= 20 && value.every(criterion =>
+    criterion &&
+    typeof criterion.criterion_text === 'string' &&
+    criterion.criterion_text.trim().length > 0 &&
+    (criterion.max_score === undefined || typeof criterion.max_score === 'number') &&
+    (criterion.performance_levels === undefined || Array.isArray(criterion.performance_levels))
+  );
+}
+
+/**
+ * POST /api/ai/rubric
+ *
+ * Rubric assistant for the problem creation form. Two modes:
+ * - `generate`: proposes problem-specific criteria with suggested max scores
+ *   and performance-level descriptors from the problem title and description
+ * - `critique`: reviews the educator's current criteria for overlap,
+ *   vagueness and missing dimensions
+ * Nothing is saved. Educators only.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const { mode, title, description, criteria } = await request.json();
+
+    // Validate required parameters
+    if (mode !== 'generate' && mode !== 'critique') {
+      return NextResponse.json(
+        { error: "mode must be generate or critique" },
+        { status: 400 }
+      );
+    }
+
+    if (!title || typeof title !== 'string' || title.trim().length === 0) {
+      return NextResponse.json(
+        { error: "A problem title is required" },
+        { status: 400 }
+      );
+    }
+
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return NextResponse.json(
+        { error: "description must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (mode === 'critique' && !isCriteriaList(criteria)) {
+      return NextResponse.json(
+        { error: "criteria must be a non-empty list of rubric criteria with text" },
+        { status: 400 }
+      );
+    }
+
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
+      return NextResponse.json(
+        { error: "AI service is not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = await createClient();
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // Only educators author rubrics
+    const { data: userData } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (!userData || !hasEducatorPermissions(userData.role)) {
+      return NextResponse.json(
+        { error: "Only educators can use the rubric assistant" },
+        { status: 403 }
+      );
+    }
+
+    const problem = { title: title.trim(), description: description?.slice(0, 20000) ?? null };
+
+    if (mode === 'generate') {
+      let result;
+      try {
+        result = await generateRubric(provider, problem);
+      } catch (generateError) {
+        console.error('Failed to generate rubric:', generateError);
+        await logAiFailure({
+          userId: user.id,
+          feature: 'rubric_generation',
+          prompt: { problem_title: problem.title, model_used: provider.model },
+          error: generateError
+        });
+        const failure = aiFailureResponse(generateError, "The AI returned an incomplete rubric. Please try again.");
+        return NextResponse.json(failure.body, { status: failure.status });
+      }
+
+      // Log AI usage for analytics and audit trail
+      try {
+        await logAiUsage({
+          userId: user.id,
+          feature: 'rubric_generation',
+          prompt: {
+            problem_title: problem.title,
+            model_used: result.model
+          },
+          response: {
+            criteria_count: result.data.length,
+            raw_response: result.text
+          },
+          totalTokens: result.usage?.totalTokens
+        });
+      } catch (logError) {
+        // Log the error but don't fail the request
+        console.error('Failed to log AI usage:', logError);
+      }
+
+      return NextResponse.json({
+        success: true,
+        criteria: result.data,
+      });
+    }
+
+    let result;
+    try {
+      result = await critiqueRubric(provider, problem, criteria);
+    } catch (critiqueError) {
+      console.error('Failed to critique rubric:', critiqueError);
+      await logAiFailure({
+        userId: user.id,
+        feature: 'rubric_critique',
+        prompt: { problem_title: problem.title, criteria_count: criteria.length, model_used: provider.model },
+        error: critiqueError
+      });
+      const failure = aiFailureResponse(critiqueError, "Failed to critique the rubric. Please try again.");
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    // Log AI usage for analytics and audit trail
+    try {
+      await logAiUsage({
+        userId: user.id,
+        feature: 'rubric_critique',
+        prompt: {
+          problem_title: problem.title,
+          criteria_count: criteria.length,
+          model_used: result.model
+        },
+        response: {
+          issues: result.data.issues.map(issue => ({ type: issue.type, criteria: issue.criteria })),
+          raw_response: result.text
+        },
+        totalTokens: result.usage?.totalTokens
+      });
+    } catch (logError) {
+      // Log the error but don't fail the request
+      console.error('Failed to log AI usage:', logError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      critique: result.data,
+    });
+
+  } catch (error: unknown) {
+    console.error('AI rubric error:', error);
+
+    // Handle specific error types
+    const errorObj = error as { status?: number; message?: string };
+    if (errorObj?.status === 429) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please try again in a few minutes." },
+        { status: 429 }
+      );
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      { error: "The rubric assistant failed. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
-import { GoogleGenAI } from "@google/genai";
 import { createClient } from "@/lib/supabase/server";
-import { logAiUsage } from "@/lib/actions/ai";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { aiFailureResponse, getLlmProvider, type LlmProvider } from "@/lib/ai";
+import { suggestLearningGoals, type LearningGoalSuggestionsResult } from "@/lib/ai/learning-goals";
+import { checkAiQuota, quotaExceededBody } from "@/lib/ai/quota";
 import { NextRequest, NextResponse } from "next/server";
 
-// Force Node.js runtime to support Google GenAI package
+// Force Node.js runtime to support the AI provider SDKs
 export const runtime = 'nodejs';
 
 /**
@@ -11,6 +13,8 @@ export const runtime = 'nodejs';
  * 
  * Generates AI-powered learning goal suggestions for a PBL project.
  * Uses the project's associated problem title and description as context.
+ * Each suggestion has a goal, a rationale, a Bloom's level and suggested
+ * resources, validated against a schema before it is returned.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -25,19 +29,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify API key is configured
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      console.error('GEMINI_API_KEY environment variable is not set');
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
       return NextResponse.json(
         { error: "AI service is not configured" },
         { status: 500 }
       );
     }
 
-    // Get model from environment variable with fallback
-    const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
-
     // Create authenticated Supabase client
     const supabase = await createClient();
 
@@ -72,91 +75,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const problem = projectData.problems;
-    
-    // Construct educational prompt for learning goal suggestions
-    const prompt = `As an educational AI assistant for Problem-Based Learning (PBL), help students define learning goals for their project.
-
-Problem Title: "${problem.title}"
-
-Problem Description:
-${problem.description || 'No detailed description provided.'}
-
-Please generate 3-5 specific, measurable, and achievable learning goals that students should consider for this PBL project. Each goal should:
-1. Be specific and actionable
-2. Focus on skills, knowledge, or competencies students will develop
-3. Be appropriate for the problem domain
-4. Encourage deep learning and critical thinking
-
-Format your response as a JSON array of strings, where each string is a complete learning goal statement.
-
-Example format:
-["Develop proficiency in...", "Understand the relationship between...", "Apply critical thinking to..."]
-
-Learning Goals:`;
-
-    // Initialize Gemini AI client
-    const ai = new GoogleGenAI({ apiKey: apiKey });
-
-    // Make API call to Gemini
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        temperature: 0.7,           // Controls randomness (0.0-1.0, lower = more consistent)
-        maxOutputTokens: 40000,      // Generous limit for detailed learning goals (within 65k limit)
-        candidateCount: 1,          // Number of response variations
-        responseMimeType: 'application/json',  // Encourages JSON format
-        stopSequences: [']'],       // Stops generation after JSON array closes
-      }
-    });
-
-    // Extract the generated text
-    const generatedText = response.text || response.candidates?.[0]?.content?.parts?.[0]?.text;
-    
-    if (!generatedText) {
-      const finishReason = response.candidates?.[0]?.finishReason;
-      console.error('❌ No text found. Finish reason:', finishReason);
-      throw new Error(`Gemini replied with finishReason=${finishReason || 'unknown'}`);
+    // Enforce the team's AI quota before calling the model
+    const quota = await checkAiQuota(supabase, projectId);
+    if (quota?.exceeded) {
+      return NextResponse.json(quotaExceededBody(quota), { status: 429 });
     }
 
-    // Parse the response to extract the JSON array
-    let suggestions: string[];
+    const problem = projectData.problems;
+
+    // Request suggestions as JSON, validated against the schema with one repair attempt
+    let result: LearningGoalSuggestionsResult;
     try {
-      // Try to extract JSON array from the response
-      const jsonMatch = generatedText.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        suggestions = JSON.parse(jsonMatch[0]);
-      } else {
-        // Fallback: split by lines and clean up
-        suggestions = generatedText
-          .split('\n')
-          .map(line => line.trim())
-          .filter(line => line.length > 0 && !line.startsWith('[') && !line.startsWith(']'))
-          .map(line => line.replace(/^["'`-]*\s*/, '').replace(/["'`]*\s*$/, ''))
-          .filter(line => line.length > 10) // Filter out very short lines
-          .slice(0, 5); // Limit to 5 suggestions
-      }
-
-      // Ensure we have valid suggestions
-      if (!Array.isArray(suggestions) || suggestions.length === 0) {
-        throw new Error('Failed to parse learning goal suggestions');
-      }
-
-      // Clean up suggestions (remove quotes, numbering, etc.)
-      suggestions = suggestions.map(suggestion => 
-        suggestion.replace(/^\d+\.\s*/, '').replace(/^["'`]*\s*/, '').replace(/["'`]*\s*$/, '').trim()
-      ).filter(suggestion => suggestion.length > 0);
-
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', parseError);
-      // Fallback to basic text processing
-      suggestions = [
-        'Develop critical thinking skills related to the problem domain',
-        'Apply research methods to gather and analyze relevant information',
-        'Collaborate effectively with team members to solve complex problems',
-        'Communicate findings clearly through written and oral presentations'
-      ];
+      result = await suggestLearningGoals(provider, problem);
+    } catch (suggestError) {
+      console.error('Failed to generate learning goal suggestions:', suggestError);
+      await logAiFailure({
+        userId: user.id,
+        projectId,
+        feature: 'suggest_goals',
+        prompt: { problem_title: problem.title, model_used: provider.model },
+        error: suggestError
+      });
+      const failure = aiFailureResponse(suggestError, "Failed to generate learning goal suggestions. Please try again.");
+      return NextResponse.json(failure.body, { status: failure.status });
     }
 
     // Log AI usage for analytics and audit trail
@@ -168,12 +109,19 @@ Learning Goals:`;
         prompt: { 
           problem_title: problem.title,
           problem_description: problem.description,
-          model_used: model 
+          model_used: result.model 
         },
         response: { 
-          suggestions: suggestions,
-          raw_response: generatedText 
-        }
+          suggestions: result.suggestions.map(suggestion => ({
+            goal: suggestion.goal,
+            rationale: suggestion.rationale,
+            bloom_level: suggestion.bloomLevel,
+            resources: suggestion.resources
+          })),
+          repaired: result.repaired,
+          raw_response: result.text 
+        },
+        totalTokens: result.usage?.totalTokens
       });
     } catch (logError) {
       // Log the error but don't fail the request
@@ -183,7 +131,7 @@ Learning Goals:`;
     // Return successful response
     return NextResponse.json({
       success: true,
-      suggestions: suggestions,
+      suggestions: result.suggestions,
     });
 
   } catch (error: unknown) {
@@ -0,0 +1,236 @@
+import { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import type { Json } from "@/lib/db.types";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { aiFailureResponse, getLlmProvider, type LlmProvider } from "@/lib/ai";
+import { checkAiQuota, quotaExceededBody } from "@/lib/ai/quota";
+import {
+  MIN_COMMENTS_TO_SUMMARIZE,
+  summarizeDiscussion,
+  type DiscussionSummary,
+  type DiscussionSummaryResult
+} from "@/lib/ai/discussion-summary";
+import { NextRequest, NextResponse } from "next/server";
+
+// Force Node.js runtime to support the AI provider SDKs
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/ai/summarize-discussion
+ *
+ * Summarizes an artifact's comment thread into key points, open questions and
+ * decisions, citing comment authors. Summaries are cached per artifact and
+ * reused until new comments arrive, so only fresh summaries call the model
+ * (and are logged in ai_usage against the artifact's project). The cache is
+ * written with the service client so users cannot store their own summaries.
+ * Only team members' requests count towards the team's AI quota.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const { artifactId } = await request.json();
+
+    // Validate required parameters
+    if (!artifactId || typeof artifactId !== 'string') {
+      return NextResponse.json(
+        { error: "artifactId is required and must be a valid string" },
+        { status: 400 }
+      );
+    }
+
+    // Create authenticated Supabase client
+    const supabase = await createClient();
+
+    // Verify user is authenticated
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    // RLS policies ensure the user can only see artifacts in their projects
+    const { data: artifact, error: artifactError } = await supabase
+      .from('artifacts')
+      .select('id, title, project_id, projects!inner(team_id)')
+      .eq('id', artifactId)
+      .single();
+
+    if (artifactError || !artifact) {
+      return NextResponse.json(
+        { error: "Artifact not found or access denied" },
+        { status: 404 }
+      );
+    }
+
+    const { data: comments, error: commentsError } = await supabase
+      .from('comments')
+      .select(`
+        id,
+        body,
+        author:users!comments_author_id_fkey (
+          name,
+          email
+        )
+      `)
+      .eq('artifact_id', artifactId)
+      .order('created_at', { ascending: true });
+
+    if (commentsError) {
+      return NextResponse.json(
+        { error: "Failed to load comments" },
+        { status: 500 }
+      );
+    }
+
+    if (!comments || comments.length < MIN_COMMENTS_TO_SUMMARIZE) {
+      return NextResponse.json(
+        { error: `A discussion needs at least ${MIN_COMMENTS_TO_SUMMARIZE} comments to summarize` },
+        { status: 400 }
+      );
+    }
+
+    const lastCommentId = comments[comments.length - 1].id;
+
+    // Reuse the cached summary while no comments have been added or removed
+    const { data: cached } = await supabase
+      .from('artifact_discussion_summaries')
+      .select('summary, comment_count, last_comment_id, updated_at')
+      .eq('artifact_id', artifactId)
+      .maybeSingle();
+
+    if (cached && cached.comment_count === comments.length && cached.last_comment_id === lastCommentId) {
+      return NextResponse.json({
+        success: true,
+        summary: cached.summary as unknown as DiscussionSummary,
+        commentCount: cached.comment_count,
+        generatedAt: cached.updated_at,
+        cached: true,
+      });
+    }
+
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
+      return NextResponse.json(
+        { error: "AI service is not configured" },
+        { status: 500 }
+      );
+    }
+
+    // Enforce the team's AI quota when a team member asks; educators are not charged to it
+    const { data: membership } = await supabase
+      .from('teams_users')
+      .select('team_id')
+      .eq('team_id', artifact.projects.team_id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (membership) {
+      const quota = await checkAiQuota(supabase, artifact.project_id);
+      if (quota?.exceeded) {
+        return NextResponse.json(quotaExceededBody(quota), { status: 429 });
+      }
+    }
+
+    let result: DiscussionSummaryResult;
+    try {
+      result = await summarizeDiscussion(
+        provider,
+        artifact.title,
+        comments.map(comment => ({
+          authorName: comment.author.name || comment.author.email,
+          body: comment.body,
+        }))
+      );
+    } catch (summaryError) {
+      console.error('Failed to summarize discussion:', summaryError);
+      await logAiFailure({
+        userId: user.id,
+        projectId: artifact.project_id,
+        feature: 'discussion_summary',
+        prompt: { artifact_id: artifactId, comment_count: comments.length, model_used: provider.model },
+        error: summaryError
+      });
+      const failure = aiFailureResponse(summaryError, "Failed to summarize the discussion. Please try again.");
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    const generatedAt = new Date().toISOString();
+
+    // Cache the summary; a failed save only means the next request regenerates it.
+    // Users can only read the cache, so it is written with the service client.
+    try {
+      const { error: saveError } = await createServiceClient()
+        .from('artifact_discussion_summaries')
+        .upsert({
+          artifact_id: artifactId,
+          summary: result.summary as unknown as Json,
+          comment_count: comments.length,
+          last_comment_id: lastCommentId,
+          model: result.model,
+          generated_by: user.id,
+          updated_at: generatedAt,
+        }, { onConflict: 'artifact_id' });
+
+      if (saveError) {
+        console.error('Failed to cache discussion summary:', saveError);
+      }
+    } catch (cacheError) {
+      console.error('Failed to cache discussion summary:', cacheError);
+    }
+
+    // Log AI usage for analytics and audit trail
+    try {
+      await logAiUsage({
+        userId: user.id,
+        projectId: artifact.project_id,
+        feature: 'discussion_summary',
+        prompt: {
+          artifact_id: artifactId,
+          artifact_title: artifact.title,
+          comment_count: comments.length,
+          model_used: result.model
+        },
+        response: {
+          summary: result.summary as unknown as Json,
+          raw_response: result.text
+        },
+        totalTokens: result.usage?.totalTokens
+      });
+    } catch (logError) {
+      // Log the error but don't fail the request
+      console.error('Failed to log AI usage:', logError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: result.summary,
+      commentCount: comments.length,
+      generatedAt,
+      cached: false,
+    });
+
+  } catch (error: unknown) {
+    console.error('AI summarize-discussion error:', error);
+
+    // Handle specific error types
+    const errorObj = error as { status?: number; message?: string };
+    if (errorObj?.status === 429) {
+      return NextResponse.json(
+        { error: "Rate limit exceeded. Please try again in a few minutes." },
+        { status: 429 }
+      );
+    }
+
+    // Generic error response
+    return NextResponse.json(
+      { error: "Failed to summarize the discussion. Please try again." },
+      { status: 500 }
+    );
+  }
+}
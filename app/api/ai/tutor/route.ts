@@ -1,21 +1,216 @@
-import { GoogleGenAI } from "@google/genai";
 import { createClient } from "@/lib/supabase/server";
-import { logAiUsage } from "@/lib/actions/ai";
-import { NextRequest, NextResponse } from "next/server";
+import { logAiFailure, logAiUsage } from "@/lib/actions/ai";
+import { aiFailureResponse, getLlmProvider, type LlmMessage, type LlmProvider, type LlmRequest, type LlmResult, type LlmStreamChunk } from "@/lib/ai";
+import { classifyTutorExchange, recordIntegrityFlags } from "@/lib/ai/integrity";
+import { checkAiQuota, quotaExceededBody } from "@/lib/ai/quota";
+import { sanitizeUntrusted } from "@/lib/ai/prompt";
+import { buildTutorMemory } from "@/lib/ai/tutor-memory";
+import { buildTutorSystemInstruction, loadTutorProjectContext, TUTOR_PROMPT_VERSION } from "@/lib/ai/tutor-context";
+import { loadTutorPolicy } from "@/lib/ai/tutor-policy";
+import { getTutorProfile, isTutorAction, TUTOR_ACTIONS, type TutorAction } from "@/lib/ai/tutor-profiles";
+import type { Database } from "@/lib/db.types";
+import { after, NextRequest, NextResponse } from "next/server";
 
-// Force Node.js runtime to support Google GenAI package
+// Force Node.js runtime to support the AI provider SDKs
 export const runtime = 'nodejs';
 
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
+/**
+ * Context needed to record a completed tutor exchange
+ */
+interface TutorExchange {
+  supabase: Awaited<ReturnType<typeof createClient>>;
+  userId: string;
+  projectId: string;
+  message: string;
+  model: string;
+  conversationLength: number;
+  contextIncluded: number;
+  phase: ProjectPhase;
+  action: TutorAction | null;
+  policyVersion: number | null;
+  /** Whether the exchange belongs to the user's private thread */
+  isPrivate: boolean;
+}
+
+/**
+ * Log a completed tutor exchange and notify team members
+ *
+ * Logging and broadcasting failures are reported but never fail the request.
+ *
+ * @param exchange - Details of the exchange to record
+ * @param tutorResponse - Full text of the tutor's response
+ * @param totalTokens - Tokens reported by the provider, if any
+ * @returns ID of the new ai_usage row, or null if logging failed
+ */
+async function recordTutorExchange(
+  exchange: TutorExchange,
+  tutorResponse: string,
+  totalTokens?: number
+): Promise<string | null> {
+  const {
+    supabase, userId, projectId, message, model, conversationLength, contextIncluded, phase, action, policyVersion,
+    isPrivate
+  } = exchange;
+
+  // Log AI usage for analytics and audit trail
+  let newRowId: string | null = null;
+  try {
+    const logResult = await logAiUsage({
+      userId: userId,
+      projectId: projectId,
+      feature: 'tutor',
+      prompt: { 
+        message: message,
+        conversation_length: conversationLength,
+        model_used: model,
+        prompt_version: TUTOR_PROMPT_VERSION,
+        phase,
+        action,
+        policy_version: policyVersion
+      },
+      response: { 
+        text: tutorResponse,
+        context_included: contextIncluded
+      },
+      totalTokens,
+      isPrivate
+    });
+    
+    if (logResult.success) {
+      newRowId = logResult.id;
+    }
+  } catch (logError) {
+    // Log the error but don't fail the request
+    console.error('Failed to log AI usage:', logError);
+  }
+
+  // Broadcast to team members that new AI usage was logged (team thread only)
+  try {
+    if (newRowId && !isPrivate) {
+      // Use the same channel name as the client
+      const channelName = `project_${projectId}_ai_tutor`;
+      const channel = supabase.channel(channelName);
+      
+      await channel.subscribe();
+      channel.send({
+        type: 'broadcast',
+        event: 'new_ai_usage',
+        payload: { id: newRowId, projectId }
+      });
+      
+      // Clean up the channel
+      await channel.unsubscribe();
+    }
+  } catch (broadcastError) {
+    // Log the error but don't fail the request
+    console.error('Failed to broadcast new AI usage:', broadcastError);
+  }
+
+  return newRowId;
+}
+
+/**
+ * Record a failed tutor call in ai_usage and build the error response
+ *
+ * @param exchange - Details of the attempted exchange
+ * @param error - Error raised by the provider call
+ * @returns Status code and body for the error response
+ */
+async function recordTutorFailure(exchange: TutorExchange, error: unknown) {
+  console.error('AI tutor call failed:', error);
+
+  await logAiFailure({
+    userId: exchange.userId,
+    projectId: exchange.projectId,
+    feature: 'tutor',
+    prompt: {
+      message: exchange.message,
+      model_used: exchange.model,
+      prompt_version: TUTOR_PROMPT_VERSION,
+      phase: exchange.phase,
+      action: exchange.action
+    },
+    error,
+    isPrivate: exchange.isPrivate
+  });
+
+  return aiFailureResponse(error, "Failed to get tutor response. Please try again.");
+}
+
+/**
+ * Classify a logged tutor exchange and store any integrity flags
+ *
+ * Runs on every exchange so educators can review answer seeking, ghostwriting
+ * and off-topic use. Flags are only stored in ai_integrity_flags, which
+ * students cannot read, and nothing about the classification is added to
+ * ai_usage. Runs after the response has been sent; failures are reported
+ * but never surface to the student.
+ *
+ * @param exchange - Details of the recorded exchange
+ * @param provider - Provider used for the classification
+ * @param aiUsageId - ai_usage row of the exchange
+ * @param tutorResponse - Full text of the tutor's response
+ */
+async function checkExchangeIntegrity(
+  exchange: TutorExchange,
+  provider: LlmProvider,
+  aiUsageId: string,
+  tutorResponse: string
+): Promise<void> {
+  try {
+    const classification = await classifyTutorExchange(provider, {
+      message: exchange.message,
+      response: tutorResponse
+    });
+
+    await recordIntegrityFlags(aiUsageId, exchange.projectId, exchange.userId, classification.flags);
+  } catch (integrityError) {
+    // Log the error but don't fail the request
+    console.error('Failed to check tutor exchange integrity:', integrityError);
+  }
+}
+
+/**
+ * Format a server-sent event
+ *
+ * @param event - Event name (`chunk`, `done` or `error`)
+ * @param data - JSON-serialisable payload
+ */
+function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
 /**
  * POST /api/ai/tutor
  * 
  * AI-powered tutoring assistant with contextual memory for PBL projects.
- * Maintains conversation history across interactions within the same project.
+ * Maintains conversation history across interactions within the same project:
+ * recent turns are replayed verbatim and older turns as a rolling summary.
+ * The system instruction includes the problem, the team's learning goals, the
+ * current phase and the team's artifacts.
+ *
+ * Behaviour follows the profile for the project's phase (instructions,
+ * temperature and allowed `action`s). Closed projects are read-only and the
+ * tutor no longer answers. The problem's active tutor policy is merged into
+ * the instructions and its version is logged with each exchange. Every
+ * exchange is then classified for academic integrity concerns, which are
+ * stored as flags for the course educator to review.
+ *
+ * With `thread: 'private'` the exchange goes to the student's private thread:
+ * only their own private turns are replayed, nothing is broadcast to the team,
+ * and only the student and course educators can read it.
+ *
+ * When the request body includes `stream: true`, the response is streamed as
+ * server-sent events: `chunk` events carry partial text, followed by a single
+ * `done` event (with the logged ai_usage ID) or an `error` event. The full
+ * response is logged and broadcast to the team once the stream has finished.
  */
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
-    const { projectId, message } = await request.json();
+    const { projectId, message, stream, action, thread } = await request.json();
 
     // Validate required parameters
     if (!projectId || typeof projectId !== 'string') {
@@ -32,19 +227,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify API key is configured
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      console.error('GEMINI_API_KEY environment variable is not set');
+    if (thread != null && thread !== 'team' && thread !== 'private') {
+      return NextResponse.json(
+        { error: "thread must be 'team' or 'private'" },
+        { status: 400 }
+      );
+    }
+    const isPrivate = thread === 'private';
+
+    if (action != null && !isTutorAction(action)) {
+      return NextResponse.json(
+        { error: "action must be a valid tutor action" },
+        { status: 400 }
+      );
+    }
+
+    // Verify the AI provider is configured
+    let provider: LlmProvider;
+    try {
+      provider = getLlmProvider();
+    } catch (configError) {
+      console.error('AI provider is not configured:', configError);
       return NextResponse.json(
         { error: "AI service is not configured" },
         { status: 500 }
       );
     }
 
-    // Get model from environment variable with fallback
-    const model = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
-
     // Create authenticated Supabase client
     const supabase = await createClient();
 
@@ -60,7 +269,7 @@ export async function POST(request: NextRequest) {
     // Verify user has access to the project (RLS will handle this)
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
-      .select('id, team_id')
+      .select('id, team_id, phase, problem_id')
       .eq('id', projectId)
       .single();
 
@@ -71,143 +280,174 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Retrieve previous tutor conversations for this project
-    const { data: conversationHistory, error: historyError } = await supabase
-      .from('ai_usage')
-      .select('prompt, response, created_at')
-      .eq('project_id', projectId)
-      .eq('feature', 'tutor')
-      .order('created_at', { ascending: true });
-
-    if (historyError) {
-      console.error('Failed to retrieve conversation history:', historyError);
-      // Continue without history rather than failing completely
+    // Closed projects keep a read-only transcript
+    const profile = getTutorProfile(projectData.phase);
+    if (!profile) {
+      return NextResponse.json(
+        { error: "This project is closed. The tutor conversation is now read-only." },
+        { status: 403 }
+      );
     }
 
-    // Format conversation history for Gemini API
-    const formattedHistory: Array<{ role: string; content: string }> = [];
-    
-    if (conversationHistory && conversationHistory.length > 0) {
-      for (const entry of conversationHistory) {
-        // Add user message
-        if (entry.prompt) {
-          const promptText = typeof entry.prompt === 'string' 
-            ? entry.prompt 
-            : (entry.prompt as Record<string, unknown>)?.message as string || JSON.stringify(entry.prompt);
-          formattedHistory.push({
-            role: 'user',
-            content: promptText
-          });
-        }
+    const requestedAction: TutorAction | null = action ?? null;
+    if (requestedAction && !profile.allowedActions.includes(requestedAction)) {
+      return NextResponse.json(
+        { error: `"${TUTOR_ACTIONS[requestedAction].label}" is not available in the ${projectData.phase} phase` },
+        { status: 400 }
+      );
+    }
 
-        // Add AI response
-        if (entry.response) {
-          const responseText = typeof entry.response === 'string'
-            ? entry.response
-            : (entry.response as Record<string, unknown>)?.text as string || JSON.stringify(entry.response);
-          formattedHistory.push({
-            role: 'model',
-            content: responseText
-          });
-        }
-      }
+    // Enforce the team's AI quota before calling the model
+    const quota = await checkAiQuota(supabase, projectId);
+    if (quota?.exceeded) {
+      return NextResponse.json(quotaExceededBody(quota), { status: 429 });
     }
 
-    // Add current user message
-    formattedHistory.push({
-      role: 'user',
-      content: message
+    // Recent turns verbatim plus a rolling summary of older turns
+    const memory = await buildTutorMemory(supabase, provider, {
+      projectId,
+      userId: user.id,
+      privateThread: isPrivate
     });
 
-    // Construct educational prompt for AI tutor
-    const systemInstruction = `You are an AI tutoring assistant for Problem-Based Learning (PBL). Your role is to guide students through their learning process without giving direct answers.
-
-Key principles:
-1. Ask probing questions to help students think critically
-2. Provide hints and guidance rather than complete solutions
-3. Encourage students to explore, research, and collaborate
-4. Help students connect new information to their existing knowledge
-5. Support their problem-solving process while fostering independence
-6. Be encouraging and supportive of their learning journey
-
-Remember: This is a shared conversation for the entire project team. Previous messages in this conversation are from team members working on the same PBL project.`;
-
-    // Initialize Gemini AI client
-    const ai = new GoogleGenAI({ apiKey: apiKey });
-
-    // Prepare conversation contents for Gemini
-    const conversationContents = formattedHistory.map(msg => ({
-      role: msg.role === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.content }]
-    }));
-
-    // Make API call to Gemini
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: conversationContents,
-      config: {
-        temperature: 0.7,           // Balanced creativity for educational responses
-        maxOutputTokens: 65000,      // Generous limit for detailed tutoring responses
-        candidateCount: 1,          // Single response
-        systemInstruction: {
-          parts: [{ text: systemInstruction }]
-        },
+    // Format conversation history for the model
+    const formattedHistory: LlmMessage[] = [
+      ...memory.messages,
+      // Add current user message
+      {
+        role: 'user',
+        content: sanitizeUntrusted(message)
       }
+    ];
+
+    // Ground the tutor in the project's problem, goals, phase and artifacts
+    const projectContext = await loadTutorProjectContext(supabase, projectId);
+
+    // Merge the educator's policy for this problem (never sent to students)
+    const policy = await loadTutorPolicy(projectData.problem_id);
+
+    const systemInstruction = buildTutorSystemInstruction({
+      context: projectContext,
+      summary: memory.summary,
+      profile,
+      policy,
+      action: requestedAction,
+      privateThread: isPrivate
     });
 
-    // Extract the generated response
-    const tutorResponse = response.text;
-    
-    if (!tutorResponse) {
-      throw new Error('No response generated from AI tutor service');
-    }
+    const tutorRequest: LlmRequest = {
+      messages: formattedHistory,
+      systemInstruction,
+      temperature: profile.temperature, // Set per phase
+      maxOutputTokens: 65000,      // Generous limit for detailed tutoring responses
+    };
 
-    // Log AI usage for analytics and audit trail
-    let newRowId: string | null = null;
-    try {
-      const logResult = await logAiUsage({
-        userId: user.id,
-        projectId: projectId,
-        feature: 'tutor',
-        prompt: { 
-          message: message,
-          conversation_length: formattedHistory.length,
-          model_used: model 
+    const exchange: TutorExchange = {
+      supabase,
+      userId: user.id,
+      projectId,
+      message,
+      model: provider.model,
+      conversationLength: formattedHistory.length,
+      contextIncluded: memory.recentTurns,
+      phase: projectData.phase,
+      action: requestedAction,
+      policyVersion: policy?.version ?? null,
+      isPrivate
+    };
+
+    // Stream the response as server-sent events
+    if (stream === true) {
+      // Wait for the first chunk so provider errors (e.g. rate limits) are
+      // returned as regular JSON errors rather than inside the stream
+      const clientAbort = new AbortController();
+      const responseStream = provider
+        .stream({ ...tutorRequest, signal: clientAbort.signal })[Symbol.asyncIterator]();
+      let firstChunk: IteratorResult<LlmStreamChunk>;
+      try {
+        firstChunk = await responseStream.next();
+      } catch (streamError) {
+        const failure = await recordTutorFailure(exchange, streamError);
+        return NextResponse.json(failure.body, { status: failure.status });
+      }
+
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let tutorResponse = '';
+          let totalTokens: number | undefined;
+          let newRowId: string | null = null;
+          try {
+            let next = firstChunk;
+            while (!next.done) {
+              const text = next.value.text;
+              totalTokens = next.value.usage?.totalTokens ?? totalTokens;
+              if (text) {
+                tutorResponse += text;
+                controller.enqueue(encoder.encode(formatSseEvent('chunk', { text })));
+              }
+              next = await responseStream.next();
+            }
+
+            if (!tutorResponse) {
+              throw new Error('No response generated from AI tutor service');
+            }
+
+            newRowId = await recordTutorExchange(exchange, tutorResponse, totalTokens);
+            controller.enqueue(encoder.encode(formatSseEvent('done', { id: newRowId })));
+          } catch (streamError) {
+            // A disconnected client is not a provider failure, and its stream is gone
+            if (clientAbort.signal.aborted) return;
+            const failure = await recordTutorFailure(exchange, streamError);
+            controller.enqueue(encoder.encode(formatSseEvent('error', failure.body)));
+          } finally {
+            if (!clientAbort.signal.aborted) {
+              controller.close();
+            }
+          }
+
+          // Classify once the stream is closed so the student is not kept waiting
+          if (newRowId) {
+            await checkExchangeIntegrity(exchange, provider, newRowId, tutorResponse);
+          }
         },
-        response: { 
-          text: tutorResponse,
-          context_included: conversationHistory ? conversationHistory.length : 0
+        // The client disconnected: stop the provider request instead of
+        // generating a response nobody reads
+        cancel(reason) {
+          clientAbort.abort(reason);
         }
       });
-      
-      if (logResult.success) {
-        newRowId = logResult.id;
-      }
-    } catch (logError) {
-      // Log the error but don't fail the request
-      console.error('Failed to log AI usage:', logError);
+
+      return new Response(body, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+        },
+      });
     }
 
-    // Broadcast to team members that new AI usage was logged
+    // Make API call to the configured provider
+    let response: LlmResult;
     try {
-      if (newRowId) {
-        // Use the same channel name as the client
-        const channelName = `project_${projectId}_ai_tutor`;
-        const channel = supabase.channel(channelName);
-        
-        await channel.subscribe();
-        channel.send({
-          type: 'broadcast',
-          event: 'new_ai_usage',
-          payload: { id: newRowId, projectId }
-        });
-        
-        // Clean up the channel
-        await channel.unsubscribe();
-      }
-    } catch (broadcastError) {
-      // Log the error but don't fail the request
-      console.error('Failed to broadcast new AI usage:', broadcastError);
+      response = await provider.generate(tutorRequest);
+    } catch (generateError) {
+      const failure = await recordTutorFailure(exchange, generateError);
+      return NextResponse.json(failure.body, { status: failure.status });
+    }
+
+    // Extract the generated response
+    const tutorResponse = response.text;
+    
+    if (!tutorResponse) {
+      throw new Error('No response generated from AI tutor service');
+    }
+
+    // Log the exchange and notify team members
+    const newRowId = await recordTutorExchange(exchange, tutorResponse, response.usage?.totalTokens);
+    if (newRowId) {
+      // Classify after the response has been sent
+      after(() => checkExchangeIntegrity(exchange, provider, newRowId, tutorResponse));
     }
 
     // Return successful response
@@ -1,4 +1,5 @@
 import { notFound } from "next/navigation";
+import Link from "next/link";
 import { createClient } from "@/lib/supabase/server";
 import { getAuthenticatedUser } from "@/lib/actions/shared/authorization";
 import { LearningGoalEditor } from "@/components/pblab/project/learning-goal-editor";
@@ -6,6 +7,13 @@ import { ProjectArtifacts } from "@/components/pblab/project/project-artifacts";
 import { AiTutorChat } from "@/components/pblab/ai/ai-tutor-chat";
 import { FinalReportSubmission } from "@/components/pblab/project/final-report-submission";
 import { RubricAssessment } from "@/components/pblab/educator/rubric-assessment";
+import { AssessmentModerationPanel } from "@/components/pblab/educator/assessment-moderation-panel";
+import { PeerAssessmentResults } from "@/components/pblab/educator/peer-assessment-results";
+import { PeerAssessmentForm } from "@/components/pblab/project/peer-assessment-form";
+import { SelfAssessmentForm } from "@/components/pblab/project/self-assessment-form";
+import { TutorMemorySummary } from "@/components/pblab/educator/tutor-memory-summary";
+import { TutorContextPreview } from "@/components/pblab/educator/tutor-context-preview";
+import { LearningGoalReviews } from "@/components/pblab/educator/learning-goal-reviews";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { GoogleDocPreview } from "@/components/pblab/project/google-doc-preview";
@@ -70,7 +78,7 @@ async function getProjectData(projectId: string, userId: string, userRole: strin
 
   // Additional authorization check for educators
   if (userRole === 'educator') {
-    // Educators can access projects in their courses
+    // Educators can access projects in courses they teach or assess
     // RLS should handle this, but we can add explicit check if needed
     const { data: educatorCourse } = await supabase
       .from('problems')
@@ -160,6 +168,14 @@ export default async function ProjectWorkspace({
             <h1 className="text-3xl font-bold tracking-tight">{project.problem.title}</h1>
             <p className="text-muted-foreground">
               Team: {project.team.name} • Course: {project.team.course.name}
+              {(user.role === 'educator' || user.role === 'admin') && (
+                <>
+                  {' • '}
+                  <Link href={`/educator/problems/${project.problem.id}/edit`} className="hover:text-foreground hover:underline">
+                    Edit problem & tutor policy
+                  </Link>
+                </>
+              )}
             </p>
           </div>
           <Badge variant={getPhaseVariant(project.phase)} className="capitalize">
@@ -269,9 +285,21 @@ export default async function ProjectWorkspace({
                       </Card>
                     )}
                     
-                    {/* Rubric Assessment for Educators */}
+                    {/* Students rate their own work and their teammates' contributions */}
+                    {user.role === 'student' && (
+                      <>
+                        <SelfAssessmentForm projectId={project.id} />
+                        <PeerAssessmentForm projectId={project.id} />
+                      </>
+                    )}
+                    
+                    {/* Rubric Assessment for Educators, and moderation when several assessors grade */}
                     {(user.role === 'educator' || user.role === 'admin') && (
-                      <RubricAssessment projectId={project.id} />
+                      <>
+                        <RubricAssessment projectId={project.id} />
+                        <AssessmentModerationPanel projectId={project.id} />
+                        <PeerAssessmentResults projectId={project.id} />
+                      </>
                     )}
                     
                     {/* Show artifacts in read-only mode for post phase */}
@@ -321,6 +349,15 @@ export default async function ProjectWorkspace({
                     {/* Show assessment results */}
                     <AssessmentResults projectId={project.id} />
                     
+                    {/* Educators can still revise their submitted or moderated assessment and see peer ratings */}
+                    {(user.role === 'educator' || user.role === 'admin') && (
+                      <>
+                        <RubricAssessment projectId={project.id} />
+                        <AssessmentModerationPanel projectId={project.id} />
+                        <PeerAssessmentResults projectId={project.id} />
+                      </>
+                    )}
+                    
                     {/* Show artifacts in read-only mode for closed phase */}
                     <ProjectArtifacts
                       projectId={project.id}
@@ -334,12 +371,24 @@ export default async function ProjectWorkspace({
             )}
           </CardContent>
         </Card>
+
+        {/* Learning Goal Feedback, AI Tutor Memory and Context for Educators */}
+        {(user.role === 'educator' || user.role === 'admin') && (
+          <>
+            <LearningGoalReviews projectId={project.id} />
+            <TutorMemorySummary projectId={project.id} />
+            <TutorContextPreview projectId={project.id} />
+          </>
+        )}
       </div>
 
       {/* AI Tutor Chat Sidebar */}
       <div className="flex-shrink-0">
         <AiTutorChat 
           projectId={project.id}
+          projectPhase={project.phase}
+          canRate={user.role === 'student'}
+          allowPrivateThread={user.role === 'student'}
           className="sticky top-6"
         />
       </div>
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Gauge } from "lucide-react";
+import { getProjectAiQuota } from "@/lib/actions/ai-quotas";
+import type { AiQuotaStatus } from "@/lib/ai/quota";
+import { cn } from "@/lib/utils";
+
+interface AiQuotaIndicatorProps {
+  projectId: string;
+  /** Change this value to reload the quota after an AI call */
+  refreshKey?: number;
+  className?: string;
+}
+
+/**
+ * Shows the team's remaining AI allowance for the current quota window
+ *
+ * Renders nothing when no quota applies to the project.
+ */
+export function AiQuotaIndicator({ projectId, refreshKey = 0, className }: AiQuotaIndicatorProps) {
+  const [quota, setQuota] = useState<AiQuotaStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getProjectAiQuota(projectId)
+      .then(result => {
+        if (!cancelled && result.success) {
+          setQuota(result.data);
+        }
+      })
+      .catch(err => console.error("Error loading AI quota:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, refreshKey]);
+
+  if (!quota) {
+    return null;
+  }
+
+  const parts: string[] = [];
+  if (quota.callsRemaining !== null) {
+    parts.push(`${quota.callsRemaining}/${quota.maxCalls} requests`);
+  }
+  if (quota.tokensRemaining !== null) {
+    parts.push(`${quota.tokensRemaining.toLocaleString()}/${quota.maxTokens?.toLocaleString()} tokens`);
+  }
+
+  const resetsAt = new Date(quota.resetsAt).toLocaleString(undefined, {
+    weekday: quota.period === 'weekly' ? 'short' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return (
+    <p
+      className={cn(
+        "flex items-center justify-center gap-1 text-xs",
+        quota.exceeded ? "text-red-600" : "text-muted-foreground",
+        className
+      )}
+    >
+      <Gauge className="h-3 w-3" />
+      {quota.exceeded
+        ? `AI limit reached for your team. Resets ${resetsAt}.`
+        : `${parts.join(' · ')} left ${quota.period === 'weekly' ? 'this week' : 'today'} (resets ${resetsAt})`}
+    </p>
+  );
+}
@@ -5,36 +5,113 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight, Send, MessageCircle, User, Bot, RotateCcw } from "lucide-react";
-import { getAiTutorHistory, type AiConversationMessage } from "@/lib/actions/ai";
+import { ChevronLeft, ChevronRight, Send, MessageCircle, User, Bot, RotateCcw, Lock, Share2 } from "lucide-react";
+import { getAiTutorHistory, promotePrivateTutorExchange, type AiConversationMessage } from "@/lib/actions/ai";
+import { getMyTutorFeedback, type TutorFeedbackEntry } from "@/lib/actions/ai-feedback";
+import { AiQuotaIndicator } from "@/components/pblab/ai/ai-quota-indicator";
+import { TutorFeedbackControls } from "@/components/pblab/ai/tutor-feedback-controls";
+import { getTutorProfile, TUTOR_ACTIONS, type TutorAction } from "@/lib/ai/tutor-profiles";
+import type { Database } from "@/lib/db.types";
 import { createClient } from "@/lib/supabase/client";
 import { cn } from "@/lib/utils";
 
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
 interface AiTutorChatProps {
   projectId: string;
+  /** Selects the tutor profile; closed projects show a read-only transcript */
+  projectPhase: ProjectPhase;
+  /** Show thumbs up/down on tutor responses (team members only) */
+  canRate?: boolean;
+  /** Offer a private thread alongside the team thread (team members only) */
+  allowPrivateThread?: boolean;
   className?: string;
 }
 
+/**
+ * Conversation shown in the chat
+ */
+type ChatThread = 'team' | 'private';
+
 interface ChatMessage {
   id: string;
+  /** ai_usage row of the exchange */
+  turnId: string;
   content: string;
   isAi: boolean;
   userName: string;
   timestamp: string;
+  isPrivate: boolean;
+  /** Whether a private exchange has been shared with the team */
+  promoted: boolean;
+}
+
+/**
+ * In-flight exchange shown while the tutor response is streaming
+ */
+interface StreamingExchange {
+  message: string;
+  response: string;
+}
+
+/**
+ * Split buffered server-sent event text into complete events
+ *
+ * @returns Parsed events and any trailing partial event text
+ */
+function parseSseEvents(buffer: string): { events: Array<{ event: string; data: string }>; rest: string } {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events = blocks.map(block => {
+    let event = "message";
+    let data = "";
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data += line.slice(5).trim();
+    }
+    return { event, data };
+  });
+  return { events, rest };
 }
 
-export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
+function toChatMessages(messages: AiConversationMessage[]): ChatMessage[] {
+  return messages.map(msg => ({
+    id: msg.id,
+    turnId: msg.turn_id,
+    content: msg.message,
+    isAi: msg.is_ai,
+    userName: msg.user_name,
+    timestamp: new Date(msg.created_at).toLocaleString(),
+    isPrivate: msg.is_private,
+    promoted: msg.promoted
+  }));
+}
+
+export function AiTutorChat({
+  projectId,
+  projectPhase,
+  canRate = false,
+  allowPrivateThread = false,
+  className
+}: AiTutorChatProps) {
+  const profile = getTutorProfile(projectPhase);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [streamingExchange, setStreamingExchange] = useState<StreamingExchange | null>(null);
+  const [quotaRefreshKey, setQuotaRefreshKey] = useState(0);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
   const [offset, setOffset] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Record<string, TutorFeedbackEntry>>({});
+  const [thread, setThread] = useState<ChatThread>('team');
+  const [promotingTurnId, setPromotingTurnId] = useState<string | null>(null);
   
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const channelRef = useRef<ReturnType<ReturnType<typeof createClient>["channel"]> | null>(null);
 
   // Load initial conversation history
   useEffect(() => {
@@ -46,17 +123,12 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
         const result = await getAiTutorHistory({
           projectId,
           offset: 0,
-          limit: 10
+          limit: 10,
+          thread
         });
 
         if (result.success) {
-          const chatMessages: ChatMessage[] = result.data.map((msg: AiConversationMessage) => ({
-            id: msg.id,
-            content: msg.message,
-            isAi: msg.is_ai,
-            userName: msg.user_name,
-            timestamp: new Date(msg.created_at).toLocaleString()
-          }));
+          const chatMessages = toChatMessages(result.data);
 
           setMessages(chatMessages);
           setOffset(chatMessages.length);
@@ -73,14 +145,27 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
     };
 
     loadInitialMessages();
-  }, [projectId]);
+  }, [projectId, thread]);
+
+  // Load the user's own ratings of tutor responses
+  useEffect(() => {
+    if (!canRate) return;
+
+    getMyTutorFeedback(projectId)
+      .then(result => {
+        if (result.success) {
+          setFeedback(Object.fromEntries(result.data.map(entry => [entry.turnId, entry])));
+        }
+      })
+      .catch(err => console.error("Error loading tutor feedback:", err));
+  }, [projectId, canRate]);
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages]);
+  }, [messages, streamingExchange]);
 
   // Helper function to refresh messages
   const refreshMessages = useCallback(async () => {
@@ -88,17 +173,12 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
       const result = await getAiTutorHistory({
         projectId,
         offset: 0,
-        limit: 10
+        limit: 10,
+        thread
       });
 
       if (result.success) {
-        const chatMessages: ChatMessage[] = result.data.map((msg: AiConversationMessage) => ({
-          id: msg.id,
-          content: msg.message,
-          isAi: msg.is_ai,
-          userName: msg.user_name,
-          timestamp: new Date(msg.created_at).toLocaleString()
-        }));
+        const chatMessages = toChatMessages(result.data);
         
         setMessages(chatMessages);
         setOffset(chatMessages.length);
@@ -107,7 +187,7 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
     } catch (err) {
       console.error("Error refreshing messages:", err);
     }
-  }, [projectId]);
+  }, [projectId, thread]);
 
   // Supabase broadcast channel for real-time chat sharing
   useEffect(() => {
@@ -123,8 +203,8 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
         'broadcast',
         { event: 'new_ai_usage' },
         ({ payload }) => {
-          // Only refresh if it's for our project
-          if (payload.projectId === projectId) {
+          // Only refresh if it's for our project and the team thread is shown
+          if (payload.projectId === projectId && thread === 'team') {
             refreshMessages();
           }
         }
@@ -138,11 +218,14 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
       )
       .subscribe();
 
+    channelRef.current = channel;
+
     return () => {
+      channelRef.current = null;
       channel.unsubscribe();
       supabase.removeChannel(channel);
     };
-  }, [projectId, refreshMessages]);
+  }, [projectId, thread, refreshMessages]);
 
   const loadMessages = async (newOffset: number, isInitial: boolean = false) => {
     setIsLoading(true);
@@ -152,17 +235,12 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
       const result = await getAiTutorHistory({
         projectId,
         offset: newOffset,
-        limit: 10
+        limit: 10,
+        thread
       });
 
       if (result.success) {
-        const chatMessages: ChatMessage[] = result.data.map((msg: AiConversationMessage) => ({
-          id: msg.id,
-          content: msg.message,
-          isAi: msg.is_ai,
-          userName: msg.user_name,
-          timestamp: new Date(msg.created_at).toLocaleString()
-        }));
+        const chatMessages = toChatMessages(result.data);
 
         if (isInitial) {
           setMessages(chatMessages);
@@ -197,13 +275,24 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
     
     if (!newMessage.trim() || isSending) return;
 
-    const messageToSend = newMessage.trim();
+    await sendMessage(newMessage.trim(), null);
+  };
+
+  const handleAction = async (action: TutorAction) => {
+    if (isSending) return;
+
+    // Use the typed message as context for the action, if there is one
+    await sendMessage(newMessage.trim() || TUTOR_ACTIONS[action].label, action);
+  };
+
+  const sendMessage = async (messageToSend: string, action: TutorAction | null) => {
     setNewMessage("");
     setIsSending(true);
     setError(null);
+    setStreamingExchange({ message: messageToSend, response: "" });
 
     try {
-      // Send message to AI tutor API
+      // Send message to AI tutor API and stream the response
       const response = await fetch("/api/ai/tutor", {
         method: "POST",
         headers: {
@@ -212,28 +301,101 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
         body: JSON.stringify({
           projectId,
           message: messageToSend,
+          action,
+          thread,
+          stream: true,
         }),
       });
 
-      const result = await response.json();
-
-      if (result.success) {
-        // Manually refresh to see the new response immediately
-        await refreshMessages();
-      } else {
+      // Validation and authorization errors are returned as JSON
+      if (!response.ok || !response.body) {
+        const result = await response.json().catch(() => ({}));
         setError(result.error || "Failed to send message");
         // Restore the message if it failed to send
         setNewMessage(messageToSend);
+        return;
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let streamError: string | null = null;
+      let finished = false;
+
+      // Stop at the `done` event; nothing the server sends after it is needed
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { events, rest } = parseSseEvents(buffer);
+        buffer = rest;
+
+        for (const { event, data } of events) {
+          const payload = data ? JSON.parse(data) : {};
+          if (event === "chunk") {
+            setStreamingExchange(prev => prev && { ...prev, response: prev.response + payload.text });
+          } else if (event === "done") {
+            finished = true;
+          } else if (event === "error") {
+            streamError = payload.error || "Failed to get tutor response";
+          }
+        }
+      }
+
+      // Release the response body rather than leaving the reader open
+      if (finished) {
+        await reader.cancel().catch(() => {});
+      }
+
+      if (streamError) {
+        setError(streamError);
+        setNewMessage(messageToSend);
+        return;
       }
+
+      // Refresh to replace the streamed exchange with the logged conversation
+      await refreshMessages();
     } catch (err) {
       console.error("Error sending message:", err);
       setError("Failed to send message");
       setNewMessage(messageToSend);
     } finally {
+      setStreamingExchange(null);
       setIsSending(false);
+      setQuotaRefreshKey(key => key + 1);
     }
   };
 
+  const handlePromote = async (turnId: string) => {
+    setPromotingTurnId(turnId);
+    setError(null);
+
+    try {
+      const result = await promotePrivateTutorExchange(turnId);
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      setMessages(prev => prev.map(message =>
+        message.turnId === turnId ? { ...message, promoted: true } : message
+      ));
+
+      // Let teammates viewing the team thread pick up the shared exchange
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'new_ai_usage',
+        payload: { id: result.id, projectId }
+      });
+    } catch (err) {
+      console.error("Error sharing exchange:", err);
+      setError("Failed to share exchange with the team");
+    } finally {
+      setPromotingTurnId(null);
+    }
+  };
 
   if (isCollapsed) {
     return (
@@ -263,7 +425,12 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
         <CardTitle className="text-sm font-medium flex items-center space-x-2">
           <Bot className="h-4 w-4 text-blue-600" />
-          <span>Team Chat with AI PBL Tutor</span>
+          <span>{thread === 'team' ? 'Team Chat with AI PBL Tutor' : 'Private Chat with AI PBL Tutor'}</span>
+          {profile && (
+            <Badge variant="secondary" className="text-xs">
+              {profile.label}
+            </Badge>
+          )}
         </CardTitle>
         <Button
           variant="ghost"
@@ -276,6 +443,29 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
       </CardHeader>
 
       <CardContent className="flex-1 flex flex-col space-y-4 p-4">
+        {allowPrivateThread && (
+          <div className="flex gap-1 rounded-md bg-muted p-1">
+            {(['team', 'private'] as const).map(option => (
+              <Button
+                key={option}
+                type="button"
+                variant={thread === option ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 flex-1 text-xs"
+                onClick={() => setThread(option)}
+                disabled={isSending}
+              >
+                {option === 'team' ? 'Team' : (
+                  <>
+                    <Lock className="h-3 w-3 mr-1" />
+                    Private
+                  </>
+                )}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {error && (
           <div className="bg-destructive/10 text-destructive text-sm p-3 rounded-md">
             {error}
@@ -310,11 +500,15 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
             )}
 
             {/* Messages */}
-            {messages.length === 0 && !isLoading ? (
+            {messages.length === 0 && !isLoading && !streamingExchange ? (
               <div className="text-center text-muted-foreground text-sm py-8">
                 <Bot className="h-8 w-8 mx-auto mb-2 text-blue-600" />
                 <p>Start a conversation with your AI PBL Tutor!</p>
-                <p className="text-xs mt-1">This chat is shared with your team.</p>
+                <p className="text-xs mt-1">
+                  {thread === 'team'
+                    ? 'This chat is shared with your team.'
+                    : 'Only you and your educators can see this chat.'}
+                </p>
               </div>
             ) : (
               messages.map((message) => (
@@ -357,34 +551,130 @@ export function AiTutorChat({ projectId, className }: AiTutorChatProps) {
                     >
                       <p className="whitespace-pre-wrap break-words">{message.content}</p>
                     </div>
+                    {message.isAi && canRate && (
+                      <TutorFeedbackControls
+                        turnId={message.turnId}
+                        feedback={feedback[message.turnId]}
+                        onSaved={(entry) => setFeedback(prev => ({ ...prev, [entry.turnId]: entry }))}
+                      />
+                    )}
+                    {message.isAi && message.isPrivate && profile && (
+                      message.promoted ? (
+                        <p className="mt-1 text-xs text-muted-foreground">Shared with your team</p>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="mt-1 h-6 px-2 text-xs"
+                          onClick={() => handlePromote(message.turnId)}
+                          disabled={promotingTurnId === message.turnId}
+                        >
+                          <Share2 className="h-3 w-3 mr-1" />
+                          Share with team
+                        </Button>
+                      )
+                    )}
                   </div>
                 </div>
               ))
             )}
+
+            {/* Exchange in progress */}
+            {streamingExchange && (
+              <>
+                <div className="flex space-x-2">
+                  <div className="flex-shrink-0">
+                    <div className="w-6 h-6 rounded-full bg-gray-100 flex items-center justify-center">
+                      <User className="h-3 w-3 text-gray-600" />
+                    </div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className="text-xs font-medium text-muted-foreground">You</span>
+                    </div>
+                    <div className="text-sm p-3 rounded-lg max-w-full bg-gray-50 text-gray-900">
+                      <p className="whitespace-pre-wrap break-words">{streamingExchange.message}</p>
+                    </div>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <div className="flex-shrink-0">
+                    <div className="w-6 h-6 rounded-full bg-blue-100 flex items-center justify-center">
+                      <Bot className="h-3 w-3 text-blue-600" />
+                    </div>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2 mb-1">
+                      <span className="text-xs font-medium text-muted-foreground">AI PBL Tutor</span>
+                      <Badge variant="secondary" className="text-xs px-1 py-0">
+                        AI
+                      </Badge>
+                    </div>
+                    <div className="text-sm p-3 rounded-lg max-w-full bg-blue-50 text-blue-900 border border-blue-200">
+                      {streamingExchange.response ? (
+                        <p className="whitespace-pre-wrap break-words">{streamingExchange.response}</p>
+                      ) : (
+                        <RotateCcw className="h-3 w-3 animate-spin" />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
             <div ref={messagesEndRef} />
           </div>
         </div>
 
-        {/* Message Input Form */}
-        <form onSubmit={handleSendMessage} className="flex space-x-2">
-          <Input
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Ask your AI tutor a question..."
-            className="flex-1"
-            disabled={isSending}
-          />
-          <Button type="submit" size="sm" disabled={!newMessage.trim() || isSending}>
-            {isSending ? (
-              <RotateCcw className="h-4 w-4 animate-spin" />
-            ) : (
-              <Send className="h-4 w-4" />
-            )}
-          </Button>
-        </form>
+        {profile ? (
+          <>
+            {/* Phase Actions */}
+            <div className="flex flex-wrap gap-2">
+              {profile.allowedActions.map(action => (
+                <Button
+                  key={action}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleAction(action)}
+                  disabled={isSending}
+                >
+                  {TUTOR_ACTIONS[action].label}
+                </Button>
+              ))}
+            </div>
+
+            {/* Message Input Form */}
+            <form onSubmit={handleSendMessage} className="flex space-x-2">
+              <Input
+                value={newMessage}
+                onChange={(e) => setNewMessage(e.target.value)}
+                placeholder="Ask your AI tutor a question..."
+                className="flex-1"
+                disabled={isSending}
+              />
+              <Button type="submit" size="sm" disabled={!newMessage.trim() || isSending}>
+                {isSending ? (
+                  <RotateCcw className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </form>
+
+            <AiQuotaIndicator projectId={projectId} refreshKey={quotaRefreshKey} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center bg-muted p-3 rounded-md">
+            This project is closed. The tutor conversation is read-only.
+          </p>
+        )}
 
         <p className="text-xs text-muted-foreground text-center">
-          This conversation is shared with your team members
+          {thread === 'team'
+            ? 'This conversation is shared with your team members'
+            : 'This conversation is private to you and your educators'}
         </p>
       </CardContent>
     </Card>
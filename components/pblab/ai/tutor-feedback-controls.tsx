@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { saveTutorFeedback, type TutorFeedbackEntry } from "@/lib/actions/ai-feedback";
+import { cn } from "@/lib/utils";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+
+interface TutorFeedbackControlsProps {
+  /** ai_usage row of the rated exchange */
+  turnId: string;
+  /** The user's existing rating, if any */
+  feedback?: TutorFeedbackEntry;
+  onSaved: (feedback: TutorFeedbackEntry) => void;
+}
+
+/**
+ * Thumbs up/down with an optional reason for a single tutor response
+ */
+export function TutorFeedbackControls({ turnId, feedback, onSaved }: TutorFeedbackControlsProps) {
+  const [reason, setReason] = useState(feedback?.reason || "");
+  const [showReason, setShowReason] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (rating: TutorFeedbackEntry["rating"], reasonText: string) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await saveTutorFeedback({ turnId, rating, reason: reasonText });
+
+      if (result.success) {
+        onSaved({ turnId, rating, reason: reasonText.trim() || null });
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to save feedback");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openReason = () => {
+    setReason(feedback?.reason || "");
+    setShowReason(true);
+  };
+
+  const handleRate = async (rating: TutorFeedbackEntry["rating"]) => {
+    // Keep the existing reason unless the user is editing it
+    await save(rating, showReason ? reason : feedback?.reason || "");
+    if (!showReason) openReason();
+  };
+
+  const handleReasonSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!feedback) return;
+    await save(feedback.rating, reason);
+    setShowReason(false);
+  };
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center gap-1">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={cn("h-6 w-6 p-0", feedback?.rating === "up" && "text-green-600")}
+          onClick={() => handleRate("up")}
+          disabled={saving}
+          aria-label="Helpful"
+        >
+          <ThumbsUp className="h-3 w-3" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={cn("h-6 w-6 p-0", feedback?.rating === "down" && "text-destructive")}
+          onClick={() => handleRate("down")}
+          disabled={saving}
+          aria-label="Not helpful"
+        >
+          <ThumbsDown className="h-3 w-3" />
+        </Button>
+        {feedback && !showReason && (
+          <button
+            type="button"
+            className="text-xs text-muted-foreground hover:underline"
+            onClick={openReason}
+          >
+            {feedback.reason ? "Edit reason" : "Add reason"}
+          </button>
+        )}
+      </div>
+
+      {showReason && feedback && (
+        <form onSubmit={handleReasonSubmit} className="flex gap-1">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={feedback.rating === "up" ? "What helped? (optional)" : "What was wrong? (optional)"}
+            className="h-7 text-xs"
+            maxLength={1000}
+            disabled={saving}
+          />
+          <Button type="submit" size="sm" className="h-7 text-xs" disabled={saving}>
+            Save
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { saveAiQuota, deleteAiQuota, type CourseAiQuotaSettings } from "@/lib/actions/ai-quotas";
+import type { Database } from "@/lib/db.types";
+import { Loader2, Save, Trash2 } from "lucide-react";
+
+type AiQuota = Database["public"]["Tables"]["ai_quotas"]["Row"];
+type AiQuotaPeriod = Database["public"]["Enums"]["ai_quota_period"];
+
+interface AiQuotaSettingsProps {
+  settings: CourseAiQuotaSettings;
+}
+
+interface QuotaRowProps {
+  courseId: string;
+  teamId: string | null;
+  label: string;
+  description: string;
+  quota: AiQuota | undefined;
+}
+
+/**
+ * Parse a limit input, treating an empty field as unlimited
+ */
+function parseLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+function QuotaRow({ courseId, teamId, label, description, quota }: QuotaRowProps) {
+  const router = useRouter();
+  const [period, setPeriod] = useState<AiQuotaPeriod>(quota?.period ?? "daily");
+  const [maxCalls, setMaxCalls] = useState(quota?.max_calls?.toString() ?? "");
+  const [maxTokens, setMaxTokens] = useState(quota?.max_tokens?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await saveAiQuota({
+        courseId,
+        teamId,
+        period,
+        maxCalls: parseLimit(maxCalls),
+        maxTokens: parseLimit(maxTokens),
+      });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!quota) return;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await deleteAiQuota(quota.id);
+      if (result.success) {
+        setMaxCalls("");
+        setMaxTokens("");
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">{label}</p>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        {quota ? (
+          <Badge variant="secondary">{teamId ? "Override" : "Active"}</Badge>
+        ) : (
+          <Badge variant="outline">{teamId ? "Uses course default" : "Unlimited"}</Badge>
+        )}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        <div className="space-y-1">
+          <Label>Period</Label>
+          <Select value={period} onValueChange={(value) => setPeriod(value as AiQuotaPeriod)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily (resets 00:00 UTC)</SelectItem>
+              <SelectItem value="weekly">Weekly (resets Monday 00:00 UTC)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Max AI requests</Label>
+          <Input
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            value={maxCalls}
+            onChange={(e) => setMaxCalls(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Max tokens</Label>
+          <Input
+            type="number"
+            min={1}
+            placeholder="Unlimited"
+            value={maxTokens}
+            onChange={(e) => setMaxTokens(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        {quota && (
+          <Button variant="ghost" size="sm" onClick={handleRemove} disabled={saving}>
+            <Trash2 className="h-4 w-4 mr-1" />
+            Remove
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Editor for a course's AI quota and per-team overrides
+ */
+export function AiQuotaSettings({ settings }: AiQuotaSettingsProps) {
+  const { course, teams, quotas } = settings;
+  const courseQuota = quotas.find(q => q.team_id === null);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Course Default</CardTitle>
+          <CardDescription>
+            Applies to every team in {course.name}. Usage is counted per team across the AI tutor and
+            learning goal suggestions. Leave a limit empty for no limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QuotaRow
+            courseId={course.id}
+            teamId={null}
+            label="All teams"
+            description="Default allowance for each team"
+            quota={courseQuota}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Team Overrides</CardTitle>
+          <CardDescription>
+            Give specific teams a different allowance. Removing an override returns the team to the course default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {teams.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This course has no teams yet.</p>
+          ) : (
+            teams.map(team => (
+              <QuotaRow
+                key={team.id}
+                courseId={course.id}
+                teamId={team.id}
+                label={team.name}
+                description="Team override"
+                quota={quotas.find(q => q.team_id === team.id)}
+              />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, Calculator, Loader2, Save, Scale } from "lucide-react";
+import {
+  getProjectModeration,
+  saveModeratedAssessment,
+  type ProjectModeration
+} from "@/lib/actions/assessment-moderation";
+import type { ModerationMethod } from "@/lib/shared/assessment-moderation";
+import { AssessmentWorkflowPanel } from "./assessment-workflow-panel";
+import { AssessmentRevisionHistory } from "./assessment-revision-history";
+
+interface AssessmentModerationPanelProps {
+  projectId: string;
+}
+
+interface ModeratedForm {
+  method: ModerationMethod;
+  scores: Record<string, { score: string; justification: string }>;
+  overallFeedback: string;
+  reason: string;
+}
+
+const METHOD_LABELS: Record<ModerationMethod, string> = {
+  average: 'Average',
+  course_rule: 'Course rule',
+  override: 'Moderator override'
+};
+
+const AGGREGATION_LABELS = {
+  mean: 'mean',
+  median: 'median',
+  lowest: 'lowest score',
+  highest: 'highest score'
+} as const;
+
+/**
+ * Start the form from the saved moderated assessment, or from the proposed
+ * scores with every assessor's justification to edit down
+ */
+function initialForm(moderation: ProjectModeration, method: ModerationMethod): ModeratedForm {
+  const names = new Map(moderation.assessors.map(a => [a.assessmentId, a.assessorName]));
+  const saved = moderation.moderated?.assessment;
+
+  return {
+    method: saved ? moderation.moderated!.method : method,
+    overallFeedback: saved?.overall_feedback ?? '',
+    reason: '',
+    scores: Object.fromEntries(moderation.criteria.map(criterion => {
+      const savedScore = saved?.scores.find(s => s.criterion_id === criterion.id);
+      if (savedScore) {
+        return [criterion.id, { score: String(savedScore.score), justification: savedScore.justification ?? '' }];
+      }
+
+      const proposed = method === 'course_rule'
+        ? criterion.reconciliation?.courseRule
+        : criterion.reconciliation?.average;
+      return [criterion.id, {
+        score: proposed != null ? String(proposed) : '',
+        justification: criterion.scores
+          .filter(s => s.justification)
+          .map(s => `${names.get(s.assessmentId)}: ${s.justification}`)
+          .join('\n\n')
+      }];
+    }))
+  };
+}
+
+/**
+ * Moderator view for projects graded by several assessors: per-criterion
+ * disagreement and the reconciled assessment that is published to the team
+ */
+export function AssessmentModerationPanel({ projectId }: AssessmentModerationPanelProps) {
+  const router = useRouter();
+  const [moderation, setModeration] = useState<ProjectModeration | null>(null);
+  const [form, setForm] = useState<ModeratedForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [revisionKey, setRevisionKey] = useState(0);
+
+  const fetchModeration = useCallback(async () => {
+    // Only the course educator and admins can moderate; others see nothing
+    const result = await getProjectModeration(projectId);
+    if (result.success) {
+      setModeration(result.data);
+      setForm(initialForm(result.data, 'average'));
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchModeration();
+  }, [fetchModeration]);
+
+  if (!moderation || !form) return null;
+
+  const submittedCount = moderation.assessors.filter(a => a.submittedAt !== null).length;
+  if (moderation.assessors.length < 2 && moderation.rule.minAssessors < 2) return null;
+
+  const canReconcile = submittedCount >= 2 && !moderation.hiddenUntilSubmitted &&
+    (!moderation.moderated || moderation.moderated.canEdit) &&
+    (moderation.phase === 'post' || (moderation.phase === 'closed' && !!moderation.moderated));
+  const rule = moderation.rule;
+
+  const applyMethod = (method: ModerationMethod) => {
+    setForm(prev => prev && {
+      ...prev,
+      method,
+      scores: Object.fromEntries(moderation.criteria.map(criterion => {
+        const proposed = method === 'course_rule'
+          ? criterion.reconciliation?.courseRule
+          : criterion.reconciliation?.average;
+        return [criterion.id, {
+          ...prev.scores[criterion.id],
+          score: proposed != null ? String(proposed) : ''
+        }];
+      }))
+    });
+  };
+
+  const updateScore = (criterionId: string, field: 'score' | 'justification', value: string) => {
+    setForm(prev => prev && {
+      ...prev,
+      method: field === 'score' ? 'override' : prev.method,
+      scores: { ...prev.scores, [criterionId]: { ...prev.scores[criterionId], [field]: value } }
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await saveModeratedAssessment({
+        projectId,
+        method: form.method,
+        scores: moderation.criteria.map(criterion => ({
+          criterion_id: criterion.id,
+          score: Number(form.scores[criterion.id]?.score),
+          justification: form.scores[criterion.id]?.justification ?? ''
+        })),
+        overall_feedback: form.overallFeedback,
+        reason: form.reason || undefined
+      });
+
+      if (result.success) {
+        setMessage(result.message);
+        setRevisionKey(key => key + 1);
+        await fetchModeration();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error("Error saving moderated assessment:", err);
+      setError("An unexpected error occurred while saving the moderated assessment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWorkflowChange = async (workflowMessage: string) => {
+    setMessage(workflowMessage);
+    await fetchModeration();
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Moderation
+        </CardTitle>
+        <CardDescription>
+          Assessors grade independently and cannot see each other&apos;s scores. The course rule uses the{' '}
+          {AGGREGATION_LABELS[rule.aggregation]}, rounded {rule.rounding}
+          {rule.maxDisagreement !== null && `, and leaves criteria more than ${rule.maxDisagreement} points apart to you`}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Assessors ({submittedCount} submitted{rule.minAssessors > 1 && `, ${rule.minAssessors} required`})
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {moderation.assessors.map(assessor => (
+              <Badge key={assessor.assessmentId} variant={assessor.submittedAt ? "secondary" : "outline"}>
+                {assessor.assessorName}{assessor.submittedAt ? '' : ' (AI draft)'}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {moderation.hiddenUntilSubmitted ? (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Save your own assessment to see the other assessors&apos; scores.
+            </AlertDescription>
+          </Alert>
+        ) : submittedCount < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Moderation opens once at least two assessors have submitted their assessments.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Criterion</th>
+                  {moderation.assessors.filter(a => a.submittedAt).map(assessor => (
+                    <th key={assessor.assessmentId} className="py-2 pr-4 font-medium">{assessor.assessorName}</th>
+                  ))}
+                  <th className="py-2 pr-4 font-medium">Spread</th>
+                  <th className="py-2 pr-4 font-medium">Average</th>
+                  <th className="py-2 font-medium">Course rule</th>
+                </tr>
+              </thead>
+              <tbody>
+                {moderation.criteria.map(criterion => {
+                  const reconciliation = criterion.reconciliation;
+                  return (
+                    <tr key={criterion.id} className="border-b align-top">
+                      <td className="py-2 pr-4">{criterion.criterion_text}</td>
+                      {moderation.assessors.filter(a => a.submittedAt).map(assessor => {
+                        const score = criterion.scores.find(s => s.assessmentId === assessor.assessmentId);
+                        return (
+                          <td key={assessor.assessmentId} className="py-2 pr-4" title={score?.justification ?? undefined}>
+                            {score ? `${score.score}/${criterion.max_score}` : '–'}
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 pr-4">
+                        {reconciliation && (
+                          <Badge
+                            variant={reconciliation.disagreement.exceedsLimit
+                              ? "destructive"
+                              : reconciliation.disagreement.spread > 0 ? "outline" : "secondary"}
+                          >
+                            {reconciliation.disagreement.spread}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{reconciliation?.average ?? '–'}</td>
+                      <td className="py-2">{reconciliation?.courseRule ?? 'Your call'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {moderation.moderated && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              Moderated by {moderation.moderated.moderatorName} •{' '}
+              <Badge variant="outline">{METHOD_LABELS[moderation.moderated.method]}</Badge>
+            </p>
+            {moderation.moderated.canEdit && (
+              <AssessmentWorkflowPanel
+                assessment={moderation.moderated.assessment}
+                onChange={handleWorkflowChange}
+              />
+            )}
+          </div>
+        )}
+
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {canReconcile && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">Reconciled scores:</span>
+              <Button variant="outline" size="sm" onClick={() => applyMethod('average')} disabled={saving}>
+                <Calculator className="mr-2 h-4 w-4" />
+                Use average
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => applyMethod('course_rule')} disabled={saving}>
+                <Scale className="mr-2 h-4 w-4" />
+                Use course rule
+              </Button>
+              <Badge variant="secondary">{METHOD_LABELS[form.method]}</Badge>
+            </div>
+
+            {moderation.criteria.map((criterion, index) => (
+              <div key={criterion.id} className="space-y-3 p-4 border rounded-lg">
+                <div className="font-medium">
+                  {index + 1}. {criterion.criterion_text}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-[120px_1fr] gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`moderated-score-${criterion.id}`}>
+                      Score (1-{criterion.max_score})
+                    </Label>
+                    <Input
+                      id={`moderated-score-${criterion.id}`}
+                      type="number"
+                      min={1}
+                      max={criterion.max_score}
+                      value={form.scores[criterion.id]?.score ?? ''}
+                      onChange={(e) => updateScore(criterion.id, 'score', e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`moderated-justification-${criterion.id}`}>
+                      Justification shown to the team
+                    </Label>
+                    <Textarea
+                      id={`moderated-justification-${criterion.id}`}
+                      value={form.scores[criterion.id]?.justification ?? ''}
+                      onChange={(e) => updateScore(criterion.id, 'justification', e.target.value)}
+                      disabled={saving}
+                      rows={3}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label htmlFor="moderated-feedback">Overall Feedback (Optional)</Label>
+              <Textarea
+                id="moderated-feedback"
+                value={form.overallFeedback}
+                onChange={(e) => setForm(prev => prev && { ...prev, overallFeedback: e.target.value })}
+                disabled={saving}
+                rows={4}
+              />
+            </div>
+
+            {moderation.moderated && (
+              <div className="space-y-2">
+                <Label htmlFor="moderated-reason">Reason for Change (Optional)</Label>
+                <Input
+                  id="moderated-reason"
+                  value={form.reason}
+                  onChange={(e) => setForm(prev => prev && { ...prev, reason: e.target.value })}
+                  disabled={saving}
+                />
+              </div>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={handleSave} disabled={saving} className="w-full">
+              {saving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              {moderation.moderated ? 'Save Moderated Assessment' : 'Create Moderated Assessment'}
+            </Button>
+          </div>
+        )}
+
+        {moderation.moderated && (
+          <AssessmentRevisionHistory
+            assessmentId={moderation.moderated.assessment.id}
+            criteria={moderation.criteria}
+            refreshKey={revisionKey}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
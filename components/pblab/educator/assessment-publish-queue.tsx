@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  getAssessmentPublishingSummary,
+  getMyAssessmentReviews,
+  publishProblemAssessments,
+  type AssessmentReviewRequest,
+  type ProblemPublishingSummary
+} from "@/lib/actions/assessment-workflow";
+import { Loader2, Send } from "lucide-react";
+
+/**
+ * Educator dashboard card with assessments to review and publish
+ */
+export function AssessmentPublishQueue() {
+  const [reviews, setReviews] = useState<AssessmentReviewRequest[]>([]);
+  const [problems, setProblems] = useState<ProblemPublishingSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [confirmProblem, setConfirmProblem] = useState<ProblemPublishingSummary | null>(null);
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchQueue = async () => {
+    try {
+      const [reviewsResult, summaryResult] = await Promise.all([
+        getMyAssessmentReviews(),
+        getAssessmentPublishingSummary()
+      ]);
+
+      if (reviewsResult.success) {
+        setReviews(reviewsResult.data);
+      }
+      if (summaryResult.success) {
+        setProblems(summaryResult.data);
+      } else {
+        setError(summaryResult.error);
+      }
+    } catch {
+      setError("Failed to load assessments to publish");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const handlePublishAll = async (problem: ProblemPublishingSummary) => {
+    setConfirmProblem(null);
+    setPublishingId(problem.problemId);
+    setMessage(null);
+    setError(null);
+
+    try {
+      const result = await publishProblemAssessments(problem.problemId);
+
+      if (result.success) {
+        const { published, skipped, failed } = result.data;
+        setMessage(
+          `${problem.problemTitle}: ${published} published` +
+          (skipped > 0 ? `, ${skipped} not ready` : '') +
+          (failed > 0 ? `, ${failed} failed` : '')
+        );
+        await fetchQueue();
+      } else {
+        setError(result.error);
+      }
+    } catch {
+      setError("Failed to publish assessments");
+    } finally {
+      setPublishingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-6">
+      <h3 className="font-semibold">Assessment Publishing</h3>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground mt-2">Loading assessments...</p>
+      ) : (
+        <div className="mt-3 grid gap-6 md:grid-cols-2">
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Reviews requested from you</p>
+            {reviews.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No assessments waiting for your review.</p>
+            ) : (
+              reviews.map(review => (
+                <div key={review.assessmentId}>
+                  <Link
+                    href={`/educator/reviews/${review.assessmentId}`}
+                    className="text-sm font-medium hover:underline"
+                  >
+                    {review.problemTitle}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">
+                    Team: {review.teamName} · Assessed by {review.assessorName}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Ready to publish by problem</p>
+            {problems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No projects are waiting for assessment.</p>
+            ) : (
+              problems.map(problem => (
+                <div key={problem.problemId} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{problem.problemTitle}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {problem.readyCount} of {problem.projectCount} ready
+                      {problem.inReviewCount > 0 && ` · ${problem.inReviewCount} in review`}
+                      {problem.awaitingModerationCount > 0 && ` · ${problem.awaitingModerationCount} to moderate`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmProblem(problem)}
+                    disabled={problem.readyCount === 0 || publishingId !== null}
+                  >
+                    {publishingId === problem.problemId ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="w-4 h-4 mr-2" />
+                    )}
+                    Publish all
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && <p className="text-sm text-muted-foreground mt-3">{message}</p>}
+      {error && <p className="text-sm text-destructive mt-3">{error}</p>}
+
+      <AlertDialog open={confirmProblem !== null} onOpenChange={(open) => !open && setConfirmProblem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Publish All Assessments</AlertDialogTitle>
+            <AlertDialogDescription>
+              Publish the {confirmProblem?.readyCount} ready assessments for &quot;{confirmProblem?.problemTitle}&quot;?
+              Each team will be notified, can see their scores and feedback, and their project will be locked.
+              Projects that are not assessed, are waiting for a second review or still need moderating are skipped.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => confirmProblem && handlePublishAll(confirmProblem)}>
+              Publish
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
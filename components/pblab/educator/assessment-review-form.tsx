@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, CheckCircle, Loader2, Undo2 } from "lucide-react";
+import { completeAssessmentReview, type AssessmentReviewDetails } from "@/lib/actions/assessment-workflow";
+
+interface AssessmentReviewFormProps {
+  review: AssessmentReviewDetails;
+}
+
+/**
+ * Second review of another educator's assessment: approve it for publishing
+ * or send it back with comments
+ */
+export function AssessmentReviewForm({ review }: AssessmentReviewFormProps) {
+  const router = useRouter();
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState<"approve" | "changes" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPending = review.status === 'pending_review' && !review.reviewed_at;
+
+  const handleReview = async (approved: boolean) => {
+    if (!approved && !comment.trim()) {
+      setError("Explain what should change before sending the assessment back");
+      return;
+    }
+
+    setSaving(approved ? "approve" : "changes");
+    setError(null);
+
+    try {
+      const result = await completeAssessmentReview({
+        assessmentId: review.assessment_id,
+        approved,
+        comment: comment.trim() || undefined
+      });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const totalScore = review.criteria.reduce((sum, criterion) => sum + (Number(criterion.score) || 0), 0);
+  const maxScore = review.criteria.reduce((sum, criterion) => sum + criterion.max_score, 0);
+
+  return (
+    <div className="space-y-6">
+      {review.final_report_url && (
+        <div className="flex items-center gap-2 p-3 bg-muted rounded-md">
+          <span className="flex-1 text-sm break-all">{review.final_report_url}</span>
+          <a
+            href={review.final_report_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
+          >
+            View Report →
+          </a>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Scores</CardTitle>
+          <CardDescription>
+            Total {totalScore} / {maxScore}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {review.criteria.map((criterion, index) => (
+            <div key={criterion.criterion_id} className="space-y-2 p-4 bg-muted rounded-lg">
+              <div className="flex items-start justify-between gap-2">
+                <div className="font-medium">
+                  {index + 1}. {criterion.criterion_text}
+                </div>
+                <Badge variant="outline" className="shrink-0">
+                  {criterion.score ?? '–'} / {criterion.max_score}
+                </Badge>
+              </div>
+              {criterion.justification && (
+                <p className="text-sm">{criterion.justification}</p>
+              )}
+            </div>
+          ))}
+
+          {review.overall_feedback && (
+            <div>
+              <h3 className="font-semibold mb-2">Overall Feedback</h3>
+              <p className="text-sm bg-muted p-4 rounded-lg whitespace-pre-wrap">
+                {review.overall_feedback}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Review</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isPending ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="review-comment">Comments for the assessor</Label>
+                <Textarea
+                  id="review-comment"
+                  placeholder="Required when requesting changes..."
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  disabled={saving !== null}
+                  rows={4}
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => handleReview(false)}
+                  disabled={saving !== null}
+                >
+                  {saving === "changes" ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Undo2 className="mr-2 h-4 w-4" />
+                  )}
+                  Request Changes
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={() => handleReview(true)}
+                  disabled={saving !== null}
+                >
+                  {saving === "approve" ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="mr-2 h-4 w-4" />
+                  )}
+                  Approve
+                </Button>
+              </div>
+            </>
+          ) : review.reviewed_at ? (
+            <div className="space-y-2 text-sm">
+              <p>
+                You {review.review_approved ? 'approved this assessment' : 'requested changes'} on{' '}
+                {new Date(review.reviewed_at).toLocaleString()}.
+              </p>
+              {review.review_comment && (
+                <p className="bg-muted p-3 rounded-md whitespace-pre-wrap">{review.review_comment}</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              This assessment is no longer waiting for your review.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
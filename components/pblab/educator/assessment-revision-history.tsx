@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import {
+  getAssessmentRevisions,
+  type AssessmentChange,
+  type AssessmentRevision
+} from "@/lib/actions/assessments";
+
+interface AssessmentRevisionHistoryProps {
+  assessmentId: string;
+  /** Rubric criteria, used to name the criteria that changed */
+  criteria: Array<{ id: string; criterion_text: string }>;
+  /** Changes whenever the assessment is revised, to reload the history */
+  refreshKey?: number;
+}
+
+function truncate(value: string, length = 80): string {
+  return value.length > length ? `${value.slice(0, length)}…` : value;
+}
+
+/**
+ * Every revision of an assessment, with who made it and what changed
+ */
+export function AssessmentRevisionHistory({ assessmentId, criteria, refreshKey }: AssessmentRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<AssessmentRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchRevisions() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await getAssessmentRevisions(assessmentId);
+
+        if (result.success) {
+          setRevisions(result.data);
+        } else {
+          setError(result.error || 'Failed to load assessment history');
+        }
+      } catch (err) {
+        console.error('Error fetching assessment revisions:', err);
+        setError('An unexpected error occurred while loading assessment history');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchRevisions();
+  }, [assessmentId, refreshKey]);
+
+  const describeChange = (change: AssessmentChange): string => {
+    if (change.field === 'overall_feedback') {
+      return 'Overall feedback edited';
+    }
+
+    const index = criteria.findIndex(criterion => criterion.id === change.criterion_id);
+    const label = index >= 0
+      ? `${index + 1}. ${truncate(criteria[index].criterion_text, 40)}`
+      : 'Removed criterion';
+
+    return change.field === 'score'
+      ? `${label}: score ${change.from ?? '–'} → ${change.to ?? '–'}`
+      : `${label}: justification edited`;
+  };
+
+  // Nothing to show until the assessment is first revised
+  if (loading || (!error && revisions.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Revision History
+      </h3>
+      {error ? (
+        <Alert>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <ol className="space-y-3">
+          {revisions.map(revision => (
+            <li key={revision.revision_number} className="p-3 border rounded-lg space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline" className="text-xs">
+                  Revision {revision.revision_number}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {revision.edited_by_name ?? 'A former user'} •{' '}
+                  {new Date(revision.created_at).toLocaleString()}
+                </span>
+              </div>
+              {revision.changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Original submission</p>
+              ) : (
+                <ul className="list-disc list-inside text-sm space-y-0.5">
+                  {revision.changes.map((change, index) => (
+                    <li key={index}>{describeChange(change)}</li>
+                  ))}
+                </ul>
+              )}
+              {revision.reason && (
+                <p className="text-sm">
+                  <span className="font-medium">Reason:</span> {revision.reason}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertCircle, Loader2, Send, UserCheck } from "lucide-react";
+import {
+  getAssessmentReviewerOptions,
+  publishAssessment,
+  requestAssessmentReview,
+  type AssessmentReviewerOption
+} from "@/lib/actions/assessment-workflow";
+import type { ProjectAssessmentData } from "@/lib/actions/assessments";
+
+type ExistingAssessment = NonNullable<ProjectAssessmentData["existingAssessment"]>;
+
+interface AssessmentWorkflowPanelProps {
+  assessment: ExistingAssessment;
+  /** Called after the assessment is sent for review or published */
+  onChange: (message: string) => void;
+}
+
+function statusLabel(assessment: ExistingAssessment): { label: string; variant: "default" | "secondary" | "outline" | "destructive" } {
+  if (assessment.status === 'final') return { label: 'Published', variant: 'default' };
+  if (assessment.status === 'pending_review') {
+    return assessment.review?.reviewed_at
+      ? { label: 'Review approved', variant: 'secondary' }
+      : { label: 'Awaiting review', variant: 'outline' };
+  }
+  if (assessment.review?.reviewed_at && assessment.review.approved === false) {
+    return { label: 'Changes requested', variant: 'destructive' };
+  }
+  return { label: 'Draft', variant: 'outline' };
+}
+
+/**
+ * Draft, second review and publish controls for the educator's own assessment
+ */
+export function AssessmentWorkflowPanel({ assessment, onChange }: AssessmentWorkflowPanelProps) {
+  const [reviewers, setReviewers] = useState<AssessmentReviewerOption[]>([]);
+  const [reviewerId, setReviewerId] = useState<string>("");
+  const [requesting, setRequesting] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [showPublishDialog, setShowPublishDialog] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPublished = assessment.status === 'final';
+  const awaitingReview = assessment.status === 'pending_review' && !assessment.review?.reviewed_at;
+  const status = statusLabel(assessment);
+
+  useEffect(() => {
+    if (isPublished || awaitingReview) return;
+
+    async function fetchReviewers() {
+      const result = await getAssessmentReviewerOptions();
+      if (result.success) {
+        setReviewers(result.data);
+      }
+    }
+
+    fetchReviewers();
+  }, [isPublished, awaitingReview]);
+
+  const handleRequestReview = async () => {
+    if (!reviewerId) return;
+
+    setRequesting(true);
+    setError(null);
+
+    try {
+      const result = await requestAssessmentReview({ assessmentId: assessment.id, reviewerId });
+
+      if (result.success) {
+        setReviewerId("");
+        onChange(result.message);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error("Error requesting assessment review:", err);
+      setError("An unexpected error occurred while requesting a review");
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    setError(null);
+
+    try {
+      const result = await publishAssessment(assessment.id);
+
+      if (result.success) {
+        setShowPublishDialog(false);
+        onChange(result.message);
+      } else {
+        setError(result.error);
+        setShowPublishDialog(false);
+      }
+    } catch (err) {
+      console.error("Error publishing assessment:", err);
+      setError("An unexpected error occurred while publishing");
+      setShowPublishDialog(false);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Status:</span>
+        <Badge variant={status.variant}>{status.label}</Badge>
+        {isPublished && assessment.published_at && (
+          <span className="text-xs text-muted-foreground">
+            {new Date(assessment.published_at).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {isPublished ? (
+        <p className="text-sm text-muted-foreground">
+          The team can see this assessment. Any changes you make are shown to them straight away.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Students cannot see this assessment until you publish it.
+        </p>
+      )}
+
+      {assessment.review && (
+        <div className="text-sm space-y-1">
+          <p>
+            <UserCheck className="inline mr-1 h-4 w-4" />
+            Second review by {assessment.review.reviewer_name ?? 'a former user'}
+            {assessment.review.reviewed_at
+              ? ` • ${assessment.review.approved ? 'approved' : 'changes requested'} ${new Date(assessment.review.reviewed_at).toLocaleDateString()}`
+              : assessment.review.requested_at && ` • requested ${new Date(assessment.review.requested_at).toLocaleDateString()}`}
+          </p>
+          {assessment.review.comment && (
+            <p className="bg-muted p-3 rounded-md whitespace-pre-wrap">{assessment.review.comment}</p>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!isPublished && (
+        <div className="space-y-3">
+          {!awaitingReview && reviewers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Second review (optional)</Label>
+              <div className="flex gap-2">
+                <Select value={reviewerId} onValueChange={setReviewerId} disabled={requesting || publishing}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Choose a reviewer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reviewers.map(reviewer => (
+                      <SelectItem key={reviewer.id} value={reviewer.id}>
+                        {reviewer.name}{reviewer.role === 'admin' ? ' (admin)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={handleRequestReview}
+                  disabled={!reviewerId || requesting || publishing}
+                >
+                  {requesting ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <UserCheck className="mr-2 h-4 w-4" />
+                  )}
+                  Request Review
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <Button
+            onClick={() => setShowPublishDialog(true)}
+            disabled={awaitingReview || publishing || requesting}
+            className="w-full"
+          >
+            <Send className="mr-2 h-4 w-4" />
+            {awaitingReview ? 'Waiting for Review' : 'Publish to Team'}
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={showPublishDialog} onOpenChange={setShowPublishDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Publish Assessment</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div>
+                <p>Are you sure you want to publish this assessment? This will:</p>
+                <ul className="list-disc list-inside mt-2 space-y-1">
+                  <li>Show your scores and feedback to the team</li>
+                  <li>Notify every team member</li>
+                  <li>Lock the project (phase: closed)</li>
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={publishing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePublish} disabled={publishing}>
+              {publishing ? "Publishing..." : "Publish"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
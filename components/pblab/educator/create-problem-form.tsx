@@ -11,7 +11,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { createProblem, getStudentsInCourse } from "@/lib/actions/problems";
-import { type CreateProblemParams, type RubricCriterionData, type TeamCreationData } from "@/lib/types/problems";
+import {
+  type CreateProblemParams,
+  type ProblemRevealData,
+  type RubricCriterionData,
+  type RubricData,
+  type TeamCreationData,
+  type TutorPolicyData
+} from "@/lib/types/problems";
+import { TutorPolicyFields, EMPTY_TUTOR_POLICY } from "@/components/pblab/educator/tutor-policy-fields";
+import { ProblemAuthoringAssistant } from "@/components/pblab/educator/problem-authoring-assistant";
+import { RubricAssistant } from "@/components/pblab/educator/rubric-assistant";
 import { getDefaultRubricTemplate } from "@/lib/shared/rubric-templates";
 import { Trash2, Plus } from "lucide-react";
 
@@ -47,9 +57,16 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
   });
   
   // Pre-load with default rubric template
+  const [rubricName, setRubricName] = useState(getDefaultRubricTemplate().name);
   const [criteria, setCriteria] = useState<RubricCriterionData[]>(
     getDefaultRubricTemplate().criteria
   );
+
+  // Staged reveals state
+  const [reveals, setReveals] = useState<ProblemRevealData[]>([]);
+  
+  // Tutor policy state
+  const [tutorPolicy, setTutorPolicy] = useState<TutorPolicyData>(EMPTY_TUTOR_POLICY);
   
   // Teams state
   const [teams, setTeams] = useState<TeamCreationData[]>([]);
@@ -114,6 +131,32 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
     setCriteria(prev => prev.filter((_, i) => i !== index));
   };
 
+  const clearPerformanceLevels = (index: number) => {
+    setCriteria(prev => prev.map((criterion, i) =>
+      i === index ? { ...criterion, performance_levels: undefined } : criterion
+    ));
+  };
+
+  const handleAcceptRubric = (rubric: RubricData) => {
+    setRubricName(rubric.name);
+    setCriteria(rubric.criteria);
+  };
+
+  // Staged reveal functions
+  const addReveal = () => {
+    setReveals(prev => [...prev, { title: "", content: "", phase: null }]);
+  };
+
+  const removeReveal = (index: number) => {
+    setReveals(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleRevealChange = (index: number, changes: Partial<ProblemRevealData>) => {
+    setReveals(prev => prev.map((reveal, i) =>
+      i === index ? { ...reveal, ...changes } : reveal
+    ));
+  };
+
   // Team management functions
   const addTeam = () => {
     const newTeam: TeamCreationData = {
@@ -162,19 +205,31 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
         return;
       }
 
+      if (reveals.some(reveal => !reveal.title.trim() || !reveal.content.trim())) {
+        setError("All staged reveals must have a title and content");
+        return;
+      }
+
+      if (tutorPolicy.readingList.some(item => !item.title.trim())) {
+        setError("All reading list entries must have a title");
+        return;
+      }
+
       // Prepare data for server action
       const problemData: CreateProblemParams = {
         title: formData.title.trim(),
         description: formData.description.trim() || undefined,
         courseId: formData.courseId,
         rubric: {
-          name: "PBL Assessment Rubric",
+          name: rubricName.trim() || getDefaultRubricTemplate().name,
           criteria: criteria.map((criterion, index) => ({
             ...criterion,
             sort_order: index, // Ensure proper ordering
           })),
         },
         teams: teams.length > 0 ? teams : undefined,
+        tutorPolicy,
+        reveals: reveals.length > 0 ? reveals : undefined,
       };
 
       const result = await createProblem(problemData);
@@ -199,6 +254,14 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
+          <ProblemAuthoringAssistant
+            onAcceptTitle={(title) => handleInputChange("title", title)}
+            onAcceptScenario={(scenario) => handleInputChange("description", scenario)}
+            onAcceptReveals={setReveals}
+            onAcceptRubric={handleAcceptRubric}
+            disabled={loading}
+          />
+
           {/* Basic Problem Information */}
           <div className="grid gap-4 md:grid-cols-2">
             <div className="space-y-2">
@@ -269,6 +332,14 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
                 Add Criterion
               </Button>
             </div>
+
+            <RubricAssistant
+              title={formData.title}
+              description={formData.description}
+              criteria={criteria}
+              onUseCriteria={setCriteria}
+              disabled={loading}
+            />
             
             <div className="space-y-4">
               {criteria.map((criterion, index) => (
@@ -317,6 +388,29 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
                           </Button>
                         </div>
                       </div>
+
+                      {criterion.performance_levels && criterion.performance_levels.length > 0 && (
+                        <div className="space-y-1">
+                          <div className="flex items-center justify-between">
+                            <p className="text-xs font-medium text-muted-foreground">Performance levels</p>
+                            <button
+                              type="button"
+                              className="text-xs text-muted-foreground hover:underline"
+                              onClick={() => clearPerformanceLevels(index)}
+                              disabled={loading}
+                            >
+                              Remove levels
+                            </button>
+                          </div>
+                          <ul className="space-y-0.5 text-xs text-muted-foreground">
+                            {criterion.performance_levels.map((level, levelIndex) => (
+                              <li key={levelIndex}>
+                                <span className="font-medium text-foreground">{level.label}:</span> {level.description}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -328,6 +422,88 @@ export function CreateProblemForm({ courses }: CreateProblemFormProps) {
             </p>
           </div>
 
+          {/* Staged Reveals Section */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold">Staged Information Reveals (Optional)</h3>
+                <p className="text-sm text-muted-foreground">
+                  Extra information to release to teams as the project progresses. Hidden from students.
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addReveal}
+                disabled={loading}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Reveal
+              </Button>
+            </div>
+
+            {reveals.map((reveal, index) => (
+              <Card key={index} className="border-l-4 border-l-purple-500">
+                <CardContent className="pt-4">
+                  <div className="space-y-3">
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1 space-y-2">
+                        <Label htmlFor={`reveal-title-${index}`}>Reveal {index + 1} *</Label>
+                        <Input
+                          id={`reveal-title-${index}`}
+                          value={reveal.title}
+                          onChange={(e) => handleRevealChange(index, { title: e.target.value })}
+                          placeholder="Short label, e.g. Lab results arrive"
+                          disabled={loading}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Release in</Label>
+                        <Select
+                          value={reveal.phase || "any"}
+                          onValueChange={(value) => handleRevealChange(index, {
+                            phase: value === "any" ? null : value as ProblemRevealData["phase"]
+                          })}
+                          disabled={loading}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Any phase</SelectItem>
+                            <SelectItem value="pre">Pre</SelectItem>
+                            <SelectItem value="research">Research</SelectItem>
+                            <SelectItem value="post">Post</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => removeReveal(index)}
+                        disabled={loading}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      value={reveal.content}
+                      onChange={(e) => handleRevealChange(index, { content: e.target.value })}
+                      placeholder="Information revealed to the team (Markdown supported)..."
+                      rows={3}
+                      disabled={loading}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Tutor Policy Section */}
+          <TutorPolicyFields value={tutorPolicy} onChange={setTutorPolicy} disabled={loading} />
+
           {/* Teams Section */}
           {formData.courseId && (
             <div className="space-y-4">
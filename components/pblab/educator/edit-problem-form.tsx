@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { updateProblem, type EditableProblem } from "@/lib/actions/problems";
+import { type TutorPolicyData } from "@/lib/types/problems";
+import { TutorPolicyFields, EMPTY_TUTOR_POLICY } from "@/components/pblab/educator/tutor-policy-fields";
+
+interface EditProblemFormProps {
+  problem: EditableProblem;
+}
+
+export function EditProblemForm({ problem }: EditProblemFormProps) {
+  const router = useRouter();
+
+  const [title, setTitle] = useState(problem.title);
+  const [description, setDescription] = useState(problem.description || "");
+  const [tutorPolicy, setTutorPolicy] = useState<TutorPolicyData>(
+    problem.tutorPolicy
+      ? {
+          extraInstructions: problem.tutorPolicy.extraInstructions,
+          forbiddenTopics: problem.tutorPolicy.forbiddenTopics,
+          readingList: problem.tutorPolicy.readingList,
+        }
+      : EMPTY_TUTOR_POLICY
+  );
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setMessage(null);
+    setLoading(true);
+
+    try {
+      if (!title.trim()) {
+        setError("Problem title is required");
+        return;
+      }
+
+      if (tutorPolicy.readingList.some(item => !item.title.trim())) {
+        setError("All reading list entries must have a title");
+        return;
+      }
+
+      const result = await updateProblem({
+        problemId: problem.id,
+        title: title.trim(),
+        description: description.trim() || undefined,
+        tutorPolicy,
+      });
+
+      if (result.success) {
+        setMessage(result.message);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Problem Details</CardTitle>
+          {problem.tutorPolicy && (
+            <Badge variant="outline">Tutor policy v{problem.tutorPolicy.version}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="title">Problem Title *</Label>
+            <Input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              required
+              disabled={loading}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Problem Description</Label>
+            <Textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={6}
+              disabled={loading}
+            />
+            <p className="text-xs text-muted-foreground">
+              Markdown formatting is supported for rich text content.
+            </p>
+          </div>
+
+          <TutorPolicyFields value={tutorPolicy} onChange={setTutorPolicy} disabled={loading} />
+
+          {error && (
+            <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+              {error}
+            </div>
+          )}
+
+          {message && (
+            <div className="p-3 text-sm text-green-800 bg-green-50 rounded border border-green-200">
+              {message}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => router.back()} disabled={loading}>
+              Back
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Saving..." : "Save Changes"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
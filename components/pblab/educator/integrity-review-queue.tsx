@@ -0,0 +1,176 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  reviewIntegrityFlag,
+  type CourseIntegrityQueue,
+  type IntegrityFlagItem
+} from "@/lib/actions/ai-integrity";
+import { INTEGRITY_CATEGORIES } from "@/lib/shared/ai-integrity";
+import type { Database } from "@/lib/db.types";
+import { Loader2 } from "lucide-react";
+
+type IntegrityFlagStatus = Database["public"]["Enums"]["ai_integrity_flag_status"];
+
+interface IntegrityReviewQueueProps {
+  queue: CourseIntegrityQueue;
+}
+
+function FlagCard({ flag }: { flag: IntegrityFlagItem }) {
+  const router = useRouter();
+  const [note, setNote] = useState(flag.reviewNote || "");
+  const [saving, setSaving] = useState<IntegrityFlagStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async (status: IntegrityFlagStatus) => {
+    setSaving(status);
+    setError(null);
+
+    try {
+      const result = await reviewIntegrityFlag({ flagId: flag.id, status, note });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Badge variant={flag.status === "open" ? "destructive" : "secondary"}>
+              {INTEGRITY_CATEGORIES[flag.category].label}
+            </Badge>
+            <Badge variant="outline">
+              {flag.source === "message" ? "Student message" : "Tutor response"}
+            </Badge>
+            {flag.status !== "open" && (
+              <Badge variant="outline" className="capitalize">{flag.status}</Badge>
+            )}
+          </div>
+          <span className="text-xs text-muted-foreground">
+            {new Date(flag.exchange.createdAt).toLocaleString()}
+          </span>
+        </div>
+        <CardTitle className="text-base">
+          {flag.student.name || flag.student.email}
+        </CardTitle>
+        <CardDescription>
+          {flag.project.teamName} ·{" "}
+          <Link href={`/p/${flag.project.id}`} className="hover:text-foreground hover:underline">
+            {flag.project.problemTitle}
+          </Link>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {flag.reason && (
+          <p className="text-sm text-muted-foreground">{flag.reason}</p>
+        )}
+
+        <div className="space-y-2 text-sm">
+          <div className={`rounded border p-3 ${flag.source === "message" ? "border-destructive/40" : ""}`}>
+            <p className="text-xs font-medium text-muted-foreground mb-1">Student</p>
+            <p className="whitespace-pre-wrap">{flag.exchange.message}</p>
+          </div>
+          {flag.exchange.response && (
+            <div className={`rounded border p-3 bg-muted/50 ${flag.source === "response" ? "border-destructive/40" : ""}`}>
+              <p className="text-xs font-medium text-muted-foreground mb-1">AI Tutor</p>
+              <p className="whitespace-pre-wrap line-clamp-[12]">{flag.exchange.response}</p>
+            </div>
+          )}
+        </div>
+
+        <Textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Private note (not visible to students)"
+          rows={2}
+          disabled={saving !== null}
+        />
+
+        {error && (
+          <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {flag.status === "open" ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => handleReview("dismissed")} disabled={saving !== null}>
+                {saving === "dismissed" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Dismiss
+              </Button>
+              <Button size="sm" onClick={() => handleReview("reviewed")} disabled={saving !== null}>
+                {saving === "reviewed" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Mark Reviewed
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => handleReview("open")} disabled={saving !== null}>
+              {saving === "open" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Reopen
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Review queue of AI tutor turns flagged for academic integrity concerns
+ */
+export function IntegrityReviewQueue({ queue }: IntegrityReviewQueueProps) {
+  const [filter, setFilter] = useState<IntegrityFlagStatus | "all">("open");
+
+  const counts = {
+    open: queue.flags.filter(flag => flag.status === "open").length,
+    reviewed: queue.flags.filter(flag => flag.status === "reviewed").length,
+    dismissed: queue.flags.filter(flag => flag.status === "dismissed").length,
+  };
+
+  const flags = filter === "all" ? queue.flags : queue.flags.filter(flag => flag.status === filter);
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={filter} onValueChange={(value) => setFilter(value as IntegrityFlagStatus | "all")}>
+        <TabsList>
+          <TabsTrigger value="open">Open ({counts.open})</TabsTrigger>
+          <TabsTrigger value="reviewed">Reviewed ({counts.reviewed})</TabsTrigger>
+          <TabsTrigger value="dismissed">Dismissed ({counts.dismissed})</TabsTrigger>
+          <TabsTrigger value="all">All ({queue.flags.length})</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {flags.length === 0 ? (
+        <div className="rounded-lg border p-6 text-center">
+          <p className="text-sm text-muted-foreground">
+            {filter === "open" ? "No flagged tutor turns waiting for review." : "No flags to show."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {flags.map(flag => (
+            <FlagCard key={flag.id} flag={flag} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
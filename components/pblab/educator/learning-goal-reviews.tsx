@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { ClipboardCheck } from "lucide-react";
+import { LearningGoalReview } from "@/components/pblab/project/learning-goal-review";
+import { getLearningGoalReviews, type LearningGoalReviewEntry } from "@/lib/actions/ai-goal-reviews";
+
+interface LearningGoalReviewsProps {
+  projectId: string;
+}
+
+/**
+ * Educator view of the AI feedback students received on their learning goals
+ */
+export function LearningGoalReviews({ projectId }: LearningGoalReviewsProps) {
+  const [reviews, setReviews] = useState<LearningGoalReviewEntry[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchReviews() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await getLearningGoalReviews(projectId);
+
+        if (result.success) {
+          setReviews(result.data);
+          setSelectedId(result.data[0]?.id ?? null);
+        } else {
+          setError(result.error || 'Failed to load learning goal reviews');
+        }
+      } catch (err) {
+        console.error('Error fetching learning goal reviews:', err);
+        setError('An unexpected error occurred while loading learning goal reviews');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReviews();
+  }, [projectId]);
+
+  const selected = reviews.find(review => review.id === selectedId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Learning Goal Feedback
+        </CardTitle>
+        <CardDescription>
+          AI feedback the team received on their learning goals, with the goals as they were when reviewed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : error ? (
+          <Alert>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : !selected ? (
+          <p className="text-sm text-muted-foreground">
+            The team has not asked for feedback on their learning goals yet.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {reviews.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {reviews.map((review, index) => (
+                  <Button
+                    key={review.id}
+                    variant={review.id === selectedId ? 'default' : 'outline'}
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => setSelectedId(review.id)}
+                  >
+                    {index === 0 ? 'Latest' : new Date(review.createdAt).toLocaleDateString()}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Goals reviewed</h4>
+              <div className="bg-muted p-4 rounded-md">
+                <p className="text-sm whitespace-pre-wrap">{selected.goals}</p>
+              </div>
+            </div>
+            <LearningGoalReview review={selected.review} />
+            <p className="text-xs text-muted-foreground">
+              Requested by {selected.requestedBy ?? 'a former team member'} •{' '}
+              {new Date(selected.createdAt).toLocaleString()}
+              {selected.model && ` • ${selected.model}`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  addCourseAssessor,
+  removeCourseAssessor,
+  saveModerationRule,
+  type CourseModerationSettings
+} from "@/lib/actions/assessment-moderation";
+import type { ModerationAggregation, ModerationRounding } from "@/lib/shared/assessment-moderation";
+import { Loader2, Save, Trash2, UserPlus } from "lucide-react";
+
+interface ModerationSettingsProps {
+  settings: CourseModerationSettings;
+}
+
+function AssessorList({ settings }: ModerationSettingsProps) {
+  const router = useRouter();
+  const [userId, setUserId] = useState("");
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async () => {
+    if (!userId) return;
+    setPendingId(userId);
+    setError(null);
+
+    try {
+      const result = await addCourseAssessor({ courseId: settings.course.id, userId });
+      if (result.success) {
+        setUserId("");
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (assessorId: string) => {
+    setPendingId(assessorId);
+    setError(null);
+
+    try {
+      const result = await removeCourseAssessor({ courseId: settings.course.id, userId: assessorId });
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Assessors</CardTitle>
+        <CardDescription>
+          Educators and TAs who grade this course&apos;s reports alongside you. They see the projects and
+          rubrics, but never each other&apos;s scores.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings.assessors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Only you assess this course.</p>
+        ) : (
+          <div className="space-y-2">
+            {settings.assessors.map(assessor => (
+              <div key={assessor.userId} className="flex items-center justify-between gap-2 rounded-lg border p-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{assessor.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{assessor.email}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(assessor.userId)}
+                  disabled={pendingId !== null}
+                >
+                  {pendingId === assessor.userId ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Trash2 className="h-4 w-4 mr-1" />
+                  )}
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {settings.candidates.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={userId} onValueChange={setUserId} disabled={pendingId !== null}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Choose an educator" />
+              </SelectTrigger>
+              <SelectContent>
+                {settings.candidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={!userId || pendingId !== null}>
+              <UserPlus className="h-4 w-4 mr-1" />
+              Add Assessor
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function RuleForm({ settings }: ModerationSettingsProps) {
+  const router = useRouter();
+  const [aggregation, setAggregation] = useState<ModerationAggregation>(settings.rule.aggregation);
+  const [rounding, setRounding] = useState<ModerationRounding>(settings.rule.rounding);
+  const [maxDisagreement, setMaxDisagreement] = useState(settings.rule.maxDisagreement?.toString() ?? "");
+  const [minAssessors, setMinAssessors] = useState(settings.rule.minAssessors.toString());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await saveModerationRule({
+        courseId: settings.course.id,
+        aggregation,
+        rounding,
+        maxDisagreement: maxDisagreement.trim() === "" ? null : Number(maxDisagreement),
+        minAssessors: Number(minAssessors)
+      });
+
+      if (result.success) {
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Moderation Rule</CardTitle>
+          <Badge variant={settings.isConfigured ? "secondary" : "outline"}>
+            {settings.isConfigured ? "Active" : "Defaults"}
+          </Badge>
+        </div>
+        <CardDescription>
+          How the course rule proposes a reconciled score for each criterion when several assessors grade
+          the same report. You can always override it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label>Combine scores using</Label>
+            <Select value={aggregation} onValueChange={(value) => setAggregation(value as ModerationAggregation)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mean">Mean</SelectItem>
+                <SelectItem value="median">Median</SelectItem>
+                <SelectItem value="lowest">Lowest score</SelectItem>
+                <SelectItem value="highest">Highest score</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Rounding</Label>
+            <Select value={rounding} onValueChange={(value) => setRounding(value as ModerationRounding)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="nearest">Nearest</SelectItem>
+                <SelectItem value="down">Down</SelectItem>
+                <SelectItem value="up">Up</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Moderator decides when scores differ by more than</Label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Never"
+              value={maxDisagreement}
+              onChange={(e) => setMaxDisagreement(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Assessments required before publishing</Label>
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              value={minAssessors}
+              onChange={(e) => setMinAssessors(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save Rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Course assessors and the rule used to reconcile their scores
+ */
+export function ModerationSettings({ settings }: ModerationSettingsProps) {
+  return (
+    <div className="space-y-6">
+      <AssessorList settings={settings} />
+      <RuleForm settings={settings} />
+    </div>
+  );
+}
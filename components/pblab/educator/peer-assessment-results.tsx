@@ -0,0 +1,154 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronDown, ChevronUp, Settings, Users } from "lucide-react";
+import {
+  getProjectPeerResults,
+  type ProjectPeerResults
+} from "@/lib/actions/peer-assessment";
+
+interface PeerAssessmentResultsProps {
+  projectId: string;
+}
+
+function formatScore(value: number | null): string {
+  return value === null ? '—' : value.toFixed(1);
+}
+
+/**
+ * Educator view of a team's peer ratings: who has rated, each member's
+ * contribution factor and, when the problem applies them, individual grades
+ */
+export function PeerAssessmentResults({ projectId }: PeerAssessmentResultsProps) {
+  const [results, setResults] = useState<ProjectPeerResults | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Renders nothing when the problem has no peer criteria or the user cannot see ratings
+    getProjectPeerResults(projectId).then(result => {
+      if (result.success) setResults(result.data);
+    });
+  }, [projectId]);
+
+  if (!results) return null;
+
+  const { criteria, grading, teamScore, members } = results;
+  const ratedCount = members.filter(member => member.hasRated).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Peer Assessment
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Badge variant={ratedCount === members.length ? "secondary" : "outline"}>
+              {ratedCount} of {members.length} rated
+            </Badge>
+            {results.canConfigure && (
+              <Button variant="ghost" size="sm" asChild>
+                <Link href={`/educator/problems/${results.problemId}/peer-assessment`}>
+                  <Settings className="h-4 w-4 mr-1" />
+                  Configure
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+        <CardDescription>
+          A contribution factor of 1.0 means teammates saw the member as doing an equal share.
+          {grading.applyToGrades
+            ? ` Factors adjust ${Math.round(grading.weighting * 100)}% of the team score.`
+            : ' Factors are not applied to grades for this problem.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-3 font-medium">Member</th>
+                {criteria.map(criterion => (
+                  <th key={criterion.id} className="py-2 pr-3 font-medium" title={criterion.criterion_text}>
+                    <span className="line-clamp-2">{criterion.criterion_text}</span>
+                  </th>
+                ))}
+                <th className="py-2 pr-3 font-medium">Factor</th>
+                {grading.applyToGrades && <th className="py-2 pr-3 font-medium">Individual score</th>}
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <Fragment key={member.id}>
+                  <tr className="border-b">
+                    <td className="py-2 pr-3">
+                      <p className="font-medium">{member.name}</p>
+                      {!member.hasRated && (
+                        <p className="text-xs text-muted-foreground">Has not rated teammates</p>
+                      )}
+                    </td>
+                    {criteria.map(criterion => (
+                      <td key={criterion.id} className="py-2 pr-3">
+                        {formatScore(member.averages[criterion.id])}
+                        <span className="text-muted-foreground"> / {criterion.max_score}</span>
+                      </td>
+                    ))}
+                    <td className="py-2 pr-3">
+                      {member.factor === null ? (
+                        <span className="text-muted-foreground">Not rated</span>
+                      ) : (
+                        <Badge variant={member.factor < 0.8 ? "destructive" : "outline"}>
+                          {member.factor.toFixed(2)}
+                        </Badge>
+                      )}
+                    </td>
+                    {grading.applyToGrades && (
+                      <td className="py-2 pr-3">
+                        {teamScore && member.individualScore !== null
+                          ? `${member.individualScore} / ${teamScore.maxScore}`
+                          : <span className="text-muted-foreground">After publishing</span>}
+                      </td>
+                    )}
+                    <td className="py-2 text-right">
+                      {member.received.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpanded(expanded === member.id ? null : member.id)}
+                        >
+                          {expanded === member.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === member.id && member.received.map(rating => (
+                    <tr key={`${member.id}-${rating.raterId}`} className="border-b bg-muted/50 text-xs">
+                      <td className="py-1 pr-3 pl-4 text-muted-foreground">from {rating.raterName}</td>
+                      {criteria.map(criterion => (
+                        <td key={criterion.id} className="py-1 pr-3">{rating.scores[criterion.id] ?? '—'}</td>
+                      ))}
+                      <td colSpan={grading.applyToGrades ? 3 : 2} />
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {grading.applyToGrades && teamScore && (
+          <p className="text-xs text-muted-foreground mt-3">
+            Team score: {teamScore.score} / {teamScore.maxScore}. Members nobody rated receive the team score.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
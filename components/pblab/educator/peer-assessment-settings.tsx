@@ -0,0 +1,209 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Lock, Plus, Save, Trash2 } from "lucide-react";
+import {
+  savePeerAssessmentSetup,
+  type PeerAssessmentSetup
+} from "@/lib/actions/peer-assessment";
+import { SUGGESTED_PEER_CRITERIA } from "@/lib/shared/peer-assessment";
+
+interface PeerAssessmentSettingsProps {
+  setup: PeerAssessmentSetup;
+}
+
+interface CriterionDraft {
+  criterion_text: string;
+  max_score: string;
+}
+
+/**
+ * Peer criteria and grading settings for a problem
+ */
+export function PeerAssessmentSettings({ setup }: PeerAssessmentSettingsProps) {
+  const router = useRouter();
+  const [criteria, setCriteria] = useState<CriterionDraft[]>(
+    setup.criteria.map(c => ({ criterion_text: c.criterion_text, max_score: c.max_score.toString() }))
+  );
+  const [applyToGrades, setApplyToGrades] = useState(setup.grading.applyToGrades);
+  const [weighting, setWeighting] = useState(Math.round(setup.grading.weighting * 100).toString());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const locked = setup.hasRatings;
+
+  const updateCriterion = (index: number, field: keyof CriterionDraft, value: string) => {
+    setCriteria(prev => prev.map((c, i) => i === index ? { ...c, [field]: value } : c));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await savePeerAssessmentSetup({
+        problemId: setup.problem.id,
+        criteria: criteria.map(c => ({ criterion_text: c.criterion_text, max_score: Number(c.max_score) })),
+        applyToGrades,
+        weighting: Number(weighting) / 100
+      });
+
+      if (result.success) {
+        setMessage(result.message);
+        router.refresh();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Peer Criteria</CardTitle>
+            <Badge variant={setup.criteria.length > 0 ? "secondary" : "outline"}>
+              {setup.criteria.length > 0 ? "Enabled" : "Off"}
+            </Badge>
+          </div>
+          <CardDescription>
+            In the post phase, each student rates every teammate on these criteria. Ratings are
+            anonymous to other students. Remove every criterion to turn peer assessment off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {locked && (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                Students have already rated their teammates, so the criteria can no longer change.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {criteria.length === 0 ? (
+            <div className="flex items-center justify-between gap-2 rounded-lg border border-dashed p-4">
+              <p className="text-sm text-muted-foreground">This problem does not use peer assessment.</p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCriteria(SUGGESTED_PEER_CRITERIA.map(c => ({
+                  criterion_text: c.criterion_text,
+                  max_score: c.max_score.toString()
+                })))}
+              >
+                Use suggested criteria
+              </Button>
+            </div>
+          ) : (
+            criteria.map((criterion, index) => (
+              <div key={index} className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label>Criterion {index + 1}</Label>
+                  <Input
+                    value={criterion.criterion_text}
+                    onChange={(e) => updateCriterion(index, 'criterion_text', e.target.value)}
+                    disabled={locked}
+                  />
+                </div>
+                <div className="w-24 space-y-1">
+                  <Label>Max score</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    max={10}
+                    value={criterion.max_score}
+                    onChange={(e) => updateCriterion(index, 'max_score', e.target.value)}
+                    disabled={locked}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCriteria(prev => prev.filter((_, i) => i !== index))}
+                  disabled={locked}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+
+          {!locked && criteria.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCriteria(prev => [...prev, { criterion_text: '', max_score: '5' }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Criterion
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Individual Grades</CardTitle>
+          <CardDescription>
+            Each student gets a contribution factor from their teammates&apos; ratings (WebPA), where 1.0
+            is an equal share. Applying it to grades multiplies part of the published team score by
+            the factor.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="apply-to-grades"
+              checked={applyToGrades}
+              onCheckedChange={(checked) => setApplyToGrades(checked === true)}
+            />
+            <Label htmlFor="apply-to-grades">Apply contribution factors to the team score</Label>
+          </div>
+          <div className="space-y-1 max-w-xs">
+            <Label>Share of the team score adjusted</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={weighting}
+                onChange={(e) => setWeighting(e.target.value)}
+                disabled={!applyToGrades}
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The rest of the team score is awarded to every member unchanged.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-600">{message}</p>}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          Save Peer Assessment
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import type { ProblemDraft, ProblemRevealData, RubricData } from "@/lib/types/problems";
+import { Check, Loader2, Sparkles } from "lucide-react";
+
+interface ProblemAuthoringAssistantProps {
+  onAcceptTitle: (title: string) => void;
+  onAcceptScenario: (scenario: string) => void;
+  onAcceptReveals: (reveals: ProblemRevealData[]) => void;
+  onAcceptRubric: (rubric: RubricData) => void;
+  disabled?: boolean;
+}
+
+type DraftPart = 'title' | 'scenario' | 'reveals' | 'rubric';
+
+interface DraftSectionProps {
+  label: string;
+  accepted: boolean;
+  onAccept: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+function DraftSection({ label, accepted, onAccept, disabled, children }: DraftSectionProps) {
+  return (
+    <div className="space-y-2 rounded border bg-background p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">{label}</p>
+        <Button type="button" variant="outline" size="sm" onClick={onAccept} disabled={disabled}>
+          {accepted && <Check className="w-4 h-4 mr-2" />}
+          {accepted ? "Used" : "Use"}
+        </Button>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * AI drafting panel for the problem creation form
+ *
+ * Generates a title, scenario, staged reveals and rubric from a topic, level
+ * and target outcomes. Each part is copied into the form only when the
+ * educator accepts it.
+ */
+export function ProblemAuthoringAssistant({
+  onAcceptTitle,
+  onAcceptScenario,
+  onAcceptReveals,
+  onAcceptRubric,
+  disabled = false
+}: ProblemAuthoringAssistantProps) {
+  const [topic, setTopic] = useState("");
+  const [level, setLevel] = useState("");
+  const [outcomes, setOutcomes] = useState("");
+  const [draft, setDraft] = useState<ProblemDraft | null>(null);
+  const [accepted, setAccepted] = useState<DraftPart[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const outcomeList = outcomes.split("\n").map(line => line.trim()).filter(Boolean);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/ai/draft-problem", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ topic, level, outcomes: outcomeList }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setDraft(result.draft);
+        setAccepted([]);
+      } else {
+        setError(result.error || "Failed to draft the problem");
+      }
+    } catch {
+      setError("Failed to draft the problem");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const accept = (part: DraftPart) => {
+    if (!draft) return;
+
+    if (part === 'title') onAcceptTitle(draft.title);
+    if (part === 'scenario') onAcceptScenario(draft.scenario);
+    if (part === 'reveals') onAcceptReveals(draft.reveals);
+    if (part === 'rubric') onAcceptRubric(draft.rubric);
+
+    setAccepted(prev => prev.includes(part) ? prev : [...prev, part]);
+  };
+
+  const acceptAll = () => {
+    (['title', 'scenario', 'reveals', 'rubric'] as const).forEach(accept);
+  };
+
+  const busy = disabled || generating;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-dashed p-4 bg-muted/30">
+      <div>
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Sparkles className="w-4 h-4" />
+          AI Drafting Assistant
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Describe the problem you want and the assistant will propose a draft. Review it and use the parts you like.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="draft-topic">Topic</Label>
+          <Input
+            id="draft-topic"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder="e.g. Water contamination in a rural town"
+            maxLength={500}
+            disabled={busy}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="draft-level">Level</Label>
+          <Input
+            id="draft-level"
+            value={level}
+            onChange={(e) => setLevel(e.target.value)}
+            placeholder="e.g. Second-year undergraduate"
+            maxLength={200}
+            disabled={busy}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="draft-outcomes">Target outcomes</Label>
+        <Textarea
+          id="draft-outcomes"
+          value={outcomes}
+          onChange={(e) => setOutcomes(e.target.value)}
+          placeholder="One learning outcome per line"
+          rows={3}
+          disabled={busy}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleGenerate}
+          disabled={busy || !topic.trim() || !level.trim() || outcomeList.length === 0}
+        >
+          {generating ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Sparkles className="w-4 h-4 mr-2" />
+          )}
+          {draft ? "Regenerate draft" : "Generate draft"}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {draft && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Using a part replaces what is currently in the form.
+            </p>
+            <Button type="button" size="sm" onClick={acceptAll} disabled={busy}>
+              Use all
+            </Button>
+          </div>
+
+          <DraftSection label="Title" accepted={accepted.includes('title')} onAccept={() => accept('title')} disabled={busy}>
+            <p className="text-sm">{draft.title}</p>
+          </DraftSection>
+
+          <DraftSection label="Scenario" accepted={accepted.includes('scenario')} onAccept={() => accept('scenario')} disabled={busy}>
+            <p className="text-sm whitespace-pre-wrap max-h-60 overflow-y-auto">{draft.scenario}</p>
+          </DraftSection>
+
+          {draft.reveals.length > 0 && (
+            <DraftSection
+              label={`Staged reveals (${draft.reveals.length})`}
+              accepted={accepted.includes('reveals')}
+              onAccept={() => accept('reveals')}
+              disabled={busy}
+            >
+              <ol className="space-y-2 text-sm">
+                {draft.reveals.map((reveal, index) => (
+                  <li key={index}>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{reveal.title}</span>
+                      {reveal.phase && <Badge variant="outline" className="text-xs">{reveal.phase}</Badge>}
+                    </div>
+                    <p className="whitespace-pre-wrap text-muted-foreground">{reveal.content}</p>
+                  </li>
+                ))}
+              </ol>
+            </DraftSection>
+          )}
+
+          <DraftSection
+            label={`Rubric: ${draft.rubric.name}`}
+            accepted={accepted.includes('rubric')}
+            onAccept={() => accept('rubric')}
+            disabled={busy}
+          >
+            <ol className="list-decimal pl-5 space-y-1 text-sm">
+              {draft.rubric.criteria.map((criterion, index) => (
+                <li key={index}>
+                  {criterion.criterion_text}{" "}
+                  <span className="text-muted-foreground">(max {criterion.max_score})</span>
+                </li>
+              ))}
+            </ol>
+          </DraftSection>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, Copy, Loader2 } from "lucide-react";
+import {
+  getReportSimilarity,
+  type ReportSimilarityMatch,
+  type ReportSimilarityResult
+} from "@/lib/actions/report-similarity";
+
+interface ReportSimilarityPanelProps {
+  projectId: string;
+}
+
+/** Similarity at or above this share is highlighted */
+const HIGH_SIMILARITY = 0.2;
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function MatchRow({ match }: { match: ReportSimilarityMatch }) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="border rounded-lg">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between gap-2 p-3 text-left text-sm"
+      >
+        <span className="flex items-center gap-2">
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span className="font-medium">{match.teamName}</span>
+          {match.earlierCohort && (
+            <span className="text-xs text-muted-foreground">
+              {match.courseName ? `${match.courseName} (earlier cohort)` : 'Earlier cohort'}
+            </span>
+          )}
+        </span>
+        <span className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {match.passages.length} shared passage{match.passages.length === 1 ? '' : 's'}
+          </span>
+          <Badge variant={match.similarity >= HIGH_SIMILARITY ? "destructive" : "secondary"}>
+            {formatPercent(match.similarity)}
+          </Badge>
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="border-t p-3 space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {formatPercent(match.similarity)} of this report appears in {match.teamName}&apos;s report;
+            {' '}{formatPercent(match.otherSimilarity)} of theirs appears here.
+          </p>
+          <div className="grid grid-cols-2 gap-3 text-xs font-medium text-muted-foreground">
+            <span>This report</span>
+            <span>{match.teamName}</span>
+          </div>
+          {match.passages.map((passage, index) => (
+            <div key={index} className="grid grid-cols-2 gap-3 text-sm">
+              <p className="p-2 rounded bg-muted/50 whitespace-pre-wrap">{passage.text}</p>
+              <p className="p-2 rounded bg-muted/50 whitespace-pre-wrap">{passage.otherText}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Overlap between this team's final report and other teams' reports
+ *
+ * Shown above the rubric so educators see shared passages before grading.
+ */
+export function ReportSimilarityPanel({ projectId }: ReportSimilarityPanelProps) {
+  const [includeEarlierCohorts, setIncludeEarlierCohorts] = useState(false);
+  const [result, setResult] = useState<ReportSimilarityResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadSimilarity = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await getReportSimilarity({ projectId, includeEarlierCohorts });
+        if (response.success) {
+          setResult(response.data);
+        } else {
+          setError(response.error);
+        }
+      } catch (err) {
+        console.error('Failed to check report similarity:', err);
+        setError('Failed to check report similarity');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSimilarity();
+  }, [projectId, includeEarlierCohorts]);
+
+  if (result && !result.hasReport) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          Report Similarity
+        </h3>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="include-earlier-cohorts"
+            checked={includeEarlierCohorts}
+            onCheckedChange={(checked) => setIncludeEarlierCohorts(checked as boolean)}
+            disabled={loading}
+          />
+          <Label htmlFor="include-earlier-cohorts" className="text-sm font-normal">
+            Include earlier cohorts
+          </Label>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Comparing with other reports...
+        </div>
+      ) : error ? (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+          {error}
+        </div>
+      ) : result && (
+        result.matches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {result.comparedCount === 0
+              ? 'No other reports to compare with yet.'
+              : `No shared passages found across ${result.comparedCount} other report${result.comparedCount === 1 ? '' : 's'}.`}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Compared with {result.comparedCount} other report{result.comparedCount === 1 ? '' : 's'}.
+              Percentages show how much of this report appears in each.
+            </p>
+            {result.matches.map(match => (
+              <MatchRow key={match.projectId} match={match} />
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
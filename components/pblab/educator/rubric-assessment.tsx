@@ -6,25 +6,19 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
-import { Loader2, ClipboardCheck, AlertCircle, Lock } from "lucide-react";
+import { Loader2, ClipboardCheck, AlertCircle, Sparkles, Pencil, Save } from "lucide-react";
 import { 
   getProjectAssessmentData, 
   saveAssessment,
+  updateAssessment,
   type ProjectAssessmentData 
 } from "@/lib/actions/assessments";
-import { updateProjectPhase } from "@/lib/actions/projects";
+import { ReportSimilarityPanel } from "@/components/pblab/educator/report-similarity-panel";
+import { AssessmentRevisionHistory } from "@/components/pblab/educator/assessment-revision-history";
+import { AssessmentWorkflowPanel } from "@/components/pblab/educator/assessment-workflow-panel";
 
 interface RubricAssessmentProps {
   projectId: string;
@@ -46,9 +40,13 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
     scores: {},
     overallFeedback: ""
   });
-  const [showConfirmDialog, setShowConfirmDialog] = useState(false);
+  const [generatingDraft, setGeneratingDraft] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
+  const [editing, setEditing] = useState(false);
+  const [changeReason, setChangeReason] = useState("");
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [revisionKey, setRevisionKey] = useState(0);
 
   // Fetch assessment data on mount
   useEffect(() => {
@@ -70,8 +68,20 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
       
       setAssessmentData(result.data);
       
-      // Initialize form data with empty scores for each criterion
-      if (result.data.rubricCriteria.length > 0 && !result.data.existingAssessment) {
+      // Load an AI draft into the form so the educator can review and edit it
+      const existing = result.data.existingAssessment;
+      if (existing?.is_ai_draft) {
+        const draftScores: Record<string, { score: number; justification: string }> = {};
+        result.data.rubricCriteria.forEach(criterion => {
+          const draftScore = existing.scores.find(s => s.criterion_id === criterion.id);
+          draftScores[criterion.id] = {
+            score: draftScore ? Number(draftScore.score) : Math.ceil(criterion.max_score / 2),
+            justification: draftScore?.justification || ""
+          };
+        });
+        setFormData({ scores: draftScores, overallFeedback: existing.overall_feedback || "" });
+      } else if (result.data.rubricCriteria.length > 0 && !existing) {
+        // Initialize form data with empty scores for each criterion
         const initialScores: Record<string, { score: number; justification: string }> = {};
         result.data.rubricCriteria.forEach(criterion => {
           initialScores[criterion.id] = {
@@ -89,6 +99,77 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
     }
   };
 
+  const handleGenerateDraft = async () => {
+    setGeneratingDraft(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/ai/assess', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ projectId }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate AI draft');
+      }
+
+      await fetchAssessmentData();
+    } catch (err) {
+      console.error("Error generating AI assessment draft:", err);
+      setError(err instanceof Error ? err.message : "Failed to generate AI draft");
+    } finally {
+      setGeneratingDraft(false);
+    }
+  };
+
+  /**
+   * A score keeps its AI flag until the educator changes its value or justification
+   */
+  const isAiGeneratedScore = (criterionId: string): boolean => {
+    const draftScore = assessmentData?.existingAssessment?.is_ai_draft
+      ? assessmentData.existingAssessment.scores.find(s => s.criterion_id === criterionId)
+      : undefined;
+    const current = formData.scores[criterionId];
+
+    if (!draftScore?.ai_generated || !current) return false;
+
+    return Number(draftScore.score) === current.score &&
+      (draftScore.justification || "").trim() === current.justification.trim();
+  };
+
+  /**
+   * Load the submitted assessment into the form so the educator can revise it
+   */
+  const handleStartEditing = () => {
+    const existing = assessmentData?.existingAssessment;
+    if (!assessmentData || !existing) return;
+
+    const existingScores: Record<string, { score: number; justification: string }> = {};
+    assessmentData.rubricCriteria.forEach(criterion => {
+      const score = existing.scores.find(s => s.criterion_id === criterion.id);
+      existingScores[criterion.id] = {
+        score: score ? Number(score.score) : Math.ceil(criterion.max_score / 2),
+        justification: score?.justification || ""
+      };
+    });
+
+    setFormData({ scores: existingScores, overallFeedback: existing.overall_feedback || "" });
+    setChangeReason("");
+    setValidationErrors({});
+    setError(null);
+    setSuccessMessage(null);
+    setEditing(true);
+  };
+
+  const handleCancelEditing = () => {
+    setEditing(false);
+    setValidationErrors({});
+    setError(null);
+  };
+
   const handleScoreChange = (criterionId: string, field: 'score' | 'justification', value: string | number) => {
     setFormData(prev => ({
       ...prev,
@@ -138,7 +219,7 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
 
   const handleSubmit = async () => {
     if (!validateForm()) {
-      setError("Please fix the validation errors before submitting");
+      setError("Please fix the validation errors before saving");
       return;
     }
     
@@ -162,29 +243,63 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
       
       if (!assessmentResult.success) {
         setError(assessmentResult.error);
-        setShowConfirmDialog(false);
         return;
       }
       
-      // Lock the project
-      const lockResult = await updateProjectPhase({
+      // Saved as a draft; publishing is a separate step
+      setSuccessMessage("Draft saved. Students will see it once you publish it.");
+      await fetchAssessmentData();
+      
+    } catch (err) {
+      console.error("Error saving assessment:", err);
+      setError("An unexpected error occurred while saving");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWorkflowChange = async (message: string) => {
+    setSuccessMessage(message);
+    await fetchAssessmentData();
+    // Publishing closes the project, which changes the rest of the page
+    router.refresh();
+  };
+
+  const handleUpdate = async () => {
+    if (!validateForm()) {
+      setError("Please fix the validation errors before saving");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const scores = Object.entries(formData.scores).map(([criterionId, data]) => ({
+        criterion_id: criterionId,
+        score: data.score,
+        justification: data.justification.trim()
+      }));
+
+      const result = await updateAssessment({
         projectId,
-        newPhase: 'closed'
+        scores,
+        overall_feedback: formData.overallFeedback.trim() || undefined,
+        reason: changeReason.trim() || undefined
       });
-      
-      if (!lockResult.success) {
-        setError(`Assessment saved but failed to lock project: ${lockResult.error}`);
-        setShowConfirmDialog(false);
+
+      if (!result.success) {
+        setError(result.error);
         return;
       }
-      
-      // Success! Redirect to educator dashboard
-      router.push('/educator/dashboard');
-      
+
+      setEditing(false);
+      setSuccessMessage(result.message);
+      setRevisionKey(key => key + 1);
+      await fetchAssessmentData();
     } catch (err) {
-      console.error("Error submitting assessment:", err);
-      setError("An unexpected error occurred while submitting");
-      setShowConfirmDialog(false);
+      console.error("Error updating assessment:", err);
+      setError("An unexpected error occurred while saving your changes");
     } finally {
       setSubmitting(false);
     }
@@ -213,8 +328,10 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
     );
   }
 
-  // Cannot assess state
-  if (!assessmentData.canAssess) {
+  const hasSelfAssessments = assessmentData.selfAssessments.length > 0;
+
+  // Cannot assess state (submitted assessments are shown read-only unless being edited)
+  if (!assessmentData.canAssess && !editing) {
     return (
       <Card>
         <CardHeader>
@@ -232,6 +349,24 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
                   You have already assessed this project. Your assessment is shown below.
                 </AlertDescription>
               </Alert>
+
+              {successMessage && (
+                <Alert>
+                  <AlertDescription>{successMessage}</AlertDescription>
+                </Alert>
+              )}
+
+              <AssessmentWorkflowPanel
+                assessment={assessmentData.existingAssessment}
+                onChange={handleWorkflowChange}
+              />
+
+              {assessmentData.canEdit && (
+                <Button variant="outline" onClick={handleStartEditing}>
+                  <Pencil className="mr-2 h-4 w-4" />
+                  Edit Assessment
+                </Button>
+              )}
               
               <div className="space-y-4">
                 <h3 className="font-semibold">Rubric Scores</h3>
@@ -240,23 +375,42 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
                     s => s.criterion_id === criterion.id
                   );
                   return (
-                    <div key={criterion.id} className="space-y-2 p-4 bg-muted rounded-lg">
-                      <div className="font-medium">
-                        {index + 1}. {criterion.criterion_text}
-                      </div>
-                      <div className="flex items-center gap-4">
-                        <span className="text-sm text-muted-foreground">
-                          Score: {score?.score}/{criterion.max_score}
-                        </span>
-                      </div>
-                      {score?.justification && (
-                        <div className="text-sm mt-2">
-                          <span className="font-medium">Justification:</span> {score.justification}
+                    <div
+                      key={criterion.id}
+                      className={`grid grid-cols-1 gap-4 p-4 bg-muted rounded-lg ${hasSelfAssessments ? "md:grid-cols-[1fr_240px]" : ""}`}
+                    >
+                      <div className="space-y-2">
+                        <div className="font-medium">
+                          {index + 1}. {criterion.criterion_text}
                         </div>
+                        <div className="flex items-center gap-4">
+                          <span className="text-sm text-muted-foreground">
+                            Score: {score?.score}/{criterion.max_score}
+                          </span>
+                          {score?.ai_generated && (
+                            <Badge variant="secondary" className="text-xs">
+                              <Sparkles className="mr-1 h-3 w-3" />
+                              AI-generated
+                            </Badge>
+                          )}
+                        </div>
+                        {score?.justification && (
+                          <div className="text-sm mt-2">
+                            <span className="font-medium">Justification:</span> {score.justification}
+                          </div>
+                        )}
+                      </div>
+                      {hasSelfAssessments && (
+                        <SelfAssessedScores
+                          criterionId={criterion.id}
+                          maxScore={criterion.max_score}
+                          selfAssessments={assessmentData.selfAssessments}
+                        />
                       )}
                     </div>
                   );
                 })}
+                <SelfAssessmentReflections selfAssessments={assessmentData.selfAssessments} />
               </div>
               
               {assessmentData.existingAssessment.overall_feedback && (
@@ -267,6 +421,12 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
                   </p>
                 </div>
               )}
+
+              <AssessmentRevisionHistory
+                assessmentId={assessmentData.existingAssessment.id}
+                criteria={assessmentData.rubricCriteria}
+                refreshKey={revisionKey}
+              />
             </div>
           ) : (
             <Alert>
@@ -283,93 +443,206 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
 
   // Assessment form
   return (
-    <>
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <ClipboardCheck className="h-5 w-5" />
-            Project Assessment
-          </CardTitle>
-          <CardDescription>
-            Evaluate the team&apos;s final report based on the rubric criteria below. 
-            Once submitted, the project will be locked and no further changes can be made.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-6">
-          {/* Rubric Criteria */}
-          <div className="space-y-4">
-            <h3 className="font-semibold">Rubric Evaluation</h3>
-            {assessmentData.rubricCriteria.map((criterion, index) => (
-              <div key={criterion.id} className="space-y-3 p-4 border rounded-lg">
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Project Assessment
+        </CardTitle>
+        <CardDescription>
+          {editing ? (
+            <>
+              Revise your submitted assessment. The previous version is kept in the
+              revision history along with what you changed.
+              {assessmentData.existingAssessment?.status === 'final' &&
+                " Saving withdraws the published assessment until you publish it again."}
+            </>
+          ) : (
+            <>
+              Evaluate the team&apos;s final report based on the rubric criteria below. 
+              Your assessment is saved as a draft. Students only see it once you publish it.
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* AI Draft */}
+        {editing ? null : assessmentData.existingAssessment?.is_ai_draft ? (
+          <Alert>
+            <Sparkles className="h-4 w-4" />
+            <AlertDescription>
+              This assessment was drafted by AI. Review each score and justification before saving;
+              scores you leave unchanged remain flagged as AI-generated.
+            </AlertDescription>
+          </Alert>
+        ) : assessmentData.project.has_report_content && (
+          <div className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+            <p className="text-sm text-muted-foreground">
+              Let AI score the final report against the rubric as a starting point for your review.
+            </p>
+            <Button
+              variant="outline"
+              onClick={handleGenerateDraft}
+              disabled={generatingDraft || submitting}
+            >
+              {generatingDraft ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Drafting...
+                </>
+              ) : (
+                <>
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Draft with AI
+                </>
+              )}
+            </Button>
+          </div>
+        )}
+
+        {/* Report Similarity */}
+        {assessmentData.project.has_report_content && (
+          <ReportSimilarityPanel projectId={projectId} />
+        )}
+
+        {/* Rubric Criteria */}
+        <div className="space-y-4">
+          <h3 className="font-semibold">Rubric Evaluation</h3>
+          {assessmentData.rubricCriteria.map((criterion, index) => (
+            <div key={criterion.id} className="space-y-3 p-4 border rounded-lg">
+              <div className="flex items-start justify-between gap-2">
                 <div className="font-medium">
                   {index + 1}. {criterion.criterion_text}
                 </div>
+                {isAiGeneratedScore(criterion.id) && (
+                  <Badge variant="secondary" className="text-xs shrink-0">
+                    <Sparkles className="mr-1 h-3 w-3" />
+                    AI-generated
+                  </Badge>
+                )}
+              </div>
+              
+              <div className={`grid grid-cols-1 gap-4 ${hasSelfAssessments ? "md:grid-cols-[120px_1fr_240px]" : "md:grid-cols-[120px_1fr]"}`}>
+                <div className="space-y-2">
+                  <Label htmlFor={`score-${criterion.id}`}>
+                    Score (1-{criterion.max_score})
+                  </Label>
+                  <Input
+                    id={`score-${criterion.id}`}
+                    type="number"
+                    min={1}
+                    max={criterion.max_score}
+                    value={formData.scores[criterion.id]?.score || 1}
+                    onChange={(e) => handleScoreChange(criterion.id, 'score', e.target.value)}
+                    className={validationErrors[criterion.id] ? "border-red-500" : ""}
+                    disabled={submitting}
+                  />
+                </div>
                 
-                <div className="grid grid-cols-1 md:grid-cols-[120px_1fr] gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor={`score-${criterion.id}`}>
-                      Score (1-{criterion.max_score})
-                    </Label>
-                    <Input
-                      id={`score-${criterion.id}`}
-                      type="number"
-                      min={1}
-                      max={criterion.max_score}
-                      value={formData.scores[criterion.id]?.score || 1}
-                      onChange={(e) => handleScoreChange(criterion.id, 'score', e.target.value)}
-                      className={validationErrors[criterion.id] ? "border-red-500" : ""}
-                      disabled={submitting}
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor={`justification-${criterion.id}`}>
-                      Justification <span className="text-red-500">*</span>
-                    </Label>
-                    <Textarea
-                      id={`justification-${criterion.id}`}
-                      placeholder="Explain your score based on the team's work..."
-                      value={formData.scores[criterion.id]?.justification || ""}
-                      onChange={(e) => handleScoreChange(criterion.id, 'justification', e.target.value)}
-                      className={validationErrors[criterion.id] ? "border-red-500" : ""}
-                      disabled={submitting}
-                      rows={3}
-                    />
-                    {validationErrors[criterion.id] && (
-                      <p className="text-sm text-red-500">{validationErrors[criterion.id]}</p>
-                    )}
-                  </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`justification-${criterion.id}`}>
+                    Justification <span className="text-red-500">*</span>
+                  </Label>
+                  <Textarea
+                    id={`justification-${criterion.id}`}
+                    placeholder="Explain your score based on the team's work..."
+                    value={formData.scores[criterion.id]?.justification || ""}
+                    onChange={(e) => handleScoreChange(criterion.id, 'justification', e.target.value)}
+                    className={validationErrors[criterion.id] ? "border-red-500" : ""}
+                    disabled={submitting}
+                    rows={3}
+                  />
+                  {validationErrors[criterion.id] && (
+                    <p className="text-sm text-red-500">{validationErrors[criterion.id]}</p>
+                  )}
                 </div>
+
+                {hasSelfAssessments && (
+                  <SelfAssessedScores
+                    criterionId={criterion.id}
+                    maxScore={criterion.max_score}
+                    selfAssessments={assessmentData.selfAssessments}
+                  />
+                )}
               </div>
-            ))}
-          </div>
+            </div>
+          ))}
+          <SelfAssessmentReflections selfAssessments={assessmentData.selfAssessments} />
+        </div>
+
+        {/* Overall Feedback */}
+        <div className="space-y-2">
+          <Label htmlFor="overall-feedback">
+            Overall Feedback (Optional)
+          </Label>
+          <Textarea
+            id="overall-feedback"
+            placeholder="Provide any additional feedback for the team..."
+            value={formData.overallFeedback}
+            onChange={(e) => setFormData(prev => ({ ...prev, overallFeedback: e.target.value }))}
+            disabled={submitting}
+            rows={4}
+          />
+        </div>
 
-          {/* Overall Feedback */}
+        {/* Reason for Change */}
+        {editing && (
           <div className="space-y-2">
-            <Label htmlFor="overall-feedback">
-              Overall Feedback (Optional)
+            <Label htmlFor="change-reason">
+              Reason for Change (Optional)
             </Label>
-            <Textarea
-              id="overall-feedback"
-              placeholder="Provide any additional feedback for the team..."
-              value={formData.overallFeedback}
-              onChange={(e) => setFormData(prev => ({ ...prev, overallFeedback: e.target.value }))}
+            <Input
+              id="change-reason"
+              placeholder="e.g. Corrected a typo in the justification"
+              value={changeReason}
+              onChange={(e) => setChangeReason(e.target.value)}
               disabled={submitting}
-              rows={4}
             />
           </div>
+        )}
 
-          {/* Error Alert */}
-          {error && (
-            <Alert variant="destructive">
-              <AlertCircle className="h-4 w-4" />
-              <AlertDescription>{error}</AlertDescription>
-            </Alert>
-          )}
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
 
-          {/* Submit Button */}
+        {/* Submit Button */}
+        {editing ? (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={handleCancelEditing}
+              disabled={submitting}
+              className="flex-1"
+              size="lg"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleUpdate}
+              disabled={submitting}
+              className="flex-1"
+              size="lg"
+            >
+              {submitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving Changes...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </div>
+        ) : (
           <Button
-            onClick={() => setShowConfirmDialog(true)}
+            onClick={handleSubmit}
             disabled={submitting}
             className="w-full"
             size="lg"
@@ -377,48 +650,74 @@ export function RubricAssessment({ projectId }: RubricAssessmentProps) {
             {submitting ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Submitting Assessment...
+                Saving Draft...
               </>
             ) : (
               <>
-                <Lock className="mr-2 h-4 w-4" />
-                Save Feedback & Lock Project
+                <Save className="mr-2 h-4 w-4" />
+                Save Draft
               </>
             )}
           </Button>
-        </CardContent>
-      </Card>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
-      {/* Confirmation Dialog */}
-      <AlertDialog open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Confirm Project Assessment</AlertDialogTitle>
-            <AlertDialogDescription asChild>
-              <div>
-                <p>Are you sure you want to submit this assessment? This action will:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Save your rubric scores and feedback</li>
-                  <li>Lock the project permanently (phase: closed)</li>
-                  <li>Prevent any further changes by students</li>
-                </ul>
-                <p className="mt-3">
-                  <strong>This action cannot be undone.</strong>
-                </p>
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={submitting}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleSubmit}
-              disabled={submitting}
-            >
-              {submitting ? "Submitting..." : "Confirm & Lock Project"}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </>
+type SelfAssessments = ProjectAssessmentData['selfAssessments'];
+
+/**
+ * Students' own scores for a criterion, shown beside the educator's score as
+ * a calibration aid
+ */
+function SelfAssessedScores({
+  criterionId,
+  maxScore,
+  selfAssessments
+}: {
+  criterionId: string;
+  maxScore: number;
+  selfAssessments: SelfAssessments;
+}) {
+  return (
+    <div className="space-y-2 rounded-md border border-dashed p-3 text-sm">
+      <p className="text-xs font-medium text-muted-foreground">Student self-assessment</p>
+      {selfAssessments.map((selfAssessment, index) => {
+        const selfScore = selfAssessment.scores.find(s => s.criterion_id === criterionId);
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate">{selfAssessment.student_name}</span>
+              <span className="font-medium shrink-0">
+                {selfScore ? `${selfScore.score}/${maxScore}` : "—"}
+              </span>
+            </div>
+            {selfScore?.justification && (
+              <p className="text-xs text-muted-foreground">{selfScore.justification}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Students' overall reflections from their self-assessments
+ */
+function SelfAssessmentReflections({ selfAssessments }: { selfAssessments: SelfAssessments }) {
+  const reflections = selfAssessments.filter(selfAssessment => selfAssessment.reflection);
+  if (reflections.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold">Student Reflections</h4>
+      {reflections.map((selfAssessment, index) => (
+        <div key={index} className="text-sm p-3 border border-dashed rounded-md">
+          <span className="font-medium">{selfAssessment.student_name}:</span> {selfAssessment.reflection}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { RubricCriterionData, RubricCritique, RubricIssueType } from "@/lib/types/problems";
+import { Loader2, SearchCheck, Sparkles, X } from "lucide-react";
+
+const ISSUE_LABELS: Record<RubricIssueType, string> = {
+  overlap: "Overlap",
+  vagueness: "Vague",
+  missing_dimension: "Missing dimension",
+};
+
+interface RubricAssistantProps {
+  /** Current problem title and description, used as context */
+  title: string;
+  description: string;
+  /** The educator's current criteria, used for critiques */
+  criteria: RubricCriterionData[];
+  onUseCriteria: (criteria: RubricCriterionData[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * AI rubric generation and critique for the rubric section of the problem form
+ */
+export function RubricAssistant({ title, description, criteria, onUseCriteria, disabled = false }: RubricAssistantProps) {
+  const [suggested, setSuggested] = useState<RubricCriterionData[] | null>(null);
+  const [critique, setCritique] = useState<RubricCritique | null>(null);
+  const [running, setRunning] = useState<'generate' | 'critique' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (mode: 'generate' | 'critique') => {
+    setRunning(mode);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/ai/rubric", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          mode,
+          title,
+          description,
+          criteria: mode === 'critique' ? criteria : undefined,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        setError(result.error || "The rubric assistant failed");
+      } else if (mode === 'generate') {
+        setSuggested(result.criteria);
+        setCritique(null);
+      } else {
+        setCritique(result.critique);
+        setSuggested(null);
+      }
+    } catch {
+      setError("The rubric assistant failed");
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const handleUse = () => {
+    if (!suggested) return;
+    onUseCriteria(suggested);
+    setSuggested(null);
+  };
+
+  const busy = disabled || running !== null;
+  const canCritique = criteria.some(criterion => criterion.criterion_text.trim());
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => run('generate')}
+          disabled={busy || !title.trim()}
+        >
+          {running === 'generate' ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Sparkles className="w-4 h-4 mr-2" />
+          )}
+          Suggest rubric for this problem
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => run('critique')}
+          disabled={busy || !title.trim() || !canCritique}
+        >
+          {running === 'critique' ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <SearchCheck className="w-4 h-4 mr-2" />
+          )}
+          Critique my rubric
+        </Button>
+        {!title.trim() && (
+          <span className="text-xs text-muted-foreground">Enter a problem title first.</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {suggested && (
+        <div className="space-y-3 rounded border border-dashed p-3 bg-muted/30">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">Suggested criteria</p>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" onClick={handleUse} disabled={busy}>
+                Replace my criteria
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setSuggested(null)} aria-label="Dismiss">
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          <ol className="list-decimal pl-5 space-y-2 text-sm">
+            {suggested.map((criterion, index) => (
+              <li key={index}>
+                <p>
+                  {criterion.criterion_text}{" "}
+                  <span className="text-muted-foreground">(max {criterion.max_score})</span>
+                </p>
+                <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                  {criterion.performance_levels?.map((level, levelIndex) => (
+                    <li key={levelIndex}>
+                      <span className="font-medium text-foreground">{level.label}:</span> {level.description}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {critique && (
+        <div className="space-y-3 rounded border border-dashed p-3 bg-muted/30">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">Rubric critique</p>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setCritique(null)} aria-label="Dismiss">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          {critique.summary && <p className="text-sm">{critique.summary}</p>}
+          {critique.issues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No issues found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {critique.issues.map((issue, index) => (
+                <li key={index} className="text-sm space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={issue.type === 'missing_dimension' ? "secondary" : "outline"} className="text-xs">
+                      {ISSUE_LABELS[issue.type]}
+                    </Badge>
+                    {issue.criteria.length > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        Criterion {issue.criteria.join(", ")}
+                      </span>
+                    )}
+                  </div>
+                  <p>{issue.comment}</p>
+                  {issue.suggestion && (
+                    <p className="text-xs text-muted-foreground">Suggestion: {issue.suggestion}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
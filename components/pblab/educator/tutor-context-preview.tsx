@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Eye, Loader2, RotateCcw } from "lucide-react";
+import { getTutorContextPreview, type TutorContextPreview as TutorContextPreviewData } from "@/lib/actions/ai";
+
+interface TutorContextPreviewProps {
+  projectId: string;
+}
+
+/**
+ * Educator preview of the exact context the AI tutor receives for a project
+ */
+export function TutorContextPreview({ projectId }: TutorContextPreviewProps) {
+  const [preview, setPreview] = useState<TutorContextPreviewData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLoadPreview = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await getTutorContextPreview(projectId);
+
+      if (result.success) {
+        setPreview(result.data);
+      } else {
+        setError(result.error || 'Failed to load tutor context');
+      }
+    } catch (err) {
+      console.error('Error fetching tutor context:', err);
+      setError('An unexpected error occurred while loading the tutor context');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              AI Tutor Context
+            </CardTitle>
+            <CardDescription>
+              See exactly what the tutor receives before the team&apos;s next message.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleLoadPreview} disabled={loading}>
+            {loading ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : preview ? (
+              <RotateCcw className="h-4 w-4 mr-1" />
+            ) : (
+              <Eye className="h-4 w-4 mr-1" />
+            )}
+            {preview ? 'Refresh' : 'Preview Context'}
+          </Button>
+        </div>
+      </CardHeader>
+      {(error || preview) && (
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {preview && (
+            <>
+              <div>
+                <h4 className="text-sm font-medium mb-2">System instruction</h4>
+                <pre className="bg-muted p-4 rounded-md text-xs whitespace-pre-wrap max-h-96 overflow-y-auto">
+                  {preview.systemInstruction}
+                </pre>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">
+                  Recent messages ({preview.messages.length})
+                </h4>
+                {preview.messages.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No messages yet.</p>
+                ) : (
+                  <div className="space-y-2 max-h-96 overflow-y-auto">
+                    {preview.messages.map((message, index) => (
+                      <div key={index} className="bg-muted/50 p-3 rounded-md">
+                        <p className="text-xs font-medium text-muted-foreground mb-1">
+                          {message.role === 'user' ? 'Team member' : 'Tutor'}
+                        </p>
+                        <p className="text-xs whitespace-pre-wrap">{message.content}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {preview.turnsSummarized > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {preview.turnsSummarized} older {preview.turnsSummarized === 1 ? 'message is' : 'messages are'} included
+                    only through the conversation summary.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
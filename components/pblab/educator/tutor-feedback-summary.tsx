@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  exportUnhelpfulTutorResponses,
+  getTutorFeedbackSummary,
+  type HelpfulnessStats,
+  type TutorFeedbackSummary as TutorFeedbackSummaryData
+} from "@/lib/actions/ai-feedback";
+import { Download, Loader2 } from "lucide-react";
+
+function formatHelpfulness(stats: HelpfulnessStats): string {
+  return stats.helpfulness === null ? "–" : `${Math.round(stats.helpfulness * 100)}%`;
+}
+
+function StatsRow({ label, stats }: { label: string; stats: HelpfulnessStats }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="truncate">{label}</span>
+      <span className="flex-shrink-0 text-xs text-muted-foreground">
+        {formatHelpfulness(stats)} helpful · {stats.up}↑ {stats.down}↓
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Educator dashboard card showing how helpful students rate the AI tutor
+ */
+export function TutorFeedbackSummary() {
+  const [summary, setSummary] = useState<TutorFeedbackSummaryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSummary() {
+      try {
+        const result = await getTutorFeedbackSummary();
+        if (result.success) {
+          setSummary(result.data);
+        } else {
+          setError(result.error);
+        }
+      } catch {
+        setError("Failed to load tutor feedback");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSummary();
+  }, []);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const result = await exportUnhelpfulTutorResponses();
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([result.data], { type: "text/csv;charset=utf-8" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `unhelpful-tutor-responses-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("Failed to export tutor feedback");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">AI Tutor Helpfulness</h3>
+        {summary && summary.total.down > 0 && (
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting}>
+            {exporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Export unhelpful
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground mt-2">Loading feedback...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive mt-2">{error}</p>
+      ) : !summary || summary.total.up + summary.total.down === 0 ? (
+        <p className="text-sm text-muted-foreground mt-2">
+          Students have not rated any tutor responses yet.
+        </p>
+      ) : (
+        <div className="mt-3 grid gap-6 md:grid-cols-3">
+          <div>
+            <p className="text-2xl font-bold">{formatHelpfulness(summary.total)}</p>
+            <p className="text-xs text-muted-foreground">
+              of {summary.total.up + summary.total.down} rated responses were helpful
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">By problem</p>
+            {summary.byProblem.map(problem => (
+              <StatsRow key={problem.problemId} label={problem.problemTitle} stats={problem} />
+            ))}
+          </div>
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">By prompt and model version</p>
+            {summary.byVersion.map(version => (
+              <StatsRow
+                key={`${version.promptVersion}-${version.model}`}
+                label={`${version.promptVersion} · ${version.model}`}
+                stats={version}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Brain } from "lucide-react";
+import { getTutorMemorySummary, type TutorMemorySummary as TutorMemorySummaryData } from "@/lib/actions/ai";
+
+interface TutorMemorySummaryProps {
+  projectId: string;
+}
+
+/**
+ * Educator view of the AI tutor's rolling summary of older conversation turns
+ */
+export function TutorMemorySummary({ projectId }: TutorMemorySummaryProps) {
+  const [summary, setSummary] = useState<TutorMemorySummaryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSummary() {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const result = await getTutorMemorySummary(projectId);
+
+        if (result.success) {
+          setSummary(result.data);
+        } else {
+          setError(result.error || 'Failed to load tutor summary');
+        }
+      } catch (err) {
+        console.error('Error fetching tutor summary:', err);
+        setError('An unexpected error occurred while loading the tutor summary');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchSummary();
+  }, [projectId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="h-5 w-5" />
+          AI Tutor Memory
+        </CardTitle>
+        <CardDescription>
+          The tutor replays recent messages word for word and remembers older ones through this summary.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : error ? (
+          <Alert>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        ) : !summary ? (
+          <p className="text-sm text-muted-foreground">
+            The conversation is still short enough to be replayed in full, so there is no summary yet.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="bg-muted p-4 rounded-md">
+              <p className="text-sm whitespace-pre-wrap">{summary.summary}</p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Covers {summary.turns_summarized} earlier {summary.turns_summarized === 1 ? 'message' : 'messages'} up
+              to {new Date(summary.summarized_through).toLocaleString()} • Updated{' '}
+              {new Date(summary.updated_at).toLocaleString()}
+              {summary.model && ` • ${summary.model}`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
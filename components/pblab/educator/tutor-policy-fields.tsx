@@ -0,0 +1,135 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { type TutorPolicyData, type ReadingListItem } from "@/lib/types/problems";
+import { Trash2, Plus } from "lucide-react";
+
+interface TutorPolicyFieldsProps {
+  value: TutorPolicyData;
+  onChange: (value: TutorPolicyData) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Empty tutor policy used to initialise forms
+ */
+export const EMPTY_TUTOR_POLICY: TutorPolicyData = {
+  extraInstructions: "",
+  forbiddenTopics: [],
+  readingList: [],
+};
+
+/**
+ * Form fields for a problem's AI tutor policy
+ *
+ * Shared by the create and edit problem forms. Students never see the policy.
+ */
+export function TutorPolicyFields({ value, onChange, disabled = false }: TutorPolicyFieldsProps) {
+  const handleReadingChange = (index: number, field: keyof ReadingListItem, fieldValue: string) => {
+    onChange({
+      ...value,
+      readingList: value.readingList.map((item, i) =>
+        i === index ? { ...item, [field]: fieldValue } : item
+      ),
+    });
+  };
+
+  const addReading = () => {
+    onChange({ ...value, readingList: [...value.readingList, { title: "", url: "", note: "" }] });
+  };
+
+  const removeReading = (index: number) => {
+    onChange({ ...value, readingList: value.readingList.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">AI Tutor Policy (Optional)</h3>
+        <p className="text-sm text-muted-foreground">
+          Guide the AI tutor for this problem. Students never see these settings.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tutor-instructions">Extra instructions</Label>
+        <Textarea
+          id="tutor-instructions"
+          value={value.extraInstructions}
+          onChange={(e) => onChange({ ...value, extraInstructions: e.target.value })}
+          placeholder="E.g. Encourage students to consider environmental as well as human factors before narrowing down causes."
+          rows={3}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tutor-forbidden">Forbidden topics or answers</Label>
+        <Textarea
+          id="tutor-forbidden"
+          value={value.forbiddenTopics.join("\n")}
+          onChange={(e) => onChange({ ...value, forbiddenTopics: e.target.value.split("\n") })}
+          placeholder={"One per line, e.g.\nThe outbreak is caused by contaminated well water"}
+          rows={3}
+          disabled={disabled}
+        />
+        <p className="text-xs text-muted-foreground">
+          The tutor will not reveal or confirm these, even if students ask directly.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Reading list</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addReading} disabled={disabled}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Reading
+          </Button>
+        </div>
+
+        {value.readingList.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Add sources the tutor can point students to.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {value.readingList.map((item, index) => (
+              <div key={index} className="grid gap-2 md:grid-cols-[1fr_1fr_1fr_auto] items-start">
+                <Input
+                  value={item.title}
+                  onChange={(e) => handleReadingChange(index, "title", e.target.value)}
+                  placeholder="Title *"
+                  disabled={disabled}
+                />
+                <Input
+                  value={item.url || ""}
+                  onChange={(e) => handleReadingChange(index, "url", e.target.value)}
+                  placeholder="https://..."
+                  disabled={disabled}
+                />
+                <Input
+                  value={item.note || ""}
+                  onChange={(e) => handleReadingChange(index, "note", e.target.value)}
+                  placeholder="When to suggest it"
+                  disabled={disabled}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => removeReading(index)}
+                  disabled={disabled}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
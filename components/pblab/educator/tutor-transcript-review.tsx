@@ -0,0 +1,532 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getAiTutorHistory, type AiConversationMessage } from "@/lib/actions/ai";
+import {
+  getCourseTutorTranscripts,
+  getTutorTurnAnnotations,
+  saveTutorTurnAnnotation,
+  deleteTutorTurnAnnotation,
+  type CourseTutorTranscripts,
+  type TutorTranscriptFilters,
+  type TutorTurnAnnotation
+} from "@/lib/actions/ai-transcripts";
+import type { Database } from "@/lib/db.types";
+import { cn } from "@/lib/utils";
+import { Loader2, MessageSquare, StickyNote, Trash2 } from "lucide-react";
+
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
+/** Exchanges loaded per page of a transcript */
+const TURNS_PER_PAGE = 50;
+
+const PHASE_LABELS: Record<ProjectPhase, string> = {
+  pre: "Pre-discussion",
+  research: "Research",
+  post: "Post-discussion",
+  closed: "Closed",
+};
+
+/**
+ * Filter values as entered in the form (dates as YYYY-MM-DD)
+ */
+interface FilterState {
+  teamId: string;
+  phase: ProjectPhase | "all";
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: FilterState = { teamId: "all", phase: "all", from: "", to: "" };
+
+/**
+ * Convert the form values into action filters (dates are whole UTC days)
+ */
+function toTranscriptFilters(filters: FilterState): TutorTranscriptFilters {
+  const until = filters.to ? new Date(`${filters.to}T00:00:00.000Z`) : null;
+  until?.setUTCDate(until.getUTCDate() + 1);
+
+  return {
+    teamId: filters.teamId === "all" ? undefined : filters.teamId,
+    phase: filters.phase === "all" ? undefined : filters.phase,
+    since: filters.from ? `${filters.from}T00:00:00.000Z` : undefined,
+    until: until ? until.toISOString() : undefined,
+  };
+}
+
+/**
+ * A logged exchange: the student's message and the tutor's response
+ */
+interface TranscriptTurn {
+  id: string;
+  phase: ProjectPhase | null;
+  createdAt: string;
+  studentName: string;
+  message: string;
+  response: string | null;
+  isPrivate: boolean;
+  promoted: boolean;
+}
+
+/**
+ * Group chat messages back into exchanges (messages are oldest first)
+ */
+function toTurns(messages: AiConversationMessage[]): TranscriptTurn[] {
+  const turns = new Map<string, TranscriptTurn>();
+  for (const msg of messages) {
+    const turn = turns.get(msg.turn_id);
+    if (msg.is_ai) {
+      if (turn) turn.response = msg.message;
+    } else if (!turn) {
+      turns.set(msg.turn_id, {
+        id: msg.turn_id,
+        phase: msg.phase,
+        createdAt: msg.created_at,
+        studentName: msg.user_name,
+        message: msg.message,
+        response: null,
+        isPrivate: msg.is_private,
+        promoted: msg.promoted,
+      });
+    }
+  }
+  return [...turns.values()];
+}
+
+interface TurnAnnotationsProps {
+  turnId: string;
+  annotations: TutorTurnAnnotation[];
+  onChange: () => void;
+}
+
+function TurnAnnotations({ turnId, annotations, onChange }: TurnAnnotationsProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = (annotation: TutorTurnAnnotation) => {
+    setEditingId(annotation.id);
+    setAdding(false);
+    setNote(annotation.note);
+    setError(null);
+  };
+
+  const cancel = () => {
+    setEditingId(null);
+    setAdding(false);
+    setNote("");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await saveTutorTurnAnnotation({
+        turnId,
+        note,
+        annotationId: editingId ?? undefined,
+      });
+
+      if (result.success) {
+        cancel();
+        onChange();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (annotationId: string) => {
+    setError(null);
+
+    try {
+      const result = await deleteTutorTurnAnnotation(annotationId);
+      if (result.success) {
+        onChange();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    }
+  };
+
+  const editing = adding || editingId !== null;
+
+  return (
+    <div className="space-y-2">
+      {annotations.map(annotation => (
+        editingId === annotation.id ? null : (
+          <div key={annotation.id} className="rounded border border-yellow-200 bg-yellow-50 p-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">
+                {annotation.authorName} · {new Date(annotation.updatedAt).toLocaleString()}
+              </span>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => startEdit(annotation)}>
+                  Edit
+                </Button>
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => handleDelete(annotation.id)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+            <p className="whitespace-pre-wrap">{annotation.note}</p>
+          </div>
+        )
+      ))}
+
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Private note (not visible to students)"
+            rows={2}
+            disabled={saving}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={cancel} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={saving || !note.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Note
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          onClick={() => { setAdding(true); setNote(""); }}
+        >
+          <StickyNote className="h-3 w-3 mr-1" />
+          Add note
+        </Button>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TranscriptViewerProps {
+  projectId: string;
+  filters: TutorTranscriptFilters;
+}
+
+function TranscriptViewer({ projectId, filters }: TranscriptViewerProps) {
+  const [messages, setMessages] = useState<AiConversationMessage[]>([]);
+  const [annotations, setAnnotations] = useState<TutorTurnAnnotation[]>([]);
+  const [offset, setOffset] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAnnotations = useCallback(async () => {
+    const result = await getTutorTurnAnnotations(projectId);
+    if (result.success) {
+      setAnnotations(result.data);
+    } else {
+      setError(result.error);
+    }
+  }, [projectId]);
+
+  const loadPage = useCallback(async (pageOffset: number) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await getAiTutorHistory({
+        projectId,
+        offset: pageOffset,
+        limit: TURNS_PER_PAGE,
+        thread: 'all',
+        ...filters,
+      });
+
+      if (result.success) {
+        // Older pages are prepended so the transcript stays oldest first
+        setMessages(prev => pageOffset === 0 ? result.data : [...result.data, ...prev]);
+        setHasMore(toTurns(result.data).length === TURNS_PER_PAGE);
+        setOffset(pageOffset + TURNS_PER_PAGE);
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      console.error("Error loading transcript:", err);
+      setError("An unexpected error occurred while loading the transcript");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, filters]);
+
+  useEffect(() => {
+    loadPage(0);
+    loadAnnotations();
+  }, [loadPage, loadAnnotations]);
+
+  const turns = toTurns(messages);
+
+  return (
+    <div className="space-y-4">
+      {hasMore && (
+        <div className="text-center">
+          <Button variant="outline" size="sm" onClick={() => loadPage(offset)} disabled={loading}>
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Load older exchanges
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {loading && turns.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : turns.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No tutor exchanges match the filters.
+        </p>
+      ) : (
+        turns.map(turn => (
+          <div key={turn.id} className="space-y-2 border-b pb-4 last:border-b-0">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{turn.studentName}</span>
+              <span>{new Date(turn.createdAt).toLocaleString()}</span>
+              {turn.phase && <Badge variant="outline" className="text-xs">{PHASE_LABELS[turn.phase]}</Badge>}
+              {turn.isPrivate && (
+                <Badge variant="secondary" className="text-xs">
+                  {turn.promoted ? 'Private · shared with team' : 'Private'}
+                </Badge>
+              )}
+            </div>
+            <div className="rounded border p-3 text-sm">
+              <p className="whitespace-pre-wrap">{turn.message}</p>
+            </div>
+            {turn.response && (
+              <div className="rounded border bg-muted/50 p-3 text-sm">
+                <p className="text-xs font-medium text-muted-foreground mb-1">AI Tutor</p>
+                <p className="whitespace-pre-wrap">{turn.response}</p>
+              </div>
+            )}
+            <TurnAnnotations
+              turnId={turn.id}
+              annotations={annotations.filter(annotation => annotation.turnId === turn.id)}
+              onChange={loadAnnotations}
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+interface TutorTranscriptReviewProps {
+  initial: CourseTutorTranscripts;
+}
+
+/**
+ * Course-wide review of AI tutor transcripts with private educator notes
+ */
+export function TutorTranscriptReview({ initial }: TutorTranscriptReviewProps) {
+  const [data, setData] = useState(initial);
+  const [form, setForm] = useState<FilterState>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<TutorTranscriptFilters>({});
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(
+    initial.transcripts[0]?.projectId ?? null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyFilters = async (next: FilterState) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const transcriptFilters = toTranscriptFilters(next);
+      const result = await getCourseTutorTranscripts(initial.course.id, transcriptFilters);
+
+      if (result.success) {
+        setData(result.data);
+        setFilters(transcriptFilters);
+        setSelectedProjectId(current =>
+          result.data.transcripts.some(t => t.projectId === current)
+            ? current
+            : result.data.transcripts[0]?.projectId ?? null
+        );
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selected = data.transcripts.find(t => t.projectId === selectedProjectId) ?? null;
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto_auto_auto] items-end">
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={form.teamId} onValueChange={(teamId) => setForm({ ...form, teamId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All teams</SelectItem>
+                  {data.teams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Phase</Label>
+              <Select
+                value={form.phase}
+                onValueChange={(phase) => setForm({ ...form, phase: phase as FilterState["phase"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All phases</SelectItem>
+                  {(Object.keys(PHASE_LABELS) as ProjectPhase[]).map(phase => (
+                    <SelectItem key={phase} value={phase}>{PHASE_LABELS[phase]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transcripts-from">From</Label>
+              <Input
+                id="transcripts-from"
+                type="date"
+                value={form.from}
+                onChange={(e) => setForm({ ...form, from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transcripts-to">To</Label>
+              <Input
+                id="transcripts-to"
+                type="date"
+                value={form.to}
+                onChange={(e) => setForm({ ...form, to: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => { setForm(EMPTY_FILTERS); applyFilters(EMPTY_FILTERS); }}
+                disabled={loading}
+              >
+                Reset
+              </Button>
+              <Button onClick={() => applyFilters(form)} disabled={loading}>
+                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Apply
+              </Button>
+            </div>
+          </div>
+          {error && (
+            <div className="mt-4 p-3 text-sm text-destructive bg-destructive/10 rounded border border-destructive/20">
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {data.transcripts.length === 0 ? (
+        <div className="rounded-lg border p-6 text-center">
+          <p className="text-sm text-muted-foreground">No tutor conversations match the filters.</p>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+          {/* Transcript list */}
+          <div className="space-y-2">
+            {data.transcripts.map(transcript => (
+              <button
+                key={transcript.projectId}
+                type="button"
+                onClick={() => setSelectedProjectId(transcript.projectId)}
+                className={cn(
+                  "w-full rounded-lg border p-3 text-left transition-colors hover:bg-muted/50",
+                  transcript.projectId === selectedProjectId && "border-primary bg-muted/50"
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{transcript.teamName}</span>
+                  <Badge variant="secondary" className="text-xs">
+                    <MessageSquare className="h-3 w-3 mr-1" />
+                    {transcript.turnCount}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{transcript.problemTitle}</p>
+                <div className="mt-2 space-y-0.5">
+                  {transcript.students.map(student => (
+                    <div key={student.userId} className="flex justify-between text-xs">
+                      <span>{student.name}</span>
+                      <span className="text-muted-foreground">
+                        {student.messageCount} {student.messageCount === 1 ? "message" : "messages"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Selected transcript */}
+          {selected && (
+            <Card>
+              <CardHeader>
+                <CardTitle>{selected.teamName}</CardTitle>
+                <CardDescription>
+                  {selected.problemTitle} · currently in {PHASE_LABELS[selected.projectPhase].toLowerCase()} ·
+                  last message {new Date(selected.lastActivity).toLocaleString()}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TranscriptViewer key={selected.projectId} projectId={selected.projectId} filters={filters} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -66,6 +66,12 @@ export function NotificationsIndicator() {
     switch (type) {
       case 'mention_in_comment':
         return 'mentioned you in a comment';
+      case 'assessment_review_requested':
+        return 'asked you to review an assessment';
+      case 'assessment_reviewed':
+        return 'reviewed your assessment';
+      case 'assessment_published':
+        return 'published your project assessment';
       default:
         return type.replace('_', ' ');
     }
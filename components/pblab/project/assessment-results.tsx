@@ -95,6 +95,11 @@ export function AssessmentResults({ projectId }: AssessmentResultsProps) {
   const maxTotalScore = rubricResults.reduce((sum, result) => sum + result.criterion.max_score, 0);
   const percentage = maxTotalScore > 0 ? Math.round((totalScore / maxTotalScore) * 100) : 0;
 
+  // Compare only the criteria the student self-assessed
+  const selfAssessed = rubricResults.filter(result => result.self_score !== null);
+  const selfTotal = selfAssessed.reduce((sum, result) => sum + (result.self_score ?? 0), 0);
+  const educatorTotalForSelfAssessed = selfAssessed.reduce((sum, result) => sum + result.score, 0);
+
   return (
     <Card>
       <CardHeader>
@@ -124,14 +129,32 @@ export function AssessmentResults({ projectId }: AssessmentResultsProps) {
               Assessed by {assessment.assessor_name}
             </div>
             <p className="text-xs text-muted-foreground">
-              {new Date(assessment.created_at).toLocaleDateString()}
+              {assessment.published_at
+                ? `Published ${new Date(assessment.published_at).toLocaleDateString()}`
+                : new Date(assessment.created_at).toLocaleDateString()}
             </p>
+            {assessment.updated_at !== assessment.created_at && (
+              <p className="text-xs text-muted-foreground">
+                Last updated {new Date(assessment.updated_at).toLocaleDateString()}
+              </p>
+            )}
             <Badge variant="outline" className="text-xs">
-              {assessment.status.replace('_', ' ')}
+              {assessment.status === 'final' ? 'published' : assessment.status.replace('_', ' ')}
             </Badge>
           </div>
         </div>
 
+        {/* Self-Assessment Comparison */}
+        {selfAssessed.length > 0 && (
+          <div className="p-4 border rounded-lg space-y-1">
+            <p className="font-medium">Your Self-Assessment</p>
+            <p className="text-sm text-muted-foreground">
+              Your self-scores total {selfTotal}, against {educatorTotalForSelfAssessed} from your educator on the same criteria
+              {' '}({describeGap(selfTotal, educatorTotalForSelfAssessed).toLowerCase()}).
+            </p>
+          </div>
+        )}
+
         {/* Rubric Scores */}
         <div className="space-y-4">
           <h3 className="font-semibold">Detailed Rubric Scores</h3>
@@ -151,6 +174,13 @@ export function AssessmentResults({ projectId }: AssessmentResultsProps) {
                 </div>
               </div>
               
+              {result.self_score !== null && (
+                <p className="text-sm text-muted-foreground">
+                  Your self-score: {result.self_score} / {result.criterion.max_score}
+                  {' '}({describeGap(result.self_score, result.score)})
+                </p>
+              )}
+              
               {result.justification && (
                 <div className="bg-muted p-3 rounded-md">
                   <p className="text-sm text-muted-foreground mb-1 font-medium">Feedback:</p>
@@ -173,4 +203,13 @@ export function AssessmentResults({ projectId }: AssessmentResultsProps) {
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Describe how a student's self-score compares with their educator's score
+ */
+function describeGap(selfScore: number, educatorScore: number): string {
+  const gap = selfScore - educatorScore;
+  if (gap === 0) return 'Matches your educator';
+  return `${Math.abs(gap)} ${Math.abs(gap) === 1 ? 'point' : 'points'} ${gap > 0 ? 'above' : 'below'} your educator`;
+}
@@ -31,6 +31,7 @@ import {
   AlertCircle
 } from "lucide-react";
 import { createComment, getProjectMentionableUsers } from "@/lib/actions/artifacts";
+import { DiscussionSummary } from "@/components/pblab/project/discussion-summary";
 
 interface CommentThreadProps {
   artifactId: string;
@@ -177,6 +178,9 @@ export function CommentThread({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* AI Discussion Summary */}
+        <DiscussionSummary artifactId={artifactId} commentCount={comments.length} />
+
         {/* Comments List */}
         {comments.length === 0 ? (
           <div className="text-center py-6 text-muted-foreground">
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  MIN_COMMENTS_TO_SUMMARIZE,
+  type DiscussionPoint,
+  type DiscussionSummary as DiscussionSummaryData
+} from "@/lib/ai/discussion-summary";
+import { Loader2, Sparkles, X } from "lucide-react";
+
+interface DiscussionSummaryProps {
+  artifactId: string;
+  /** Number of comments currently shown in the thread */
+  commentCount: number;
+}
+
+interface LoadedSummary {
+  summary: DiscussionSummaryData;
+  commentCount: number;
+  generatedAt: string;
+}
+
+const SECTIONS: Array<{ key: keyof DiscussionSummaryData; label: string }> = [
+  { key: "keyPoints", label: "Key points" },
+  { key: "openQuestions", label: "Open questions" },
+  { key: "decisions", label: "Decisions" },
+];
+
+function PointList({ points }: { points: DiscussionPoint[] }) {
+  return (
+    <ul className="list-disc pl-5 space-y-1">
+      {points.map((point, index) => (
+        <li key={index}>
+          {point.text}
+          {point.authors.length > 0 && (
+            <span className="text-xs text-muted-foreground"> ({point.authors.join(", ")})</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * On-demand AI summary of an artifact's comment thread
+ *
+ * The server caches summaries, so asking again before new comments arrive
+ * returns the same summary without another AI call.
+ */
+export function DiscussionSummary({ artifactId, commentCount }: DiscussionSummaryProps) {
+  const [loaded, setLoaded] = useState<LoadedSummary | null>(null);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (commentCount < MIN_COMMENTS_TO_SUMMARIZE) {
+    return null;
+  }
+
+  const handleSummarize = async () => {
+    setLoading(true);
+    setError(null);
+    setOpen(true);
+
+    try {
+      const response = await fetch("/api/ai/summarize-discussion", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ artifactId }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setLoaded({
+          summary: result.summary,
+          commentCount: result.commentCount,
+          generatedAt: result.generatedAt,
+        });
+      } else {
+        setError(result.error || "Failed to summarize the discussion");
+      }
+    } catch {
+      setError("Failed to summarize the discussion");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isStale = loaded !== null && loaded.commentCount !== commentCount;
+  const isEmpty = loaded !== null && SECTIONS.every(section => loaded.summary[section.key].length === 0);
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" onClick={handleSummarize} className="flex items-center gap-2">
+        <Sparkles className="h-4 w-4" />
+        Summarize discussion
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border bg-muted/30 p-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-2">
+          <Sparkles className="h-4 w-4" />
+          Discussion summary
+        </p>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setOpen(false)} aria-label="Close summary">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Summarizing {commentCount} comments...
+        </div>
+      ) : error ? (
+        <p className="text-destructive">{error}</p>
+      ) : loaded && (
+        <>
+          {isEmpty ? (
+            <p className="text-muted-foreground">Nothing substantial to summarize yet.</p>
+          ) : (
+            SECTIONS.filter(section => loaded.summary[section.key].length > 0).map(section => (
+              <div key={section.key} className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">{section.label}</p>
+                <PointList points={loaded.summary[section.key]} />
+              </div>
+            ))
+          )}
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              Covers {loaded.commentCount} comments · {new Date(loaded.generatedAt).toLocaleString()}
+            </span>
+            {isStale && (
+              <Button variant="outline" size="sm" className="h-6 text-xs" onClick={handleSummarize}>
+                New comments – refresh
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
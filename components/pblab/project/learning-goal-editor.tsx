@@ -5,8 +5,12 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Loader2, Lightbulb, Save, Copy, CheckCircle, AlertCircle, ArrowRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Lightbulb, Save, Plus, CheckCircle, AlertCircle, ArrowRight, BookOpen, ClipboardCheck } from "lucide-react";
 import { updateProjectLearningGoals, updateProjectPhase } from "@/lib/actions/projects";
+import { AiQuotaIndicator } from "@/components/pblab/ai/ai-quota-indicator";
+import { LearningGoalReview } from "@/components/pblab/project/learning-goal-review";
+import type { LearningGoalReview as LearningGoalReviewData, LearningGoalSuggestion } from "@/lib/ai/learning-goals";
 
 interface LearningGoalEditorProps {
   projectId: string;
@@ -16,9 +20,10 @@ interface LearningGoalEditorProps {
   isLocked?: boolean;
 }
 
-interface AiSuggestion {
-  text: string;
+interface AiSuggestion extends LearningGoalSuggestion {
   id: string;
+  /** Whether the goal has been added to the team's goals */
+  added: boolean;
 }
 
 export function LearningGoalEditor({ 
@@ -35,6 +40,10 @@ export function LearningGoalEditor({
   const [saveMessage, setSaveMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [suggestionsError, setSuggestionsError] = useState<string | null>(null);
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const [quotaRefreshKey, setQuotaRefreshKey] = useState(0);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [review, setReview] = useState<{ review: LearningGoalReviewData; goals: string } | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
 
   const handleSave = async () => {
     setIsSaving(true);
@@ -74,17 +83,20 @@ export function LearningGoalEditor({
         body: JSON.stringify({ projectId }),
       });
 
+      const data = await response.json().catch(() => ({}));
+
+      // Quota errors carry a message with the reset time
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        setSuggestionsError(data.error || "Failed to get AI suggestions. Please try again.");
+        return;
       }
-
-      const data = await response.json();
       
       if (data.success && data.suggestions) {
-        // Convert suggestions to objects with IDs for React keys
-        const suggestionsWithIds = data.suggestions.map((suggestion: string, index: number) => ({
+        // Add IDs for React keys
+        const suggestionsWithIds = (data.suggestions as LearningGoalSuggestion[]).map((suggestion, index) => ({
+          ...suggestion,
           id: `suggestion-${index}`,
-          text: suggestion
+          added: false
         }));
         setSuggestions(suggestionsWithIds);
         setSuggestionsError(null);
@@ -96,17 +108,50 @@ export function LearningGoalEditor({
       setSuggestionsError("Failed to get AI suggestions. Please try again.");
     } finally {
       setIsLoadingSuggestions(false);
+      setQuotaRefreshKey(key => key + 1);
     }
   };
 
-  const handleCopySuggestion = (suggestionText: string) => {
+  const handleReviewGoals = async () => {
+    setIsReviewing(true);
+    setReviewError(null);
+
+    const reviewedGoals = goals.trim();
+
+    try {
+      const response = await fetch('/api/ai/review-goals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId, goals: reviewedGoals }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok && data.success && data.review) {
+        setReview({ review: data.review, goals: reviewedGoals });
+      } else {
+        setReviewError(data.error || "Failed to review your learning goals. Please try again.");
+      }
+    } catch (error) {
+      console.error('Error reviewing learning goals:', error);
+      setReviewError("Failed to review your learning goals. Please try again.");
+    } finally {
+      setIsReviewing(false);
+      setQuotaRefreshKey(key => key + 1);
+    }
+  };
+
+  const handleAddSuggestion = (suggestion: AiSuggestion) => {
     // Add suggestion to current goals with proper formatting
     const currentGoals = goals.trim();
     const newGoals = currentGoals 
-      ? `${currentGoals}\n\n• ${suggestionText}`
-      : `• ${suggestionText}`;
+      ? `${currentGoals}\n\n• ${suggestion.goal}`
+      : `• ${suggestion.goal}`;
     
     setGoals(newGoals);
+    setSuggestions(prev => prev.map(s => (s.id === suggestion.id ? { ...s, added: true } : s)));
     // Provide visual feedback by briefly showing a success state
     setSaveMessage({ type: 'success', text: 'Suggestion added to your goals!' });
     setTimeout(() => setSaveMessage(null), 2000);
@@ -140,6 +185,7 @@ export function LearningGoalEditor({
   };
 
   const hasChanges = goals.trim() !== (initialGoals || '').trim();
+  const canReviewGoals = currentUserRole === 'student' && !isLocked;
   const canTransitionToResearch = currentUserRole === 'student' && projectPhase === 'pre' && !isLocked;
 
   return (
@@ -163,6 +209,22 @@ export function LearningGoalEditor({
               )}
               {isLoadingSuggestions ? 'Getting Suggestions...' : 'AI Suggestions'}
             </Button>
+            {canReviewGoals && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReviewGoals}
+                disabled={isReviewing || !goals.trim()}
+                className="flex items-center gap-2"
+              >
+                {isReviewing ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ClipboardCheck className="h-4 w-4" />
+                )}
+                {isReviewing ? 'Reviewing...' : 'Review My Goals'}
+              </Button>
+            )}
             <Button
               onClick={handleSave}
               disabled={isSaving || !hasChanges || isLocked}
@@ -191,6 +253,10 @@ Learning Goals: What do you hope to learn and achieve? Be specific about the ski
           className="min-h-[200px] resize-y"
         />
 
+        {!isLocked && (
+          <AiQuotaIndicator projectId={projectId} refreshKey={quotaRefreshKey} className="justify-end" />
+        )}
+
         <p className="text-sm text-muted-foreground">
           {goals.trim().length > 0 
             ? `${goals.trim().length} characters` 
@@ -223,6 +289,51 @@ Learning Goals: What do you hope to learn and achieve? Be specific about the ski
         </Alert>
       )}
 
+      {/* Goal Review Error */}
+      {reviewError && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertCircle className="h-4 w-4 text-red-600" />
+          <AlertDescription className="text-red-800">
+            {reviewError}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* AI Goal Review */}
+      {review && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Feedback on Your Learning Goals
+            </CardTitle>
+            <CardDescription>
+              Each goal is scored from 1 to 5 for how specific, measurable and aligned with the problem it is.
+              Your goals are not changed; use the feedback to revise them yourself. Your educator can see this feedback.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LearningGoalReview review={review.review} />
+
+            <div className="mt-4 pt-4 border-t flex items-center justify-between gap-2">
+              {goals.trim() !== review.goals ? (
+                <p className="text-xs text-muted-foreground">
+                  You have edited your goals since this review.
+                </p>
+              ) : <span />}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setReview(null)}
+                className="text-xs text-muted-foreground"
+              >
+                Clear feedback
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* AI Suggestions */}
       {suggestions.length > 0 && (
         <Card>
@@ -232,7 +343,7 @@ Learning Goals: What do you hope to learn and achieve? Be specific about the ski
               AI-Suggested Learning Goals
             </CardTitle>
             <CardDescription>
-              Click on any suggestion to add it to your goals, or use them as inspiration.
+              Add a suggestion to your goals with one click, or use them as inspiration.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -242,18 +353,39 @@ Learning Goals: What do you hope to learn and achieve? Be specific about the ski
                   key={suggestion.id}
                   className="flex items-start gap-3 p-3 bg-muted/50 rounded-md hover:bg-muted/70 transition-colors"
                 >
-                  <div className="flex-1">
-                    <p className="text-sm leading-relaxed">{suggestion.text}</p>
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-sm font-medium leading-relaxed">{suggestion.goal}</p>
+                      <Badge variant="outline" className="shrink-0 text-xs capitalize">
+                        {suggestion.bloomLevel}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{suggestion.rationale}</p>
+                    {suggestion.resources.length > 0 && (
+                      <div className="flex items-start gap-2 text-xs text-muted-foreground">
+                        <BookOpen className="h-3 w-3 mt-0.5 shrink-0" />
+                        <span>{suggestion.resources.join(' · ')}</span>
+                      </div>
+                    )}
                   </div>
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => handleCopySuggestion(suggestion.text)}
-                    disabled={isLocked}
+                    onClick={() => handleAddSuggestion(suggestion)}
+                    disabled={isLocked || suggestion.added}
                     className="flex items-center gap-1 text-xs"
                   >
-                    <Copy className="h-3 w-3" />
-                    Add
+                    {suggestion.added ? (
+                      <>
+                        <CheckCircle className="h-3 w-3" />
+                        Added
+                      </>
+                    ) : (
+                      <>
+                        <Plus className="h-3 w-3" />
+                        Add
+                      </>
+                    )}
                   </Button>
                 </div>
               ))}
@@ -0,0 +1,54 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  GOAL_SCORE_MAX,
+  type LearningGoalFeedback,
+  type LearningGoalReview as LearningGoalReviewData
+} from "@/lib/ai/learning-goals";
+
+interface LearningGoalReviewProps {
+  review: LearningGoalReviewData;
+}
+
+const DIMENSIONS: Array<{ key: keyof Pick<LearningGoalFeedback, 'specificity' | 'measurability' | 'alignment'>; label: string }> = [
+  { key: "specificity", label: "Specific" },
+  { key: "measurability", label: "Measurable" },
+  { key: "alignment", label: "Aligned" },
+];
+
+function scoreVariant(score: number): "default" | "secondary" | "destructive" {
+  if (score >= GOAL_SCORE_MAX - 1) return "default";
+  if (score <= 2) return "destructive";
+  return "secondary";
+}
+
+/**
+ * Per-goal scores, feedback and suggested rewrites from an AI goal review
+ */
+export function LearningGoalReview({ review }: LearningGoalReviewProps) {
+  return (
+    <div className="space-y-3">
+      {review.overallFeedback && (
+        <p className="text-sm">{review.overallFeedback}</p>
+      )}
+      {review.goals.map((goal, index) => (
+        <div key={index} className="space-y-2 p-3 bg-muted/50 rounded-md">
+          <p className="text-sm font-medium leading-relaxed">{goal.goal}</p>
+          <div className="flex flex-wrap gap-1">
+            {DIMENSIONS.map(dimension => (
+              <Badge key={dimension.key} variant={scoreVariant(goal[dimension.key])} className="text-xs">
+                {dimension.label} {goal[dimension.key]}/{GOAL_SCORE_MAX}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">{goal.feedback}</p>
+          {goal.suggestedRewrite && (
+            <div className="text-sm border-l-2 pl-3">
+              <span className="text-xs font-medium text-muted-foreground">Suggested rewrite: </span>
+              {goal.suggestedRewrite}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EyeOff, Loader2, Save, Users } from "lucide-react";
+import {
+  getPeerAssessment,
+  savePeerRatings,
+  type StudentPeerAssessment
+} from "@/lib/actions/peer-assessment";
+
+interface PeerAssessmentFormProps {
+  projectId: string;
+}
+
+/**
+ * Student form for rating each teammate's contribution on the problem's
+ * peer criteria. Renders nothing when the problem does not use peer assessment.
+ */
+export function PeerAssessmentForm({ projectId }: PeerAssessmentFormProps) {
+  const [assessment, setAssessment] = useState<StudentPeerAssessment | null>(null);
+  const [scores, setScores] = useState<Record<string, Record<string, number>>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchAssessment = useCallback(async () => {
+    const result = await getPeerAssessment(projectId);
+    if (result.success) {
+      setAssessment(result.data);
+      setScores(result.data?.myRatings ?? {});
+    } else {
+      setError(result.error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchAssessment();
+  }, [fetchAssessment]);
+
+  if (!assessment) {
+    return error ? (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    ) : null;
+  }
+
+  const { criteria, teammates, isOpen } = assessment;
+  const allRated = teammates.every(teammate =>
+    criteria.every(criterion => scores[teammate.id]?.[criterion.id] !== undefined)
+  );
+
+  const setScore = (teammateId: string, criterionId: string, score: number) => {
+    setMessage(null);
+    setScores(prev => ({ ...prev, [teammateId]: { ...prev[teammateId], [criterionId]: score } }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await savePeerRatings({
+        projectId,
+        ratings: teammates.flatMap(teammate => criteria.map(criterion => ({
+          rateeId: teammate.id,
+          criterionId: criterion.id,
+          score: scores[teammate.id][criterion.id]
+        })))
+      });
+
+      if (result.success) {
+        setMessage(result.message);
+        await fetchAssessment();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Peer Assessment
+          </CardTitle>
+          <Badge variant={assessment.isComplete ? "secondary" : "outline"}>
+            {assessment.isComplete ? "Submitted" : "Not submitted"}
+          </Badge>
+        </div>
+        <CardDescription>
+          {isOpen
+            ? "Rate how much each teammate contributed to the project. Your educator uses the ratings to turn the team score into individual grades."
+            : "Peer assessment has closed. These are the ratings you gave."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Alert>
+          <EyeOff className="h-4 w-4" />
+          <AlertDescription>
+            Your teammates never see your ratings. Only your educators do.
+          </AlertDescription>
+        </Alert>
+
+        {teammates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no teammates to rate.</p>
+        ) : (
+          teammates.map(teammate => (
+            <div key={teammate.id} className="border rounded-lg p-4 space-y-3">
+              <h4 className="font-medium">{teammate.name}</h4>
+              {criteria.map(criterion => (
+                <div key={criterion.id} className="flex items-center justify-between gap-4">
+                  <Label className="font-normal">{criterion.criterion_text}</Label>
+                  <Select
+                    value={scores[teammate.id]?.[criterion.id]?.toString() ?? ""}
+                    onValueChange={(value) => setScore(teammate.id, criterion.id, Number(value))}
+                    disabled={!isOpen || saving}
+                  >
+                    <SelectTrigger className="w-28 shrink-0">
+                      <SelectValue placeholder="Score" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: criterion.max_score }, (_, index) => index + 1).map(score => (
+                        <SelectItem key={score} value={score.toString()}>
+                          {score} / {criterion.max_score}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+
+        {isOpen && teammates.length > 0 && (
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={!allRated || saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              {assessment.isComplete ? "Update Ratings" : "Submit Ratings"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
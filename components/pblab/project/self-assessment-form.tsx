@@ -0,0 +1,197 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClipboardList, Loader2, Save } from "lucide-react";
+import {
+  getSelfAssessment,
+  saveSelfAssessment,
+  type StudentSelfAssessment
+} from "@/lib/actions/self-assessment";
+
+interface SelfAssessmentFormProps {
+  projectId: string;
+}
+
+interface FormData {
+  scores: Record<string, { score: number | null; justification: string }>;
+  reflection: string;
+}
+
+function initialForm(selfAssessment: StudentSelfAssessment): FormData {
+  return {
+    reflection: selfAssessment.saved?.reflection ?? '',
+    scores: Object.fromEntries(selfAssessment.rubricCriteria.map(criterion => {
+      const saved = selfAssessment.saved?.scores.find(s => s.criterion_id === criterion.id);
+      return [criterion.id, { score: saved?.score ?? null, justification: saved?.justification ?? '' }];
+    }))
+  };
+}
+
+/**
+ * Student form for rating their own work against the rubric their educator
+ * will use. Stored separately from the educator's assessment.
+ */
+export function SelfAssessmentForm({ projectId }: SelfAssessmentFormProps) {
+  const [selfAssessment, setSelfAssessment] = useState<StudentSelfAssessment | null>(null);
+  const [formData, setFormData] = useState<FormData>({ scores: {}, reflection: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchSelfAssessment = useCallback(async () => {
+    const result = await getSelfAssessment(projectId);
+    if (result.success) {
+      setSelfAssessment(result.data);
+      setFormData(initialForm(result.data));
+    } else {
+      setError(result.error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSelfAssessment();
+  }, [fetchSelfAssessment]);
+
+  if (!selfAssessment) {
+    return error ? (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    ) : null;
+  }
+
+  // Nothing to rate against until the educator adds a rubric
+  if (selfAssessment.rubricCriteria.length === 0) return null;
+
+  const { rubricCriteria, saved, isOpen } = selfAssessment;
+  const allScored = rubricCriteria.every(criterion => formData.scores[criterion.id]?.score != null);
+
+  const updateScore = (criterionId: string, field: 'score' | 'justification', value: string) => {
+    setMessage(null);
+    setFormData(prev => ({
+      ...prev,
+      scores: {
+        ...prev.scores,
+        [criterionId]: {
+          ...prev.scores[criterionId],
+          ...(field === 'score' ? { score: Number(value) } : { justification: value })
+        }
+      }
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await saveSelfAssessment({
+        projectId,
+        scores: rubricCriteria.map(criterion => ({
+          criterionId: criterion.id,
+          score: formData.scores[criterion.id].score!,
+          justification: formData.scores[criterion.id].justification
+        })),
+        reflection: formData.reflection
+      });
+
+      if (result.success) {
+        setMessage(result.message);
+        await fetchSelfAssessment();
+      } else {
+        setError(result.error);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An unexpected error occurred");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Self-Assessment
+          </CardTitle>
+          <Badge variant={saved ? "secondary" : "outline"}>
+            {saved ? `Saved ${new Date(saved.updated_at).toLocaleDateString()}` : "Not started"}
+          </Badge>
+        </div>
+        <CardDescription>
+          {isOpen
+            ? "Rate your own work against the rubric your educator will use. Only you and your educators see your self-assessment, and it does not change your grade."
+            : "Self-assessment has closed. These are the scores you gave your own work."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rubricCriteria.map((criterion, index) => (
+          <div key={criterion.id} className="space-y-3 p-4 border rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+              <div className="font-medium">
+                {index + 1}. {criterion.criterion_text}
+              </div>
+              <Select
+                value={formData.scores[criterion.id]?.score?.toString() ?? ""}
+                onValueChange={(value) => updateScore(criterion.id, 'score', value)}
+                disabled={!isOpen || saving}
+              >
+                <SelectTrigger className="w-28 shrink-0">
+                  <SelectValue placeholder="Score" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: criterion.max_score }, (_, i) => i + 1).map(score => (
+                    <SelectItem key={score} value={score.toString()}>
+                      {score} / {criterion.max_score}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Textarea
+              placeholder="Why this score? (optional)"
+              value={formData.scores[criterion.id]?.justification ?? ""}
+              onChange={(e) => updateScore(criterion.id, 'justification', e.target.value)}
+              disabled={!isOpen || saving}
+              rows={2}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label htmlFor="self-assessment-reflection">Reflection (Optional)</Label>
+          <Textarea
+            id="self-assessment-reflection"
+            placeholder="What went well, and what would you do differently next time?"
+            value={formData.reflection}
+            onChange={(e) => setFormData(prev => ({ ...prev, reflection: e.target.value }))}
+            disabled={!isOpen || saving}
+            rows={3}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {message && <p className="text-sm text-green-600">{message}</p>}
+
+        {isOpen && (
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={!allScored || saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+              {saved ? "Update Self-Assessment" : "Save Self-Assessment"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getAuthenticatedUser } from "@/lib/actions/shared/authorization";
+import type { AiErrorCode } from "@/lib/ai";
+import {
+  QueryResult,
+  createSuccessResponse,
+  createErrorResponse
+} from "@/lib/shared/action-types";
+
+/** Failures further apart than this start a new outage window */
+const OUTAGE_GAP_MINUTES = 15;
+
+/** Most failures read when building the windows */
+const MAX_FAILURES = 5000;
+
+/**
+ * A period of consecutive failed AI calls
+ */
+export interface AiOutageWindow {
+  /** Time of the first failure in the window */
+  start: string;
+  /** Time of the last failure in the window */
+  end: string;
+  failureCount: number;
+  /** Number of failures per error code */
+  errorCodes: Partial<Record<AiErrorCode, number>>;
+  /** AI features that failed during the window */
+  features: string[];
+  /** Number of distinct users affected */
+  affectedUsers: number;
+}
+
+/**
+ * AI service health over a recent period
+ */
+export interface AiServiceStatus {
+  /** Start of the period covered */
+  since: string;
+  /** AI calls logged in the period, including failures */
+  totalCalls: number;
+  failedCalls: number;
+  /** Outage windows, most recent first */
+  windows: AiOutageWindow[];
+}
+
+/**
+ * Parameters for loading AI service status
+ */
+export interface GetAiServiceStatusParams {
+  /** Number of days to look back (defaults to 7) */
+  days?: number;
+}
+
+/**
+ * Verify admin permissions
+ *
+ * Helper function to ensure only admin users can perform admin operations
+ */
+async function requireAdminPermissions(): Promise<void> {
+  const user = await getAuthenticatedUser();
+  if (user.role !== 'admin') {
+    throw new Error('Admin permissions required for this operation');
+  }
+}
+
+/**
+ * Get recent AI failures grouped into outage windows
+ *
+ * Failed calls are logged in ai_usage with an error code. Failures less than
+ * OUTAGE_GAP_MINUTES apart are grouped into one window so admins can see when
+ * the AI provider was down and what users ran into.
+ * Only accessible by admin users.
+ *
+ * @param params - How many days to look back
+ * @returns Promise resolving to QueryResult with call totals and outage windows
+ */
+export async function getAiServiceStatus(
+  params: GetAiServiceStatusParams = {}
+): Promise<QueryResult<AiServiceStatus>> {
+  const days = params.days ?? 7;
+
+  try {
+    await requireAdminPermissions();
+
+    if (!Number.isInteger(days) || days < 1 || days > 90) {
+      throw new Error('Days must be a whole number between 1 and 90');
+    }
+
+    const supabase = await createClient();
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+    const { count: totalCalls, error: countError } = await supabase
+      .from('ai_usage')
+      .select('id', { count: 'exact', head: true })
+      .gte('created_at', since);
+
+    if (countError) {
+      throw new Error(`Failed to count AI calls: ${countError.message}`);
+    }
+
+    const { data: failures, count: failedCalls, error: failuresError } = await supabase
+      .from('ai_usage')
+      .select('created_at, error_code, feature, user_id', { count: 'exact' })
+      .gte('created_at', since)
+      .not('error_code', 'is', null)
+      .order('created_at', { ascending: true })
+      .limit(MAX_FAILURES);
+
+    if (failuresError) {
+      throw new Error(`Failed to fetch AI failures: ${failuresError.message}`);
+    }
+
+    const windows: Array<AiOutageWindow & { users: Set<string>; featureSet: Set<string> }> = [];
+    for (const failure of failures || []) {
+      const current = windows[windows.length - 1];
+      const time = new Date(failure.created_at).getTime();
+      const code = failure.error_code as AiErrorCode;
+
+      if (!current || time - new Date(current.end).getTime() > OUTAGE_GAP_MINUTES * 60 * 1000) {
+        windows.push({
+          start: failure.created_at,
+          end: failure.created_at,
+          failureCount: 0,
+          errorCodes: {},
+          features: [],
+          affectedUsers: 0,
+          users: new Set(),
+          featureSet: new Set(),
+        });
+      }
+
+      const outage = windows[windows.length - 1];
+      outage.end = failure.created_at;
+      outage.failureCount++;
+      outage.errorCodes[code] = (outage.errorCodes[code] ?? 0) + 1;
+      outage.users.add(failure.user_id);
+      outage.featureSet.add(failure.feature);
+    }
+
+    return createSuccessResponse({
+      since,
+      totalCalls: totalCalls ?? 0,
+      failedCalls: failedCalls ?? 0,
+      windows: windows
+        .map(({ users, featureSet, ...outage }) => ({
+          ...outage,
+          features: [...featureSet].sort(),
+          affectedUsers: users.size,
+        }))
+        .reverse(),
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Error fetching AI service status: ${errorMessage}`);
+  }
+}
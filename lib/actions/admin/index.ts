@@ -48,4 +48,12 @@ export {
   deleteProject,
   type ProjectWithDetails,
   type DeleteProjectParams,
-} from './projects';
\ No newline at end of file
+} from './projects';
+
+// AI service status
+export {
+  getAiServiceStatus,
+  type AiOutageWindow,
+  type AiServiceStatus,
+  type GetAiServiceStatusParams,
+} from './ai-status';
@@ -0,0 +1,332 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+import { getAuthenticatedUser } from "@/lib/actions/shared/authorization";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import {
+  CreateResult,
+  QueryResult,
+  createIdResponse,
+  createErrorResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError
+} from "@/lib/shared/errors";
+
+type FeedbackRating = Database["public"]["Enums"]["ai_feedback_rating"];
+
+/** Label used for exchanges logged before prompt versions were recorded */
+const UNVERSIONED = 'unversioned';
+
+/**
+ * A student's rating of a tutor response
+ */
+export interface TutorFeedbackEntry {
+  turnId: string;
+  rating: FeedbackRating;
+  reason: string | null;
+}
+
+/**
+ * Parameters for rating a tutor response
+ */
+export interface SaveTutorFeedbackParams {
+  /** ai_usage row of the rated exchange */
+  turnId: string;
+  rating: FeedbackRating;
+  reason?: string;
+}
+
+/**
+ * Helpfulness counts for a group of tutor responses
+ */
+export interface HelpfulnessStats {
+  up: number;
+  down: number;
+  /** Share of positive ratings (0-1), null when there are no ratings */
+  helpfulness: number | null;
+}
+
+/**
+ * Tutor helpfulness across the educator's courses
+ */
+export interface TutorFeedbackSummary {
+  total: HelpfulnessStats;
+  byProblem: Array<HelpfulnessStats & { problemId: string; problemTitle: string }>;
+  /** Grouped by prompt version and model */
+  byVersion: Array<HelpfulnessStats & { promptVersion: string; model: string }>;
+}
+
+/**
+ * Read a string field from a logged ai_usage prompt
+ */
+function getPromptField(prompt: unknown, field: string): string | null {
+  if (!prompt || typeof prompt !== 'object') return null;
+  const value = (prompt as Record<string, unknown>)[field];
+  return typeof value === 'string' ? value : null;
+}
+
+function toStats(up: number, down: number): HelpfulnessStats {
+  return { up, down, helpfulness: up + down > 0 ? up / (up + down) : null };
+}
+
+/**
+ * Quote a value for CSV output
+ */
+function csvField(value: string | null | undefined): string {
+  return `"${(value ?? '').replace(/"/g, '""')}"`;
+}
+
+/**
+ * Rate a tutor response, replacing the user's previous rating
+ *
+ * @param params - Exchange, rating and optional reason
+ * @returns CreateResult with the feedback ID
+ */
+export async function saveTutorFeedback(params: SaveTutorFeedbackParams): Promise<CreateResult> {
+  const { turnId, rating, reason } = params;
+
+  try {
+    if (!turnId || typeof turnId !== 'string') {
+      throw new ValidationError('Turn ID', 'is required and must be a valid string', turnId);
+    }
+
+    if (rating !== 'up' && rating !== 'down') {
+      throw new ValidationError('Rating', 'must be up or down', rating);
+    }
+
+    if (reason && reason.length > 1000) {
+      throw new ValidationError('Reason', 'must be 1000 characters or fewer', reason.length);
+    }
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    // RLS limits ratings to tutor turns in the user's own projects
+    const { data, error } = await supabase
+      .from('ai_tutor_feedback')
+      .upsert({
+        ai_usage_id: turnId,
+        user_id: user.id,
+        rating,
+        reason: reason?.trim() || null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'ai_usage_id,user_id' })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      throw new DatabaseError(
+        'save_tutor_feedback',
+        error?.message || 'No ID returned from feedback save',
+        error ? new Error(error.message) : undefined,
+        { turnId, userId: user.id }
+      );
+    }
+
+    return createIdResponse(data.id);
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor feedback save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor feedback save error:', error);
+    return createErrorResponse(`Failed to save feedback: ${errorMessage}`);
+  }
+}
+
+/**
+ * Get the current user's ratings for a project's tutor responses
+ *
+ * @param projectId - Project whose conversation is shown
+ * @returns QueryResult with the user's ratings
+ */
+export async function getMyTutorFeedback(projectId: string): Promise<QueryResult<TutorFeedbackEntry[]>> {
+  if (!projectId || typeof projectId !== 'string') {
+    return createErrorResponse('Project ID is required and must be a valid string');
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('ai_tutor_feedback')
+      .select('ai_usage_id, rating, reason, ai_usage!inner(project_id)')
+      .eq('user_id', user.id)
+      .eq('ai_usage.project_id', projectId);
+
+    if (error) {
+      throw new DatabaseError('get_my_tutor_feedback', error.message, new Error(error.message), { projectId });
+    }
+
+    return createSuccessResponse((data || []).map(entry => ({
+      turnId: entry.ai_usage_id,
+      rating: entry.rating,
+      reason: entry.reason,
+    })));
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor feedback fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor feedback fetch error:', error);
+    return createErrorResponse(`Failed to load feedback: ${errorMessage}`);
+  }
+}
+
+/**
+ * Load the ratings visible to the current educator with their exchanges
+ */
+async function loadCourseFeedback(operation: string) {
+  const user = await getAuthenticatedUser();
+
+  if (!hasEducatorPermissions(user.role)) {
+    throw new AuthorizationError(operation, 'User does not have educator-level permissions', user.role);
+  }
+
+  const supabase = await createClient();
+
+  // RLS limits ratings to tutor turns in the educator's courses
+  const { data, error } = await supabase
+    .from('ai_tutor_feedback')
+    .select(`
+      rating,
+      reason,
+      created_at,
+      ai_usage!inner (
+        id,
+        prompt,
+        response,
+        created_at,
+        projects!inner (
+          teams!inner (
+            name
+          ),
+          problems!inner (
+            id,
+            title
+          )
+        )
+      )
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new DatabaseError(operation, error.message, new Error(error.message), { userId: user.id });
+  }
+
+  return data || [];
+}
+
+/**
+ * Get aggregate tutor helpfulness per problem and per prompt/model version
+ *
+ * @returns QueryResult with helpfulness statistics for the educator's courses
+ */
+export async function getTutorFeedbackSummary(): Promise<QueryResult<TutorFeedbackSummary>> {
+  try {
+    const feedback = await loadCourseFeedback('get_tutor_feedback_summary');
+
+    const problems = new Map<string, { problemTitle: string; up: number; down: number }>();
+    const versions = new Map<string, { promptVersion: string; model: string; up: number; down: number }>();
+    let up = 0;
+    let down = 0;
+
+    for (const entry of feedback) {
+      const isUp = entry.rating === 'up';
+      up += isUp ? 1 : 0;
+      down += isUp ? 0 : 1;
+
+      const problem = entry.ai_usage.projects.problems;
+      const problemStats = problems.get(problem.id) ?? { problemTitle: problem.title, up: 0, down: 0 };
+      problemStats[isUp ? 'up' : 'down'] += 1;
+      problems.set(problem.id, problemStats);
+
+      const promptVersion = getPromptField(entry.ai_usage.prompt, 'prompt_version') || UNVERSIONED;
+      const model = getPromptField(entry.ai_usage.prompt, 'model_used') || 'unknown';
+      const versionKey = `${promptVersion}|${model}`;
+      const versionStats = versions.get(versionKey) ?? { promptVersion, model, up: 0, down: 0 };
+      versionStats[isUp ? 'up' : 'down'] += 1;
+      versions.set(versionKey, versionStats);
+    }
+
+    return createSuccessResponse({
+      total: toStats(up, down),
+      byProblem: [...problems.entries()]
+        .map(([problemId, stats]) => ({ problemId, problemTitle: stats.problemTitle, ...toStats(stats.up, stats.down) }))
+        .sort((a, b) => (b.up + b.down) - (a.up + a.down)),
+      byVersion: [...versions.values()]
+        .map(stats => ({ promptVersion: stats.promptVersion, model: stats.model, ...toStats(stats.up, stats.down) }))
+        .sort((a, b) => b.promptVersion.localeCompare(a.promptVersion)),
+    });
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor feedback summary error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor feedback summary error:', error);
+    return createErrorResponse(`Failed to load tutor feedback: ${errorMessage}`);
+  }
+}
+
+/**
+ * Export the tutor responses rated unhelpful as CSV, for prompt tuning
+ *
+ * @returns QueryResult with the CSV text
+ */
+export async function exportUnhelpfulTutorResponses(): Promise<QueryResult<string>> {
+  try {
+    const feedback = await loadCourseFeedback('export_unhelpful_tutor_responses');
+
+    const header = [
+      'rated_at', 'problem', 'team', 'phase', 'prompt_version', 'model', 'policy_version',
+      'student_message', 'tutor_response', 'reason'
+    ];
+
+    const rows = feedback
+      .filter(entry => entry.rating === 'down')
+      .map(entry => {
+        const { prompt, response, projects } = entry.ai_usage;
+        const policyVersion = prompt && typeof prompt === 'object'
+          ? (prompt as Record<string, unknown>).policy_version
+          : null;
+        return [
+          entry.created_at,
+          projects.problems.title,
+          projects.teams.name,
+          getPromptField(prompt, 'phase'),
+          getPromptField(prompt, 'prompt_version') || UNVERSIONED,
+          getPromptField(prompt, 'model_used'),
+          typeof policyVersion === 'number' ? String(policyVersion) : null,
+          getPromptField(prompt, 'message'),
+          getPromptField(response, 'text'),
+          entry.reason,
+        ].map(csvField).join(',');
+      });
+
+    return createSuccessResponse([header.join(','), ...rows].join('\n'));
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor feedback export error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor feedback export error:', error);
+    return createErrorResponse(`Failed to export tutor feedback: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,104 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getAuthenticatedUser } from "@/lib/actions/shared/authorization";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import type { LearningGoalReview } from "@/lib/ai/learning-goals";
+import { QueryResult, createErrorResponse, createSuccessResponse } from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError
+} from "@/lib/shared/errors";
+
+/**
+ * A stored AI review of a team's learning goals
+ */
+export interface LearningGoalReviewEntry {
+  id: string;
+  /** The goals text that was reviewed */
+  goals: string;
+  review: LearningGoalReview;
+  model: string | null;
+  /** Name (or email) of the student who asked for the review */
+  requestedBy: string | null;
+  createdAt: string;
+}
+
+/**
+ * Get the AI reviews of a project's learning goals, newest first
+ *
+ * Lets educators see the feedback students received on their goals, and
+ * what the goals looked like when it was given.
+ *
+ * @param projectId - Project to fetch reviews for
+ * @returns QueryResult with the project's learning goal reviews
+ */
+export async function getLearningGoalReviews(projectId: string): Promise<QueryResult<LearningGoalReviewEntry[]>> {
+  if (!projectId || typeof projectId !== 'string') {
+    throw new ValidationError('Project ID', 'is required and must be a valid string', projectId);
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role)) {
+      throw new AuthorizationError(
+        'get_learning_goal_reviews',
+        'User does not have educator-level permissions',
+        user.role,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const supabase = await createClient();
+
+    // RLS restricts educators to projects in their courses
+    const { data, error } = await supabase
+      .from('learning_goal_reviews')
+      .select(`
+        id,
+        goals,
+        review,
+        model,
+        created_at,
+        requester:users!learning_goal_reviews_requested_by_fkey (
+          name,
+          email
+        )
+      `)
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(
+        'get_learning_goal_reviews',
+        error.message,
+        new Error(error.message),
+        { projectId }
+      );
+    }
+
+    return createSuccessResponse((data || []).map(entry => ({
+      id: entry.id,
+      goals: entry.goals,
+      review: entry.review as unknown as LearningGoalReview,
+      model: entry.model,
+      requestedBy: entry.requester ? entry.requester.name || entry.requester.email : null,
+      createdAt: entry.created_at,
+    })));
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Learning goal reviews fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected learning goal reviews fetch error:', error);
+    return createErrorResponse(`Failed to load learning goal reviews: ${errorMessage}`);
+  }
+}
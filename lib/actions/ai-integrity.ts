@@ -0,0 +1,248 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+import { revalidatePath } from "next/cache";
+import { getAuthenticatedUser, verifyCourseEducatorAccess } from "@/lib/actions/shared/authorization";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import type { IntegrityCategory, IntegrityFlagSource } from "@/lib/shared/ai-integrity";
+import {
+  QueryResult,
+  UpdateResult,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError
+} from "@/lib/shared/errors";
+
+type IntegrityFlagStatus = Database["public"]["Enums"]["ai_integrity_flag_status"];
+
+const FLAG_STATUSES: IntegrityFlagStatus[] = ['open', 'reviewed', 'dismissed'];
+
+/**
+ * A flagged tutor turn in the educator review queue
+ */
+export interface IntegrityFlagItem {
+  id: string;
+  source: IntegrityFlagSource;
+  category: IntegrityCategory;
+  reason: string | null;
+  status: IntegrityFlagStatus;
+  reviewNote: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  project: { id: string; problemTitle: string; teamName: string };
+  student: { id: string; name: string | null; email: string };
+  /** The flagged exchange */
+  exchange: { message: string; response: string | null; createdAt: string };
+}
+
+/**
+ * Integrity review queue for a course
+ */
+export interface CourseIntegrityQueue {
+  course: { id: string; name: string };
+  flags: IntegrityFlagItem[];
+}
+
+/**
+ * Parameters for reviewing an integrity flag
+ */
+export interface ReviewIntegrityFlagParams {
+  flagId: string;
+  /** New status (`open` reopens a reviewed flag) */
+  status: IntegrityFlagStatus;
+  /** Optional private note from the educator */
+  note?: string;
+}
+
+/**
+ * Read the text of a logged prompt or response, which may be stored as a
+ * plain string or as an object with a `message`/`text` field
+ */
+function getLoggedText(value: unknown, field: 'message' | 'text'): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  const text = (value as Record<string, unknown>)[field];
+  return typeof text === 'string' ? text : null;
+}
+
+/**
+ * Get the integrity review queue for a course
+ *
+ * @param courseId - Course to load
+ * @param status - Only return flags with this status (default: all)
+ * @returns QueryResult with the course and its flags, newest first
+ */
+export async function getCourseIntegrityFlags(
+  courseId: string,
+  status?: IntegrityFlagStatus
+): Promise<QueryResult<CourseIntegrityQueue>> {
+  if (!courseId || typeof courseId !== 'string') {
+    return createErrorResponse('Course ID is required and must be a valid string');
+  }
+
+  if (status && !FLAG_STATUSES.includes(status)) {
+    return createErrorResponse('Status must be open, reviewed or dismissed');
+  }
+
+  try {
+    const { course } = await verifyCourseEducatorAccess(courseId, 'get_course_integrity_flags');
+    const supabase = await createClient();
+
+    let query = supabase
+      .from('ai_integrity_flags')
+      .select(`
+        id,
+        source,
+        category,
+        reason,
+        status,
+        review_note,
+        reviewed_at,
+        created_at,
+        user_id,
+        ai_usage!inner (
+          prompt,
+          response,
+          created_at
+        ),
+        users!ai_integrity_flags_user_id_fkey (
+          name,
+          email
+        ),
+        projects!inner (
+          id,
+          problems!inner (
+            title
+          ),
+          teams!inner (
+            name
+          )
+        )
+      `)
+      .eq('course_id', courseId)
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new DatabaseError('get_course_integrity_flags', error.message, new Error(error.message), { courseId });
+    }
+
+    const flags: IntegrityFlagItem[] = (data || []).map(flag => ({
+      id: flag.id,
+      source: flag.source as IntegrityFlagSource,
+      category: flag.category,
+      reason: flag.reason,
+      status: flag.status,
+      reviewNote: flag.review_note,
+      reviewedAt: flag.reviewed_at,
+      createdAt: flag.created_at,
+      project: {
+        id: flag.projects.id,
+        problemTitle: flag.projects.problems.title,
+        teamName: flag.projects.teams.name,
+      },
+      student: {
+        id: flag.user_id,
+        name: flag.users?.name ?? null,
+        email: flag.users?.email ?? '',
+      },
+      exchange: {
+        message: getLoggedText(flag.ai_usage.prompt, 'message') || '',
+        response: getLoggedText(flag.ai_usage.response, 'text'),
+        createdAt: flag.ai_usage.created_at,
+      },
+    }));
+
+    return createSuccessResponse({ course, flags });
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Integrity flags fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected integrity flags fetch error:', error);
+    return createErrorResponse(`Failed to load integrity flags: ${errorMessage}`);
+  }
+}
+
+/**
+ * Mark an integrity flag as reviewed or dismissed (or reopen it)
+ *
+ * @param params - Flag, new status and optional note
+ * @returns UpdateResult with a confirmation message
+ */
+export async function reviewIntegrityFlag(params: ReviewIntegrityFlagParams): Promise<UpdateResult> {
+  const { flagId, status, note } = params;
+
+  try {
+    if (!flagId || typeof flagId !== 'string') {
+      throw new ValidationError('Flag ID', 'is required and must be a valid string', flagId);
+    }
+
+    if (!FLAG_STATUSES.includes(status)) {
+      throw new ValidationError('Status', 'must be open, reviewed or dismissed', status);
+    }
+
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role)) {
+      throw new AuthorizationError('review_integrity_flag', 'User does not have educator-level permissions', user.role);
+    }
+
+    const supabase = await createClient();
+
+    // RLS limits updates to flags in the educator's courses
+    const { data: updated, error } = await supabase
+      .from('ai_integrity_flags')
+      .update({
+        status,
+        review_note: note?.trim() || null,
+        reviewed_by: status === 'open' ? null : user.id,
+        reviewed_at: status === 'open' ? null : new Date().toISOString(),
+      })
+      .eq('id', flagId)
+      .select('course_id')
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError('review_integrity_flag', error.message, new Error(error.message), { flagId });
+    }
+
+    if (!updated) {
+      throw new AuthorizationError(
+        'review_integrity_flag',
+        'Flag not found or user is not the course educator',
+        user.role,
+        { flagId, userId: user.id }
+      );
+    }
+
+    revalidatePath(`/educator/courses/${updated.course_id}/integrity`);
+    return createMessageResponse(status === 'open' ? 'Flag reopened' : `Flag marked as ${status}`);
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Integrity flag review error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected integrity flag review error:', error);
+    return createErrorResponse(`Failed to review integrity flag: ${errorMessage}`);
+  }
+}
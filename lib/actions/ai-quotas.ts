@@ -0,0 +1,251 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+import { revalidatePath } from "next/cache";
+import { getAuthenticatedUser, verifyCourseEducatorAccess } from "@/lib/actions/shared/authorization";
+import { checkAiQuota, type AiQuotaStatus } from "@/lib/ai/quota";
+import {
+  CreateResult,
+  QueryResult,
+  UpdateResult,
+  createIdResponse,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  ValidationError,
+  DatabaseError
+} from "@/lib/shared/errors";
+
+type AiQuota = Database["public"]["Tables"]["ai_quotas"]["Row"];
+type AiQuotaPeriod = Database["public"]["Enums"]["ai_quota_period"];
+
+/**
+ * AI quota configuration for a course, with the teams that can be overridden
+ */
+export interface CourseAiQuotaSettings {
+  course: { id: string; name: string };
+  teams: Array<{ id: string; name: string }>;
+  /** Course default (team_id null) and team overrides */
+  quotas: AiQuota[];
+}
+
+/**
+ * Parameters for saving a course default or team override quota
+ */
+export interface SaveAiQuotaParams {
+  courseId: string;
+  /** Team to override; omit for the course default */
+  teamId?: string | null;
+  period: AiQuotaPeriod;
+  /** Maximum AI calls per period (null = unlimited) */
+  maxCalls: number | null;
+  /** Maximum tokens per period (null = unlimited) */
+  maxTokens: number | null;
+}
+
+/**
+ * Get the AI quota status for a project's team
+ *
+ * Used by student AI features to show the remaining allowance.
+ *
+ * @param projectId - Project to check
+ * @returns QueryResult with the quota status, or null when no quota applies
+ */
+export async function getProjectAiQuota(projectId: string): Promise<QueryResult<AiQuotaStatus | null>> {
+  if (!projectId || typeof projectId !== 'string') {
+    return createErrorResponse('Project ID is required and must be a valid string');
+  }
+
+  try {
+    await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    return createSuccessResponse(await checkAiQuota(supabase, projectId));
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('AI quota fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected AI quota fetch error:', error);
+    return createErrorResponse(`Failed to load AI quota: ${errorMessage}`);
+  }
+}
+
+/**
+ * Get the AI quota settings for a course
+ *
+ * @param courseId - Course to load
+ * @returns QueryResult with the course, its teams and configured quotas
+ */
+export async function getCourseAiQuotas(courseId: string): Promise<QueryResult<CourseAiQuotaSettings>> {
+  if (!courseId || typeof courseId !== 'string') {
+    return createErrorResponse('Course ID is required and must be a valid string');
+  }
+
+  try {
+    const supabase = await createClient();
+    const { course } = await verifyCourseEducatorAccess(courseId, 'get_course_ai_quotas');
+
+    const [teamsResult, quotasResult] = await Promise.all([
+      supabase.from('teams').select('id, name').eq('course_id', courseId).order('name'),
+      supabase.from('ai_quotas').select('*').eq('course_id', courseId).order('created_at'),
+    ]);
+
+    if (teamsResult.error || quotasResult.error) {
+      const message = teamsResult.error?.message || quotasResult.error?.message || 'Unknown error';
+      throw new DatabaseError('get_course_ai_quotas', message, new Error(message), { courseId });
+    }
+
+    return createSuccessResponse({
+      course,
+      teams: teamsResult.data || [],
+      quotas: quotasResult.data || [],
+    });
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Course AI quotas fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected course AI quotas fetch error:', error);
+    return createErrorResponse(`Failed to load AI quotas: ${errorMessage}`);
+  }
+}
+
+/**
+ * Create or update a course default quota or team override
+ *
+ * @param params - Quota settings
+ * @returns CreateResult with the quota ID
+ */
+export async function saveAiQuota(params: SaveAiQuotaParams): Promise<CreateResult> {
+  const { courseId, teamId = null, period, maxCalls, maxTokens } = params;
+
+  try {
+    if (!courseId || typeof courseId !== 'string') {
+      throw new ValidationError('Course ID', 'is required and must be a valid string', courseId);
+    }
+
+    if (period !== 'daily' && period !== 'weekly') {
+      throw new ValidationError('Period', 'must be daily or weekly', period);
+    }
+
+    for (const [field, value] of [['Call limit', maxCalls], ['Token limit', maxTokens]] as const) {
+      if (value !== null && (!Number.isInteger(value) || value < 1)) {
+        throw new ValidationError(field, 'must be a positive whole number or left empty', value);
+      }
+    }
+
+    const supabase = await createClient();
+    const { user } = await verifyCourseEducatorAccess(courseId, 'save_ai_quota');
+
+    if (teamId) {
+      const { data: team } = await supabase
+        .from('teams')
+        .select('id')
+        .eq('id', teamId)
+        .eq('course_id', courseId)
+        .single();
+
+      if (!team) {
+        throw new ValidationError('Team', 'must belong to the course', teamId);
+      }
+    }
+
+    let existingQuery = supabase.from('ai_quotas').select('id').eq('course_id', courseId);
+    existingQuery = teamId ? existingQuery.eq('team_id', teamId) : existingQuery.is('team_id', null);
+    const { data: existing } = await existingQuery.maybeSingle();
+
+    const values = {
+      period,
+      max_calls: maxCalls,
+      max_tokens: maxTokens,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: saved, error } = existing
+      ? await supabase.from('ai_quotas').update(values).eq('id', existing.id).select('id').single()
+      : await supabase
+          .from('ai_quotas')
+          .insert({ ...values, course_id: courseId, team_id: teamId, created_by: user.id })
+          .select('id')
+          .single();
+
+    if (error || !saved) {
+      throw new DatabaseError(
+        'save_ai_quota',
+        error?.message || 'No ID returned from quota save',
+        error ? new Error(error.message) : undefined,
+        { courseId, teamId }
+      );
+    }
+
+    revalidatePath(`/educator/courses/${courseId}/ai-quotas`);
+    return createIdResponse(saved.id);
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('AI quota save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected AI quota save error:', error);
+    return createErrorResponse(`Failed to save AI quota: ${errorMessage}`);
+  }
+}
+
+/**
+ * Delete a course default quota or team override
+ *
+ * Deleting a team override makes the team fall back to the course default.
+ *
+ * @param quotaId - Quota to delete
+ * @returns UpdateResult with a confirmation message
+ */
+export async function deleteAiQuota(quotaId: string): Promise<UpdateResult> {
+  if (!quotaId || typeof quotaId !== 'string') {
+    return createErrorResponse('Quota ID is required and must be a valid string');
+  }
+
+  try {
+    const supabase = await createClient();
+
+    const { data: quota, error: quotaError } = await supabase
+      .from('ai_quotas')
+      .select('id, course_id')
+      .eq('id', quotaId)
+      .single();
+
+    if (quotaError || !quota) {
+      return createErrorResponse('Quota not found');
+    }
+
+    await verifyCourseEducatorAccess(quota.course_id, 'delete_ai_quota');
+
+    const { error } = await supabase.from('ai_quotas').delete().eq('id', quotaId);
+    if (error) {
+      throw new DatabaseError('delete_ai_quota', error.message, new Error(error.message), { quotaId });
+    }
+
+    revalidatePath(`/educator/courses/${quota.course_id}/ai-quotas`);
+    return createMessageResponse('Quota removed');
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('AI quota delete error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected AI quota delete error:', error);
+    return createErrorResponse(`Failed to delete AI quota: ${errorMessage}`);
+  }
+}
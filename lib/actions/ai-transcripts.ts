@@ -0,0 +1,392 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+import { getAuthenticatedUser, verifyCourseEducatorAccess } from "@/lib/actions/shared/authorization";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import {
+  CreateResult,
+  QueryResult,
+  UpdateResult,
+  createIdResponse,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  ValidationError,
+  AuthorizationError,
+  DatabaseError
+} from "@/lib/shared/errors";
+
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
+const PROJECT_PHASES: ProjectPhase[] = ['pre', 'research', 'post', 'closed'];
+
+/**
+ * Filters for the course transcript review
+ */
+export interface TutorTranscriptFilters {
+  teamId?: string;
+  /** Phase the exchanges happened in */
+  phase?: ProjectPhase;
+  /** ISO timestamp (inclusive) */
+  since?: string;
+  /** ISO timestamp (exclusive) */
+  until?: string;
+}
+
+/**
+ * A project's tutor transcript in the course overview
+ */
+export interface TutorTranscriptSummary {
+  projectId: string;
+  problemTitle: string;
+  teamName: string;
+  projectPhase: ProjectPhase;
+  /** Exchanges matching the filters */
+  turnCount: number;
+  lastActivity: string;
+  /** Messages sent per student, most active first */
+  students: Array<{ userId: string; name: string; messageCount: number }>;
+}
+
+/**
+ * Tutor transcripts for a course
+ */
+export interface CourseTutorTranscripts {
+  course: { id: string; name: string };
+  teams: Array<{ id: string; name: string }>;
+  transcripts: TutorTranscriptSummary[];
+}
+
+/**
+ * Private educator note on a tutor turn
+ */
+export interface TutorTurnAnnotation {
+  id: string;
+  turnId: string;
+  note: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parameters for adding or editing an annotation
+ */
+export interface SaveTutorTurnAnnotationParams {
+  /** ai_usage row of the turn */
+  turnId: string;
+  note: string;
+  /** Existing annotation to edit; omit to add a new one */
+  annotationId?: string;
+}
+
+/**
+ * Get the tutor transcripts for a course, with message counts per student
+ *
+ * Only projects with tutor exchanges matching the filters are returned. The
+ * transcripts themselves are loaded with `getAiTutorHistory`.
+ *
+ * @param courseId - Course to load
+ * @param filters - Optional team, phase and date filters
+ * @returns QueryResult with the course, its teams and transcript summaries
+ */
+export async function getCourseTutorTranscripts(
+  courseId: string,
+  filters: TutorTranscriptFilters = {}
+): Promise<QueryResult<CourseTutorTranscripts>> {
+  const { teamId, phase, since, until } = filters;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return createErrorResponse('Course ID is required and must be a valid string');
+  }
+
+  if (phase && !PROJECT_PHASES.includes(phase)) {
+    return createErrorResponse('Phase must be pre, research, post or closed');
+  }
+
+  try {
+    const { course } = await verifyCourseEducatorAccess(courseId, 'get_course_tutor_transcripts');
+    const supabase = await createClient();
+
+    let turnsQuery = supabase
+      .from('ai_usage')
+      .select(`
+        user_id,
+        project_id,
+        created_at,
+        users!ai_usage_user_id_fkey (
+          name
+        ),
+        projects!inner (
+          id,
+          phase,
+          team_id,
+          problems!inner (
+            title,
+            course_id
+          ),
+          teams!inner (
+            name
+          )
+        )
+      `)
+      .eq('feature', 'tutor')
+      .is('error_code', null)
+      .eq('projects.problems.course_id', courseId)
+      .is('prompt->>promoted_from', null);
+
+    if (teamId) {
+      turnsQuery = turnsQuery.eq('projects.team_id', teamId);
+    }
+    if (phase) {
+      turnsQuery = turnsQuery.eq('prompt->>phase', phase);
+    }
+    if (since) {
+      turnsQuery = turnsQuery.gte('created_at', since);
+    }
+    if (until) {
+      turnsQuery = turnsQuery.lt('created_at', until);
+    }
+
+    const [teamsResult, turnsResult] = await Promise.all([
+      supabase.from('teams').select('id, name').eq('course_id', courseId).order('name'),
+      turnsQuery.order('created_at', { ascending: false }),
+    ]);
+
+    if (teamsResult.error || turnsResult.error) {
+      const message = teamsResult.error?.message || turnsResult.error?.message || 'Unknown error';
+      throw new DatabaseError('get_course_tutor_transcripts', message, new Error(message), { courseId });
+    }
+
+    // Aggregate exchanges per project and per student (rows are newest first)
+    const byProject = new Map<string, TutorTranscriptSummary & { counts: Map<string, { name: string; count: number }> }>();
+    for (const turn of turnsResult.data || []) {
+      let summary = byProject.get(turn.projects.id);
+      if (!summary) {
+        summary = {
+          projectId: turn.projects.id,
+          problemTitle: turn.projects.problems.title,
+          teamName: turn.projects.teams.name,
+          projectPhase: turn.projects.phase,
+          turnCount: 0,
+          lastActivity: turn.created_at,
+          students: [],
+          counts: new Map(),
+        };
+        byProject.set(turn.projects.id, summary);
+      }
+
+      summary.turnCount += 1;
+      const student = summary.counts.get(turn.user_id);
+      if (student) {
+        student.count += 1;
+      } else {
+        summary.counts.set(turn.user_id, { name: turn.users?.name || 'Unknown User', count: 1 });
+      }
+    }
+
+    const transcripts: TutorTranscriptSummary[] = [...byProject.values()].map(({ counts, ...summary }) => ({
+      ...summary,
+      students: [...counts.entries()]
+        .map(([userId, { name, count }]) => ({ userId, name, messageCount: count }))
+        .sort((a, b) => b.messageCount - a.messageCount),
+    }));
+
+    return createSuccessResponse({ course, teams: teamsResult.data || [], transcripts });
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor transcripts fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor transcripts fetch error:', error);
+    return createErrorResponse(`Failed to load tutor transcripts: ${errorMessage}`);
+  }
+}
+
+/**
+ * Get the educator annotations on a project's tutor turns
+ *
+ * @param projectId - Project whose transcript is being reviewed
+ * @returns QueryResult with annotations, oldest first
+ */
+export async function getTutorTurnAnnotations(projectId: string): Promise<QueryResult<TutorTurnAnnotation[]>> {
+  if (!projectId || typeof projectId !== 'string') {
+    return createErrorResponse('Project ID is required and must be a valid string');
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role)) {
+      throw new AuthorizationError('get_tutor_turn_annotations', 'User does not have educator-level permissions', user.role);
+    }
+
+    const supabase = await createClient();
+
+    // RLS limits annotations to tutor turns in the educator's courses
+    const { data, error } = await supabase
+      .from('ai_tutor_annotations')
+      .select(`
+        id,
+        ai_usage_id,
+        note,
+        author_id,
+        created_at,
+        updated_at,
+        users!ai_tutor_annotations_author_id_fkey (
+          name
+        ),
+        ai_usage!inner (
+          project_id
+        )
+      `)
+      .eq('ai_usage.project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new DatabaseError('get_tutor_turn_annotations', error.message, new Error(error.message), { projectId });
+    }
+
+    return createSuccessResponse((data || []).map(annotation => ({
+      id: annotation.id,
+      turnId: annotation.ai_usage_id,
+      note: annotation.note,
+      authorId: annotation.author_id,
+      authorName: annotation.users?.name || 'Unknown User',
+      createdAt: annotation.created_at,
+      updatedAt: annotation.updated_at,
+    })));
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor annotations fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor annotations fetch error:', error);
+    return createErrorResponse(`Failed to load annotations: ${errorMessage}`);
+  }
+}
+
+/**
+ * Add or edit a private educator annotation on a tutor turn
+ *
+ * @param params - Turn, note text and optional annotation to edit
+ * @returns CreateResult with the annotation ID
+ */
+export async function saveTutorTurnAnnotation(params: SaveTutorTurnAnnotationParams): Promise<CreateResult> {
+  const { turnId, note, annotationId } = params;
+
+  try {
+    if (!turnId || typeof turnId !== 'string') {
+      throw new ValidationError('Turn ID', 'is required and must be a valid string', turnId);
+    }
+
+    if (!note || typeof note !== 'string' || !note.trim()) {
+      throw new ValidationError('Note', 'cannot be empty', note);
+    }
+
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role)) {
+      throw new AuthorizationError('save_tutor_turn_annotation', 'User does not have educator-level permissions', user.role);
+    }
+
+    const supabase = await createClient();
+
+    // RLS limits inserts to turns in the educator's courses and edits to their own notes
+    const { data: saved, error } = annotationId
+      ? await supabase
+          .from('ai_tutor_annotations')
+          .update({ note: note.trim(), updated_at: new Date().toISOString() })
+          .eq('id', annotationId)
+          .eq('ai_usage_id', turnId)
+          .select('id')
+          .maybeSingle()
+      : await supabase
+          .from('ai_tutor_annotations')
+          .insert({ ai_usage_id: turnId, author_id: user.id, note: note.trim() })
+          .select('id')
+          .single();
+
+    if (error) {
+      throw new DatabaseError('save_tutor_turn_annotation', error.message, new Error(error.message), { turnId, annotationId });
+    }
+
+    if (!saved) {
+      throw new AuthorizationError(
+        'save_tutor_turn_annotation',
+        'Annotation not found or not owned by user',
+        user.role,
+        { turnId, annotationId, userId: user.id }
+      );
+    }
+
+    return createIdResponse(saved.id);
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor annotation save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor annotation save error:', error);
+    return createErrorResponse(`Failed to save annotation: ${errorMessage}`);
+  }
+}
+
+/**
+ * Delete one of the educator's own annotations
+ *
+ * @param annotationId - Annotation to delete
+ * @returns UpdateResult with a confirmation message
+ */
+export async function deleteTutorTurnAnnotation(annotationId: string): Promise<UpdateResult> {
+  try {
+    if (!annotationId || typeof annotationId !== 'string') {
+      throw new ValidationError('Annotation ID', 'is required and must be a valid string', annotationId);
+    }
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    const { data: deleted, error } = await supabase
+      .from('ai_tutor_annotations')
+      .delete()
+      .eq('id', annotationId)
+      .select('id');
+
+    if (error) {
+      throw new DatabaseError('delete_tutor_turn_annotation', error.message, new Error(error.message), { annotationId });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      throw new AuthorizationError(
+        'delete_tutor_turn_annotation',
+        'Annotation not found or not owned by user',
+        user.role,
+        { annotationId, userId: user.id }
+      );
+    }
+
+    return createMessageResponse('Annotation deleted');
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor annotation delete error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor annotation delete error:', error);
+    return createErrorResponse(`Failed to delete annotation: ${errorMessage}`);
+  }
+}
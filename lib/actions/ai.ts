@@ -1,8 +1,14 @@
 "use server";
 
 import { createClient } from "@/lib/supabase/server";
-import type { Json } from "@/lib/db.types";
+import type { Database, Json } from "@/lib/db.types";
 import { getAuthenticatedUser } from "@/lib/actions/shared/authorization";
+import { hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import { getAiErrorCode, type AiErrorCode, type LlmMessage } from "@/lib/ai";
+import { buildTutorMemory } from "@/lib/ai/tutor-memory";
+import { buildTutorSystemInstruction, loadTutorProjectContext } from "@/lib/ai/tutor-context";
+import { getTutorProfile } from "@/lib/ai/tutor-profiles";
+import { loadTutorPolicy } from "@/lib/ai/tutor-policy";
 import { CreateResult, createIdResponse, createErrorResponse, QueryResult, createSuccessResponse } from "@/lib/shared/action-types";
 import { 
   isPBLabError, 
@@ -13,6 +19,13 @@ import {
   DatabaseError 
 } from "@/lib/shared/errors";
 
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
+/**
+ * AI tutor conversation thread
+ */
+export type TutorThread = 'team' | 'private' | 'all';
+
 /**
  * Parameters for logging AI usage interactions
  */
@@ -27,6 +40,12 @@ export interface LogAiUsageParams {
   prompt?: Json | null;
   /** AI's response/output (stored as JSONB) */
   response?: Json | null;
+  /** Tokens consumed by the call, counted towards AI quotas */
+  totalTokens?: number | null;
+  /** Whether the exchange belongs to the user's private tutor thread */
+  isPrivate?: boolean;
+  /** Why the call failed (omit for successful calls) */
+  errorCode?: AiErrorCode | null;
 }
 
 /**
@@ -39,7 +58,10 @@ export interface LogAiUsageParams {
  * @returns Promise resolving to CreateResult with ai_usage record ID or error
  */
 export async function logAiUsage(params: LogAiUsageParams): Promise<CreateResult> {
-  const { userId, projectId = null, feature, prompt = null, response = null } = params;
+  const {
+    userId, projectId = null, feature, prompt = null, response = null, totalTokens = null, isPrivate = false,
+    errorCode = null
+  } = params;
 
   // Validate required parameters
   if (!userId || typeof userId !== 'string') {
@@ -75,6 +97,9 @@ export async function logAiUsage(params: LogAiUsageParams): Promise<CreateResult
         feature,
         prompt,
         response,
+        total_tokens: totalTokens,
+        is_private: isPrivate,
+        error_code: errorCode,
       })
       .select('id')
       .single();
@@ -112,11 +137,53 @@ export async function logAiUsage(params: LogAiUsageParams): Promise<CreateResult
   }
 }
 
+/**
+ * Record a failed AI call in ai_usage
+ *
+ * The row carries the error code and message but no response or tokens, so
+ * it shows up in the admin outage view without counting towards quotas.
+ * Logging failures are reported but never thrown.
+ *
+ * @param params - Who made the call, for which feature, and the error it raised
+ */
+export async function logAiFailure(params: {
+  userId: string;
+  projectId?: string | null;
+  feature: string;
+  prompt?: Json | null;
+  error: unknown;
+  isPrivate?: boolean;
+}): Promise<void> {
+  const { error, ...usage } = params;
+
+  try {
+    const result = await logAiUsage({
+      ...usage,
+      response: { error: error instanceof Error ? error.message : String(error) },
+      errorCode: getAiErrorCode(error),
+    });
+
+    if (!result.success) {
+      console.error('Failed to log AI failure:', result.error);
+    }
+  } catch (logError) {
+    console.error('Failed to log AI failure:', logError);
+  }
+}
+
 /**
  * AI conversation message with user information
  */
 export interface AiConversationMessage {
   id: string;
+  /** ai_usage row of the exchange this message belongs to */
+  turn_id: string;
+  /** Project phase when the exchange happened (null for older turns) */
+  phase: ProjectPhase | null;
+  /** Whether the exchange is in its sender's private thread */
+  is_private: boolean;
+  /** Whether a private exchange has been shared with the team thread */
+  promoted: boolean;
   message: string;
   response: string | null;
   created_at: string;
@@ -135,6 +202,17 @@ export interface GetAiTutorHistoryParams {
   offset?: number;
   /** Maximum number of messages to return (default: 10) */
   limit?: number;
+  /** Only include exchanges from this project phase */
+  phase?: ProjectPhase;
+  /** Only include exchanges at or after this ISO timestamp */
+  since?: string;
+  /** Only include exchanges before this ISO timestamp */
+  until?: string;
+  /**
+   * Thread to load: the shared team thread (default), the current user's
+   * private thread, or both (educator review)
+   */
+  thread?: TutorThread;
 }
 
 /**
@@ -142,12 +220,13 @@ export interface GetAiTutorHistoryParams {
  * 
  * Returns conversation history with user information for display in the chat UI.
  * Includes both user messages and AI responses with proper attribution.
+ * Optional phase and date filters are used by the educator transcript review.
  * 
  * @param params - History fetch parameters
  * @returns Promise resolving to QueryResult with conversation messages or error
  */
 export async function getAiTutorHistory(params: GetAiTutorHistoryParams): Promise<QueryResult<AiConversationMessage[]>> {
-  const { projectId, offset = 0, limit = 10 } = params;
+  const { projectId, offset = 0, limit = 10, phase, since, until, thread = 'team' } = params;
 
   // Validate required parameters
   if (!projectId || typeof projectId !== 'string') {
@@ -185,7 +264,7 @@ export async function getAiTutorHistory(params: GetAiTutorHistoryParams): Promis
     }
 
     // Fetch conversation history with user information (newest first, then reverse for display)
-    const { data: conversationData, error: conversationError } = await supabase
+    let conversationQuery = supabase
       .from('ai_usage')
       .select(`
         id,
@@ -193,12 +272,37 @@ export async function getAiTutorHistory(params: GetAiTutorHistoryParams): Promis
         response,
         created_at,
         user_id,
+        is_private,
+        promoted_usage_id,
         users!ai_usage_user_id_fkey (
           name
         )
       `)
       .eq('project_id', projectId)
       .eq('feature', 'tutor')
+      .is('error_code', null);
+
+    // Private threads are only ever loaded for their owner
+    if (thread === 'team') {
+      conversationQuery = conversationQuery.eq('is_private', false);
+    } else if (thread === 'private') {
+      conversationQuery = conversationQuery.eq('is_private', true).eq('user_id', user.id);
+    } else {
+      // Promoted copies duplicate a private exchange that is already included
+      conversationQuery = conversationQuery.is('prompt->>promoted_from', null);
+    }
+
+    if (phase) {
+      conversationQuery = conversationQuery.eq('prompt->>phase', phase);
+    }
+    if (since) {
+      conversationQuery = conversationQuery.gte('created_at', since);
+    }
+    if (until) {
+      conversationQuery = conversationQuery.lt('created_at', until);
+    }
+
+    const { data: conversationData, error: conversationError } = await conversationQuery
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
@@ -229,10 +333,20 @@ export async function getAiTutorHistory(params: GetAiTutorHistoryParams): Promis
         // Get user name from the joined users table
         const userName = (entry.users as { name: string })?.name || 'Unknown User';
 
+        // Phase is logged with each exchange since tutor profiles were introduced
+        const loggedPhase = typeof entry.prompt === 'object' && entry.prompt !== null
+          ? (entry.prompt as Record<string, unknown>).phase
+          : null;
+        const turnPhase = typeof loggedPhase === 'string' ? loggedPhase as ProjectPhase : null;
+
         if (userMessage) {
           // Add user message
           messages.push({
             id: `${entry.id}-user`,
+            turn_id: entry.id,
+            phase: turnPhase,
+            is_private: entry.is_private,
+            promoted: entry.promoted_usage_id !== null,
             message: userMessage,
             response: null,
             created_at: entry.created_at,
@@ -245,6 +359,10 @@ export async function getAiTutorHistory(params: GetAiTutorHistoryParams): Promis
           if (aiResponse) {
             messages.push({
               id: `${entry.id}-ai`,
+              turn_id: entry.id,
+              phase: turnPhase,
+              is_private: entry.is_private,
+              promoted: entry.promoted_usage_id !== null,
               message: aiResponse,
               response: null,
               created_at: entry.created_at,
@@ -285,4 +403,199 @@ export async function getAiTutorHistory(params: GetAiTutorHistoryParams): Promis
     console.error('Unexpected AI tutor history fetch error:', error);
     return createErrorResponse(`Failed to load conversation history: ${errorMessage}`);
   }
-}
\ No newline at end of file
+}
+/**
+ * Share one of the current user's private tutor exchanges with the team thread
+ * 
+ * A copy of the exchange is added to the team thread; the private original is
+ * kept and marked as promoted. Promoting the same exchange twice returns the
+ * existing copy.
+ * 
+ * @param turnId - ai_usage ID of the private exchange
+ * @returns Promise resolving to CreateResult with the team thread copy's ID
+ */
+export async function promotePrivateTutorExchange(turnId: string): Promise<CreateResult> {
+  try {
+    if (!turnId || typeof turnId !== 'string') {
+      throw new ValidationError('Turn ID', 'is required and must be a valid string', turnId);
+    }
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    // Ownership, privacy and team membership are checked by the function
+    const { data: newId, error } = await supabase
+      .rpc('promote_private_tutor_exchange', { _ai_usage_id: turnId });
+
+    if (error || !newId) {
+      throw new DatabaseError(
+        'promote_private_tutor_exchange',
+        error?.message || 'No ID returned from promotion',
+        error ? new Error(error.message) : undefined,
+        { turnId, userId: user.id }
+      );
+    }
+
+    return createIdResponse(newId);
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Private exchange promotion error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected private exchange promotion error:', error);
+    return createErrorResponse(`Failed to share exchange with the team: ${errorMessage}`);
+  }
+}
+
+/**
+ * Rolling summary of older AI tutor turns for a project
+ */
+export interface TutorMemorySummary {
+  summary: string;
+  /** Timestamp of the newest turn included in the summary */
+  summarized_through: string;
+  turns_summarized: number;
+  model: string | null;
+  updated_at: string;
+}
+
+/**
+ * Fetch the AI tutor's rolling conversation summary for a project
+ * 
+ * Lets educators see what the tutor remembers about turns that are no longer
+ * replayed verbatim.
+ * 
+ * @param projectId - Project to fetch the summary for
+ * @returns Promise resolving to QueryResult with the summary, or null if none exists yet
+ */
+export async function getTutorMemorySummary(projectId: string): Promise<QueryResult<TutorMemorySummary | null>> {
+  if (!projectId || typeof projectId !== 'string') {
+    throw new ValidationError('Project ID', 'is required and must be a valid string', projectId);
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role)) {
+      throw new AuthorizationError(
+        'get_tutor_memory_summary',
+        'User does not have educator-level permissions',
+        user.role,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const supabase = await createClient();
+
+    // RLS restricts educators to projects in their courses
+    const { data, error } = await supabase
+      .from('ai_tutor_summaries')
+      .select('summary, summarized_through, turns_summarized, model, updated_at')
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      throw new DatabaseError(
+        'get_tutor_memory_summary',
+        error.message,
+        new Error(error.message),
+        { projectId }
+      );
+    }
+
+    return createSuccessResponse(data);
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor summary fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor summary fetch error:', error);
+    return createErrorResponse(`Failed to load tutor summary: ${errorMessage}`);
+  }
+}
+
+/**
+ * The context the AI tutor receives for its next reply
+ */
+export interface TutorContextPreview {
+  /** System instruction including the project context and conversation summary */
+  systemInstruction: string;
+  /** Recent messages replayed verbatim before the student's next message */
+  messages: LlmMessage[];
+  /** Number of older turns represented only by the summary */
+  turnsSummarized: number;
+}
+
+/**
+ * Preview exactly what the AI tutor sees for a project
+ * 
+ * Builds the same system instruction and recent history as the tutor route,
+ * without calling the model or updating the stored summary.
+ * 
+ * @param projectId - Project to preview
+ * @returns Promise resolving to QueryResult with the tutor context or error
+ */
+export async function getTutorContextPreview(projectId: string): Promise<QueryResult<TutorContextPreview>> {
+  if (!projectId || typeof projectId !== 'string') {
+    throw new ValidationError('Project ID', 'is required and must be a valid string', projectId);
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role)) {
+      throw new AuthorizationError(
+        'get_tutor_context_preview',
+        'User does not have educator-level permissions',
+        user.role,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const supabase = await createClient();
+
+    const projectContext = await loadTutorProjectContext(supabase, projectId);
+    if (!projectContext) {
+      throw new AuthorizationError(
+        'get_tutor_context_preview',
+        'Project not found or access denied',
+        user.role,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const memory = await buildTutorMemory(supabase, null, {
+      projectId,
+      userId: user.id,
+      updateSummary: false
+    });
+
+    const policy = await loadTutorPolicy(projectContext.problemId);
+
+    return createSuccessResponse({
+      systemInstruction: buildTutorSystemInstruction({
+        context: projectContext,
+        summary: memory.summary,
+        profile: getTutorProfile(projectContext.phase),
+        policy
+      }),
+      messages: memory.messages,
+      turnsSummarized: memory.turnsSummarized
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Tutor context preview error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+    
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected tutor context preview error:', error);
+    return createErrorResponse(`Failed to load tutor context: ${errorMessage}`);
+  }
+}
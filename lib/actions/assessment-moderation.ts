@@ -0,0 +1,853 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+import { revalidatePath } from "next/cache";
+import {
+  getAuthenticatedUser,
+  verifyCourseEducatorAccess,
+  type AuthenticatedUser
+} from "@/lib/actions/shared/authorization";
+import { hasAdminPermissions, hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import {
+  validateId,
+  validateOptionalString,
+  validateRange,
+  validateRequiredString
+} from "@/lib/shared/validation";
+import {
+  DEFAULT_MODERATION_RULE,
+  reconcileCriterion,
+  type CriterionReconciliation,
+  type ModerationAggregation,
+  type ModerationMethod,
+  type ModerationRounding,
+  type ModerationRule
+} from "@/lib/shared/assessment-moderation";
+import type { ProjectAssessmentData } from "@/lib/actions/assessments";
+import {
+  QueryResult,
+  UpdateResult,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  AuthorizationError,
+  BusinessLogicError,
+  DatabaseError,
+  ValidationError
+} from "@/lib/shared/errors";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+type ExistingAssessment = NonNullable<ProjectAssessmentData["existingAssessment"]>;
+
+const AGGREGATIONS: ModerationAggregation[] = ['mean', 'median', 'lowest', 'highest'];
+const ROUNDINGS: ModerationRounding[] = ['nearest', 'down', 'up'];
+const METHODS: ModerationMethod[] = ['average', 'course_rule', 'override'];
+
+/**
+ * Load a course's moderation rule, falling back to the defaults
+ */
+async function getCourseModerationRule(
+  supabase: SupabaseClient,
+  courseId: string
+): Promise<ModerationRule> {
+  const { data, error } = await supabase
+    .from('course_moderation_settings')
+    .select('aggregation, rounding, max_disagreement, min_assessors')
+    .eq('course_id', courseId)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(
+      'get_course_moderation_settings',
+      error.message,
+      new Error(error.message),
+      { courseId }
+    );
+  }
+
+  return data
+    ? {
+        aggregation: data.aggregation,
+        rounding: data.rounding,
+        maxDisagreement: data.max_disagreement,
+        minAssessors: data.min_assessors
+      }
+    : DEFAULT_MODERATION_RULE;
+}
+
+/**
+ * Verify the user moderates the course: its educator or an admin
+ *
+ * @throws AuthorizationError if the user cannot moderate the course
+ */
+async function requireModerator(
+  supabase: SupabaseClient,
+  user: AuthenticatedUser,
+  courseId: string | null,
+  operation: string
+): Promise<void> {
+  if (hasAdminPermissions(user.role)) return;
+
+  const { data: course } = courseId
+    ? await supabase.from('courses').select('admin_id').eq('id', courseId).maybeSingle()
+    : { data: null };
+
+  if (!hasEducatorPermissions(user.role) || !course || course.admin_id !== user.id) {
+    throw new AuthorizationError(
+      operation,
+      'Only the course educator or an admin can moderate assessments',
+      user.role,
+      { courseId, userId: user.id }
+    );
+  }
+}
+
+// =====================================================
+// COURSE SETTINGS
+// =====================================================
+
+/**
+ * An educator who assesses projects in a course they do not own
+ */
+export interface CourseAssessor {
+  userId: string;
+  name: string;
+  email: string;
+  addedAt: string;
+}
+
+/**
+ * Moderation configuration for a course
+ */
+export interface CourseModerationSettings {
+  course: { id: string; name: string };
+  assessors: CourseAssessor[];
+  /** Educators who can be added as assessors */
+  candidates: Array<{ id: string; name: string }>;
+  rule: ModerationRule;
+  /** Whether the course has saved its own rule (otherwise the defaults apply) */
+  isConfigured: boolean;
+}
+
+/**
+ * Get the assessors and moderation rule of a course
+ *
+ * @param courseId - Course to load
+ * @returns QueryResult with the course's moderation settings
+ */
+export async function getCourseModerationSettings(
+  courseId: string
+): Promise<QueryResult<CourseModerationSettings>> {
+  try {
+    validateId(courseId, 'Course ID');
+
+    const supabase = await createClient();
+    const { course } = await verifyCourseEducatorAccess(courseId, 'get_course_moderation_settings');
+
+    const [courseResult, assessorsResult, educatorsResult, settingsResult] = await Promise.all([
+      supabase.from('courses').select('admin_id').eq('id', courseId).single(),
+      supabase
+        .from('course_assessors')
+        .select(`
+          user_id,
+          created_at,
+          user:users!course_assessors_user_id_fkey(
+            name,
+            email
+          )
+        `)
+        .eq('course_id', courseId)
+        .order('created_at'),
+      supabase.from('users').select('id, name, email').eq('role', 'educator'),
+      supabase.from('course_moderation_settings').select('course_id').eq('course_id', courseId).maybeSingle()
+    ]);
+
+    const failed = courseResult.error || assessorsResult.error || educatorsResult.error || settingsResult.error;
+    if (failed) {
+      throw new DatabaseError('get_course_moderation_settings', failed.message, new Error(failed.message), { courseId });
+    }
+
+    const assessors = (assessorsResult.data || []).map(assessor => ({
+      userId: assessor.user_id,
+      name: assessor.user.name || assessor.user.email,
+      email: assessor.user.email,
+      addedAt: assessor.created_at
+    }));
+    const taken = new Set([courseResult.data.admin_id, ...assessors.map(a => a.userId)]);
+
+    return createSuccessResponse({
+      course,
+      assessors,
+      candidates: (educatorsResult.data || [])
+        .filter(educator => !taken.has(educator.id))
+        .map(educator => ({ id: educator.id, name: educator.name || educator.email }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      rule: await getCourseModerationRule(supabase, courseId),
+      isConfigured: !!settingsResult.data
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Course moderation settings fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load moderation settings: ${errorMessage}`);
+  }
+}
+
+/**
+ * Add an educator as an assessor of a course
+ *
+ * Assessors can see the course's projects and rubrics and grade them, but
+ * only ever see their own scores.
+ *
+ * @param params - Course and educator to add
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function addCourseAssessor(params: {
+  courseId: string;
+  userId: string;
+}): Promise<UpdateResult> {
+  try {
+    const courseId = validateId(params.courseId, 'Course ID');
+    const userId = validateId(params.userId, 'User ID');
+
+    const supabase = await createClient();
+    const { user } = await verifyCourseEducatorAccess(courseId, 'add_course_assessor');
+
+    const { data: assessor } = await supabase
+      .from('users')
+      .select('id, name, email, role')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!assessor || assessor.role !== 'educator') {
+      throw new ValidationError('Assessor', 'must be an educator', userId);
+    }
+
+    const { error } = await supabase
+      .from('course_assessors')
+      .insert({ course_id: courseId, user_id: userId, added_by: user.id });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new BusinessLogicError(
+          'assessor_already_added',
+          `${assessor.name || assessor.email} already assesses this course.`,
+          { courseId, userId }
+        );
+      }
+      throw new DatabaseError('add_course_assessor', error.message, new Error(error.message), { courseId, userId });
+    }
+
+    revalidatePath(`/educator/courses/${courseId}/moderation`);
+    return createMessageResponse(`${assessor.name || assessor.email} can now assess this course.`);
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Add course assessor error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to add assessor: ${errorMessage}`);
+  }
+}
+
+/**
+ * Remove an assessor from a course
+ *
+ * Assessments they already made are kept.
+ *
+ * @param params - Course and assessor to remove
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function removeCourseAssessor(params: {
+  courseId: string;
+  userId: string;
+}): Promise<UpdateResult> {
+  try {
+    const courseId = validateId(params.courseId, 'Course ID');
+    const userId = validateId(params.userId, 'User ID');
+
+    const supabase = await createClient();
+    await verifyCourseEducatorAccess(courseId, 'remove_course_assessor');
+
+    const { error } = await supabase
+      .from('course_assessors')
+      .delete()
+      .eq('course_id', courseId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new DatabaseError('remove_course_assessor', error.message, new Error(error.message), { courseId, userId });
+    }
+
+    revalidatePath(`/educator/courses/${courseId}/moderation`);
+    return createMessageResponse('Assessor removed.');
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Remove course assessor error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to remove assessor: ${errorMessage}`);
+  }
+}
+
+/**
+ * Save the moderation rule of a course
+ *
+ * @param params - Course and its rule
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function saveModerationRule(params: ModerationRule & { courseId: string }): Promise<UpdateResult> {
+  try {
+    const courseId = validateId(params.courseId, 'Course ID');
+
+    if (!AGGREGATIONS.includes(params.aggregation)) {
+      throw new ValidationError('Aggregation', `must be one of ${AGGREGATIONS.join(', ')}`, params.aggregation);
+    }
+    if (!ROUNDINGS.includes(params.rounding)) {
+      throw new ValidationError('Rounding', `must be one of ${ROUNDINGS.join(', ')}`, params.rounding);
+    }
+    if (params.maxDisagreement !== null &&
+        (!Number.isInteger(params.maxDisagreement) || params.maxDisagreement < 0)) {
+      throw new ValidationError('Disagreement limit', 'must be a whole number of points or left empty', params.maxDisagreement);
+    }
+    if (!Number.isInteger(params.minAssessors)) {
+      throw new ValidationError('Minimum assessors', 'must be a whole number', params.minAssessors);
+    }
+    validateRange(params.minAssessors, 'Minimum assessors', 1, 10);
+
+    const supabase = await createClient();
+    const { user } = await verifyCourseEducatorAccess(courseId, 'save_moderation_rule');
+
+    const { data: existing } = await supabase
+      .from('course_moderation_settings')
+      .select('course_id')
+      .eq('course_id', courseId)
+      .maybeSingle();
+
+    const values = {
+      aggregation: params.aggregation,
+      rounding: params.rounding,
+      max_disagreement: params.maxDisagreement,
+      min_assessors: params.minAssessors,
+      updated_by: user.id,
+      updated_at: new Date().toISOString()
+    };
+
+    const { error } = existing
+      ? await supabase.from('course_moderation_settings').update(values).eq('course_id', courseId)
+      : await supabase.from('course_moderation_settings').insert({ ...values, course_id: courseId });
+
+    if (error) {
+      throw new DatabaseError('save_moderation_rule', error.message, new Error(error.message), { courseId });
+    }
+
+    revalidatePath(`/educator/courses/${courseId}/moderation`);
+    return createMessageResponse('Moderation rule saved.');
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Moderation rule save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to save moderation rule: ${errorMessage}`);
+  }
+}
+
+// =====================================================
+// PROJECT MODERATION
+// =====================================================
+
+/**
+ * An independent assessment of the project
+ */
+export interface ModerationAssessor {
+  assessmentId: string;
+  assessorName: string;
+  /** Null while the assessment is an AI draft the assessor has not saved */
+  submittedAt: string | null;
+}
+
+/**
+ * Each assessor's score for one rubric criterion, with the proposed result
+ */
+export interface ModerationCriterion {
+  id: string;
+  criterion_text: string;
+  max_score: number;
+  /** One entry per submitted assessment */
+  scores: Array<{
+    assessmentId: string;
+    score: number;
+    justification: string | null;
+  }>;
+  /** Null when no assessor has scored the criterion */
+  reconciliation: CriterionReconciliation | null;
+}
+
+/**
+ * Everything the moderator needs to reconcile a project's assessments
+ */
+export interface ProjectModeration {
+  projectId: string;
+  phase: Database["public"]["Enums"]["project_phase"];
+  rule: ModerationRule;
+  assessors: ModerationAssessor[];
+  /**
+   * Whether other assessors' scores are hidden because the moderator's own
+   * assessment is still an unsaved AI draft
+   */
+  hiddenUntilSubmitted: boolean;
+  criteria: ModerationCriterion[];
+  /** The reconciled assessment, once the moderator has saved one */
+  moderated: {
+    assessment: ExistingAssessment;
+    method: ModerationMethod;
+    moderatorName: string;
+    /** Whether the current user can change it (only its moderator can) */
+    canEdit: boolean;
+  } | null;
+}
+
+/**
+ * Get the independent assessments of a project side by side for moderation
+ *
+ * Only the course educator and admins moderate; assessors never see each
+ * other's scores. A moderator who is also grading the project sees the other
+ * scores once they have saved their own assessment.
+ *
+ * @param projectId - Project to moderate
+ * @returns QueryResult with per-criterion scores and disagreement, or error
+ */
+export async function getProjectModeration(projectId: string): Promise<QueryResult<ProjectModeration>> {
+  try {
+    validateId(projectId, 'Project ID');
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        phase,
+        problems!inner(
+          course_id,
+          rubrics(
+            rubric_criteria(
+              id,
+              criterion_text,
+              max_score,
+              sort_order
+            )
+          )
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new DatabaseError(
+        'fetch_project',
+        'Failed to fetch project details',
+        projectError ? new Error(projectError.message) : undefined,
+        { projectId }
+      );
+    }
+
+    const courseId = project.problems.course_id;
+    await requireModerator(supabase, user, courseId, 'get_project_moderation');
+
+    const { data: assessments, error: assessmentsError } = await supabase
+      .from('assessments')
+      .select(`
+        id,
+        assessor_id,
+        overall_feedback,
+        status,
+        submitted_at,
+        review_requested_at,
+        reviewed_at,
+        review_approved,
+        review_comment,
+        published_at,
+        moderation_method,
+        assessor:users!assessments_assessor_id_fkey(
+          name,
+          email
+        ),
+        reviewer:users!assessments_reviewer_id_fkey(
+          name,
+          email
+        )
+      `)
+      .eq('project_id', projectId)
+      .order('created_at');
+
+    if (assessmentsError) {
+      throw new DatabaseError(
+        'fetch_project_assessments',
+        assessmentsError.message,
+        new Error(assessmentsError.message),
+        { projectId }
+      );
+    }
+
+    const independent = (assessments || []).filter(a => a.moderation_method === null);
+    const moderated = (assessments || []).find(a => a.moderation_method !== null);
+    const submitted = independent.filter(a => a.submitted_at !== null);
+    const hiddenUntilSubmitted = independent.some(a => a.assessor_id === user.id && a.submitted_at === null);
+
+    // Scores of the submitted assessments and the moderated one
+    const scoredIds = [
+      ...(hiddenUntilSubmitted ? [] : submitted.map(a => a.id)),
+      ...(moderated ? [moderated.id] : [])
+    ];
+    const { data: scores, error: scoresError } = scoredIds.length > 0
+      ? await supabase
+          .from('assessment_scores')
+          .select('assessment_id, criterion_id, score, justification, ai_generated')
+          .in('assessment_id', scoredIds)
+      : { data: [], error: null };
+
+    if (scoresError) {
+      throw new DatabaseError(
+        'fetch_assessment_scores',
+        scoresError.message,
+        new Error(scoresError.message),
+        { projectId }
+      );
+    }
+
+    const rule = courseId ? await getCourseModerationRule(supabase, courseId) : DEFAULT_MODERATION_RULE;
+    const criteria = [...(project.problems.rubrics?.rubric_criteria || [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map(criterion => {
+        const criterionScores = hiddenUntilSubmitted ? [] : submitted.flatMap(assessment => {
+          const score = (scores || []).find(
+            s => s.assessment_id === assessment.id && s.criterion_id === criterion.id
+          );
+          return score
+            ? [{ assessmentId: assessment.id, score: Number(score.score), justification: score.justification }]
+            : [];
+        });
+
+        return {
+          id: criterion.id,
+          criterion_text: criterion.criterion_text,
+          max_score: criterion.max_score,
+          scores: criterionScores,
+          reconciliation: criterionScores.length > 0
+            ? reconcileCriterion(criterionScores.map(s => s.score), criterion.max_score, rule)
+            : null
+        };
+      });
+
+    return createSuccessResponse({
+      projectId: project.id,
+      phase: project.phase,
+      rule,
+      assessors: independent.map(a => ({
+        assessmentId: a.id,
+        assessorName: a.assessor.name || a.assessor.email,
+        submittedAt: a.submitted_at
+      })),
+      hiddenUntilSubmitted,
+      criteria,
+      moderated: moderated && moderated.moderation_method ? {
+        assessment: {
+          id: moderated.id,
+          overall_feedback: moderated.overall_feedback,
+          status: moderated.status,
+          is_ai_draft: false,
+          review: moderated.review_requested_at ? {
+            reviewer_name: moderated.reviewer ? moderated.reviewer.name || moderated.reviewer.email : null,
+            requested_at: moderated.review_requested_at,
+            reviewed_at: moderated.reviewed_at,
+            approved: moderated.review_approved,
+            comment: moderated.review_comment
+          } : null,
+          published_at: moderated.published_at,
+          scores: (scores || []).filter(s => s.assessment_id === moderated.id)
+        },
+        method: moderated.moderation_method,
+        moderatorName: moderated.assessor.name || moderated.assessor.email,
+        canEdit: moderated.assessor_id === user.id || hasAdminPermissions(user.role)
+      } : null
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load moderation: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parameters for saving a moderated assessment
+ */
+export interface SaveModeratedAssessmentParams {
+  projectId: string;
+  /** How the moderator produced the scores */
+  method: ModerationMethod;
+  /** A score and justification for every rubric criterion */
+  scores: Array<{
+    criterion_id: string;
+    score: number;
+    justification: string;
+  }>;
+  overall_feedback?: string;
+  /** Optional note explaining a change, kept in the revision history */
+  reason?: string;
+}
+
+/**
+ * Save the reconciled assessment of a project graded by several assessors
+ *
+ * Creates the moderated assessment as a draft, or revises it (keeping the
+ * revision history). Scores saved as 'average' or 'course_rule' must match
+ * what that method produces; anything the moderator changed is recorded as
+ * an 'override'. The moderated assessment is then reviewed and published
+ * like any other.
+ *
+ * Authorization:
+ * - The course educator or an admin
+ * - At least two assessors must have submitted their own assessment
+ *
+ * @param params - Project, method, scores and feedback
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function saveModeratedAssessment(params: SaveModeratedAssessmentParams): Promise<UpdateResult> {
+  try {
+    const projectId = validateId(params.projectId, 'Project ID');
+
+    if (!METHODS.includes(params.method)) {
+      throw new ValidationError('Moderation method', `must be one of ${METHODS.join(', ')}`, params.method);
+    }
+    if (!Array.isArray(params.scores) || params.scores.length === 0) {
+      throw new ValidationError('Scores', 'must include every rubric criterion', params.scores);
+    }
+
+    const scores = params.scores.map((score, index) => ({
+      criterion_id: validateId(score.criterion_id, `Score ${index + 1} criterion`),
+      score: score.score,
+      justification: validateRequiredString(score.justification, `Score ${index + 1} justification`)
+    }));
+    const overallFeedback = validateOptionalString(params.overall_feedback, 'Overall feedback');
+    const reason = validateOptionalString(params.reason, 'Reason for change');
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    const moderation = await getProjectModeration(projectId);
+    if (!moderation.success) {
+      throw new BusinessLogicError('moderation_unavailable', moderation.error, { projectId });
+    }
+
+    const { phase, criteria, assessors, moderated, hiddenUntilSubmitted } = moderation.data;
+    const submitted = assessors.filter(a => a.submittedAt !== null);
+
+    if (hiddenUntilSubmitted) {
+      throw new BusinessLogicError(
+        'moderator_assessment_unsaved',
+        'Save your own assessment before moderating this project.',
+        { projectId }
+      );
+    }
+    if (submitted.length < 2) {
+      throw new BusinessLogicError(
+        'moderation_needs_assessors',
+        'At least two assessors must submit their assessments before moderating.',
+        { projectId, submittedCount: submitted.length }
+      );
+    }
+    if (phase !== 'post' && (phase !== 'closed' || !moderated)) {
+      throw new BusinessLogicError(
+        'invalid_project_phase',
+        'Assessments can only be moderated for projects in the post phase.',
+        { projectId, phase }
+      );
+    }
+
+    // Every criterion needs a whole score in range
+    const byCriterion = new Map(scores.map(s => [s.criterion_id, s]));
+    for (const criterion of criteria) {
+      const score = byCriterion.get(criterion.id);
+      if (!score) {
+        throw new ValidationError('Scores', `are missing "${criterion.criterion_text}"`, params.scores);
+      }
+      if (!Number.isInteger(score.score) || score.score < 1 || score.score > criterion.max_score) {
+        throw new ValidationError(
+          criterion.criterion_text,
+          `must be a whole score between 1 and ${criterion.max_score}`,
+          score.score
+        );
+      }
+    }
+    if (scores.length !== criteria.length) {
+      throw new ValidationError('Scores', 'contain a criterion that is not in the project rubric', params.scores);
+    }
+
+    // Scores the moderator changed from what the method proposes are an override
+    const method: ModerationMethod = params.method !== 'override' && criteria.every(criterion => {
+      const proposed = params.method === 'average'
+        ? criterion.reconciliation?.average
+        : criterion.reconciliation?.courseRule;
+      return proposed !== null && proposed !== undefined && proposed === byCriterion.get(criterion.id)!.score;
+    }) ? params.method : 'override';
+    const moderatedFrom = submitted.map(a => a.assessmentId);
+
+    if (!moderated) {
+      const { data: created, error: createError } = await supabase
+        .from('assessments')
+        .insert({
+          project_id: projectId,
+          assessor_id: user.id,
+          status: 'draft',
+          overall_feedback: overallFeedback,
+          moderation_method: method,
+          moderated_from: moderatedFrom
+        })
+        .select('id')
+        .single();
+
+      if (createError || !created) {
+        throw new DatabaseError(
+          'create_moderated_assessment',
+          createError?.message || 'No ID returned',
+          createError ? new Error(createError.message) : undefined,
+          { projectId }
+        );
+      }
+
+      const { error: scoresError } = await supabase
+        .from('assessment_scores')
+        .insert(scores.map(score => ({ ...score, assessment_id: created.id, ai_generated: false })));
+
+      // Submitted once the scores are in; after that only revise_assessment changes them
+      const saveError = scoresError ?? (await supabase
+        .from('assessments')
+        .update({ submitted_at: new Date().toISOString() })
+        .eq('id', created.id)).error;
+
+      if (saveError) {
+        // Rollback: Delete the assessment if its scores could not be saved
+        const { error: rollbackError } = await supabase.from('assessments').delete().eq('id', created.id);
+        if (rollbackError) {
+          console.error('Rollback failed:', rollbackError);
+        }
+
+        throw new DatabaseError(
+          scoresError ? 'create_moderated_scores' : 'submit_moderated_assessment',
+          saveError.message,
+          new Error(saveError.message),
+          { assessmentId: created.id }
+        );
+      }
+
+      revalidatePath(`/p/${projectId}`);
+      revalidatePath('/educator/dashboard');
+      return createMessageResponse('Moderated assessment saved as a draft.');
+    }
+
+    if (!moderated.canEdit) {
+      throw new BusinessLogicError(
+        'moderated_by_another_user',
+        `${moderated.moderatorName} moderated this project. Only they or an admin can change the moderated assessment.`,
+        { projectId, assessmentId: moderated.assessment.id }
+      );
+    }
+
+    const current = moderated.assessment;
+    if (current.status === 'pending_review' && !current.review?.reviewed_at) {
+      throw new BusinessLogicError(
+        'assessment_in_review',
+        'The moderated assessment is waiting for a second review. Wait for the review before making changes.',
+        { assessmentId: current.id }
+      );
+    }
+
+    const currentScores = new Map(current.scores.map(s => [s.criterion_id, s]));
+    const contentChanged = overallFeedback !== current.overall_feedback || scores.some(score => {
+      const existing = currentScores.get(score.criterion_id);
+      return !existing || Number(existing.score) !== score.score || (existing.justification || '') !== score.justification;
+    });
+
+    if (!contentChanged && method === moderated.method) {
+      throw new BusinessLogicError('no_changes', 'No changes to save.', { assessmentId: current.id });
+    }
+
+    if (contentChanged) {
+      const { error: reviseError } = await supabase.rpc('revise_assessment', {
+        _assessment_id: current.id,
+        _scores: scores,
+        _overall_feedback: overallFeedback,
+        _reason: reason
+      });
+
+      if (reviseError) {
+        throw new DatabaseError(
+          'revise_moderated_assessment',
+          reviseError.message,
+          new Error(reviseError.message),
+          { assessmentId: current.id }
+        );
+      }
+    }
+
+    // revise_assessment returns a reviewed or published assessment to draft
+    const { error: updateError } = await supabase
+      .from('assessments')
+      .update({
+        moderation_method: method,
+        moderated_from: moderatedFrom
+      })
+      .eq('id', current.id);
+
+    if (updateError) {
+      throw new DatabaseError(
+        'update_moderated_assessment',
+        updateError.message,
+        new Error(updateError.message),
+        { assessmentId: current.id }
+      );
+    }
+
+    revalidatePath(`/p/${projectId}`);
+    revalidatePath('/educator/dashboard');
+    revalidatePath('/dashboard');
+    return createMessageResponse(
+      contentChanged && current.status === 'final'
+        ? 'Moderated assessment updated. It is a draft again; publish it to show the team the new version.'
+        : 'Moderated assessment updated.'
+    );
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Moderated assessment save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to save moderated assessment: ${errorMessage}`);
+  }
+}
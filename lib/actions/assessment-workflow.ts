@@ -0,0 +1,808 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+import { revalidatePath } from "next/cache";
+import { getAuthenticatedUser } from "@/lib/actions/shared/authorization";
+import { hasAdminPermissions, hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import { validateId, validateOptionalString } from "@/lib/shared/validation";
+import {
+  QueryResult,
+  UpdateResult,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  AuthorizationError,
+  BusinessLogicError,
+  DatabaseError,
+  ValidationError
+} from "@/lib/shared/errors";
+
+type AssessmentStatus = Database["public"]["Enums"]["assessment_status"];
+type UserRole = Database["public"]["Enums"]["user_role"];
+
+/**
+ * Whether an assessment can be published
+ *
+ * The assessor must have saved their own version (not just an AI draft), and
+ * a requested second review must have been approved.
+ */
+function isReadyToPublish(assessment: {
+  status: AssessmentStatus;
+  submitted_at: string | null;
+  review_approved: boolean | null;
+}): boolean {
+  if (assessment.submitted_at === null) return false;
+  if (assessment.status === 'draft') return true;
+  return assessment.status === 'pending_review' && assessment.review_approved === true;
+}
+
+/**
+ * Pick the assessment of a project that can be published, if any
+ *
+ * A project needs the course's minimum number of independent assessments.
+ * Once more than one assessor has submitted, only the moderated assessment
+ * can be published; otherwise the most recently updated ready assessment is.
+ */
+function selectPublishableAssessment<T extends {
+  status: AssessmentStatus;
+  submitted_at: string | null;
+  review_approved: boolean | null;
+  moderation_method: string | null;
+  updated_at: string;
+}>(assessments: T[], minAssessors: number): T | null {
+  const submitted = assessments.filter(a => a.moderation_method === null && a.submitted_at !== null);
+  if (submitted.length < minAssessors) return null;
+
+  const moderated = submitted.length > 1;
+  return assessments
+    .filter(a => (a.moderation_method !== null) === moderated && isReadyToPublish(a))
+    .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())[0] ?? null;
+}
+
+/**
+ * Minimum independent assessments before publishing, by course
+ *
+ * Courses without moderation settings need a single assessment.
+ */
+async function getMinAssessorsByCourse(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  courseIds: string[]
+): Promise<Map<string, number>> {
+  const minAssessors = new Map(courseIds.map(id => [id, 1]));
+  if (courseIds.length === 0) return minAssessors;
+
+  const { data, error } = await supabase
+    .from('course_moderation_settings')
+    .select('course_id, min_assessors')
+    .in('course_id', courseIds);
+
+  if (error) {
+    throw new DatabaseError(
+      'get_course_moderation_settings',
+      error.message,
+      new Error(error.message),
+      { courseIds }
+    );
+  }
+
+  for (const settings of data || []) {
+    minAssessors.set(settings.course_id, settings.min_assessors);
+  }
+
+  return minAssessors;
+}
+
+function requireEducator(role: UserRole, operation: string): void {
+  if (!hasEducatorPermissions(role)) {
+    throw new AuthorizationError(
+      operation,
+      'Only educators and admins can manage assessments',
+      role
+    );
+  }
+}
+
+function revalidateAssessmentPaths(projectId: string): void {
+  revalidatePath(`/p/${projectId}`);
+  revalidatePath('/educator/dashboard');
+  revalidatePath('/student/dashboard');
+  revalidatePath('/dashboard');
+}
+
+/**
+ * An educator or admin who can be asked for a second review
+ */
+export interface AssessmentReviewerOption {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+/**
+ * List the educators and admins who can review the current user's assessments
+ *
+ * @returns QueryResult with reviewers sorted by name
+ */
+export async function getAssessmentReviewerOptions(): Promise<QueryResult<AssessmentReviewerOption[]>> {
+  try {
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'get_assessment_reviewers');
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase
+      .from('users')
+      .select('id, name, email, role')
+      .in('role', ['educator', 'admin'])
+      .neq('id', user.id);
+
+    if (error) {
+      throw new DatabaseError(
+        'get_assessment_reviewers',
+        error.message,
+        new Error(error.message)
+      );
+    }
+
+    const reviewers = (data || [])
+      .map(reviewer => ({
+        id: reviewer.id,
+        name: reviewer.name || reviewer.email,
+        role: reviewer.role
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return createSuccessResponse(reviewers);
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load reviewers: ${errorMessage}`);
+  }
+}
+
+/**
+ * Ask another educator or an admin to review an assessment before publishing
+ *
+ * The reviewer is notified. Asking again replaces the reviewer and clears any
+ * earlier review.
+ *
+ * @param params - Assessment to review and the reviewer to ask
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function requestAssessmentReview(params: {
+  assessmentId: string;
+  reviewerId: string;
+}): Promise<UpdateResult> {
+  try {
+    const assessmentId = validateId(params.assessmentId, 'Assessment ID');
+    const reviewerId = validateId(params.reviewerId, 'Reviewer ID');
+
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'request_assessment_review');
+
+    if (reviewerId === user.id) {
+      throw new ValidationError('Reviewer', 'must be someone other than yourself', reviewerId);
+    }
+
+    const supabase = await createClient();
+
+    const { data: assessment, error: fetchError } = await supabase
+      .from('assessments')
+      .select('id, project_id, assessor_id, status, submitted_at')
+      .eq('id', assessmentId)
+      .single();
+
+    if (fetchError || !assessment || assessment.assessor_id !== user.id) {
+      throw new AuthorizationError(
+        'request_assessment_review',
+        'You can only request reviews of your own assessments',
+        user.role,
+        { assessmentId }
+      );
+    }
+
+    if (assessment.status === 'final') {
+      throw new BusinessLogicError(
+        'assessment_already_published',
+        'This assessment has already been published.',
+        { assessmentId }
+      );
+    }
+
+    if (assessment.submitted_at === null) {
+      throw new BusinessLogicError(
+        'assessment_is_ai_draft',
+        'Save the AI draft as your own assessment before requesting a review.',
+        { assessmentId }
+      );
+    }
+
+    const { error: rpcError } = await supabase.rpc('request_assessment_review', {
+      _assessment_id: assessmentId,
+      _reviewer_id: reviewerId
+    });
+
+    if (rpcError) {
+      throw new DatabaseError(
+        'request_assessment_review',
+        rpcError.message,
+        new Error(rpcError.message),
+        { assessmentId, reviewerId }
+      );
+    }
+
+    revalidateAssessmentPaths(assessment.project_id);
+
+    return createMessageResponse('Review requested. The reviewer has been notified.');
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Assessment review request error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to request review: ${errorMessage}`);
+  }
+}
+
+/**
+ * An assessment waiting for the current user's review
+ */
+export interface AssessmentReviewRequest {
+  assessmentId: string;
+  projectId: string;
+  problemTitle: string;
+  teamName: string;
+  assessorName: string;
+  requestedAt: string;
+}
+
+/**
+ * List the assessments waiting for the current user's review
+ *
+ * @returns QueryResult with review requests, oldest first
+ */
+export async function getMyAssessmentReviews(): Promise<QueryResult<AssessmentReviewRequest[]>> {
+  try {
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'get_assessment_reviews');
+
+    const supabase = await createClient();
+
+    // Reviewers may not have access to the course, so this goes through a function
+    const { data, error } = await supabase.rpc('get_my_assessment_reviews');
+
+    if (error) {
+      throw new DatabaseError(
+        'get_my_assessment_reviews',
+        error.message,
+        new Error(error.message)
+      );
+    }
+
+    return createSuccessResponse((data || []).map(request => ({
+      assessmentId: request.assessment_id,
+      projectId: request.project_id,
+      problemTitle: request.problem_title,
+      teamName: request.team_name,
+      assessorName: request.assessor_name,
+      requestedAt: request.review_requested_at
+    })));
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load review requests: ${errorMessage}`);
+  }
+}
+
+/**
+ * An assessment as seen by the educator asked to review it
+ */
+export interface AssessmentReviewDetails {
+  assessment_id: string;
+  project_id: string;
+  problem_title: string;
+  team_name: string;
+  final_report_url: string | null;
+  assessor_name: string;
+  overall_feedback: string | null;
+  status: AssessmentStatus;
+  review_requested_at: string | null;
+  reviewed_at: string | null;
+  review_approved: boolean | null;
+  review_comment: string | null;
+  criteria: Array<{
+    criterion_id: string;
+    criterion_text: string;
+    max_score: number;
+    score: number | null;
+    justification: string | null;
+  }>;
+}
+
+/**
+ * Get an assessment the current user was asked to review
+ *
+ * @param assessmentId - Assessment to review
+ * @returns QueryResult with the assessment, its scores and the review state
+ */
+export async function getAssessmentReview(assessmentId: string): Promise<QueryResult<AssessmentReviewDetails>> {
+  try {
+    validateId(assessmentId, 'Assessment ID');
+
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'get_assessment_review');
+
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc('get_assessment_review', {
+      _assessment_id: assessmentId
+    });
+
+    if (error || !data) {
+      throw new AuthorizationError(
+        'get_assessment_review',
+        'Review not found or you were not asked to review this assessment',
+        user.role,
+        { assessmentId, error: error?.message }
+      );
+    }
+
+    return createSuccessResponse(data as unknown as AssessmentReviewDetails);
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load review: ${errorMessage}`);
+  }
+}
+
+/**
+ * Record the outcome of a second review
+ *
+ * Approved assessments can be published by the assessor. Otherwise the
+ * assessment returns to draft with the reviewer's comment, which is required
+ * so the assessor knows what to change. The assessor is notified either way.
+ *
+ * @param params - Assessment, decision and comment
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function completeAssessmentReview(params: {
+  assessmentId: string;
+  approved: boolean;
+  comment?: string;
+}): Promise<UpdateResult> {
+  try {
+    const assessmentId = validateId(params.assessmentId, 'Assessment ID');
+    const comment = validateOptionalString(params.comment, 'Comment', 2000);
+
+    if (!params.approved && !comment) {
+      throw new ValidationError('Comment', 'is required when requesting changes', params.comment);
+    }
+
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'complete_assessment_review');
+
+    const review = await getAssessmentReview(assessmentId);
+    if (!review.success) {
+      return review;
+    }
+
+    if (review.data.status !== 'pending_review' || review.data.reviewed_at) {
+      throw new BusinessLogicError(
+        'review_not_pending',
+        'This assessment is no longer waiting for your review.',
+        { assessmentId }
+      );
+    }
+
+    const supabase = await createClient();
+
+    const { error: rpcError } = await supabase.rpc('complete_assessment_review', {
+      _assessment_id: assessmentId,
+      _approved: params.approved,
+      _comment: comment
+    });
+
+    if (rpcError) {
+      throw new DatabaseError(
+        'complete_assessment_review',
+        rpcError.message,
+        new Error(rpcError.message),
+        { assessmentId }
+      );
+    }
+
+    revalidatePath(`/educator/reviews/${assessmentId}`);
+    revalidateAssessmentPaths(review.data.project_id);
+
+    return createMessageResponse(
+      params.approved
+        ? 'Assessment approved. The assessor can now publish it.'
+        : 'Changes requested. The assessment has been returned to the assessor.'
+    );
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Assessment review error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to save review: ${errorMessage}`);
+  }
+}
+
+/**
+ * Publish an assessment to the team
+ *
+ * Marks the assessment final, closes the project and notifies every team
+ * member. This is the only way students get to see an assessment.
+ *
+ * Authorization:
+ * - The assessor, the course educator or an admin
+ * - Any requested second review must have been approved
+ * - The course's minimum number of independent assessments must be met, and
+ *   projects graded by several assessors publish their moderated assessment
+ *
+ * @param assessmentId - Assessment to publish
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function publishAssessment(assessmentId: string): Promise<UpdateResult> {
+  try {
+    validateId(assessmentId, 'Assessment ID');
+
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'publish_assessment');
+
+    const supabase = await createClient();
+
+    // RLS limits educators to assessments in their courses
+    const { data: assessment, error: fetchError } = await supabase
+      .from('assessments')
+      .select('id, project_id, status, submitted_at, review_approved, moderation_method')
+      .eq('id', assessmentId)
+      .single();
+
+    if (fetchError || !assessment) {
+      throw new AuthorizationError(
+        'publish_assessment',
+        'Assessment not found or you cannot publish it',
+        user.role,
+        { assessmentId }
+      );
+    }
+
+    if (assessment.status === 'final') {
+      throw new BusinessLogicError(
+        'assessment_already_published',
+        'This assessment has already been published.',
+        { assessmentId }
+      );
+    }
+
+    if (!isReadyToPublish(assessment)) {
+      throw new BusinessLogicError(
+        'assessment_not_ready',
+        assessment.submitted_at === null
+          ? 'Review and save the AI draft before publishing.'
+          : 'This assessment is waiting for a second review.',
+        { assessmentId, status: assessment.status }
+      );
+    }
+
+    // Moderation rules: enough independent assessments, and the moderated
+    // one once several assessors have graded the project
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        problems!inner(
+          course_id
+        ),
+        assessments(
+          moderation_method,
+          submitted_at
+        )
+      `)
+      .eq('id', assessment.project_id)
+      .single();
+
+    if (projectError || !project) {
+      throw new DatabaseError(
+        'fetch_project_assessments',
+        projectError?.message || 'Project not found',
+        projectError ? new Error(projectError.message) : undefined,
+        { projectId: assessment.project_id }
+      );
+    }
+
+    const courseId = project.problems.course_id;
+    const minAssessors = courseId
+      ? (await getMinAssessorsByCourse(supabase, [courseId])).get(courseId) ?? 1
+      : 1;
+    const submittedCount = project.assessments
+      .filter(a => a.moderation_method === null && a.submitted_at !== null).length;
+
+    if (submittedCount < minAssessors) {
+      throw new BusinessLogicError(
+        'assessors_required',
+        `This course needs ${minAssessors} independent assessments before publishing (${submittedCount} so far).`,
+        { assessmentId, submittedCount, minAssessors }
+      );
+    }
+
+    if (assessment.moderation_method === null && submittedCount > 1) {
+      throw new BusinessLogicError(
+        'moderation_required',
+        'Several assessors have graded this project. Publish the moderated assessment instead.',
+        { assessmentId, submittedCount }
+      );
+    }
+
+    const { data: notified, error: rpcError } = await supabase.rpc('publish_assessment', {
+      _assessment_id: assessmentId
+    });
+
+    if (rpcError) {
+      throw new DatabaseError(
+        'publish_assessment',
+        rpcError.message,
+        new Error(rpcError.message),
+        { assessmentId }
+      );
+    }
+
+    revalidateAssessmentPaths(assessment.project_id);
+
+    return createMessageResponse(
+      `Assessment published. ${notified ?? 0} team member${notified === 1 ? '' : 's'} notified.`
+    );
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Assessment publish error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to publish assessment: ${errorMessage}`);
+  }
+}
+
+/**
+ * Publishing progress for the post-phase projects of one problem
+ */
+export interface ProblemPublishingSummary {
+  problemId: string;
+  problemTitle: string;
+  /** Projects in the post phase */
+  projectCount: number;
+  /** Projects with an assessment that can be published now */
+  readyCount: number;
+  /** Projects whose assessment is waiting for a second review */
+  inReviewCount: number;
+  /** Projects graded by several assessors that still need moderating */
+  awaitingModerationCount: number;
+}
+
+/**
+ * Summarise which post-phase projects have assessments ready to publish
+ *
+ * Educators see the problems in their courses; admins see every problem.
+ *
+ * @returns QueryResult with one entry per problem that has post-phase projects
+ */
+export async function getAssessmentPublishingSummary(): Promise<QueryResult<ProblemPublishingSummary[]>> {
+  try {
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'get_assessment_publishing_summary');
+
+    const supabase = await createClient();
+
+    // Course assessors can see projects in courses they do not own, but only
+    // the course educator (or an admin) publishes them
+    let query = supabase
+      .from('projects')
+      .select(`
+        id,
+        problems!inner(
+          id,
+          title,
+          course_id,
+          courses!inner(
+            admin_id
+          )
+        ),
+        assessments(
+          status,
+          submitted_at,
+          review_approved,
+          reviewed_at,
+          moderation_method,
+          updated_at
+        )
+      `)
+      .eq('phase', 'post');
+
+    if (!hasAdminPermissions(user.role)) {
+      query = query.eq('problems.courses.admin_id', user.id);
+    }
+
+    const { data: projects, error } = await query;
+
+    if (error) {
+      throw new DatabaseError(
+        'get_assessment_publishing_summary',
+        error.message,
+        new Error(error.message)
+      );
+    }
+
+    const minAssessors = await getMinAssessorsByCourse(
+      supabase,
+      [...new Set((projects || []).flatMap(p => p.problems.course_id ? [p.problems.course_id] : []))]
+    );
+    const summaries = new Map<string, ProblemPublishingSummary>();
+
+    for (const project of projects || []) {
+      const summary = summaries.get(project.problems.id) ?? {
+        problemId: project.problems.id,
+        problemTitle: project.problems.title,
+        projectCount: 0,
+        readyCount: 0,
+        inReviewCount: 0,
+        awaitingModerationCount: 0
+      };
+
+      const required = project.problems.course_id ? minAssessors.get(project.problems.course_id) ?? 1 : 1;
+      const submittedCount = project.assessments
+        .filter(a => a.moderation_method === null && a.submitted_at !== null).length;
+
+      summary.projectCount++;
+      if (selectPublishableAssessment(project.assessments, required)) {
+        summary.readyCount++;
+      } else if (project.assessments.some(a => a.status === 'pending_review' && !a.reviewed_at)) {
+        summary.inReviewCount++;
+      } else if (submittedCount > 1) {
+        summary.awaitingModerationCount++;
+      }
+
+      summaries.set(project.problems.id, summary);
+    }
+
+    return createSuccessResponse(
+      [...summaries.values()].sort((a, b) => a.problemTitle.localeCompare(b.problemTitle))
+    );
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load publishing summary: ${errorMessage}`);
+  }
+}
+
+/**
+ * Outcome of publishing every ready assessment for a problem
+ */
+export interface BulkPublishResult {
+  /** Projects whose assessment was published */
+  published: number;
+  /** Projects with no assessment ready to publish */
+  skipped: number;
+  /** Projects whose assessment failed to publish */
+  failed: number;
+}
+
+/**
+ * Publish the ready assessments of every post-phase project of a problem
+ *
+ * Projects without an assessment that can be published (not assessed, AI
+ * draft not yet saved, waiting for a second review, too few assessors or not
+ * yet moderated) are skipped. Projects graded by several assessors publish
+ * their moderated assessment.
+ *
+ * @param problemId - Problem whose projects should be published
+ * @returns QueryResult with how many projects were published, skipped or failed
+ */
+export async function publishProblemAssessments(problemId: string): Promise<QueryResult<BulkPublishResult>> {
+  try {
+    validateId(problemId, 'Problem ID');
+
+    const user = await getAuthenticatedUser();
+    requireEducator(user.role, 'publish_problem_assessments');
+
+    const supabase = await createClient();
+
+    // RLS restricts educators to projects in their courses
+    const { data: projects, error } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        problems!inner(
+          course_id
+        ),
+        assessments(
+          id,
+          status,
+          submitted_at,
+          review_approved,
+          moderation_method,
+          updated_at
+        )
+      `)
+      .eq('problem_id', problemId)
+      .eq('phase', 'post');
+
+    if (error) {
+      throw new DatabaseError(
+        'fetch_problem_projects',
+        error.message,
+        new Error(error.message),
+        { problemId }
+      );
+    }
+
+    const courseId = projects?.[0]?.problems.course_id;
+    const minAssessors = courseId
+      ? (await getMinAssessorsByCourse(supabase, [courseId])).get(courseId) ?? 1
+      : 1;
+    const result: BulkPublishResult = { published: 0, skipped: 0, failed: 0 };
+
+    for (const project of projects || []) {
+      const ready = selectPublishableAssessment(project.assessments, minAssessors);
+
+      if (!ready) {
+        result.skipped++;
+        continue;
+      }
+
+      const { error: rpcError } = await supabase.rpc('publish_assessment', {
+        _assessment_id: ready.id
+      });
+
+      if (rpcError) {
+        console.error('Failed to publish assessment:', { assessmentId: ready.id, error: rpcError.message });
+        result.failed++;
+      } else {
+        result.published++;
+        revalidatePath(`/p/${project.id}`);
+      }
+    }
+
+    revalidatePath('/educator/dashboard');
+    revalidatePath('/student/dashboard');
+    revalidatePath('/dashboard');
+
+    return createSuccessResponse(result);
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Bulk publish error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to publish assessments: ${errorMessage}`);
+  }
+}
@@ -4,7 +4,9 @@ import { createClient } from "@/lib/supabase/server";
 import type { Database } from "@/lib/db.types";
 import { revalidatePath } from "next/cache";
 import {
-  getAuthenticatedUser
+  getAuthenticatedUser,
+  canAssessCourse,
+  type AuthenticatedUser
 } from "@/lib/actions/shared/authorization";
 import {
   hasEducatorPermissions,
@@ -18,7 +20,9 @@ import {
 import {
   CreateResult,
   QueryResult,
+  UpdateResult,
   createIdResponse,
+  createMessageResponse,
   createErrorResponse,
   createSuccessResponse
 } from "@/lib/shared/action-types";
@@ -35,6 +39,16 @@ type Assessment = Database["public"]["Tables"]["assessments"]["Insert"];
 type AssessmentScore = Database["public"]["Tables"]["assessment_scores"]["Insert"];
 type AssessmentStatus = Database["public"]["Enums"]["assessment_status"];
 
+/**
+ * Whether an existing assessment is an AI draft still awaiting educator review
+ *
+ * AI drafts have no submitted_at until the educator saves their own version
+ * through `saveAssessment`.
+ */
+function isAiDraft(assessment: { submitted_at: string | null }): boolean {
+  return assessment.submitted_at === null;
+}
+
 /**
  * Parameters for saving an assessment
  */
@@ -54,6 +68,111 @@ export interface SaveAssessmentParams {
   overall_feedback?: string;
 }
 
+/**
+ * Validate the shape of submitted scores and feedback
+ *
+ * @throws ValidationError if a score entry is incomplete
+ */
+function validateScoreEntries(
+  scores: SaveAssessmentParams['scores'],
+  overall_feedback: string | undefined
+): void {
+  if (!Array.isArray(scores) || scores.length === 0) {
+    throw new ValidationError(
+      'scores_required',
+      'At least one score must be provided',
+      { scoresLength: scores?.length || 0 }
+    );
+  }
+
+  // Validate each score entry
+  for (let i = 0; i < scores.length; i++) {
+    const score = scores[i];
+    
+    if (!score.criterion_id || typeof score.criterion_id !== 'string') {
+      throw new ValidationError(
+        'invalid_criterion_id',
+        `Score ${i + 1}: Criterion ID is required`,
+        { index: i, criterion_id: score.criterion_id }
+      );
+    }
+
+    if (typeof score.score !== 'number') {
+      throw new ValidationError(
+        'invalid_score_value',
+        `Score ${i + 1}: Score must be a number`,
+        { index: i, score: score.score }
+      );
+    }
+
+    validateRequiredString(score.justification, `Score ${i + 1} justification`);
+  }
+
+  if (overall_feedback !== undefined) {
+    validateOptionalString(overall_feedback, 'Overall feedback');
+  }
+}
+
+/**
+ * Validate scores against the project's rubric criteria
+ *
+ * @throws ValidationError if a criterion is not in the rubric or a score is out of range
+ */
+function validateScoresAgainstRubric(
+  scores: SaveAssessmentParams['scores'],
+  rubricCriteria: Array<{ id: string; criterion_text: string; max_score: number }>,
+  projectId: string
+): void {
+  const criteriaMap = new Map(rubricCriteria.map(c => [c.id, c]));
+  
+  for (let i = 0; i < scores.length; i++) {
+    const score = scores[i];
+    const criterion = criteriaMap.get(score.criterion_id);
+    
+    if (!criterion) {
+      throw new ValidationError(
+        'invalid_criterion',
+        `Score ${i + 1}: Criterion not found in project rubric`,
+        { criterion_id: score.criterion_id, projectId }
+      );
+    }
+
+    if (score.score < 1 || score.score > criterion.max_score) {
+      throw new ValidationError(
+        'score_out_of_range',
+        `Score ${i + 1}: Score must be between 1 and ${criterion.max_score}`,
+        { 
+          score: score.score, 
+          max_score: criterion.max_score,
+          criterion_text: criterion.criterion_text 
+        }
+      );
+    }
+  }
+}
+
+/**
+ * Verify that an educator can assess the course (admins may assess any course)
+ *
+ * @throws AuthorizationError if the educator neither owns the course nor was
+ *         added to it as an assessor
+ */
+async function verifyAssessorCourseAccess(
+  user: AuthenticatedUser,
+  courseId: string
+): Promise<void> {
+  if (user.role !== 'educator') return;
+
+  if (!(await canAssessCourse(courseId, user))) {
+    throw new AuthorizationError(
+      'course_assessor_required',
+      'Educator can only assess projects in their own courses or courses they were added to as an assessor',
+      user.role,
+      { userId: user.id, courseId }
+    );
+  }
+}
+
 /**
  * Save an educator's assessment for a project
  * 
@@ -61,9 +180,12 @@ export interface SaveAssessmentParams {
  * rubric criterion. It's transactional - if any part fails, the entire
  * operation is rolled back.
  * 
+ * The assessment is saved as a draft. Students only see it once it is
+ * published (see `publishAssessment`).
+ * 
  * Authorization:
  * - User must be authenticated
- * - User must have educator role and own the course, OR have admin role
+ * - User must have educator role and own or assess the course, OR have admin role
  * - Educator must have access to the project's course
  * 
  * @param params - Assessment parameters including project ID and scores
@@ -75,41 +197,7 @@ export async function saveAssessment(params: SaveAssessmentParams): Promise<Crea
   try {
     // Validate parameters
     validateProjectId(projectId);
-
-    if (!Array.isArray(scores) || scores.length === 0) {
-      throw new ValidationError(
-        'scores_required',
-        'At least one score must be provided',
-        { scoresLength: scores?.length || 0 }
-      );
-    }
-
-    // Validate each score entry
-    for (let i = 0; i < scores.length; i++) {
-      const score = scores[i];
-      
-      if (!score.criterion_id || typeof score.criterion_id !== 'string') {
-        throw new ValidationError(
-          'invalid_criterion_id',
-          `Score ${i + 1}: Criterion ID is required`,
-          { index: i, criterion_id: score.criterion_id }
-        );
-      }
-
-      if (typeof score.score !== 'number') {
-        throw new ValidationError(
-          'invalid_score_value',
-          `Score ${i + 1}: Score must be a number`,
-          { index: i, score: score.score }
-        );
-      }
-
-      validateRequiredString(score.justification, `Score ${i + 1} justification`);
-    }
-
-    if (overall_feedback !== undefined) {
-      validateOptionalString(overall_feedback, 'Overall feedback');
-    }
+    validateScoreEntries(scores, overall_feedback);
 
     // Get authenticated user
     const user = await getAuthenticatedUser();
@@ -172,67 +260,29 @@ export async function saveAssessment(params: SaveAssessmentParams): Promise<Crea
       );
     }
 
-    // For educators (not admins), verify they own the course
-    if (user.role === 'educator') {
-      const { data: course, error: courseError } = await supabase
-        .from('courses')
-        .select('id, admin_id')
-        .eq('id', courseId)
-        .single();
-
-      if (courseError || !course) {
-        throw new DatabaseError(
-          'fetch_course',
-          'Failed to fetch course details',
-          courseError ? new Error(courseError.message) : undefined,
-          { courseId }
-        );
-      }
-
-      if (course.admin_id !== user.id) {
-        throw new AuthorizationError(
-          'course_ownership_required',
-          'Educator can only assess projects in their own courses',
-          user.role,
-          { userId: user.id, courseAdminId: course.admin_id }
-        );
-      }
-    }
+    // For educators (not admins), verify they can assess the course
+    await verifyAssessorCourseAccess(user, courseId);
 
     // Validate scores against rubric criteria
-    const criteriaMap = new Map(rubricCriteria.map(c => [c.id, c]));
-    
-    for (let i = 0; i < scores.length; i++) {
-      const score = scores[i];
-      const criterion = criteriaMap.get(score.criterion_id);
-      
-      if (!criterion) {
-        throw new ValidationError(
-          'invalid_criterion',
-          `Score ${i + 1}: Criterion not found in project rubric`,
-          { criterion_id: score.criterion_id, projectId }
-        );
-      }
-
-      if (score.score < 1 || score.score > criterion.max_score) {
-        throw new ValidationError(
-          'score_out_of_range',
-          `Score ${i + 1}: Score must be between 1 and ${criterion.max_score}`,
-          { 
-            score: score.score, 
-            max_score: criterion.max_score,
-            criterion_text: criterion.criterion_text 
-          }
-        );
-      }
-    }
+    validateScoresAgainstRubric(scores, rubricCriteria, projectId);
 
     // Check if assessment already exists for this project by this educator
     const { data: existingAssessment, error: existingError } = await supabase
       .from('assessments')
-      .select('id')
+      .select(`
+        id,
+        submitted_at,
+        assessment_scores(
+          id,
+          criterion_id,
+          score,
+          justification,
+          ai_generated
+        )
+      `)
       .eq('project_id', projectId)
       .eq('assessor_id', user.id)
+      .is('moderation_method', null)
       .single();
 
     if (existingError && existingError.code !== 'PGRST116') {
@@ -245,19 +295,100 @@ export async function saveAssessment(params: SaveAssessmentParams): Promise<Crea
       );
     }
 
+    // An AI-drafted assessment is completed by updating it in place
+    if (existingAssessment && isAiDraft(existingAssessment)) {
+      const draftScores = new Map(
+        existingAssessment.assessment_scores.map(s => [s.criterion_id, s])
+      );
+
+      for (const score of scores) {
+        const draftScore = draftScores.get(score.criterion_id);
+        const justification = score.justification.trim();
+
+        if (!draftScore) {
+          const { error: insertError } = await supabase
+            .from('assessment_scores')
+            .insert({
+              assessment_id: existingAssessment.id,
+              criterion_id: score.criterion_id,
+              score: score.score,
+              justification,
+              ai_generated: false
+            });
+
+          if (insertError) {
+            throw new DatabaseError(
+              'create_assessment_score',
+              'Failed to save assessment score',
+              new Error(insertError.message),
+              { assessmentId: existingAssessment.id, criterionId: score.criterion_id }
+            );
+          }
+          continue;
+        }
+
+        // Scores stay flagged as AI-generated until the educator changes them
+        const unchanged = Number(draftScore.score) === score.score &&
+          (draftScore.justification || '').trim() === justification;
+
+        const { error: updateError } = await supabase
+          .from('assessment_scores')
+          .update({
+            score: score.score,
+            justification,
+            ai_generated: draftScore.ai_generated && unchanged
+          })
+          .eq('id', draftScore.id);
+
+        if (updateError) {
+          throw new DatabaseError(
+            'update_assessment_score',
+            'Failed to update assessment score',
+            new Error(updateError.message),
+            { assessmentId: existingAssessment.id, criterionId: score.criterion_id }
+          );
+        }
+      }
+
+      // Saving marks the draft as the educator's own submission
+      const { error: feedbackError } = await supabase
+        .from('assessments')
+        .update({
+          overall_feedback: overall_feedback?.trim() || null,
+          submitted_at: new Date().toISOString()
+        })
+        .eq('id', existingAssessment.id);
+
+      if (feedbackError) {
+        throw new DatabaseError(
+          'update_assessment',
+          'Failed to update assessment feedback',
+          new Error(feedbackError.message),
+          { assessmentId: existingAssessment.id }
+        );
+      }
+
+      revalidatePath(`/p/${projectId}`);
+      revalidatePath('/educator/dashboard');
+      revalidatePath('/dashboard');
+
+      return createIdResponse(existingAssessment.id);
+    }
+
     if (existingAssessment) {
       throw new BusinessLogicError(
         'assessment_already_exists',
-        'You have already created an assessment for this project. Consider updating it instead.',
+        'You have already created an assessment for this project. Edit it to make changes.',
         { assessmentId: existingAssessment.id, projectId }
       );
     }
 
-    // Create assessment record
+    // Create assessment record; it is marked submitted once its scores are in,
+    // after which only revise_assessment can change them
     const assessmentData: Assessment = {
       project_id: projectId,
       assessor_id: user.id,
-      status: 'pending_review',
+      status: 'draft',
       overall_feedback: overall_feedback?.trim() || null
     };
 
@@ -310,6 +441,20 @@ export async function saveAssessment(params: SaveAssessmentParams): Promise<Crea
         );
       }
 
+      const { error: submitError } = await supabase
+        .from('assessments')
+        .update({ submitted_at: new Date().toISOString() })
+        .eq('id', assessmentId);
+
+      if (submitError) {
+        throw new DatabaseError(
+          'submit_assessment',
+          'Failed to submit assessment',
+          new Error(submitError.message),
+          { assessmentId }
+        );
+      }
+
       // Success! Revalidate relevant pages
       revalidatePath(`/p/${projectId}`);
       revalidatePath('/educator/dashboard');
@@ -344,6 +489,383 @@ export async function saveAssessment(params: SaveAssessmentParams): Promise<Crea
   }
 }
 
+/**
+ * Parameters for revising an existing assessment
+ */
+export interface UpdateAssessmentParams extends SaveAssessmentParams {
+  /** Optional note explaining the revision, kept in the history */
+  reason?: string;
+}
+
+/**
+ * Revise an educator's submitted assessment for a project
+ *
+ * Applies the new scores and overall feedback to the educator's existing
+ * assessment and records the revision in assessment_revisions, with who made
+ * it and what changed. The original submission is kept as revision 1.
+ * Editing an assessment after its second review was approved, or after it
+ * was published, returns it to draft: students only see the new version once
+ * it is published again.
+ *
+ * Authorization:
+ * - User must have educator role and own or assess the course, OR have admin role
+ * - User must have already submitted an assessment for the project
+ *   (AI drafts are completed with `saveAssessment` instead)
+ *
+ * @param params - Project ID, full set of scores, feedback and optional reason
+ * @returns Promise resolving to UpdateResult with the new revision number or error
+ */
+export async function updateAssessment(params: UpdateAssessmentParams): Promise<UpdateResult> {
+  const { projectId, scores, overall_feedback, reason } = params;
+
+  try {
+    // Validate parameters
+    validateProjectId(projectId);
+    validateScoreEntries(scores, overall_feedback);
+
+    if (reason !== undefined) {
+      validateOptionalString(reason, 'Reason for change');
+    }
+
+    // Get authenticated user
+    const user = await getAuthenticatedUser();
+
+    // Verify user has educator or admin permissions
+    if (!hasEducatorPermissions(user.role) && !hasAdminPermissions(user.role)) {
+      throw new AuthorizationError(
+        'educator_permission_required',
+        'Only educators and admins can update assessments',
+        user.role
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Get project details with course information
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        phase,
+        problems!inner(
+          id,
+          course_id,
+          rubrics(
+            id,
+            rubric_criteria(
+              id,
+              criterion_text,
+              max_score
+            )
+          )
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new DatabaseError(
+        'fetch_project',
+        'Failed to fetch project details',
+        projectError ? new Error(projectError.message) : undefined,
+        { projectId }
+      );
+    }
+
+    const courseId = project.problems.course_id;
+    if (!courseId) {
+      throw new BusinessLogicError(
+        'no_course_id',
+        'Project problem has no associated course',
+        { projectId, problemId: project.problems.id }
+      );
+    }
+
+    await verifyAssessorCourseAccess(user, courseId);
+    validateScoresAgainstRubric(scores, project.problems.rubrics?.rubric_criteria || [], projectId);
+
+    // Find the assessment being revised
+    const { data: existingAssessment, error: existingError } = await supabase
+      .from('assessments')
+      .select(`
+        id,
+        overall_feedback,
+        status,
+        submitted_at,
+        reviewed_at,
+        assessment_scores(
+          criterion_id,
+          score,
+          justification,
+          ai_generated
+        )
+      `)
+      .eq('project_id', projectId)
+      .eq('assessor_id', user.id)
+      .is('moderation_method', null)
+      .single();
+
+    if (existingError && existingError.code !== 'PGRST116') {
+      throw new DatabaseError(
+        'fetch_existing_assessment',
+        'Failed to fetch existing assessment',
+        new Error(existingError.message),
+        { projectId, assessorId: user.id }
+      );
+    }
+
+    if (!existingAssessment) {
+      throw new BusinessLogicError(
+        'assessment_not_found',
+        'You have not assessed this project yet.',
+        { projectId, assessorId: user.id }
+      );
+    }
+
+    if (isAiDraft(existingAssessment)) {
+      throw new BusinessLogicError(
+        'assessment_is_ai_draft',
+        'This assessment is still an AI draft. Submit it before making revisions.',
+        { assessmentId: existingAssessment.id, projectId }
+      );
+    }
+
+    if (existingAssessment.status === 'pending_review' && !existingAssessment.reviewed_at) {
+      throw new BusinessLogicError(
+        'assessment_in_review',
+        'This assessment is waiting for a second review. Wait for the review before making changes.',
+        { assessmentId: existingAssessment.id, projectId }
+      );
+    }
+
+    const newFeedback = overall_feedback?.trim() || null;
+    const currentScores = new Map(
+      existingAssessment.assessment_scores.map(s => [s.criterion_id, s])
+    );
+    const hasChanges = newFeedback !== existingAssessment.overall_feedback ||
+      scores.some(score => {
+        const current = currentScores.get(score.criterion_id);
+        return !current ||
+          Number(current.score) !== score.score ||
+          (current.justification || '') !== score.justification.trim();
+      });
+
+    if (!hasChanges) {
+      throw new BusinessLogicError(
+        'no_changes',
+        'No changes to save.',
+        { assessmentId: existingAssessment.id }
+      );
+    }
+
+    // Scores, feedback, the revision record and the return to draft are
+    // written in one transaction
+    const { data: revisionNumber, error: reviseError } = await supabase
+      .rpc('revise_assessment', {
+        _assessment_id: existingAssessment.id,
+        _scores: scores.map(score => ({
+          criterion_id: score.criterion_id,
+          score: score.score,
+          justification: score.justification.trim()
+        })),
+        _overall_feedback: newFeedback,
+        _reason: reason?.trim() || null
+      });
+
+    if (reviseError || revisionNumber === null) {
+      throw new DatabaseError(
+        'revise_assessment',
+        reviseError?.message || 'No revision number returned',
+        reviseError ? new Error(reviseError.message) : undefined,
+        { assessmentId: existingAssessment.id, projectId }
+      );
+    }
+
+    revalidatePath(`/p/${projectId}`);
+    revalidatePath('/educator/dashboard');
+    revalidatePath('/dashboard');
+
+    return createMessageResponse(
+      existingAssessment.status === 'final'
+        ? `Assessment updated (revision ${revisionNumber}). It is a draft again; publish it to show the team the new version.`
+        : `Assessment updated (revision ${revisionNumber})`
+    );
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Unexpected error updating assessment: ${errorMessage}`);
+  }
+}
+
+/**
+ * Save an AI-drafted assessment for a project
+ *
+ * Stores the scores produced by the AI assessor as a draft assessment
+ * owned by the requesting educator. Every score is flagged as
+ * AI-generated so the educator can review and edit the draft before
+ * submitting it through `saveAssessment`.
+ *
+ * Authorization:
+ * - User must have educator role and own or assess the course, OR have admin role
+ * - Project must be in the post phase with no existing assessment by the user
+ *
+ * @param params - Draft parameters including project ID, scores and feedback
+ * @returns Promise resolving to CreateResult with assessment ID or error
+ */
+export async function saveAiAssessmentDraft(params: SaveAssessmentParams): Promise<CreateResult> {
+  const { projectId, scores, overall_feedback } = params;
+
+  try {
+    validateProjectId(projectId);
+
+    if (!Array.isArray(scores) || scores.length === 0) {
+      throw new ValidationError(
+        'scores_required',
+        'At least one score must be provided',
+        { scoresLength: scores?.length || 0 }
+      );
+    }
+
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role) && !hasAdminPermissions(user.role)) {
+      throw new AuthorizationError(
+        'educator_permission_required',
+        'Only educators and admins can create assessments',
+        user.role
+      );
+    }
+
+    // Reuse the assessment permission checks (phase, course ownership, no existing assessment)
+    const permission = await canEducatorAssessProject(projectId);
+    if (!permission.success) {
+      throw new BusinessLogicError('assessment_permission_check', permission.error, { projectId });
+    }
+    if (!permission.data.canAssess) {
+      throw new BusinessLogicError(
+        'cannot_assess_project',
+        permission.data.reason || 'You cannot assess this project',
+        { projectId }
+      );
+    }
+
+    const supabase = await createClient();
+
+    // Only keep scores for criteria that belong to the project's rubric
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        problems!inner(
+          rubrics(
+            rubric_criteria(
+              id,
+              max_score
+            )
+          )
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new DatabaseError(
+        'fetch_project',
+        'Failed to fetch project details',
+        projectError ? new Error(projectError.message) : undefined,
+        { projectId }
+      );
+    }
+
+    const criteriaMap = new Map(
+      (project.problems.rubrics?.rubric_criteria || []).map(c => [c.id, c])
+    );
+
+    const scoreEntries = scores.filter(score => criteriaMap.has(score.criterion_id));
+    if (scoreEntries.length === 0) {
+      throw new ValidationError(
+        'invalid_criterion',
+        'The AI draft did not contain scores for the project rubric',
+        { projectId }
+      );
+    }
+
+    const assessmentData: Assessment = {
+      project_id: projectId,
+      assessor_id: user.id,
+      status: 'draft',
+      overall_feedback: overall_feedback?.trim() || null
+    };
+
+    const { data: createdAssessment, error: assessmentError } = await supabase
+      .from('assessments')
+      .insert(assessmentData)
+      .select('id')
+      .single();
+
+    if (assessmentError || !createdAssessment) {
+      throw new DatabaseError(
+        'create_assessment',
+        'Failed to create AI assessment draft',
+        assessmentError ? new Error(assessmentError.message) : undefined,
+        { projectId, assessorId: user.id }
+      );
+    }
+
+    const assessmentId = createdAssessment.id;
+
+    const scoreData: AssessmentScore[] = scoreEntries.map(score => {
+      const maxScore = criteriaMap.get(score.criterion_id)!.max_score;
+      return {
+        assessment_id: assessmentId,
+        criterion_id: score.criterion_id,
+        score: Math.min(Math.max(Math.round(score.score), 1), maxScore),
+        justification: score.justification.trim(),
+        ai_generated: true
+      };
+    });
+
+    const { error: scoresError } = await supabase
+      .from('assessment_scores')
+      .insert(scoreData);
+
+    if (scoresError) {
+      // Rollback: Delete the assessment if score creation failed
+      const { error: rollbackError } = await supabase
+        .from('assessments')
+        .delete()
+        .eq('id', assessmentId);
+
+      if (rollbackError) {
+        console.error('Rollback failed:', rollbackError);
+      }
+
+      throw new DatabaseError(
+        'create_assessment_scores',
+        'Failed to create AI assessment scores',
+        new Error(scoresError.message),
+        { assessmentId, scoreCount: scoreData.length }
+      );
+    }
+
+    revalidatePath(`/p/${projectId}`);
+
+    return createIdResponse(assessmentId);
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Unexpected error saving AI assessment draft: ${errorMessage}`);
+  }
+}
+
 /**
  * Assessment data needed for the UI
  */
@@ -354,6 +876,8 @@ export interface ProjectAssessmentData {
     phase: Database["public"]["Enums"]["project_phase"];
     final_report_url: string | null;
     problem_title: string;
+    /** Whether cached report content is available for AI assessment */
+    has_report_content: boolean;
   };
   /** Rubric criteria for the project */
   rubricCriteria: Array<{
@@ -367,16 +891,42 @@ export interface ProjectAssessmentData {
     id: string;
     overall_feedback: string | null;
     status: AssessmentStatus;
+    /** Whether this is an AI draft the educator has not submitted yet */
+    is_ai_draft: boolean;
+    /** Second review requested for the assessment, if any */
+    review: {
+      reviewer_name: string | null;
+      requested_at: string | null;
+      reviewed_at: string | null;
+      approved: boolean | null;
+      comment: string | null;
+    } | null;
+    /** When the assessment was published to the team */
+    published_at: string | null;
     scores: Array<{
       criterion_id: string;
       score: number;
       justification: string | null;
+      ai_generated: boolean;
     }>;
   };
   /** Whether the current user can create/edit assessments */
   canAssess: boolean;
   /** Reason why assessment is not allowed, if applicable */
   cannotAssessReason?: string;
+  /** Whether the current user can revise their submitted assessment */
+  canEdit: boolean;
+  /** Students' self-assessments against the same rubric, as a calibration aid */
+  selfAssessments: Array<{
+    student_name: string;
+    reflection: string | null;
+    updated_at: string;
+    scores: Array<{
+      criterion_id: string;
+      score: number;
+      justification: string | null;
+    }>;
+  }>;
 }
 
 /**
@@ -417,6 +967,7 @@ export async function getProjectAssessmentData(
         id,
         phase,
         final_report_url,
+        final_report_content,
         problems!inner(
           id,
           title,
@@ -448,7 +999,7 @@ export async function getProjectAssessmentData(
     const rubric = project.problems.rubrics;
     const rubricCriteria = rubric?.rubric_criteria || [];
 
-    // For educators (not admins), verify they own the course
+    // For educators (not admins), verify they can assess the course
     let canAssess = true;
     let cannotAssessReason: string | undefined;
 
@@ -456,20 +1007,15 @@ export async function getProjectAssessmentData(
       if (!courseId) {
         canAssess = false;
         cannotAssessReason = 'Project problem has no associated course';
-      } else {
-        const { data: course, error: courseError } = await supabase
-          .from('courses')
-          .select('id, admin_id')
-          .eq('id', courseId)
-          .single();
-
-        if (courseError || !course || course.admin_id !== user.id) {
-          canAssess = false;
-          cannotAssessReason = 'You can only assess projects in your own courses';
-        }
+      } else if (!(await canAssessCourse(courseId, user))) {
+        canAssess = false;
+        cannotAssessReason = 'You can only assess projects in courses you teach or assess';
       }
     }
 
+    // Revising a submitted assessment only needs access to the course
+    const hasCourseAccess = canAssess;
+
     // Check project phase
     if (project.phase !== 'post' && canAssess) {
       canAssess = false;
@@ -483,14 +1029,26 @@ export async function getProjectAssessmentData(
         id,
         overall_feedback,
         status,
+        submitted_at,
+        review_requested_at,
+        reviewed_at,
+        review_approved,
+        review_comment,
+        published_at,
+        reviewer:users!assessments_reviewer_id_fkey(
+          name,
+          email
+        ),
         assessment_scores(
           criterion_id,
           score,
-          justification
+          justification,
+          ai_generated
         )
       `)
       .eq('project_id', projectId)
       .eq('assessor_id', user.id)
+      .is('moderation_method', null)
       .single();
 
     // PGRST116 means no rows found, which is fine
@@ -503,8 +1061,16 @@ export async function getProjectAssessmentData(
       );
     }
 
-    // If assessment already exists, can't create another
-    if (existingAssessment && canAssess) {
+    const existingIsAiDraft = !!existingAssessment && isAiDraft(existingAssessment);
+    const awaitingReview = existingAssessment?.status === 'pending_review' &&
+      !existingAssessment.reviewed_at;
+
+    // Submitted assessments stay editable after the project is closed
+    const canEdit = hasCourseAccess && !!existingAssessment && !existingIsAiDraft &&
+      !awaitingReview && (project.phase === 'post' || project.phase === 'closed');
+
+    // If assessment already exists, can't create another (AI drafts stay editable)
+    if (existingAssessment && !existingIsAiDraft && canAssess) {
       canAssess = false;
       cannotAssessReason = 'You have already assessed this project';
     }
@@ -512,21 +1078,68 @@ export async function getProjectAssessmentData(
     // Sort rubric criteria by sort_order
     const sortedCriteria = [...rubricCriteria].sort((a, b) => a.sort_order - b.sort_order);
 
+    // RLS only exposes self-assessments to educators with access to the course
+    const { data: selfAssessments, error: selfAssessmentsError } = await supabase
+      .from('self_assessments')
+      .select(`
+        reflection,
+        updated_at,
+        student:users!self_assessments_student_id_fkey(
+          name,
+          email
+        ),
+        self_assessment_scores(
+          criterion_id,
+          score,
+          justification
+        )
+      `)
+      .eq('project_id', projectId)
+      .order('updated_at');
+
+    if (selfAssessmentsError) {
+      throw new DatabaseError(
+        'fetch_self_assessments',
+        'Failed to fetch student self-assessments',
+        new Error(selfAssessmentsError.message),
+        { projectId }
+      );
+    }
+
     const assessmentData: ProjectAssessmentData = {
       project: {
         id: project.id,
         phase: project.phase,
         final_report_url: project.final_report_url,
-        problem_title: project.problems.title
+        problem_title: project.problems.title,
+        has_report_content: !!project.final_report_content?.trim()
       },
       rubricCriteria: sortedCriteria,
       canAssess,
       ...(cannotAssessReason && { cannotAssessReason }),
+      canEdit,
+      selfAssessments: (selfAssessments || []).map(selfAssessment => ({
+        student_name: selfAssessment.student.name || selfAssessment.student.email,
+        reflection: selfAssessment.reflection,
+        updated_at: selfAssessment.updated_at,
+        scores: selfAssessment.self_assessment_scores
+      })),
       ...(existingAssessment && {
         existingAssessment: {
           id: existingAssessment.id,
           overall_feedback: existingAssessment.overall_feedback,
           status: existingAssessment.status,
+          is_ai_draft: existingIsAiDraft,
+          review: existingAssessment.review_requested_at ? {
+            reviewer_name: existingAssessment.reviewer
+              ? existingAssessment.reviewer.name || existingAssessment.reviewer.email
+              : null,
+            requested_at: existingAssessment.review_requested_at,
+            reviewed_at: existingAssessment.reviewed_at,
+            approved: existingAssessment.review_approved,
+            comment: existingAssessment.review_comment
+          } : null,
+          published_at: existingAssessment.published_at,
           scores: existingAssessment.assessment_scores
         }
       })
@@ -592,20 +1205,14 @@ export async function canEducatorAssessProject(
       return createSuccessResponse({ canAssess: false, reason: 'Project must be in post phase' });
     }
 
-    // For educators, check course ownership
+    // For educators, check they own or assess the course
     if (user.role === 'educator') {
       const courseId = project.problems.course_id;
       if (!courseId) {
         return createSuccessResponse({ canAssess: false, reason: 'Project has no course' });
       }
-      
-      const { data: course } = await supabase
-        .from('courses')
-        .select('admin_id')
-        .eq('id', courseId)
-        .single();
 
-      if (!course || course.admin_id !== user.id) {
+      if (!(await canAssessCourse(courseId, user))) {
         return createSuccessResponse({ canAssess: false, reason: 'Not your course' });
       }
     }
@@ -616,6 +1223,7 @@ export async function canEducatorAssessProject(
       .select('id')
       .eq('project_id', projectId)
       .eq('assessor_id', user.id)
+      .is('moderation_method', null)
       .single();
 
     if (existingAssessment) {
@@ -634,6 +1242,100 @@ export async function canEducatorAssessProject(
   }
 }
 
+/**
+ * A single change recorded in an assessment revision
+ */
+export interface AssessmentChange {
+  field: 'score' | 'justification' | 'overall_feedback';
+  /** Rubric criterion changed (not set for overall feedback) */
+  criterion_id?: string;
+  from: string | number | null;
+  to: string | number | null;
+}
+
+/**
+ * A version of an assessment in its revision history
+ */
+export interface AssessmentRevision {
+  revision_number: number;
+  /** Name of the user who made the revision */
+  edited_by_name: string | null;
+  /** Changes compared with the previous revision (empty for the original) */
+  changes: AssessmentChange[];
+  reason: string | null;
+  created_at: string;
+}
+
+/**
+ * Get the revision history of an assessment, newest first
+ *
+ * Only educators of the course and admins can see the history. Assessments
+ * that have never been revised have no history yet.
+ *
+ * @param assessmentId - Assessment to get the history for
+ * @returns Promise resolving to the revisions or error
+ */
+export async function getAssessmentRevisions(
+  assessmentId: string
+): Promise<QueryResult<AssessmentRevision[]>> {
+  try {
+    validateRequiredString(assessmentId, 'Assessment ID');
+
+    const user = await getAuthenticatedUser();
+
+    if (!hasEducatorPermissions(user.role) && !hasAdminPermissions(user.role)) {
+      throw new AuthorizationError(
+        'educator_permission_required',
+        'Only educators and admins can view assessment history',
+        user.role
+      );
+    }
+
+    const supabase = await createClient();
+
+    // RLS restricts educators to assessments in their courses
+    const { data, error } = await supabase
+      .from('assessment_revisions')
+      .select(`
+        revision_number,
+        changes,
+        reason,
+        created_at,
+        editor:users!assessment_revisions_edited_by_fkey(
+          name,
+          email
+        )
+      `)
+      .eq('assessment_id', assessmentId)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      throw new DatabaseError(
+        'fetch_assessment_revisions',
+        'Failed to fetch assessment history',
+        new Error(error.message),
+        { assessmentId }
+      );
+    }
+
+    return createSuccessResponse((data || []).map(revision => ({
+      revision_number: revision.revision_number,
+      edited_by_name: revision.editor ? revision.editor.name || revision.editor.email : null,
+      changes: revision.changes as unknown as AssessmentChange[],
+      reason: revision.reason,
+      created_at: revision.created_at
+    })));
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Unexpected error fetching assessment history: ${errorMessage}`);
+  }
+}
+
 /**
  * Assessment results for closed projects (viewable by all authorized users)
  */
@@ -655,6 +1357,8 @@ export interface ProjectAssessmentResults {
     };
     score: number;
     justification: string | null;
+    /** The current student's own score for the criterion, if they self-assessed */
+    self_score: number | null;
   }>;
   /** Assessment metadata */
   assessment: {
@@ -663,6 +1367,10 @@ export interface ProjectAssessmentResults {
     overall_feedback: string | null;
     status: AssessmentStatus;
     created_at: string;
+    /** When the assessment was last revised (equal to created_at if never) */
+    updated_at: string;
+    /** When the assessment was published to the team */
+    published_at: string | null;
   };
 }
 
@@ -672,7 +1380,7 @@ export interface ProjectAssessmentResults {
  * This function fetches the final assessment results for a project that has been
  * completed and assessed. Unlike getProjectAssessmentData, this is designed for
  * viewing completed assessments and is accessible to both students and educators
- * who have access to the project.
+ * who have access to the project. Students only see published assessments.
  * 
  * @param projectId - ID of the project to get results for
  * @returns Promise resolving to assessment results or error
@@ -716,6 +1424,8 @@ export async function getProjectAssessmentResults(
           overall_feedback,
           status,
           created_at,
+          updated_at,
+          published_at,
           assessor:users!assessments_assessor_id_fkey(
             id,
             name
@@ -760,7 +1470,7 @@ export async function getProjectAssessmentResults(
         );
       }
     } else if (user.role === 'educator') {
-      // Educators must own the course
+      // Educators must own or assess the course
       if (!courseId) {
         throw new BusinessLogicError(
           'no_course_id',
@@ -769,13 +1479,7 @@ export async function getProjectAssessmentResults(
         );
       }
 
-      const { data: course } = await supabase
-        .from('courses')
-        .select('admin_id')
-        .eq('id', courseId)
-        .single();
-
-      if (!course || course.admin_id !== user.id) {
+      if (!(await canAssessCourse(courseId, user))) {
         throw new AuthorizationError(
           'course_ownership_required',
           'You can only view assessments for projects in your courses',
@@ -795,17 +1499,39 @@ export async function getProjectAssessmentResults(
       );
     }
 
+    // Only published assessments are shown to students (RLS also enforces this)
+    const visibleAssessments = (project.assessments || []).filter(
+      a => user.role !== 'student' || a.status === 'final'
+    );
+
     // Check that assessment exists
-    if (!project.assessments || project.assessments.length === 0) {
+    if (visibleAssessments.length === 0) {
       throw new BusinessLogicError(
         'no_assessment_found',
-        'No assessment found for this project',
+        user.role === 'student'
+          ? 'Your assessment has not been published yet'
+          : 'No assessment found for this project',
         { projectId }
       );
     }
 
-    const assessment = project.assessments[0]; // Should only be one assessment per project
+    // The published assessment is the result; otherwise assessments are
+    // revised in place, so the most recently updated one is current
+    const assessment = visibleAssessments.find(a => a.status === 'final') ??
+      [...visibleAssessments].sort(
+        (a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+      )[0];
     const rubricCriteria = project.problems.rubrics?.rubric_criteria || [];
+
+    // Students compare the published scores with their own self-assessment
+    const { data: selfAssessment } = user.role === 'student'
+      ? await supabase
+          .from('self_assessments')
+          .select('self_assessment_scores(criterion_id, score)')
+          .eq('project_id', projectId)
+          .eq('student_id', user.id)
+          .maybeSingle()
+      : { data: null };
     
     if (!assessment.assessor || !assessment.assessor.name) {
       throw new DatabaseError(
@@ -839,7 +1565,10 @@ export async function getProjectAssessmentResults(
             sort_order: criterion.sort_order
           },
           score: score.score,
-          justification: score.justification
+          justification: score.justification,
+          self_score: selfAssessment?.self_assessment_scores.find(
+            s => s.criterion_id === criterion.id
+          )?.score ?? null
         };
       })
       .sort((a, b) => a.criterion.sort_order - b.criterion.sort_order);
@@ -857,7 +1586,9 @@ export async function getProjectAssessmentResults(
         assessor_name: assessment.assessor.name,
         overall_feedback: assessment.overall_feedback,
         status: assessment.status,
-        created_at: assessment.created_at
+        created_at: assessment.created_at,
+        updated_at: assessment.updated_at,
+        published_at: assessment.published_at
       }
     };
 
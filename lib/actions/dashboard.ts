@@ -73,6 +73,8 @@ export interface EducatorDashboardData {
     name: string;
     team_count: number;
     problem_count: number;
+    /** AI tutor integrity flags awaiting review */
+    open_flag_count: number;
   }>;
   activeProjects: Array<{
     id: string;
@@ -338,9 +340,11 @@ export async function getEducatorDashboardData(): Promise<QueryResult<EducatorDa
         id,
         name,
         teams(count),
-        problems(count)
+        problems(count),
+        ai_integrity_flags(count)
       `)
-      .eq('admin_id', user.id);
+      .eq('admin_id', user.id)
+      .eq('ai_integrity_flags.status', 'open');
 
     if (coursesError) {
       console.error('Failed to fetch educator courses:', coursesError);
@@ -400,6 +404,19 @@ export async function getEducatorDashboardData(): Promise<QueryResult<EducatorDa
       throw new Error(`Failed to fetch completed projects: ${completedProjectsError.message}`);
     }
 
+    // Courses where another educator added this user as an assessor
+    const { data: assessorCourses, error: assessorCoursesError } = await supabase
+      .from('course_assessors')
+      .select('course_id')
+      .eq('user_id', user.id);
+
+    if (assessorCoursesError) {
+      console.error('Failed to fetch assessor courses:', assessorCoursesError);
+      throw new Error(`Failed to fetch assessor courses: ${assessorCoursesError.message}`);
+    }
+
+    const assessedCourseIds = [...courseIds, ...(assessorCourses?.map(a => a.course_id) || [])];
+
     // Fetch projects pending assessment (in post phase with reports)
     const { data: pendingAssessments, error: assessmentsError } = await supabase
       .from('projects')
@@ -414,7 +431,7 @@ export async function getEducatorDashboardData(): Promise<QueryResult<EducatorDa
           name
         )
       `)
-      .in('problem.course_id', courseIds)
+      .in('problem.course_id', assessedCourseIds)
       .eq('phase', 'post')
       .not('final_report_url', 'is', null)
       .limit(10);
@@ -430,6 +447,7 @@ export async function getEducatorDashboardData(): Promise<QueryResult<EducatorDa
         name: c.name,
         team_count: c.teams?.[0]?.count || 0,
         problem_count: c.problems?.[0]?.count || 0,
+        open_flag_count: c.ai_integrity_flags?.[0]?.count || 0,
       })) || [],
       activeProjects: projects?.map(p => ({
         id: p.id,
@@ -0,0 +1,690 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import {
+  getAuthenticatedUser,
+  canAssessCourse,
+  verifyProjectAccess,
+  type AuthenticatedUser
+} from "@/lib/actions/shared/authorization";
+import { hasAdminPermissions, hasEducatorPermissions } from "@/lib/shared/authorization-utils";
+import {
+  validateArray,
+  validateId,
+  validateProjectId,
+  validateRange,
+  validateRequiredString
+} from "@/lib/shared/validation";
+import {
+  DEFAULT_PEER_GRADING_SETTINGS,
+  averageReceivedScore,
+  computeContributionFactors,
+  individualScore,
+  type PeerCriterion,
+  type PeerGradingSettings,
+  type PeerRating
+} from "@/lib/shared/peer-assessment";
+import {
+  QueryResult,
+  UpdateResult,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  AuthorizationError,
+  BusinessLogicError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError
+} from "@/lib/shared/errors";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+const MAX_PEER_CRITERIA = 10;
+
+/**
+ * Load a problem's peer criteria in display order
+ */
+async function getPeerCriteria(supabase: SupabaseClient, problemId: string): Promise<PeerCriterion[]> {
+  const { data, error } = await supabase
+    .from('peer_assessment_criteria')
+    .select('id, criterion_text, max_score')
+    .eq('problem_id', problemId)
+    .order('sort_order');
+
+  if (error) {
+    throw new DatabaseError('get_peer_criteria', error.message, new Error(error.message), { problemId });
+  }
+
+  return data || [];
+}
+
+/**
+ * Load a team's members
+ */
+async function getTeamMembers(
+  supabase: SupabaseClient,
+  teamId: string
+): Promise<Array<{ id: string; name: string }>> {
+  const { data, error } = await supabase
+    .from('teams_users')
+    .select('user:users(id, name, email)')
+    .eq('team_id', teamId);
+
+  if (error) {
+    throw new DatabaseError('get_team_members', error.message, new Error(error.message), { teamId });
+  }
+
+  return (data || [])
+    .map(member => ({ id: member.user.id, name: member.user.name || member.user.email }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Verify the user is the educator of the problem's course (or an admin)
+ *
+ * @throws AuthorizationError if the problem is not found or the user cannot manage it
+ */
+async function requireProblemEducator(
+  supabase: SupabaseClient,
+  user: AuthenticatedUser,
+  problemId: string,
+  operation: string
+) {
+  const { data: problem } = await supabase
+    .from('problems')
+    .select('id, title, courses!inner(id, name, admin_id)')
+    .eq('id', problemId)
+    .maybeSingle();
+
+  if (
+    !hasEducatorPermissions(user.role) ||
+    !problem ||
+    (!hasAdminPermissions(user.role) && problem.courses.admin_id !== user.id)
+  ) {
+    throw new AuthorizationError(
+      operation,
+      'Problem not found or user is not the course educator',
+      user.role,
+      { problemId, userId: user.id }
+    );
+  }
+
+  return problem;
+}
+
+// =====================================================
+// PROBLEM SETUP
+// =====================================================
+
+/**
+ * A problem's peer assessment setup for the educator
+ */
+export interface PeerAssessmentSetup {
+  problem: { id: string; title: string };
+  course: { id: string; name: string };
+  criteria: PeerCriterion[];
+  grading: PeerGradingSettings;
+  /** Criteria are locked once students have started rating */
+  hasRatings: boolean;
+}
+
+/**
+ * Get a problem's peer criteria and grading settings
+ *
+ * Only accessible by the course educator or admins.
+ *
+ * @param problemId - Problem to load
+ * @returns QueryResult with the setup or error
+ */
+export async function getPeerAssessmentSetup(problemId: string): Promise<QueryResult<PeerAssessmentSetup>> {
+  try {
+    validateId(problemId, 'Problem ID');
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+    const problem = await requireProblemEducator(supabase, user, problemId, 'get_peer_assessment_setup');
+
+    const [criteria, settingsResult, ratingsResult] = await Promise.all([
+      getPeerCriteria(supabase, problemId),
+      supabase
+        .from('peer_assessment_settings')
+        .select('apply_to_grades, weighting')
+        .eq('problem_id', problemId)
+        .maybeSingle(),
+      supabase
+        .from('peer_ratings')
+        .select('id, peer_assessment_criteria!inner(problem_id)', { count: 'exact', head: true })
+        .eq('peer_assessment_criteria.problem_id', problemId)
+    ]);
+
+    if (settingsResult.error) {
+      throw new DatabaseError(
+        'get_peer_assessment_settings',
+        settingsResult.error.message,
+        new Error(settingsResult.error.message),
+        { problemId }
+      );
+    }
+
+    return createSuccessResponse({
+      problem: { id: problem.id, title: problem.title },
+      course: { id: problem.courses.id, name: problem.courses.name },
+      criteria,
+      grading: settingsResult.data
+        ? { applyToGrades: settingsResult.data.apply_to_grades, weighting: settingsResult.data.weighting }
+        : DEFAULT_PEER_GRADING_SETTINGS,
+      hasRatings: (ratingsResult.count ?? 0) > 0
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Peer assessment setup fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load peer assessment setup: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parameters for saving a problem's peer assessment setup
+ */
+export interface SavePeerAssessmentSetupParams extends PeerGradingSettings {
+  problemId: string;
+  /** Criteria in display order; an empty list turns peer assessment off */
+  criteria: Array<Pick<PeerCriterion, 'criterion_text' | 'max_score'>>;
+}
+
+/**
+ * Save a problem's peer criteria and grading settings
+ *
+ * Criteria are replaced as a whole, which is only allowed before any
+ * student has rated a teammate. Grading settings can change at any time.
+ *
+ * @param params - Problem, criteria and grading settings
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function savePeerAssessmentSetup(params: SavePeerAssessmentSetupParams): Promise<UpdateResult> {
+  try {
+    const problemId = validateId(params.problemId, 'Problem ID');
+    const criteria = validateArray<SavePeerAssessmentSetupParams['criteria'][number]>(
+      params.criteria, 'Peer criteria', true, MAX_PEER_CRITERIA
+    ).map((criterion, index) => {
+      const maxScore = validateRange(criterion.max_score, `Criterion ${index + 1} maximum score`, 2, 10);
+      if (!Number.isInteger(maxScore)) {
+        throw new ValidationError(`Criterion ${index + 1} maximum score`, 'must be a whole number', maxScore);
+      }
+      return {
+        criterion_text: validateRequiredString(criterion.criterion_text, `Criterion ${index + 1}`, 200),
+        max_score: maxScore
+      };
+    });
+    if (typeof params.applyToGrades !== 'boolean') {
+      throw new ValidationError('Apply to grades', 'must be true or false', params.applyToGrades);
+    }
+    const weighting = validateRange(params.weighting, 'Weighting', 0, 1);
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+    await requireProblemEducator(supabase, user, problemId, 'save_peer_assessment_setup');
+
+    const current = await getPeerCriteria(supabase, problemId);
+    const criteriaChanged = current.length !== criteria.length || current.some((criterion, index) =>
+      criterion.criterion_text !== criteria[index].criterion_text ||
+      criterion.max_score !== criteria[index].max_score
+    );
+
+    if (criteriaChanged) {
+      const { count } = await supabase
+        .from('peer_ratings')
+        .select('id, peer_assessment_criteria!inner(problem_id)', { count: 'exact', head: true })
+        .eq('peer_assessment_criteria.problem_id', problemId);
+
+      if ((count ?? 0) > 0) {
+        throw new BusinessLogicError(
+          'peer_criteria_locked',
+          'Students have already rated their teammates, so the criteria can no longer change.',
+          { problemId }
+        );
+      }
+
+      const { error: deleteError } = await supabase
+        .from('peer_assessment_criteria')
+        .delete()
+        .eq('problem_id', problemId);
+
+      if (deleteError) {
+        throw new DatabaseError('replace_peer_criteria', deleteError.message, new Error(deleteError.message), { problemId });
+      }
+
+      if (criteria.length > 0) {
+        const { error: insertError } = await supabase
+          .from('peer_assessment_criteria')
+          .insert(criteria.map((criterion, index) => ({ ...criterion, problem_id: problemId, sort_order: index })));
+
+        if (insertError) {
+          throw new DatabaseError('replace_peer_criteria', insertError.message, new Error(insertError.message), { problemId });
+        }
+      }
+    }
+
+    const { data: existing } = await supabase
+      .from('peer_assessment_settings')
+      .select('problem_id')
+      .eq('problem_id', problemId)
+      .maybeSingle();
+
+    const values = {
+      apply_to_grades: params.applyToGrades,
+      weighting,
+      updated_by: user.id,
+      updated_at: new Date().toISOString()
+    };
+
+    const { error } = existing
+      ? await supabase.from('peer_assessment_settings').update(values).eq('problem_id', problemId)
+      : await supabase.from('peer_assessment_settings').insert({ ...values, problem_id: problemId });
+
+    if (error) {
+      throw new DatabaseError('save_peer_assessment_settings', error.message, new Error(error.message), { problemId });
+    }
+
+    revalidatePath(`/educator/problems/${problemId}/peer-assessment`);
+    return createMessageResponse(
+      criteria.length > 0 ? 'Peer assessment saved.' : 'Peer assessment is turned off for this problem.'
+    );
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Peer assessment setup save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to save peer assessment: ${errorMessage}`);
+  }
+}
+
+// =====================================================
+// STUDENT RATINGS
+// =====================================================
+
+/**
+ * A student's peer ratings form
+ */
+export interface StudentPeerAssessment {
+  criteria: PeerCriterion[];
+  teammates: Array<{ id: string; name: string }>;
+  /** Scores the student gave, by teammate and criterion */
+  myRatings: Record<string, Record<string, number>>;
+  /** Ratings can be given and changed while the project is in the post phase */
+  isOpen: boolean;
+  /** Whether the student has rated every teammate on every criterion */
+  isComplete: boolean;
+}
+
+/**
+ * Get the peer ratings form for the current student
+ *
+ * Students only ever see the ratings they gave.
+ *
+ * @param projectId - Project being rated
+ * @returns QueryResult with the form, or null when the problem has no peer criteria
+ */
+export async function getPeerAssessment(projectId: string): Promise<QueryResult<StudentPeerAssessment | null>> {
+  try {
+    validateProjectId(projectId);
+
+    const user = await getAuthenticatedUser();
+    if (user.role !== 'student') {
+      throw new AuthorizationError('get_peer_assessment', 'Only students rate their teammates', user.role, { projectId });
+    }
+
+    const project = await verifyProjectAccess(projectId, user.id, user.role);
+    const supabase = await createClient();
+
+    const { data: projectRow, error: projectError } = await supabase
+      .from('projects')
+      .select('problem_id')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !projectRow) {
+      throw new NotFoundError('Project', projectId);
+    }
+
+    const criteria = await getPeerCriteria(supabase, projectRow.problem_id);
+    if (criteria.length === 0) {
+      return createSuccessResponse(null);
+    }
+
+    const [members, ratingsResult] = await Promise.all([
+      getTeamMembers(supabase, project.team_id),
+      supabase
+        .from('peer_ratings')
+        .select('ratee_id, criterion_id, score')
+        .eq('project_id', projectId)
+        .eq('rater_id', user.id)
+    ]);
+
+    if (ratingsResult.error) {
+      throw new DatabaseError('get_peer_ratings', ratingsResult.error.message, new Error(ratingsResult.error.message), { projectId });
+    }
+
+    const teammates = members.filter(member => member.id !== user.id);
+    const myRatings: Record<string, Record<string, number>> = {};
+    for (const rating of ratingsResult.data || []) {
+      myRatings[rating.ratee_id] = { ...myRatings[rating.ratee_id], [rating.criterion_id]: rating.score };
+    }
+
+    return createSuccessResponse({
+      criteria,
+      teammates,
+      myRatings,
+      isOpen: project.phase === 'post',
+      isComplete: teammates.length > 0 && teammates.every(teammate =>
+        criteria.every(criterion => myRatings[teammate.id]?.[criterion.id] !== undefined)
+      )
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Peer assessment fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load peer assessment: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parameters for saving a student's peer ratings
+ */
+export interface SavePeerRatingsParams {
+  projectId: string;
+  /** A score for every teammate on every criterion */
+  ratings: Array<{ rateeId: string; criterionId: string; score: number }>;
+}
+
+/**
+ * Save the current student's ratings of their teammates
+ *
+ * Students rate every teammate on every criterion at once and can change
+ * their ratings until the project is closed.
+ *
+ * @param params - Project and ratings
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function savePeerRatings(params: SavePeerRatingsParams): Promise<UpdateResult> {
+  try {
+    const projectId = validateProjectId(params.projectId);
+    const ratings = validateArray<SavePeerRatingsParams['ratings'][number]>(params.ratings, 'Peer ratings', true);
+
+    const user = await getAuthenticatedUser();
+    if (user.role !== 'student') {
+      throw new AuthorizationError('save_peer_ratings', 'Only students rate their teammates', user.role, { projectId });
+    }
+
+    const project = await verifyProjectAccess(projectId, user.id, user.role);
+    if (project.phase !== 'post') {
+      throw new BusinessLogicError(
+        'peer_assessment_closed',
+        'Teammates can only be rated while the project is in the post phase.',
+        { projectId, phase: project.phase }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: projectRow } = await supabase
+      .from('projects')
+      .select('problem_id')
+      .eq('id', projectId)
+      .single();
+
+    const [criteria, members] = await Promise.all([
+      projectRow ? getPeerCriteria(supabase, projectRow.problem_id) : Promise.resolve([]),
+      getTeamMembers(supabase, project.team_id)
+    ]);
+
+    if (criteria.length === 0) {
+      throw new BusinessLogicError('peer_assessment_disabled', 'This project does not use peer assessment.', { projectId });
+    }
+
+    const teammates = members.filter(member => member.id !== user.id);
+    const byKey = new Map(ratings.map(rating => [`${rating.rateeId}:${rating.criterionId}`, rating.score]));
+
+    const rows = teammates.flatMap(teammate => criteria.map(criterion => {
+      const score = byKey.get(`${teammate.id}:${criterion.id}`);
+      if (score === undefined) {
+        throw new ValidationError(
+          'Peer ratings',
+          `are missing a score for ${teammate.name} on "${criterion.criterion_text}"`,
+          params.ratings
+        );
+      }
+      if (!Number.isInteger(score) || score < 1 || score > criterion.max_score) {
+        throw new ValidationError(
+          `Score for ${teammate.name}`,
+          `must be a whole number between 1 and ${criterion.max_score}`,
+          score
+        );
+      }
+      return {
+        project_id: projectId,
+        rater_id: user.id,
+        ratee_id: teammate.id,
+        criterion_id: criterion.id,
+        score,
+        updated_at: new Date().toISOString()
+      };
+    }));
+
+    if (rows.length === 0) {
+      throw new BusinessLogicError('no_teammates', 'You have no teammates to rate.', { projectId });
+    }
+
+    const { error } = await supabase
+      .from('peer_ratings')
+      .upsert(rows, { onConflict: 'project_id,rater_id,ratee_id,criterion_id' });
+
+    if (error) {
+      throw new DatabaseError('save_peer_ratings', error.message, new Error(error.message), { projectId });
+    }
+
+    revalidatePath(`/p/${projectId}`);
+    return createMessageResponse('Your ratings have been saved. Teammates will not see them.');
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Peer ratings save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to save peer ratings: ${errorMessage}`);
+  }
+}
+
+// =====================================================
+// EDUCATOR RESULTS
+// =====================================================
+
+/**
+ * A team member's peer assessment outcome
+ */
+export interface PeerMemberResult {
+  id: string;
+  name: string;
+  /** Whether they rated every teammate on every criterion */
+  hasRated: boolean;
+  factor: number | null;
+  ratedBy: number;
+  /** Average score received, by criterion */
+  averages: Record<string, number | null>;
+  /** Ratings received, with the rater (visible to educators only) */
+  received: Array<{ raterId: string; raterName: string; scores: Record<string, number> }>;
+  /** Team score adjusted by the factor, once the team assessment is published */
+  individualScore: number | null;
+}
+
+/**
+ * A project's peer assessment for educators
+ */
+export interface ProjectPeerResults {
+  problemId: string;
+  criteria: PeerCriterion[];
+  grading: PeerGradingSettings;
+  /** Total of the published team assessment, if any */
+  teamScore: { score: number; maxScore: number } | null;
+  members: PeerMemberResult[];
+  /** Whether the current user can change the problem's setup */
+  canConfigure: boolean;
+}
+
+/**
+ * Get a project's peer ratings and contribution factors
+ *
+ * Accessible by educators who own or assess the course, and admins.
+ *
+ * @param projectId - Project to load
+ * @returns QueryResult with the results, or null when the problem has no peer criteria
+ */
+export async function getProjectPeerResults(projectId: string): Promise<QueryResult<ProjectPeerResults | null>> {
+  try {
+    validateProjectId(projectId);
+
+    const user = await getAuthenticatedUser();
+    const supabase = await createClient();
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        team_id,
+        problems!inner(
+          id,
+          course_id,
+          courses!inner(admin_id),
+          rubrics(
+            rubric_criteria(max_score)
+          )
+        ),
+        assessments(
+          status,
+          assessment_scores(score)
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project) {
+      throw new NotFoundError('Project', projectId);
+    }
+
+    const courseId = project.problems.course_id;
+    if (!courseId || !(await canAssessCourse(courseId, user))) {
+      throw new AuthorizationError(
+        'get_project_peer_results',
+        'You can only view peer assessments in courses you teach or assess',
+        user.role,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const criteria = await getPeerCriteria(supabase, project.problems.id);
+    if (criteria.length === 0) {
+      return createSuccessResponse(null);
+    }
+
+    const [members, ratingsResult, settingsResult] = await Promise.all([
+      getTeamMembers(supabase, project.team_id),
+      supabase
+        .from('peer_ratings')
+        .select('rater_id, ratee_id, criterion_id, score')
+        .eq('project_id', projectId),
+      supabase
+        .from('peer_assessment_settings')
+        .select('apply_to_grades, weighting')
+        .eq('problem_id', project.problems.id)
+        .maybeSingle()
+    ]);
+
+    if (ratingsResult.error) {
+      throw new DatabaseError('get_peer_ratings', ratingsResult.error.message, new Error(ratingsResult.error.message), { projectId });
+    }
+
+    const grading: PeerGradingSettings = settingsResult.data
+      ? { applyToGrades: settingsResult.data.apply_to_grades, weighting: settingsResult.data.weighting }
+      : DEFAULT_PEER_GRADING_SETTINGS;
+
+    const ratings: PeerRating[] = (ratingsResult.data || []).map(rating => ({
+      raterId: rating.rater_id,
+      rateeId: rating.ratee_id,
+      criterionId: rating.criterion_id,
+      score: rating.score
+    }));
+    const factors = computeContributionFactors(members.map(member => member.id), ratings);
+    const names = new Map(members.map(member => [member.id, member.name]));
+
+    const published = (project.assessments || []).find(assessment => assessment.status === 'final');
+    const teamScore = published
+      ? {
+          score: published.assessment_scores.reduce((sum, score) => sum + score.score, 0),
+          maxScore: (project.problems.rubrics?.rubric_criteria || [])
+            .reduce((sum, criterion) => sum + criterion.max_score, 0)
+        }
+      : null;
+
+    return createSuccessResponse({
+      problemId: project.problems.id,
+      criteria,
+      grading,
+      teamScore,
+      members: members.map(member => {
+        const { factor, ratedBy } = factors.get(member.id) ?? { factor: null, ratedBy: 0 };
+        const given = ratings.filter(rating => rating.raterId === member.id);
+        const received = new Map<string, Record<string, number>>();
+        for (const rating of ratings.filter(r => r.rateeId === member.id)) {
+          received.set(rating.raterId, { ...received.get(rating.raterId), [rating.criterionId]: rating.score });
+        }
+
+        return {
+          id: member.id,
+          name: member.name,
+          hasRated: given.length >= (members.length - 1) * criteria.length && members.length > 1,
+          factor,
+          ratedBy,
+          averages: Object.fromEntries(
+            criteria.map(criterion => [criterion.id, averageReceivedScore(ratings, member.id, criterion.id)])
+          ),
+          received: [...received].map(([raterId, scores]) => ({
+            raterId,
+            raterName: names.get(raterId) ?? 'Former team member',
+            scores
+          })),
+          individualScore: teamScore && grading.applyToGrades
+            ? individualScore(teamScore.score, teamScore.maxScore, factor, grading.weighting)
+            : null
+        };
+      }),
+      canConfigure: hasAdminPermissions(user.role) || project.problems.courses.admin_id === user.id
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Project peer results fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load peer assessment: ${errorMessage}`);
+  }
+}
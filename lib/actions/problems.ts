@@ -8,8 +8,10 @@ import { requireProjectCreationPermissions } from "@/lib/shared/authorization-ut
 import {
   CreateResult,
   QueryResult,
+  UpdateResult,
   createIdResponse,
   createErrorResponse,
+  createMessageResponse,
   createSuccessResponse
 } from "@/lib/shared/action-types";
 
@@ -17,10 +19,90 @@ type Problem = Database["public"]["Tables"]["problems"]["Insert"];
 type Rubric = Database["public"]["Tables"]["rubrics"]["Insert"];
 type RubricCriterion = Database["public"]["Tables"]["rubric_criteria"]["Insert"];
 
-import type { CreateProblemParams } from "@/lib/types/problems";
+import type { CreateProblemParams, ProblemRevealData, TutorPolicyData } from "@/lib/types/problems";
+import { isTutorPolicyEmpty, type TutorPolicy } from "@/lib/ai/tutor-policy";
 import { generateInviteToken } from "@/lib/actions/teams";
 import { createProject } from "@/lib/actions/projects";
 
+/**
+ * Validate tutor policy input
+ *
+ * @returns Error message, or null if the policy is valid
+ */
+function validateTutorPolicy(policy: TutorPolicyData): string | null {
+  if (typeof policy.extraInstructions !== 'string') {
+    return 'Tutor instructions must be text';
+  }
+
+  if (policy.extraInstructions.length > 5000) {
+    return 'Tutor instructions must be 5000 characters or fewer';
+  }
+
+  if (!Array.isArray(policy.forbiddenTopics) || policy.forbiddenTopics.some(topic => typeof topic !== 'string')) {
+    return 'Forbidden topics must be a list of text entries';
+  }
+
+  if (!Array.isArray(policy.readingList)) {
+    return 'Reading list must be a list of entries';
+  }
+
+  for (let i = 0; i < policy.readingList.length; i++) {
+    const item = policy.readingList[i];
+    if (!item || typeof item.title !== 'string' || item.title.trim().length === 0) {
+      return `Reading ${i + 1}: Title is required`;
+    }
+    if (item.url && !/^https?:\/\//i.test(item.url.trim())) {
+      return `Reading ${i + 1}: Link must start with http:// or https://`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate staged reveal input
+ *
+ * @returns Error message, or null if the reveals are valid
+ */
+function validateReveals(reveals: ProblemRevealData[]): string | null {
+  if (!Array.isArray(reveals)) {
+    return 'Reveals must be a list of entries';
+  }
+
+  for (let i = 0; i < reveals.length; i++) {
+    const reveal = reveals[i];
+    if (!reveal || typeof reveal.title !== 'string' || reveal.title.trim().length === 0) {
+      return `Reveal ${i + 1}: Title is required`;
+    }
+    if (typeof reveal.content !== 'string' || reveal.content.trim().length === 0) {
+      return `Reveal ${i + 1}: Content is required`;
+    }
+    if (reveal.phase && !['pre', 'research', 'post'].includes(reveal.phase)) {
+      return `Reveal ${i + 1}: Phase must be pre, research or post`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Normalise tutor policy input into a problem_tutor_policies row
+ */
+function toTutorPolicyRow(problemId: string, version: number, createdBy: string, policy: TutorPolicyData) {
+  return {
+    problem_id: problemId,
+    version,
+    created_by: createdBy,
+    extra_instructions: policy.extraInstructions.trim() || null,
+    forbidden_topics: policy.forbiddenTopics.map(topic => topic.trim()).filter(Boolean),
+    reading_list: policy.readingList.map(item => ({
+      title: item.title.trim(),
+      url: item.url?.trim() || null,
+      note: item.note?.trim() || null,
+    })),
+  };
+}
+
 /**
  * Create a new PBL problem with associated rubric and criteria
  * 
@@ -35,7 +117,7 @@ import { createProject } from "@/lib/actions/projects";
  * @returns Promise resolving to CreateResult with problem ID or error
  */
 export async function createProblem(params: CreateProblemParams): Promise<CreateResult> {
-  const { title, description, courseId, rubric, teams } = params;
+  const { title, description, courseId, rubric, teams, tutorPolicy, reveals } = params;
 
   // Validate required parameters
   if (!title || typeof title !== 'string' || title.trim().length === 0) {
@@ -73,6 +155,32 @@ export async function createProblem(params: CreateProblemParams): Promise<Create
     if (typeof criterion.sort_order !== 'number' || criterion.sort_order < 0) {
       return createErrorResponse(`Criterion ${i + 1}: Sort order must be a non-negative number`);
     }
+
+    if (criterion.performance_levels !== undefined && (
+      !Array.isArray(criterion.performance_levels) ||
+      criterion.performance_levels.some(level =>
+        !level || typeof level.label !== 'string' || !level.label.trim() ||
+        typeof level.description !== 'string' || !level.description.trim()
+      )
+    )) {
+      return createErrorResponse(`Criterion ${i + 1}: Every performance level needs a label and a description`);
+    }
+  }
+
+  // Validate tutor policy if provided
+  if (tutorPolicy) {
+    const policyError = validateTutorPolicy(tutorPolicy);
+    if (policyError) {
+      return createErrorResponse(policyError);
+    }
+  }
+
+  // Validate staged reveals if provided
+  if (reveals) {
+    const revealsError = validateReveals(reveals);
+    if (revealsError) {
+      return createErrorResponse(revealsError);
+    }
   }
 
   // Validate teams if provided
@@ -167,6 +275,10 @@ export async function createProblem(params: CreateProblemParams): Promise<Create
           criterion_text: criterion.criterion_text.trim(),
           max_score: criterion.max_score || 5,
           sort_order: criterion.sort_order,
+          performance_levels: (criterion.performance_levels || []).map(level => ({
+            label: level.label.trim(),
+            description: level.description.trim(),
+          })),
         }));
 
         const { error: criteriaError } = await supabase
@@ -178,6 +290,38 @@ export async function createProblem(params: CreateProblemParams): Promise<Create
           throw new Error(`Failed to create rubric criteria: ${criteriaError.message}`);
         }
 
+        // Create the first tutor policy version if one was provided
+        if (tutorPolicy && !isTutorPolicyEmpty(tutorPolicy)) {
+          const { error: policyError } = await supabase
+            .from('problem_tutor_policies')
+            .insert(toTutorPolicyRow(problemId, 1, user.id, tutorPolicy));
+
+          if (policyError) {
+            // Rollback: Delete the problem (cascades to rubric and criteria)
+            await supabase.from('problems').delete().eq('id', problemId);
+            return createErrorResponse(`Failed to save tutor policy: ${policyError.message}`);
+          }
+        }
+
+        // Create staged reveals if provided
+        if (reveals && reveals.length > 0) {
+          const { error: revealsError } = await supabase
+            .from('problem_reveals')
+            .insert(reveals.map((reveal, index) => ({
+              problem_id: problemId,
+              sort_order: index,
+              title: reveal.title.trim(),
+              content: reveal.content.trim(),
+              phase: reveal.phase || null,
+            })));
+
+          if (revealsError) {
+            // Rollback: Delete the problem (cascades to rubric, criteria and policy)
+            await supabase.from('problems').delete().eq('id', problemId);
+            return createErrorResponse(`Failed to save staged reveals: ${revealsError.message}`);
+          }
+        }
+
         // Create teams and projects if provided
 
         if (teams && teams.length > 0) {
@@ -328,4 +472,200 @@ export async function getStudentsInCourse(courseId: string): Promise<QueryResult
   }
 }
 
- 
\ No newline at end of file
+ 
+/**
+ * Problem details for the educator edit page
+ */
+export interface EditableProblem {
+  id: string;
+  title: string;
+  description: string | null;
+  course: { id: string; name: string };
+  /** Active tutor policy, or null if none has been set */
+  tutorPolicy: TutorPolicy | null;
+}
+
+/**
+ * Verify the user is the educator of the problem's course (or an admin)
+ *
+ * @returns The problem's course, or an error message
+ */
+async function getManagedProblem(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  problemId: string,
+  userId: string,
+  userRole: string
+) {
+  const { data: problem, error } = await supabase
+    .from('problems')
+    .select('id, title, description, course_id, courses!inner(id, name, admin_id)')
+    .eq('id', problemId)
+    .single();
+
+  if (error || !problem || (userRole !== 'admin' && problem.courses.admin_id !== userId)) {
+    return null;
+  }
+
+  return problem;
+}
+
+/**
+ * Get a problem and its active tutor policy for editing
+ * 
+ * Only accessible by the course educator or admins.
+ * 
+ * @param problemId - Problem to load
+ * @returns Promise resolving to QueryResult with the problem data
+ */
+export async function getProblemForEdit(problemId: string): Promise<QueryResult<EditableProblem>> {
+  if (!problemId || typeof problemId !== 'string') {
+    return createErrorResponse('Problem ID is required and must be a valid string');
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+    requireProjectCreationPermissions(user.role);
+
+    const supabase = await createClient();
+    const problem = await getManagedProblem(supabase, problemId, user.id, user.role);
+
+    if (!problem) {
+      return createErrorResponse('Problem not found or you do not have permission to edit it');
+    }
+
+    // RLS exposes policies to the course educator
+    const { data: policy, error: policyError } = await supabase
+      .from('problem_tutor_policies')
+      .select('id, version, extra_instructions, forbidden_topics, reading_list')
+      .eq('problem_id', problemId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (policyError) {
+      console.error('Failed to fetch tutor policy:', policyError);
+      return createErrorResponse(`Failed to fetch tutor policy: ${policyError.message}`);
+    }
+
+    return createSuccessResponse({
+      id: problem.id,
+      title: problem.title,
+      description: problem.description,
+      course: { id: problem.courses.id, name: problem.courses.name },
+      tutorPolicy: policy ? {
+        id: policy.id,
+        version: policy.version,
+        extraInstructions: policy.extra_instructions || '',
+        forbiddenTopics: policy.forbidden_topics,
+        readingList: Array.isArray(policy.reading_list)
+          ? policy.reading_list as unknown as TutorPolicyData['readingList']
+          : [],
+      } : null,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Unexpected error fetching problem: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parameters for updating a problem and its tutor policy
+ */
+export interface UpdateProblemParams {
+  problemId: string;
+  title: string;
+  description?: string;
+  tutorPolicy: TutorPolicyData;
+}
+
+/**
+ * Update a problem's title, description and tutor policy
+ * 
+ * The tutor policy is versioned: a new version is saved only when the policy
+ * changes, so ai_usage entries keep pointing at the version that was active.
+ * 
+ * @param params - Problem update parameters
+ * @returns Promise resolving to UpdateResult with a confirmation message
+ */
+export async function updateProblem(params: UpdateProblemParams): Promise<UpdateResult> {
+  const { problemId, title, description, tutorPolicy } = params;
+
+  if (!problemId || typeof problemId !== 'string') {
+    return createErrorResponse('Problem ID is required and must be a valid string');
+  }
+
+  if (!title || typeof title !== 'string' || title.trim().length === 0) {
+    return createErrorResponse('Problem title is required and cannot be empty');
+  }
+
+  const policyError = validateTutorPolicy(tutorPolicy);
+  if (policyError) {
+    return createErrorResponse(policyError);
+  }
+
+  try {
+    const user = await getAuthenticatedUser();
+    requireProjectCreationPermissions(user.role);
+
+    const supabase = await createClient();
+    const problem = await getManagedProblem(supabase, problemId, user.id, user.role);
+
+    if (!problem) {
+      return createErrorResponse('Problem not found or you do not have permission to edit it');
+    }
+
+    const { error: updateError } = await supabase
+      .from('problems')
+      .update({
+        title: title.trim(),
+        description: description?.trim() || null,
+      })
+      .eq('id', problemId);
+
+    if (updateError) {
+      console.error('Failed to update problem:', updateError);
+      return createErrorResponse(`Failed to update problem: ${updateError.message}`);
+    }
+
+    // Save a new policy version only if the policy changed
+    const { data: current } = await supabase
+      .from('problem_tutor_policies')
+      .select('version, extra_instructions, forbidden_topics, reading_list')
+      .eq('problem_id', problemId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const nextVersion = (current?.version ?? 0) + 1;
+    const row = toTutorPolicyRow(problemId, nextVersion, user.id, tutorPolicy);
+    const unchanged = current
+      ? current.extra_instructions === row.extra_instructions
+        && JSON.stringify(current.forbidden_topics) === JSON.stringify(row.forbidden_topics)
+        // jsonb does not preserve key order, so compare entries field by field
+        && JSON.stringify((current.reading_list as unknown as TutorPolicyData['readingList'])
+          .map(item => [item.title, item.url ?? null, item.note ?? null]))
+          === JSON.stringify(row.reading_list.map(item => [item.title, item.url, item.note]))
+      : isTutorPolicyEmpty(tutorPolicy);
+
+    if (!unchanged) {
+      const { error: policyInsertError } = await supabase
+        .from('problem_tutor_policies')
+        .insert(row);
+
+      if (policyInsertError) {
+        console.error('Failed to save tutor policy:', policyInsertError);
+        return createErrorResponse(`Problem updated but the tutor policy could not be saved: ${policyInsertError.message}`);
+      }
+    }
+
+    revalidatePath(`/educator/problems/${problemId}/edit`);
+    revalidatePath('/educator/dashboard');
+
+    return createMessageResponse(
+      unchanged ? 'Problem updated' : `Problem updated with tutor policy version ${nextVersion}`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Unexpected error updating problem: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,200 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getAuthenticatedUser, canAssessCourse } from "@/lib/actions/shared/authorization";
+import { compareReports, isReportedMatch, type OverlapPassage } from "@/lib/shared/report-similarity";
+import {
+  QueryResult,
+  createErrorResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  ValidationError,
+  DatabaseError,
+  AuthorizationError
+} from "@/lib/shared/errors";
+
+/** Passages returned per matching report */
+const MAX_PASSAGES_PER_MATCH = 10;
+
+/**
+ * Another report that shares passages with the checked report
+ */
+export interface ReportSimilarityMatch {
+  projectId: string;
+  teamName: string;
+  problemTitle: string;
+  courseName: string | null;
+  /** Whether the report comes from an earlier run of the problem in another course */
+  earlierCohort: boolean;
+  /** Share (0-1) of the checked report found in this report */
+  similarity: number;
+  /** Share (0-1) of this report found in the checked report */
+  otherSimilarity: number;
+  passages: OverlapPassage[];
+}
+
+/**
+ * Similarity check for one project's final report
+ */
+export interface ReportSimilarityResult {
+  /** Whether the checked project has report content to compare */
+  hasReport: boolean;
+  /** Number of other reports compared */
+  comparedCount: number;
+  /** Reports with shared passages, most similar first */
+  matches: ReportSimilarityMatch[];
+}
+
+/**
+ * Parameters for a report similarity check
+ */
+export interface GetReportSimilarityParams {
+  projectId: string;
+  /** Also compare against same-titled problems in the educator's earlier courses */
+  includeEarlierCohorts?: boolean;
+}
+
+/**
+ * Compare a project's final report with the other teams' reports for the same problem
+ *
+ * Uses the cached `final_report_content` of each project. Optionally also
+ * compares against earlier cohorts: projects of problems with the same title
+ * in other courses the educator can see, created before this problem.
+ *
+ * Authorization:
+ * - The course educator, an assessor added to the course, or an admin
+ *
+ * @param params - Project to check and whether to include earlier cohorts
+ * @returns QueryResult with the reports that share passages with this one
+ */
+export async function getReportSimilarity(
+  params: GetReportSimilarityParams
+): Promise<QueryResult<ReportSimilarityResult>> {
+  const { projectId, includeEarlierCohorts = false } = params;
+
+  try {
+    if (!projectId || typeof projectId !== 'string') {
+      throw new ValidationError('Project ID', 'is required and must be a valid string', projectId);
+    }
+
+    const supabase = await createClient();
+
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        final_report_content,
+        problems!inner (
+          id,
+          title,
+          course_id,
+          created_at
+        )
+      `)
+      .eq('id', projectId)
+      .single();
+
+    const courseId = project?.problems.course_id;
+    if (projectError || !project || !courseId) {
+      throw new DatabaseError(
+        'get_report_similarity',
+        projectError?.message || 'Project not found or not part of a course',
+        projectError ? new Error(projectError.message) : undefined,
+        { projectId }
+      );
+    }
+
+    // Anyone who can grade the project can check it, including course assessors
+    const user = await getAuthenticatedUser();
+    if (!(await canAssessCourse(courseId, user))) {
+      throw new AuthorizationError(
+        'get_report_similarity',
+        'You can only check reports in courses you teach or assess',
+        user.role,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const reportContent = project.final_report_content?.trim();
+    if (!reportContent) {
+      return createSuccessResponse({ hasReport: false, comparedCount: 0, matches: [] });
+    }
+
+    const problem = project.problems;
+    const problemIds = [problem.id];
+
+    if (includeEarlierCohorts) {
+      // RLS limits this to courses the educator can see
+      const { data: earlierProblems, error: earlierError } = await supabase
+        .from('problems')
+        .select('id')
+        .ilike('title', problem.title.replace(/[\\%_]/g, '\\$&'))
+        .neq('course_id', courseId)
+        .lt('created_at', problem.created_at);
+
+      if (earlierError) {
+        throw new DatabaseError('get_earlier_cohort_problems', earlierError.message, new Error(earlierError.message), { projectId });
+      }
+
+      problemIds.push(...(earlierProblems || []).map(p => p.id));
+    }
+
+    const { data: others, error: othersError } = await supabase
+      .from('projects')
+      .select(`
+        id,
+        final_report_content,
+        teams!inner (
+          name
+        ),
+        problems!inner (
+          id,
+          title,
+          courses (
+            name
+          )
+        )
+      `)
+      .in('problem_id', problemIds)
+      .neq('id', projectId)
+      .not('final_report_content', 'is', null);
+
+    if (othersError) {
+      throw new DatabaseError('get_comparison_reports', othersError.message, new Error(othersError.message), { projectId });
+    }
+
+    const compared = (others || []).filter(other => other.final_report_content?.trim());
+
+    const matches: ReportSimilarityMatch[] = compared
+      .map(other => {
+        const comparison = compareReports(reportContent, other.final_report_content || '');
+        return {
+          projectId: other.id,
+          teamName: other.teams.name,
+          problemTitle: other.problems.title,
+          courseName: other.problems.courses?.name ?? null,
+          earlierCohort: other.problems.id !== problem.id,
+          similarity: comparison.similarity,
+          otherSimilarity: comparison.otherSimilarity,
+          passages: comparison.passages.slice(0, MAX_PASSAGES_PER_MATCH),
+        };
+      })
+      .filter(isReportedMatch)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    return createSuccessResponse({ hasReport: true, comparedCount: compared.length, matches });
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Report similarity error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Unexpected report similarity error:', error);
+    return createErrorResponse(`Failed to check report similarity: ${errorMessage}`);
+  }
+}
@@ -0,0 +1,275 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import {
+  getAuthenticatedUser,
+  verifyProjectAccess
+} from "@/lib/actions/shared/authorization";
+import {
+  validateArray,
+  validateOptionalString,
+  validateProjectId
+} from "@/lib/shared/validation";
+import {
+  QueryResult,
+  UpdateResult,
+  createErrorResponse,
+  createMessageResponse,
+  createSuccessResponse
+} from "@/lib/shared/action-types";
+import {
+  isPBLabError,
+  getUserMessage,
+  getTechnicalDetails,
+  AuthorizationError,
+  BusinessLogicError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError
+} from "@/lib/shared/errors";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Load a project's rubric criteria in display order
+ */
+async function getProjectRubric(supabase: SupabaseClient, projectId: string) {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select(`
+      id,
+      problems!inner(
+        rubrics(
+          rubric_criteria(
+            id,
+            criterion_text,
+            max_score,
+            sort_order
+          )
+        )
+      )
+    `)
+    .eq('id', projectId)
+    .single();
+
+  if (error || !project) {
+    throw new NotFoundError('Project', projectId);
+  }
+
+  return [...(project.problems.rubrics?.rubric_criteria || [])].sort((a, b) => a.sort_order - b.sort_order);
+}
+
+/**
+ * A student's self-assessment form
+ */
+export interface StudentSelfAssessment {
+  /** The rubric criteria the educator will assess against */
+  rubricCriteria: Array<{
+    id: string;
+    criterion_text: string;
+    max_score: number;
+    sort_order: number;
+  }>;
+  /** The student's saved self-assessment, if any */
+  saved: {
+    reflection: string | null;
+    updated_at: string;
+    scores: Array<{
+      criterion_id: string;
+      score: number;
+      justification: string | null;
+    }>;
+  } | null;
+  /** Self-assessments can be saved while the project is in the post phase */
+  isOpen: boolean;
+}
+
+/**
+ * Get the current student's self-assessment of a project
+ *
+ * Self-assessments are stored separately from educator assessments and each
+ * student only ever sees their own.
+ *
+ * @param projectId - Project to self-assess
+ * @returns QueryResult with the rubric and any saved self-assessment
+ */
+export async function getSelfAssessment(projectId: string): Promise<QueryResult<StudentSelfAssessment>> {
+  try {
+    validateProjectId(projectId);
+
+    const user = await getAuthenticatedUser();
+    if (user.role !== 'student') {
+      throw new AuthorizationError('get_self_assessment', 'Only students self-assess their work', user.role, { projectId });
+    }
+
+    const project = await verifyProjectAccess(projectId, user.id, user.role);
+    const supabase = await createClient();
+
+    const [rubricCriteria, savedResult] = await Promise.all([
+      getProjectRubric(supabase, projectId),
+      supabase
+        .from('self_assessments')
+        .select(`
+          reflection,
+          updated_at,
+          self_assessment_scores(
+            criterion_id,
+            score,
+            justification
+          )
+        `)
+        .eq('project_id', projectId)
+        .eq('student_id', user.id)
+        .maybeSingle()
+    ]);
+
+    if (savedResult.error) {
+      throw new DatabaseError(
+        'get_self_assessment',
+        savedResult.error.message,
+        new Error(savedResult.error.message),
+        { projectId, userId: user.id }
+      );
+    }
+
+    const saved = savedResult.data;
+
+    return createSuccessResponse({
+      rubricCriteria,
+      saved: saved ? {
+        reflection: saved.reflection,
+        updated_at: saved.updated_at,
+        scores: saved.self_assessment_scores
+      } : null,
+      isOpen: project.phase === 'post'
+    });
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Self-assessment fetch error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to load self-assessment: ${errorMessage}`);
+  }
+}
+
+/**
+ * Parameters for saving a self-assessment
+ */
+export interface SaveSelfAssessmentParams {
+  projectId: string;
+  /** A score for every rubric criterion */
+  scores: Array<{ criterionId: string; score: number; justification?: string }>;
+  reflection?: string;
+}
+
+/**
+ * Save the current student's self-assessment of a project
+ *
+ * Students score every rubric criterion and can revise their
+ * self-assessment until the project is closed.
+ *
+ * @param params - Project, scores and an optional reflection
+ * @returns UpdateResult with a confirmation message or error
+ */
+export async function saveSelfAssessment(params: SaveSelfAssessmentParams): Promise<UpdateResult> {
+  try {
+    const projectId = validateProjectId(params.projectId);
+    const scores = validateArray<SaveSelfAssessmentParams['scores'][number]>(params.scores, 'Scores', true);
+    const reflection = validateOptionalString(params.reflection, 'Reflection', 5000);
+
+    const user = await getAuthenticatedUser();
+    if (user.role !== 'student') {
+      throw new AuthorizationError('save_self_assessment', 'Only students self-assess their work', user.role, { projectId });
+    }
+
+    const project = await verifyProjectAccess(projectId, user.id, user.role);
+    if (project.phase !== 'post') {
+      throw new BusinessLogicError(
+        'self_assessment_closed',
+        'You can only self-assess while the project is in the post phase.',
+        { projectId, phase: project.phase }
+      );
+    }
+
+    const supabase = await createClient();
+    const rubricCriteria = await getProjectRubric(supabase, projectId);
+
+    if (rubricCriteria.length === 0) {
+      throw new BusinessLogicError('no_rubric', 'This project has no rubric to assess against.', { projectId });
+    }
+
+    const scoreRows = rubricCriteria.map(criterion => {
+      const entry = scores.find(s => s.criterionId === criterion.id);
+      if (!entry) {
+        throw new ValidationError('Scores', `are missing a score for "${criterion.criterion_text}"`, params.scores);
+      }
+      if (!Number.isInteger(entry.score) || entry.score < 1 || entry.score > criterion.max_score) {
+        throw new ValidationError(
+          `Score for "${criterion.criterion_text}"`,
+          `must be a whole number between 1 and ${criterion.max_score}`,
+          entry.score
+        );
+      }
+      return {
+        criterion_id: criterion.id,
+        score: entry.score,
+        justification: validateOptionalString(entry.justification, 'Justification', 2000)
+      };
+    });
+
+    const { data: selfAssessment, error: saveError } = await supabase
+      .from('self_assessments')
+      .upsert(
+        {
+          project_id: projectId,
+          student_id: user.id,
+          reflection,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'project_id,student_id' }
+      )
+      .select('id')
+      .single();
+
+    if (saveError || !selfAssessment) {
+      throw new DatabaseError(
+        'save_self_assessment',
+        saveError?.message || 'Self-assessment was not saved',
+        saveError ? new Error(saveError.message) : undefined,
+        { projectId, userId: user.id }
+      );
+    }
+
+    const { error: scoresError } = await supabase
+      .from('self_assessment_scores')
+      .upsert(
+        scoreRows.map(row => ({ ...row, self_assessment_id: selfAssessment.id })),
+        { onConflict: 'self_assessment_id,criterion_id' }
+      );
+
+    if (scoresError) {
+      throw new DatabaseError(
+        'save_self_assessment_scores',
+        scoresError.message,
+        new Error(scoresError.message),
+        { projectId, selfAssessmentId: selfAssessment.id }
+      );
+    }
+
+    revalidatePath(`/p/${projectId}`);
+    return createMessageResponse('Your self-assessment has been saved.');
+
+  } catch (error) {
+    if (isPBLabError(error)) {
+      console.error('Self-assessment save error:', getTechnicalDetails(error));
+      return createErrorResponse(getUserMessage(error));
+    }
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return createErrorResponse(`Failed to save self-assessment: ${errorMessage}`);
+  }
+}
@@ -194,6 +194,73 @@ export async function verifyTeamMembership(teamId: string, userId: string): Prom
   }
 }
 
+/**
+ * Verify user is the educator who administers a course (or an admin)
+ * 
+ * @param courseId - ID of the course to check
+ * @param operation - Operation name used in error reporting
+ * @returns Promise resolving to the course and the authenticated user
+ * @throws AuthorizationError if the course is not found or user cannot manage it
+ */
+export async function verifyCourseEducatorAccess(
+  courseId: string,
+  operation: string
+): Promise<{ course: { id: string; name: string }; user: AuthenticatedUser }> {
+  const user = await getAuthenticatedUser();
+
+  if (!hasEducatorPermissions(user.role)) {
+    throw new AuthorizationError(operation, 'User does not have educator-level permissions', user.role);
+  }
+
+  const supabase = await createClient();
+
+  const { data: course, error } = await supabase
+    .from('courses')
+    .select('id, name, admin_id')
+    .eq('id', courseId)
+    .single();
+
+  if (error || !course || (!hasAdminPermissions(user.role) && course.admin_id !== user.id)) {
+    throw new AuthorizationError(
+      operation,
+      'Course not found or user is not the course educator',
+      user.role,
+      { courseId, userId: user.id }
+    );
+  }
+
+  return { course: { id: course.id, name: course.name }, user };
+}
+
+/**
+ * Check whether an educator can assess projects in a course
+ *
+ * Educators assess projects in courses they own and in courses whose
+ * educator added them as an assessor. Admins can assess any course.
+ *
+ * @param courseId - ID of the course to check
+ * @param user - The authenticated user
+ * @returns Promise resolving to true if the user can assess the course
+ */
+export async function canAssessCourse(courseId: string, user: AuthenticatedUser): Promise<boolean> {
+  if (hasAdminPermissions(user.role)) return true;
+  if (!hasEducatorPermissions(user.role)) return false;
+
+  const supabase = await createClient();
+
+  const [courseResult, assessorResult] = await Promise.all([
+    supabase.from('courses').select('admin_id').eq('id', courseId).maybeSingle(),
+    supabase
+      .from('course_assessors')
+      .select('course_id')
+      .eq('course_id', courseId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+  ]);
+
+  return courseResult.data?.admin_id === user.id || !!assessorResult.data;
+}
+
 
 /**
  * Combined authorization check for artifact operations
@@ -0,0 +1,132 @@
+import { UNTRUSTED_CONTENT_NOTICE, wrapUntrusted } from "./prompt";
+import type { JsonSchema, LlmProvider, LlmUsage } from "./types";
+
+/** Minimum number of comments before a discussion can be summarized */
+export const MIN_COMMENTS_TO_SUMMARIZE = 3;
+
+/**
+ * A point from the discussion with the people who raised it
+ */
+export interface DiscussionPoint {
+  text: string;
+  /** Names of the comment authors the point is drawn from */
+  authors: string[];
+}
+
+/**
+ * Summary of an artifact's comment thread
+ */
+export interface DiscussionSummary {
+  keyPoints: DiscussionPoint[];
+  openQuestions: DiscussionPoint[];
+  decisions: DiscussionPoint[];
+}
+
+/**
+ * A comment passed to the summarizer, oldest first
+ */
+export interface DiscussionComment {
+  authorName: string;
+  body: string;
+}
+
+/**
+ * Result of summarizing a discussion
+ */
+export interface DiscussionSummaryResult {
+  summary: DiscussionSummary;
+  /** Model that produced the summary */
+  model: string;
+  /** Raw model output */
+  text: string;
+  /** Token usage reported by the provider, if any */
+  usage?: LlmUsage;
+}
+
+/**
+ * Summarize the comment thread on an artifact
+ *
+ * Comments are numbered in the prompt and the model cites them by number, so
+ * author names in the result always come from the comments themselves.
+ *
+ * @param provider - Provider used for the summary
+ * @param artifactTitle - Title of the artifact being discussed
+ * @param comments - Comments, oldest first
+ * @returns Key points, open questions and decisions with cited authors
+ * @throws Error if the provider call fails
+ */
+export async function summarizeDiscussion(
+  provider: LlmProvider,
+  artifactTitle: string,
+  comments: DiscussionComment[]
+): Promise<DiscussionSummaryResult> {
+  const thread = comments
+    .map((comment, index) => `[${index + 1}] ${comment.authorName}:\n${comment.body}`)
+    .join('\n\n');
+
+  const prompt = `Summarize a discussion between members of a Problem-Based Learning team about one of their research artifacts,
+so a teammate who missed it can catch up quickly.
+
+${UNTRUSTED_CONTENT_NOTICE}
+
+Artifact:
+${wrapUntrusted('artifact_title', artifactTitle)}
+
+Comments (oldest first, numbered):
+${wrapUntrusted('comments', thread)}
+
+List:
+- key_points: the main ideas, findings or arguments raised
+- open_questions: questions or disagreements that are still unresolved
+- decisions: what the team agreed to do or conclude
+
+Keep each item to one sentence. For every item, list the numbers of the comments it is drawn from.
+Leave a list empty if the discussion has nothing for it.`;
+
+  const pointSchema: JsonSchema = {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        text: { type: 'string' },
+        comments: { type: 'array', items: { type: 'integer', minimum: 1, maximum: comments.length } }
+      },
+      required: ['text', 'comments']
+    }
+  };
+
+  const result = await provider.generateJson<Record<string, unknown>>({
+    prompt,
+    temperature: 0.2,
+    maxOutputTokens: 3000,
+  }, {
+    type: 'object',
+    properties: {
+      key_points: pointSchema,
+      open_questions: pointSchema,
+      decisions: pointSchema
+    },
+    required: ['key_points', 'open_questions', 'decisions']
+  });
+
+  const toPoints = (value: unknown): DiscussionPoint[] =>
+    (Array.isArray(value) ? value as Array<Record<string, unknown>> : [])
+      .filter(point => typeof point?.text === 'string' && point.text.trim())
+      .map(point => {
+        const cited = (Array.isArray(point.comments) ? point.comments : [])
+          .filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= comments.length)
+          .map(n => comments[n - 1].authorName);
+        return { text: (point.text as string).trim(), authors: [...new Set(cited)] };
+      });
+
+  return {
+    summary: {
+      keyPoints: toPoints(result.data.key_points),
+      openQuestions: toPoints(result.data.open_questions),
+      decisions: toPoints(result.data.decisions),
+    },
+    model: result.model,
+    text: result.text,
+    usage: result.usage,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * AI Module
+ *
+ * Provider-agnostic access to language models for the AI routes.
+ */
+
+export { getLlmProvider } from './provider';
+export { isInvalidJsonError, parseJsonText } from './json';
+export {
+  AI_ERROR_CODES,
+  AiTimeoutError,
+  AiUnavailableError,
+  aiFailureResponse,
+  getAiErrorCode,
+  withResilience,
+  type AiErrorCode
+} from './resilience';
+export type {
+  JsonSchema,
+  LlmJsonResult,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderName,
+  LlmRequest,
+  LlmResult,
+  LlmStreamChunk,
+  LlmUsage
+} from './types';
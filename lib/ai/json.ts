@@ -0,0 +1,53 @@
+import { ExternalServiceError } from "@/lib/shared/errors";
+
+/** Failure reason reported when model output cannot be parsed as JSON */
+const INVALID_JSON_REASON = 'Model response was not valid JSON';
+
+/**
+ * Parse a JSON value from model output
+ *
+ * Models occasionally wrap JSON in markdown code fences or add prose around
+ * it, so this strips fences and falls back to the outermost object or array.
+ *
+ * @param text - Raw model output
+ * @param provider - Provider name used in error reporting
+ * @returns Parsed JSON value
+ * @throws ExternalServiceError if no valid JSON can be found
+ */
+export function parseJsonText(text: string, provider: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to extracting the outermost JSON value
+  }
+
+  const candidates = [trimmed.match(/\{[\s\S]*\}/), trimmed.match(/\[[\s\S]*\]/)]
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate[0]);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new ExternalServiceError(
+    provider,
+    'generate_json',
+    INVALID_JSON_REASON,
+    undefined,
+    { responsePreview: text.slice(0, 200) }
+  );
+}
+
+/**
+ * Check whether an error was raised because model output was not valid JSON
+ * (as opposed to the provider call itself failing)
+ */
+export function isInvalidJsonError(error: unknown): error is ExternalServiceError {
+  return error instanceof ExternalServiceError && error.details?.reason === INVALID_JSON_REASON;
+}
@@ -0,0 +1,408 @@
+import { ExternalServiceError } from "@/lib/shared/errors";
+import { isInvalidJsonError } from "./json";
+import { UNTRUSTED_CONTENT_NOTICE, findSchemaViolation, wrapUntrusted } from "./prompt";
+import type { JsonSchema, LlmJsonResult, LlmProvider, LlmUsage } from "./types";
+
+/**
+ * Levels of Bloom's revised taxonomy, from lowest to highest order
+ */
+export const BLOOM_LEVELS = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'] as const;
+
+export type BloomLevel = typeof BLOOM_LEVELS[number];
+
+/** Largest number of goals suggested at once */
+const MAX_SUGGESTIONS = 5;
+
+/** Largest number of resources listed per goal */
+const MAX_RESOURCES = 4;
+
+/**
+ * A suggested learning goal
+ */
+export interface LearningGoalSuggestion {
+  /** Goal statement, ready to add to the team's goals */
+  goal: string;
+  /** Why the goal matters for this problem */
+  rationale: string;
+  /** Bloom's taxonomy level the goal targets */
+  bloomLevel: BloomLevel;
+  /** Resources the team could start from */
+  resources: string[];
+}
+
+/**
+ * Result of suggesting learning goals
+ */
+export interface LearningGoalSuggestionsResult {
+  suggestions: LearningGoalSuggestion[];
+  /** Model that produced the suggestions */
+  model: string;
+  /** Raw model output, for the usage log */
+  text: string;
+  /** Token usage across all attempts, if reported */
+  usage?: LlmUsage;
+  /** Whether the first response was invalid and had to be repaired */
+  repaired: boolean;
+}
+
+/** Lowest and highest score given for each review dimension */
+export const GOAL_SCORE_MIN = 1;
+export const GOAL_SCORE_MAX = 5;
+
+/** Largest number of goals reviewed at once */
+const MAX_REVIEWED_GOALS = 10;
+
+/**
+ * Feedback on one of the team's learning goals
+ */
+export interface LearningGoalFeedback {
+  /** The goal as the students wrote it */
+  goal: string;
+  /** How precisely the goal states what will be learned */
+  specificity: number;
+  /** How clearly the team could tell the goal has been met */
+  measurability: number;
+  /** How closely the goal serves the problem */
+  alignment: number;
+  /** What to improve */
+  feedback: string;
+  /** Suggested rewrite of the goal */
+  suggestedRewrite: string;
+}
+
+/**
+ * AI review of a team's learning goals
+ */
+export interface LearningGoalReview {
+  goals: LearningGoalFeedback[];
+  /** Comments on the set of goals as a whole */
+  overallFeedback: string;
+}
+
+/**
+ * Result of reviewing learning goals
+ */
+export interface LearningGoalReviewResult {
+  review: LearningGoalReview;
+  /** Model that produced the review */
+  model: string;
+  /** Raw model output, for the usage log */
+  text: string;
+  /** Token usage across all attempts, if reported */
+  usage?: LlmUsage;
+  /** Whether the first response was invalid and had to be repaired */
+  repaired: boolean;
+}
+
+const SUGGESTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_SUGGESTIONS,
+      items: {
+        type: 'object',
+        properties: {
+          goal: { type: 'string', description: 'Specific, measurable learning goal statement' },
+          rationale: { type: 'string', description: 'One or two sentences on why the goal matters for this problem' },
+          bloom_level: { type: 'string', enum: [...BLOOM_LEVELS] },
+          resources: {
+            type: 'array',
+            maxItems: MAX_RESOURCES,
+            items: { type: 'string', description: 'Kind of source or specific resource to consult' }
+          }
+        },
+        required: ['goal', 'rationale', 'bloom_level', 'resources']
+      }
+    }
+  },
+  required: ['suggestions']
+};
+
+const GOAL_SCORE_SCHEMA: JsonSchema = { type: 'integer', minimum: GOAL_SCORE_MIN, maximum: GOAL_SCORE_MAX };
+
+const REVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    goals: {
+      type: 'array',
+      minItems: 1,
+      maxItems: MAX_REVIEWED_GOALS,
+      items: {
+        type: 'object',
+        properties: {
+          goal: { type: 'string', description: 'The goal exactly as the students wrote it' },
+          specificity: GOAL_SCORE_SCHEMA,
+          measurability: GOAL_SCORE_SCHEMA,
+          alignment: GOAL_SCORE_SCHEMA,
+          feedback: { type: 'string', description: 'One or two sentences on what to improve' },
+          suggested_rewrite: { type: 'string', description: 'Improved version of the goal' }
+        },
+        required: ['goal', 'specificity', 'measurability', 'alignment', 'feedback', 'suggested_rewrite']
+      }
+    },
+    overall_feedback: { type: 'string', description: 'Two or three sentences on the goals as a set' }
+  },
+  required: ['goals', 'overall_feedback']
+};
+
+interface RawSuggestion {
+  goal: string;
+  rationale: string;
+  bloom_level: BloomLevel;
+  resources: string[];
+}
+
+interface RawGoalFeedback {
+  goal: string;
+  specificity: number;
+  measurability: number;
+  alignment: number;
+  feedback: string;
+  suggested_rewrite: string;
+}
+
+function addUsage(a: LlmUsage | undefined, b: LlmUsage | undefined): LlmUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return {
+    inputTokens: (a.inputTokens ?? 0) + (b.inputTokens ?? 0),
+    outputTokens: (a.outputTokens ?? 0) + (b.outputTokens ?? 0),
+    totalTokens: (a.totalTokens ?? 0) + (b.totalTokens ?? 0),
+  };
+}
+
+/**
+ * Find why a suggestions response is unusable: a schema mismatch, or no
+ * goals left once blank statements are dropped
+ */
+function findSuggestionsProblem(data: unknown): string | null {
+  const violation = findSchemaViolation(data, SUGGESTIONS_SCHEMA);
+  if (violation) return violation;
+
+  const suggestions = (data as { suggestions: RawSuggestion[] }).suggestions;
+  return suggestions.some(suggestion => suggestion.goal.trim()) ? null : '$.suggestions has no goal statements';
+}
+
+/**
+ * Find why a review response is unusable: a schema mismatch, or no goals
+ * left once blank ones are dropped
+ */
+function findReviewProblem(data: unknown): string | null {
+  const violation = findSchemaViolation(data, REVIEW_SCHEMA);
+  if (violation) return violation;
+
+  const goals = (data as { goals: RawGoalFeedback[] }).goals;
+  return goals.some(goal => goal.goal.trim()) ? null : '$.goals has no goal statements';
+}
+
+/**
+ * Request JSON from the model, validate it, and ask once for a repair
+ *
+ * @param provider - Provider used for the generation
+ * @param prompt - Prompt for the first attempt
+ * @param temperature - Sampling temperature for the first attempt
+ * @param schema - Schema the response must match
+ * @param findProblem - Returns why a parsed response is unusable, or null
+ * @param label - What is being generated, used in the error message
+ * @returns Parsed data that passed `findProblem`, with usage across attempts
+ * @throws ExternalServiceError if no valid response is produced, or the
+ *   provider's error if the call fails
+ */
+async function generateValidJson(
+  provider: LlmProvider,
+  prompt: string,
+  temperature: number,
+  schema: JsonSchema,
+  findProblem: (data: unknown) => string | null,
+  label: string
+): Promise<LlmJsonResult<unknown> & { repaired: boolean }> {
+  const request = {
+    temperature,
+    maxOutputTokens: 40000,      // Generous limit for detailed learning goals (within 65k limit)
+  };
+
+  let result: LlmJsonResult<unknown> | null = null;
+  let failure: string | null;
+  let failedOutput: string;
+
+  try {
+    result = await provider.generateJson<unknown>({ prompt, ...request }, schema);
+    failure = findProblem(result.data);
+    failedOutput = result.text;
+  } catch (error) {
+    if (!isInvalidJsonError(error)) throw error;
+    failure = 'the response was not valid JSON';
+    failedOutput = String(error.context?.responsePreview ?? '');
+  }
+
+  if (result && !failure) {
+    return { ...result, repaired: false };
+  }
+
+  // One repair attempt: show the model what was wrong with its answer
+  const repairPrompt = `${prompt}
+
+Your previous response could not be used because ${failure}.
+
+Previous response:
+${wrapUntrusted('previous_response', failedOutput, 'Empty.')}
+
+Respond again with only the corrected JSON.`;
+
+  const repairedResult = await provider.generateJson<unknown>({ prompt: repairPrompt, ...request, temperature: 0.2 }, schema);
+
+  const repairProblem = findProblem(repairedResult.data);
+  if (repairProblem) {
+    throw new ExternalServiceError(
+      provider.name,
+      'validate_output',
+      `${label} did not match the schema after repair: ${repairProblem}`
+    );
+  }
+
+  return { ...repairedResult, usage: addUsage(result?.usage, repairedResult.usage), repaired: true };
+}
+
+/**
+ * Suggest learning goals for a team's problem
+ *
+ * The model is asked for JSON matching a declared schema and the response is
+ * validated here. If the first response is not valid JSON or does not match
+ * the schema, the model is asked once to repair it; a second failure throws.
+ *
+ * @param provider - Provider used for the generation
+ * @param problem - Title and description of the team's problem
+ * @returns Validated suggestions
+ * @throws ExternalServiceError if no valid response is produced, or the
+ *   provider's error if the call fails
+ */
+export async function suggestLearningGoals(
+  provider: LlmProvider,
+  problem: { title: string; description: string | null }
+): Promise<LearningGoalSuggestionsResult> {
+  const prompt = `As an educational AI assistant for Problem-Based Learning (PBL), help students define learning goals for their project.
+
+${UNTRUSTED_CONTENT_NOTICE}
+
+Problem Title:
+${wrapUntrusted('problem_title', problem.title)}
+
+Problem Description:
+${wrapUntrusted('problem_description', problem.description, 'No detailed description provided.')}
+
+Suggest 3-${MAX_SUGGESTIONS} specific, measurable, and achievable learning goals that students should consider for this PBL project. Each goal should:
+1. Be specific and actionable
+2. Focus on skills, knowledge, or competencies students will develop
+3. Be appropriate for the problem domain
+4. Encourage deep learning and critical thinking
+
+For each goal give:
+- goal: the goal statement, written so students can add it to their goals as is
+- rationale: one or two sentences on why it matters for this problem
+- bloom_level: the level of Bloom's revised taxonomy it targets (${BLOOM_LEVELS.join(', ')})
+- resources: up to ${MAX_RESOURCES} kinds of sources or specific resources to start from
+
+Prefer goals at the higher Bloom's levels where the problem allows it.`;
+
+  const result = await generateValidJson(
+    provider,
+    prompt,
+    0.7,                        // Controls randomness (0.0-1.0, lower = more consistent)
+    SUGGESTIONS_SCHEMA,
+    findSuggestionsProblem,
+    'Learning goal suggestions'
+  );
+
+  const suggestions = (result.data as { suggestions: RawSuggestion[] }).suggestions
+    .filter(suggestion => suggestion.goal.trim())
+    .map(suggestion => ({
+      goal: suggestion.goal.replace(/^\d+\.\s*/, '').trim(),
+      rationale: suggestion.rationale.trim(),
+      bloomLevel: suggestion.bloom_level,
+      resources: suggestion.resources.map(resource => resource.trim()).filter(Boolean),
+    }));
+
+  return {
+    suggestions,
+    model: result.model,
+    text: result.text,
+    usage: result.usage,
+    repaired: result.repaired,
+  };
+}
+
+/**
+ * Review a team's learning goals
+ *
+ * Each goal is scored for specificity, measurability and alignment with the
+ * problem, with feedback and a suggested rewrite. The goals themselves are
+ * not changed. Validation and repair work as in `suggestLearningGoals`.
+ *
+ * @param provider - Provider used for the review
+ * @param problem - Title and description of the team's problem
+ * @param goals - The team's learning goals and problem statement as written
+ * @returns Validated review
+ * @throws ExternalServiceError if no valid response is produced, or the
+ *   provider's error if the call fails
+ */
+export async function reviewLearningGoals(
+  provider: LlmProvider,
+  problem: { title: string; description: string | null },
+  goals: string
+): Promise<LearningGoalReviewResult> {
+  const prompt = `As an educational AI assistant for Problem-Based Learning (PBL), give students feedback on the learning goals they wrote for their project.
+
+${UNTRUSTED_CONTENT_NOTICE}
+
+Problem Title:
+${wrapUntrusted('problem_title', problem.title)}
+
+Problem Description:
+${wrapUntrusted('problem_description', problem.description, 'No detailed description provided.')}
+
+The team's problem statement and learning goals:
+${wrapUntrusted('learning_goals', goals)}
+
+Identify each learning goal in the team's text (at most ${MAX_REVIEWED_GOALS}; ignore the problem statement itself) and give:
+- goal: the goal exactly as the students wrote it
+- specificity: ${GOAL_SCORE_MIN}-${GOAL_SCORE_MAX}, how precisely it states what will be learned ("learn about viruses" is a ${GOAL_SCORE_MIN})
+- measurability: ${GOAL_SCORE_MIN}-${GOAL_SCORE_MAX}, how clearly the team could tell the goal has been met
+- alignment: ${GOAL_SCORE_MIN}-${GOAL_SCORE_MAX}, how closely the goal serves this problem
+- feedback: one or two sentences on what to improve, addressed to the students
+- suggested_rewrite: a specific, measurable version of the goal that keeps the students' intent
+
+Also give overall_feedback: two or three sentences on the goals as a set, such as gaps in coverage or overlap.
+Be encouraging but honest. Do not write the whole set of goals for the students.`;
+
+  const result = await generateValidJson(
+    provider,
+    prompt,
+    0.2,                        // Low temperature for consistent scoring
+    REVIEW_SCHEMA,
+    findReviewProblem,
+    'Learning goal review'
+  );
+
+  const data = result.data as { goals: RawGoalFeedback[]; overall_feedback: string };
+
+  return {
+    review: {
+      goals: data.goals
+        .filter(goal => goal.goal.trim())
+        .map(goal => ({
+          goal: goal.goal.trim(),
+          specificity: goal.specificity,
+          measurability: goal.measurability,
+          alignment: goal.alignment,
+          feedback: goal.feedback.trim(),
+          suggestedRewrite: goal.suggested_rewrite.trim(),
+        })),
+      overallFeedback: data.overall_feedback.trim(),
+    },
+    model: result.model,
+    text: result.text,
+    usage: result.usage,
+    repaired: result.repaired,
+  };
+}
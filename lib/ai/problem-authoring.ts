@@ -0,0 +1,129 @@
+import type { ProblemDraft, ProblemDraftInput, ProblemRevealData } from "@/lib/types/problems";
+import type { JsonSchema, LlmProvider, LlmUsage } from "./types";
+import { rubricCriteriaSchema, toRubricCriteria, type RawRubricCriterion } from "./rubric-authoring";
+
+const REVEAL_PHASES = ['pre', 'research', 'post'] as const;
+
+/**
+ * Result of drafting a problem
+ */
+export interface ProblemDraftResult {
+  draft: ProblemDraft;
+  /** Model that produced the draft */
+  model: string;
+  /** Raw model output, for the usage log */
+  text: string;
+  /** Token usage reported by the provider, if any */
+  usage?: LlmUsage;
+}
+
+/**
+ * Shape of the draft returned by the model, before validation
+ */
+interface RawProblemDraft {
+  title?: unknown;
+  scenario?: unknown;
+  reveals?: Array<{ title?: unknown; content?: unknown; phase?: unknown }>;
+  rubric_name?: unknown;
+  criteria?: RawRubricCriterion[];
+}
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Draft a PBL problem (title, scenario, staged reveals and rubric) for an educator
+ *
+ * The draft is only a proposal: nothing is saved until the educator accepts
+ * parts of it into the problem form and creates the problem.
+ *
+ * @param provider - Provider used for the generation
+ * @param input - Topic, learner level and target outcomes
+ * @returns Validated draft with the rubric in `RubricData` shape
+ * @throws Error if the provider call fails or the draft is incomplete
+ */
+export async function draftProblem(
+  provider: LlmProvider,
+  input: ProblemDraftInput
+): Promise<ProblemDraftResult> {
+  const outcomes = input.outcomes.map(outcome => `- ${outcome}`).join('\n');
+
+  const prompt = `You are helping an educator write a Problem-Based Learning (PBL) problem.
+
+Topic: ${input.topic}
+Learner level: ${input.level}
+
+Target learning outcomes:
+${outcomes}
+
+Write:
+1. A short, engaging problem title.
+2. A scenario in Markdown (250-500 words) that presents an authentic, ill-structured problem from the learners'
+   perspective. It should give enough context to start, leave room for research, and not state the solution.
+3. Two to four staged information reveals: extra facts, data or complications the educator releases later
+   to deepen the inquiry. Give each a short title, Markdown content and the project phase in which to release it
+   ("pre" while defining learning goals, "research" while investigating, "post" while writing up).
+4. A rubric of three to six criteria aligned to the target outcomes. Each criterion_text should name the criterion
+   and describe what strong work looks like. Use a max_score between 1 and 10 (usually 5), and write three to five
+   performance levels per criterion, highest first, each with a short label and an observable description.`;
+
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      scenario: { type: 'string', description: 'Problem scenario in Markdown' },
+      reveals: {
+        type: 'array',
+        minItems: 1,
+        maxItems: 4,
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            content: { type: 'string', description: 'Markdown' },
+            phase: { type: 'string', enum: [...REVEAL_PHASES] }
+          },
+          required: ['title', 'content', 'phase']
+        }
+      },
+      rubric_name: { type: 'string' },
+      criteria: rubricCriteriaSchema(3, 6)
+    },
+    required: ['title', 'scenario', 'reveals', 'rubric_name', 'criteria']
+  };
+
+  const result = await provider.generateJson<RawProblemDraft>({
+    prompt,
+    temperature: 0.7,           // Some creativity for the scenario
+    maxOutputTokens: 8000,
+  }, schema);
+
+  const raw = result.data;
+
+  const reveals: ProblemRevealData[] = (Array.isArray(raw.reveals) ? raw.reveals : [])
+    .map(reveal => ({
+      title: asText(reveal?.title),
+      content: asText(reveal?.content),
+      phase: (REVEAL_PHASES as readonly string[]).includes(reveal?.phase as string)
+        ? reveal.phase as ProblemRevealData['phase']
+        : null,
+    }))
+    .filter(reveal => reveal.title && reveal.content);
+
+  const criteria = toRubricCriteria(raw.criteria);
+
+  const draft: ProblemDraft = {
+    title: asText(raw.title),
+    scenario: asText(raw.scenario),
+    reveals,
+    rubric: {
+      name: asText(raw.rubric_name) || 'PBL Assessment Rubric',
+      criteria,
+    },
+  };
+
+  if (!draft.title || !draft.scenario || criteria.length === 0) {
+    throw new Error('AI response did not include a title, scenario and rubric');
+  }
+
+  return { draft, model: result.model, text: result.text, usage: result.usage };
+}
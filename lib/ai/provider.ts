@@ -0,0 +1,64 @@
+import { ConfigurationError } from "@/lib/shared/errors";
+import { GeminiProvider } from "./providers/gemini";
+import { OpenAiCompatibleProvider } from "./providers/openai-compatible";
+import { FixtureProvider } from "./providers/fixture";
+import { withResilience } from "./resilience";
+import type { LlmProvider, LlmProviderName } from "./types";
+
+const PROVIDER_NAMES: readonly LlmProviderName[] = ['gemini', 'openai-compatible', 'fixture'];
+
+/**
+ * Get the LLM provider selected by configuration
+ *
+ * AI_PROVIDER selects the provider (defaults to `gemini`):
+ * - `gemini`: requires GEMINI_API_KEY, optional GEMINI_MODEL
+ * - `openai-compatible`: requires OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL,
+ *   optional OPENAI_COMPATIBLE_API_KEY
+ * - `fixture`: deterministic offline responses, no configuration needed
+ *
+ * Calls made through the provider have timeouts, retries and a circuit
+ * breaker (see `withResilience`).
+ *
+ * @returns Configured provider
+ * @throws ConfigurationError if the provider is unknown or missing configuration
+ */
+export function getLlmProvider(): LlmProvider {
+  return withResilience(createProvider());
+}
+
+/**
+ * Create the configured provider without the resilience wrapper
+ */
+function createProvider(): LlmProvider {
+  const name = (process.env.AI_PROVIDER || 'gemini') as LlmProviderName;
+
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new ConfigurationError(
+      'AI_PROVIDER',
+      `Unknown provider "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+
+  switch (name) {
+    case 'gemini': {
+      const apiKey = process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new ConfigurationError('GEMINI_API_KEY', 'environment variable is not set');
+      }
+      return new GeminiProvider(apiKey, process.env.GEMINI_MODEL || 'gemini-2.5-flash');
+    }
+    case 'openai-compatible': {
+      const baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      const model = process.env.OPENAI_COMPATIBLE_MODEL;
+      if (!baseUrl) {
+        throw new ConfigurationError('OPENAI_COMPATIBLE_BASE_URL', 'environment variable is not set');
+      }
+      if (!model) {
+        throw new ConfigurationError('OPENAI_COMPATIBLE_MODEL', 'environment variable is not set');
+      }
+      return new OpenAiCompatibleProvider(baseUrl, model, process.env.OPENAI_COMPATIBLE_API_KEY);
+    }
+    case 'fixture':
+      return new FixtureProvider();
+  }
+}
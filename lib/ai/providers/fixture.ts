@@ -0,0 +1,114 @@
+import type {
+  JsonSchema,
+  LlmJsonResult,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmStreamChunk,
+  LlmUsage
+} from "../types";
+
+/**
+ * Rough token estimate (about four characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Text of the latest user turn in a request
+ */
+function lastUserText(request: LlmRequest): string {
+  if (request.messages) {
+    const userTurns = request.messages.filter(msg => msg.role === 'user');
+    return userTurns[userTurns.length - 1]?.content ?? '';
+  }
+  return request.prompt ?? '';
+}
+
+function usageFor(request: LlmRequest, output: string): LlmUsage {
+  const input = [
+    request.systemInstruction ?? '',
+    request.prompt ?? '',
+    ...(request.messages ?? []).map(msg => msg.content)
+  ].join('\n');
+  const inputTokens = estimateTokens(input);
+  const outputTokens = estimateTokens(output);
+
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Build a deterministic value that satisfies a schema
+ *
+ * Enum values are cycled by array position so that arrays of objects keyed
+ * by an enum (e.g. one score per rubric criterion) get one entry per value.
+ *
+ * @param schema - Schema to satisfy
+ * @param path - Property path, used to label generated strings
+ * @param index - Position within the enclosing array
+ */
+function sampleFromSchema(schema: JsonSchema, path: string, index: number): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [
+          key,
+          sampleFromSchema(value, path ? `${path}.${key}` : key, index)
+        ])
+      );
+    case 'array': {
+      const length = Math.min(Math.max(schema.minItems ?? 2, 1), schema.maxItems ?? Infinity);
+      return Array.from({ length }, (_, i) => sampleFromSchema(schema.items, path, i));
+    }
+    case 'string':
+      if (schema.enum && schema.enum.length > 0) {
+        return schema.enum[index % schema.enum.length];
+      }
+      return `Fixture ${path || 'value'} ${index + 1}`;
+    case 'integer':
+    case 'number': {
+      const min = schema.minimum ?? 1;
+      const max = schema.maximum ?? min;
+      return Math.floor((min + max) / 2);
+    }
+    case 'boolean':
+      return false;
+  }
+}
+
+/**
+ * Deterministic provider for tests, CI and air-gapped lab machines
+ *
+ * Never makes network calls. Text responses echo the latest user turn and
+ * JSON responses are synthesized from the requested schema, so the same
+ * request always produces the same output.
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture' as const;
+  readonly model = 'fixture';
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const question = lastUserText(request).trim().replace(/\s+/g, ' ').slice(0, 120);
+    const text = `[Fixture response] What do you already know about "${question}", and what would you need to find out next?`;
+
+    return { text, model: this.model, usage: usageFor(request, text) };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const result = await this.generate(request);
+    const words = result.text.split(/(?<= )/);
+
+    for (let i = 0; i < words.length; i++) {
+      const isLast = i === words.length - 1;
+      yield { text: words[i], ...(isLast && { usage: result.usage }) };
+    }
+  }
+
+  async generateJson<T = unknown>(request: LlmRequest, schema: JsonSchema): Promise<LlmJsonResult<T>> {
+    const data = sampleFromSchema(schema, '', 0);
+    const text = JSON.stringify(data);
+
+    return { text, model: this.model, usage: usageFor(request, text), data: data as T };
+  }
+}
@@ -0,0 +1,160 @@
+import { GoogleGenAI, Type, type GenerateContentConfig, type GenerateContentResponse, type Schema } from "@google/genai";
+import { parseJsonText } from "../json";
+import type {
+  JsonSchema,
+  LlmJsonResult,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmStreamChunk,
+  LlmUsage
+} from "../types";
+
+/**
+ * Convert the shared JSON schema subset into Gemini's response schema format
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        description: schema.description,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+        propertyOrdering: Object.keys(schema.properties),
+      };
+    case 'array':
+      return {
+        type: Type.ARRAY,
+        description: schema.description,
+        items: toGeminiSchema(schema.items),
+        minItems: schema.minItems !== undefined ? String(schema.minItems) : undefined,
+        maxItems: schema.maxItems !== undefined ? String(schema.maxItems) : undefined,
+      };
+    case 'string':
+      return {
+        type: Type.STRING,
+        description: schema.description,
+        ...(schema.enum && { format: 'enum', enum: schema.enum }),
+      };
+    case 'integer':
+    case 'number':
+      return {
+        type: schema.type === 'integer' ? Type.INTEGER : Type.NUMBER,
+        description: schema.description,
+        minimum: schema.minimum,
+        maximum: schema.maximum,
+      };
+    case 'boolean':
+      return { type: Type.BOOLEAN, description: schema.description };
+  }
+}
+
+/**
+ * Extract token usage from a Gemini response
+ */
+function toUsage(response: GenerateContentResponse): LlmUsage | undefined {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+
+  return {
+    inputTokens: metadata.promptTokenCount,
+    outputTokens: metadata.candidatesTokenCount,
+    totalTokens: metadata.totalTokenCount,
+  };
+}
+
+/**
+ * Google Gemini provider
+ *
+ * Configured with GEMINI_API_KEY and GEMINI_MODEL.
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  private readonly client: GoogleGenAI;
+
+  constructor(apiKey: string, model: string) {
+    this.client = new GoogleGenAI({ apiKey });
+    this.model = model;
+  }
+
+  private buildParams(request: LlmRequest, extraConfig: GenerateContentConfig = {}) {
+    const contents = request.messages
+      ? request.messages.map(msg => ({
+          role: msg.role,
+          parts: [{ text: msg.content }]
+        }))
+      : request.prompt ?? '';
+
+    return {
+      model: this.model,
+      contents,
+      config: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        candidateCount: 1,
+        ...(request.stopSequences && { stopSequences: request.stopSequences }),
+        ...(request.signal && { abortSignal: request.signal }),
+        ...(request.systemInstruction && {
+          systemInstruction: {
+            parts: [{ text: request.systemInstruction }]
+          }
+        }),
+        ...extraConfig,
+      }
+    };
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const response = await this.client.models.generateContent(this.buildParams(request));
+
+    // Extract the generated text
+    const text = response.text || response.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!text) {
+      const finishReason = response.candidates?.[0]?.finishReason;
+      console.error('❌ No text found. Finish reason:', finishReason);
+      throw new Error(`Gemini replied with finishReason=${finishReason || 'unknown'}`);
+    }
+
+    return { text, model: this.model, usage: toUsage(response) };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const responseStream = await this.client.models.generateContentStream(this.buildParams(request));
+
+    for await (const chunk of responseStream) {
+      const usage = toUsage(chunk);
+      const text = chunk.text || '';
+      if (text || usage) {
+        yield { text, usage };
+      }
+    }
+  }
+
+  async generateJson<T = unknown>(request: LlmRequest, schema: JsonSchema): Promise<LlmJsonResult<T>> {
+    const response = await this.client.models.generateContent(
+      this.buildParams(request, {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(schema),
+      })
+    );
+
+    const text = response.text || response.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!text) {
+      const finishReason = response.candidates?.[0]?.finishReason;
+      throw new Error(`Gemini replied with finishReason=${finishReason || 'unknown'}`);
+    }
+
+    return {
+      text,
+      model: this.model,
+      usage: toUsage(response),
+      data: parseJsonText(text, this.name) as T,
+    };
+  }
+}
@@ -0,0 +1,204 @@
+import { ExternalServiceError } from "@/lib/shared/errors";
+import { parseJsonText } from "../json";
+import type {
+  JsonSchema,
+  LlmJsonResult,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmStreamChunk,
+  LlmUsage
+} from "../types";
+
+/**
+ * Error returned by an OpenAI-compatible server
+ *
+ * Exposes the HTTP status as `status` so routes can report rate limiting
+ * the same way as for Gemini errors.
+ */
+class OpenAiCompatibleError extends ExternalServiceError {
+  readonly status: number;
+
+  constructor(operation: string, status: number, reason: string) {
+    super('openai-compatible', operation, reason, status);
+    this.status = status;
+  }
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+function toUsage(usage: ChatCompletionUsage | null | undefined): LlmUsage | undefined {
+  if (!usage) return undefined;
+
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Provider for servers implementing the OpenAI chat completions API
+ *
+ * Works with local model servers such as Ollama, vLLM, LM Studio and llama.cpp.
+ * Configured with OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_MODEL and
+ * an optional OPENAI_COMPATIBLE_API_KEY.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+
+  constructor(baseUrl: string, model: string, apiKey?: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  private buildBody(request: LlmRequest, extra: Record<string, unknown> = {}) {
+    const messages: Array<{ role: string; content: string }> = [];
+
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+
+    if (request.messages) {
+      for (const msg of request.messages) {
+        messages.push({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.content });
+      }
+    } else {
+      messages.push({ role: 'user', content: request.prompt ?? '' });
+    }
+
+    return {
+      model: this.model,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxOutputTokens,
+      ...(request.stopSequences && { stop: request.stopSequences }),
+      ...extra,
+    };
+  }
+
+  private async post(operation: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const reason = await response.text().catch(() => response.statusText);
+      throw new OpenAiCompatibleError(operation, response.status, reason || response.statusText);
+    }
+
+    return response;
+  }
+
+  async generate(request: LlmRequest): Promise<LlmResult> {
+    const response = await this.post('generate', this.buildBody(request), request.signal);
+    const completion = await response.json() as ChatCompletionResponse;
+    const text = completion.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new ExternalServiceError(this.name, 'generate', 'Model returned an empty response');
+    }
+
+    return { text, model: this.model, usage: toUsage(completion.usage) };
+  }
+
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const response = await this.post('stream', this.buildBody(request, {
+      stream: true,
+      stream_options: { include_usage: true },
+    }), request.signal);
+
+    if (!response.body) {
+      throw new ExternalServiceError(this.name, 'stream', 'Response has no body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Release the connection when the stream ends early (e.g. the caller stops
+    // reading after a timeout)
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          const chunk = JSON.parse(payload) as ChatCompletionChunk;
+          const text = chunk.choices?.[0]?.delta?.content || '';
+          const usage = toUsage(chunk.usage);
+          if (text || usage) {
+            yield { text, usage };
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  async generateJson<T = unknown>(request: LlmRequest, schema: JsonSchema): Promise<LlmJsonResult<T>> {
+    // Not every local server supports json_schema, so describe the schema in the
+    // system instruction and request a JSON object response
+    const schemaInstruction = `Respond only with JSON matching this JSON Schema:\n${JSON.stringify(schema)}`;
+    const jsonRequest: LlmRequest = {
+      ...request,
+      systemInstruction: request.systemInstruction
+        ? `${request.systemInstruction}\n\n${schemaInstruction}`
+        : schemaInstruction,
+    };
+
+    const body = schema.type === 'object'
+      ? this.buildBody(jsonRequest, { response_format: { type: 'json_object' } })
+      : this.buildBody(jsonRequest);
+
+    const response = await this.post('generate_json', body, request.signal);
+    const completion = await response.json() as ChatCompletionResponse;
+    const text = completion.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new ExternalServiceError(this.name, 'generate_json', 'Model returned an empty response');
+    }
+
+    return {
+      text,
+      model: this.model,
+      usage: toUsage(completion.usage),
+      data: parseJsonText(text, this.name) as T,
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import type { createClient } from "@/lib/supabase/server";
+import type { Database } from "@/lib/db.types";
+
+type AiQuotaPeriod = Database["public"]["Enums"]["ai_quota_period"];
+
+/**
+ * Current usage against the AI quota that applies to a team
+ */
+export interface AiQuotaStatus {
+  /** Whether the limits come from the course default or a team override */
+  scope: 'course' | 'team';
+  period: AiQuotaPeriod;
+  /** Maximum AI calls per period (null = unlimited) */
+  maxCalls: number | null;
+  /** Maximum tokens per period (null = unlimited) */
+  maxTokens: number | null;
+  callsUsed: number;
+  tokensUsed: number;
+  callsRemaining: number | null;
+  tokensRemaining: number | null;
+  /** ISO timestamp when the current window ends */
+  resetsAt: string;
+  exceeded: boolean;
+}
+
+/**
+ * AI features the system runs on a team's behalf rather than at a student's
+ * request. They are logged for auditing but never count towards a quota.
+ */
+export const INTERNAL_AI_FEATURES: readonly string[] = ['tutor_summary'];
+
+/**
+ * Per-feature usage totals as returned by get_team_ai_usage
+ */
+export interface AiFeatureUsage {
+  feature: string;
+  call_count: number;
+  token_count: number;
+}
+
+/**
+ * Total the calls and tokens that count towards a team's quota
+ *
+ * @param usage - Per-feature totals for the quota window
+ * @returns Calls and tokens, leaving out internal features
+ */
+export function sumQuotaUsage(usage: AiFeatureUsage[]): { calls: number; tokens: number } {
+  return usage
+    .filter(row => !INTERNAL_AI_FEATURES.includes(row.feature))
+    .reduce(
+      (totals, row) => ({
+        calls: totals.calls + Number(row.call_count),
+        tokens: totals.tokens + Number(row.token_count),
+      }),
+      { calls: 0, tokens: 0 }
+    );
+}
+
+/**
+ * Get the start of the quota window containing `now`
+ *
+ * Daily windows start at 00:00 UTC, weekly windows on Monday 00:00 UTC.
+ */
+export function getQuotaWindowStart(period: AiQuotaPeriod, now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (period === 'weekly') {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start;
+}
+
+/**
+ * Get the time the quota window containing `now` resets
+ */
+export function getQuotaResetTime(period: AiQuotaPeriod, now: Date = new Date()): Date {
+  const reset = getQuotaWindowStart(period, now);
+  reset.setUTCDate(reset.getUTCDate() + (period === 'weekly' ? 7 : 1));
+  return reset;
+}
+
+/**
+ * Check a project's team against its AI quota
+ *
+ * Uses the team override when one exists, otherwise the course default.
+ * Usage is totalled across all of the team's projects via get_team_ai_usage,
+ * leaving out internal features such as rolling tutor summaries.
+ * Fails open: if the quota cannot be read, AI features stay available and the
+ * error is logged.
+ *
+ * @param supabase - Authenticated Supabase client
+ * @param projectId - Project the AI call is made for
+ * @returns Quota status, or null when no quota applies
+ */
+export async function checkAiQuota(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  projectId: string
+): Promise<AiQuotaStatus | null> {
+  try {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('team_id, teams!inner(course_id)')
+      .eq('id', projectId)
+      .single();
+
+    if (projectError || !project?.teams.course_id) {
+      return null;
+    }
+
+    const { data: quotas, error: quotaError } = await supabase
+      .from('ai_quotas')
+      .select('team_id, period, max_calls, max_tokens')
+      .eq('course_id', project.teams.course_id)
+      .or(`team_id.is.null,team_id.eq.${project.team_id}`);
+
+    if (quotaError) {
+      console.error('Failed to load AI quota:', quotaError);
+      return null;
+    }
+
+    const quota = quotas?.find(q => q.team_id === project.team_id)
+      ?? quotas?.find(q => q.team_id === null);
+
+    if (!quota || (quota.max_calls === null && quota.max_tokens === null)) {
+      return null;
+    }
+
+    const now = new Date();
+    const { data: usage, error: usageError } = await supabase.rpc('get_team_ai_usage', {
+      _team_id: project.team_id,
+      _since: getQuotaWindowStart(quota.period, now).toISOString(),
+    });
+
+    if (usageError) {
+      console.error('Failed to load AI usage totals:', usageError);
+      return null;
+    }
+
+    const { calls: callsUsed, tokens: tokensUsed } = sumQuotaUsage(usage ?? []);
+    const callsRemaining = quota.max_calls === null ? null : Math.max(quota.max_calls - callsUsed, 0);
+    const tokensRemaining = quota.max_tokens === null ? null : Math.max(quota.max_tokens - tokensUsed, 0);
+
+    return {
+      scope: quota.team_id ? 'team' : 'course',
+      period: quota.period,
+      maxCalls: quota.max_calls,
+      maxTokens: quota.max_tokens,
+      callsUsed,
+      tokensUsed,
+      callsRemaining,
+      tokensRemaining,
+      resetsAt: getQuotaResetTime(quota.period, now).toISOString(),
+      exceeded: callsRemaining === 0 || tokensRemaining === 0,
+    };
+  } catch (error) {
+    console.error('Failed to check AI quota:', error);
+    return null;
+  }
+}
+
+/**
+ * Build the JSON body returned with a 429 when a quota is exhausted
+ */
+export function quotaExceededBody(quota: AiQuotaStatus) {
+  const resetsAt = new Date(quota.resetsAt).toUTCString();
+  return {
+    error: `Your team has used its ${quota.period} AI allowance. It resets at ${resetsAt}.`,
+    code: 'quota_exceeded' as const,
+    quota,
+  };
+}
@@ -0,0 +1,394 @@
+import { ConfigurationError, ExternalServiceError, PBLabError } from "@/lib/shared/errors";
+import { isInvalidJsonError } from "./json";
+import type {
+  JsonSchema,
+  LlmJsonResult,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmStreamChunk
+} from "./types";
+
+/**
+ * Resilient AI Calls
+ *
+ * Every provider returned by `getLlmProvider` is wrapped so that each call
+ * has a timeout, retryable failures are retried with jittered exponential
+ * backoff, and a circuit breaker fails fast while the provider is down.
+ * Breaker state is kept per server instance.
+ */
+
+/**
+ * Error codes recorded in ai_usage.error_code for failed calls
+ */
+export const AI_ERROR_CODES = [
+  'timeout',
+  'rate_limited',
+  'provider_unavailable',
+  'circuit_open',
+  'invalid_response',
+  'configuration',
+  'provider_error',
+] as const;
+
+export type AiErrorCode = typeof AI_ERROR_CODES[number];
+
+/** Failures worth retrying, which also count towards opening the circuit */
+const TRANSIENT_ERROR_CODES: readonly AiErrorCode[] = ['timeout', 'rate_limited', 'provider_unavailable'];
+
+/** Network errors raised by fetch when the provider cannot be reached */
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+
+/**
+ * Tuning for retries, timeouts and the circuit breaker
+ */
+export interface ResilienceOptions {
+  /** Time allowed per attempt (for streams: until each chunk arrives) */
+  timeoutMs: number;
+  /** Attempts per call, including the first */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubles on each retry */
+  baseDelayMs: number;
+  /** Upper bound on the backoff */
+  maxDelayMs: number;
+  /** Consecutive failed calls that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial call is allowed */
+  openDurationMs: number;
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+  timeoutMs: 60_000,
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  failureThreshold: 5,
+  openDurationMs: 30_000,
+};
+
+/**
+ * AI Unavailable Error - thrown without calling the provider while the circuit is open
+ */
+export class AiUnavailableError extends PBLabError {
+  constructor(provider: string, retryAfterMs: number) {
+    super(
+      'AI_UNAVAILABLE',
+      'The AI assistant is temporarily unavailable. Please try again in a few minutes.',
+      `${provider} circuit is open after repeated failures`,
+      { provider, retryAfterMs }
+    );
+  }
+}
+
+/**
+ * AI Timeout Error - thrown when a provider call takes longer than allowed
+ */
+export class AiTimeoutError extends ExternalServiceError {
+  constructor(provider: string, operation: string, timeoutMs: number) {
+    super(provider, operation, `timed out after ${timeoutMs}ms`, 504);
+  }
+}
+
+/**
+ * Find the HTTP status of a provider error, if it has one
+ */
+function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+
+  if (error instanceof ExternalServiceError) {
+    const statusCode = error.details?.statusCode;
+    return typeof statusCode === 'number' ? statusCode : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Classify a failed AI call
+ *
+ * @param error - Error thrown by a provider call or by output validation
+ * @returns Error code recorded in ai_usage
+ */
+export function getAiErrorCode(error: unknown): AiErrorCode {
+  if (error instanceof AiUnavailableError) return 'circuit_open';
+  if (error instanceof AiTimeoutError) return 'timeout';
+  if (error instanceof ConfigurationError) return 'configuration';
+  if (isInvalidJsonError(error)) return 'invalid_response';
+  if (error instanceof ExternalServiceError && error.details?.operation === 'validate_output') {
+    return 'invalid_response';
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'configuration';
+  if (status === 408 || (status !== undefined && status >= 500)) return 'provider_unavailable';
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('API key')) return 'configuration';
+
+  const cause = (error as { cause?: { code?: unknown } })?.cause;
+  const code = (error as { code?: unknown })?.code ?? cause?.code;
+  if ((typeof code === 'string' && NETWORK_ERROR_CODES.includes(code)) || message === 'fetch failed') {
+    return 'provider_unavailable';
+  }
+
+  return 'provider_error';
+}
+
+/**
+ * Build the HTTP error response for a failed AI call
+ *
+ * @param error - Error thrown by the call
+ * @param fallbackMessage - Message used when there is nothing more specific to say
+ * @returns Status code and JSON body for the route to return
+ */
+export function aiFailureResponse(
+  error: unknown,
+  fallbackMessage: string
+): { status: number; body: { error: string; errorCode: AiErrorCode } } {
+  const errorCode = getAiErrorCode(error);
+
+  switch (errorCode) {
+    case 'circuit_open':
+      return { status: 503, body: { error: (error as AiUnavailableError).userMessage, errorCode } };
+    case 'rate_limited':
+      return { status: 429, body: { error: "Rate limit exceeded. Please try again in a few minutes.", errorCode } };
+    case 'timeout':
+      return { status: 504, body: { error: "The AI service took too long to respond. Please try again.", errorCode } };
+    case 'configuration':
+      return { status: 500, body: { error: "AI service configuration error", errorCode } };
+    default:
+      return { status: 502, body: { error: fallbackMessage, errorCode } };
+  }
+}
+
+interface CircuitState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  /** Whether a trial call is in flight after the open period ended */
+  trialInFlight: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(key: string): CircuitState {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { consecutiveFailures: 0, openedAt: null, trialInFlight: false };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Reset all circuit breakers (used by tests)
+ */
+export function resetCircuitBreakers(): void {
+  circuits.clear();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a call that must settle in time
+ *
+ * On timeout the call's signal is aborted so the provider request is
+ * cancelled rather than left running alongside a retry.
+ *
+ * @param run - Starts the call with the signal to pass to the provider
+ * @param timeoutMs - Time allowed
+ * @param onTimeout - Builds the error thrown on timeout
+ * @param controller - Controller whose signal is passed to `run` (a new one per call by default)
+ */
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => Error,
+  controller: AbortController = new AbortController()
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      run(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = onTimeout();
+          controller.abort(error);
+          reject(error);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Add a cancellation signal to a request, keeping any signal the caller set
+ */
+function withSignal(request: LlmRequest, signal: AbortSignal): LlmRequest {
+  return { ...request, signal: request.signal ? AbortSignal.any([request.signal, signal]) : signal };
+}
+
+/**
+ * Close a provider stream without waiting for it, so a stream that ignores
+ * its signal cannot hold up the caller
+ */
+function closeIterator(iterator: AsyncIterator<LlmStreamChunk>): void {
+  iterator.return?.()?.catch(() => {});
+}
+
+/**
+ * Provider decorator adding timeouts, retries and a circuit breaker
+ */
+class ResilientProvider implements LlmProvider {
+  readonly name: LlmProvider['name'];
+  readonly model: string;
+  private readonly circuitKey: string;
+
+  constructor(private readonly inner: LlmProvider, private readonly options: ResilienceOptions) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.circuitKey = `${inner.name}:${inner.model}`;
+  }
+
+  /**
+   * Fail fast while the circuit is open; once the open period has passed,
+   * let a single trial call through
+   */
+  private beforeCall(): void {
+    const circuit = getCircuit(this.circuitKey);
+    if (circuit.openedAt === null) return;
+
+    const elapsed = Date.now() - circuit.openedAt;
+    if (elapsed < this.options.openDurationMs || circuit.trialInFlight) {
+      throw new AiUnavailableError(this.name, Math.max(this.options.openDurationMs - elapsed, 0));
+    }
+    circuit.trialInFlight = true;
+  }
+
+  private recordSuccess(): void {
+    circuits.set(this.circuitKey, { consecutiveFailures: 0, openedAt: null, trialInFlight: false });
+  }
+
+  private recordFailure(error: unknown): void {
+    const circuit = getCircuit(this.circuitKey);
+    const wasTrial = circuit.trialInFlight;
+    circuit.trialInFlight = false;
+
+    if (!TRANSIENT_ERROR_CODES.includes(getAiErrorCode(error))) {
+      // The provider answered; a failed trial still closes the circuit
+      if (wasTrial) this.recordSuccess();
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    if (wasTrial || circuit.consecutiveFailures >= this.options.failureThreshold) {
+      circuit.openedAt = Date.now();
+      console.error(`AI provider ${this.circuitKey} circuit opened after ${circuit.consecutiveFailures} failures`);
+    }
+  }
+
+  /** Full-jitter exponential backoff before retry number `retry` (1-based) */
+  private backoff(retry: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (retry - 1));
+    return Math.random() * ceiling;
+  }
+
+  private timeoutError(operation: string): () => Error {
+    return () => new AiTimeoutError(this.name, operation, this.options.timeoutMs);
+  }
+
+  /**
+   * Run one logical call with retries, recording the outcome on the circuit
+   */
+  private async call<T>(operation: string, attempt: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        const result = await withTimeout(attempt, this.options.timeoutMs, this.timeoutError(operation));
+        this.recordSuccess();
+        return result;
+      } catch (error) {
+        const retryable = TRANSIENT_ERROR_CODES.includes(getAiErrorCode(error));
+        if (!retryable || attemptNumber >= this.options.maxAttempts) {
+          this.recordFailure(error);
+          throw error;
+        }
+        await sleep(this.backoff(attemptNumber));
+      }
+    }
+  }
+
+  generate(request: LlmRequest): Promise<LlmResult> {
+    return this.call('generate', signal => this.inner.generate(withSignal(request, signal)));
+  }
+
+  generateJson<T = unknown>(request: LlmRequest, schema: JsonSchema): Promise<LlmJsonResult<T>> {
+    return this.call('generate_json', signal => this.inner.generateJson<T>(withSignal(request, signal), schema));
+  }
+
+  /**
+   * Streams are retried only until the first chunk arrives; after that a
+   * failure ends the stream. Each chunk must arrive within the timeout.
+   * A stream that times out or is abandoned by the caller is cancelled and
+   * its iterator closed.
+   */
+  async *stream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+    const timeout = this.timeoutError('stream');
+
+    const { iterator, controller, first } = await this.call('stream', async signal => {
+      // One controller for the whole stream, also aborted if the first chunk times out
+      const streamController = new AbortController();
+      const started = this.inner.stream(withSignal(request, streamController.signal))[Symbol.asyncIterator]();
+      const cancel = () => {
+        streamController.abort(signal.reason);
+        closeIterator(started);
+      };
+      signal.addEventListener('abort', cancel, { once: true });
+
+      try {
+        return { iterator: started, controller: streamController, first: await started.next() };
+      } catch (error) {
+        cancel();
+        throw error;
+      } finally {
+        signal.removeEventListener('abort', cancel);
+      }
+    });
+
+    let next = first;
+    try {
+      while (!next.done) {
+        yield next.value;
+        next = await withTimeout(() => iterator.next(), this.options.timeoutMs, timeout, controller);
+      }
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    } finally {
+      if (!next.done) {
+        controller.abort();
+        closeIterator(iterator);
+      }
+    }
+  }
+}
+
+/**
+ * Wrap a provider with timeouts, retries and a circuit breaker
+ *
+ * @param provider - Provider to wrap
+ * @param options - Overrides for the default tuning
+ * @returns Provider with the same name and model
+ */
+export function withResilience(
+  provider: LlmProvider,
+  options: Partial<ResilienceOptions> = {}
+): LlmProvider {
+  return new ResilientProvider(provider, { ...DEFAULT_RESILIENCE_OPTIONS, ...options });
+}
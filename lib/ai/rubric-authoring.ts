@@ -0,0 +1,225 @@
+import type {
+  RubricCriterionData,
+  RubricCritique,
+  RubricIssue,
+  RubricIssueType
+} from "@/lib/types/problems";
+import type { JsonSchema, LlmProvider, LlmUsage } from "./types";
+
+const ISSUE_TYPES: RubricIssueType[] = ['overlap', 'vagueness', 'missing_dimension'];
+
+/**
+ * Problem a rubric is written for
+ */
+export interface RubricProblemContext {
+  title: string;
+  description?: string | null;
+}
+
+/**
+ * Result of an AI rubric call, with the details needed for the usage log
+ */
+export interface RubricAuthoringResult<T> {
+  data: T;
+  /** Model that produced the result */
+  model: string;
+  /** Raw model output */
+  text: string;
+  /** Token usage reported by the provider, if any */
+  usage?: LlmUsage;
+}
+
+/**
+ * Shape of a criterion returned by the model, before validation
+ */
+export interface RawRubricCriterion {
+  criterion_text?: unknown;
+  max_score?: unknown;
+  performance_levels?: Array<{ label?: unknown; description?: unknown }>;
+}
+
+const asText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * JSON schema for a list of rubric criteria with performance-level descriptors
+ */
+export function rubricCriteriaSchema(minItems: number, maxItems: number): JsonSchema {
+  return {
+    type: 'array',
+    minItems,
+    maxItems,
+    items: {
+      type: 'object',
+      properties: {
+        criterion_text: { type: 'string', description: 'Criterion name followed by what strong work looks like' },
+        max_score: { type: 'integer', minimum: 1, maximum: 10 },
+        performance_levels: {
+          type: 'array',
+          minItems: 3,
+          maxItems: 5,
+          description: 'Highest level first',
+          items: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              description: { type: 'string' }
+            },
+            required: ['label', 'description']
+          }
+        }
+      },
+      required: ['criterion_text', 'max_score', 'performance_levels']
+    }
+  };
+}
+
+/**
+ * Convert model output into `RubricCriterionData`, dropping incomplete entries
+ *
+ * Scores are clamped to the 1-10 range accepted by `createProblem`.
+ */
+export function toRubricCriteria(raw: unknown): RubricCriterionData[] {
+  return (Array.isArray(raw) ? raw as RawRubricCriterion[] : [])
+    .map(criterion => ({
+      criterion_text: asText(criterion?.criterion_text),
+      max_score: typeof criterion?.max_score === 'number'
+        ? Math.min(Math.max(Math.round(criterion.max_score), 1), 10)
+        : 5,
+      performance_levels: (Array.isArray(criterion?.performance_levels) ? criterion.performance_levels : [])
+        .map(level => ({ label: asText(level?.label), description: asText(level?.description) }))
+        .filter(level => level.label && level.description),
+    }))
+    .filter(criterion => criterion.criterion_text)
+    .map((criterion, index) => ({ ...criterion, sort_order: index }));
+}
+
+function describeProblem(problem: RubricProblemContext): string {
+  return `Problem Title: "${problem.title}"
+
+Problem Description:
+${problem.description?.trim() || 'No detailed description provided.'}`;
+}
+
+/**
+ * Generate problem-specific rubric criteria
+ *
+ * @param provider - Provider used for the generation
+ * @param problem - Problem title and description
+ * @returns Criteria with suggested max scores and performance-level descriptors
+ * @throws Error if the provider call fails or no usable criteria are returned
+ */
+export async function generateRubric(
+  provider: LlmProvider,
+  problem: RubricProblemContext
+): Promise<RubricAuthoringResult<RubricCriterionData[]>> {
+  const prompt = `You are helping an educator write an assessment rubric for a Problem-Based Learning (PBL) problem.
+
+${describeProblem(problem)}
+
+Write three to six criteria specific to this problem, covering both the disciplinary content and the PBL process
+(inquiry, use of evidence, collaboration, communication). Criteria should not overlap.
+For each criterion, suggest a max_score between 1 and 10 that reflects its weight, and write three to five
+performance levels, highest first, each with a short label and a concrete, observable description.`;
+
+  const result = await provider.generateJson<{ criteria?: unknown }>({
+    prompt,
+    temperature: 0.4,
+    maxOutputTokens: 6000,
+  }, {
+    type: 'object',
+    properties: { criteria: rubricCriteriaSchema(3, 6) },
+    required: ['criteria']
+  });
+
+  const criteria = toRubricCriteria(result.data.criteria);
+  if (criteria.length === 0) {
+    throw new Error('AI response did not include any rubric criteria');
+  }
+
+  return { data: criteria, model: result.model, text: result.text, usage: result.usage };
+}
+
+/**
+ * Critique an educator's rubric for overlap, vagueness and missing dimensions
+ *
+ * @param provider - Provider used for the critique
+ * @param problem - Problem title and description
+ * @param criteria - The educator's current criteria
+ * @returns Summary and issues referring to criteria by 1-based number
+ * @throws Error if the provider call fails
+ */
+export async function critiqueRubric(
+  provider: LlmProvider,
+  problem: RubricProblemContext,
+  criteria: RubricCriterionData[]
+): Promise<RubricAuthoringResult<RubricCritique>> {
+  const criteriaList = criteria
+    .map((criterion, index) => {
+      const levels = (criterion.performance_levels || [])
+        .map(level => `\n   - ${level.label}: ${level.description}`)
+        .join('');
+      return `${index + 1}. (max ${criterion.max_score ?? 5}) ${criterion.criterion_text}${levels}`;
+    })
+    .join('\n');
+
+  const prompt = `You are reviewing an assessment rubric an educator wrote for a Problem-Based Learning (PBL) problem.
+
+${describeProblem(problem)}
+
+Rubric criteria:
+${criteriaList}
+
+Identify:
+- overlap: criteria that assess the same thing, so students would be rewarded or penalised twice
+- vagueness: criteria too general to score consistently (say what is unclear)
+- missing_dimension: important aspects of this problem or of PBL work the rubric does not assess
+
+Refer to criteria by number. Give a concrete suggestion for every issue. Only report real issues;
+an empty list is fine for a strong rubric. Finish with a two-sentence summary.`;
+
+  const result = await provider.generateJson<{ summary?: unknown; issues?: unknown }>({
+    prompt,
+    temperature: 0.2,
+    maxOutputTokens: 4000,
+  }, {
+    type: 'object',
+    properties: {
+      summary: { type: 'string' },
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            type: { type: 'string', enum: ISSUE_TYPES },
+            criteria: { type: 'array', items: { type: 'integer', minimum: 1, maximum: criteria.length } },
+            comment: { type: 'string' },
+            suggestion: { type: 'string' }
+          },
+          required: ['type', 'criteria', 'comment', 'suggestion']
+        }
+      }
+    },
+    required: ['summary', 'issues']
+  });
+
+  const rawIssues = Array.isArray(result.data.issues)
+    ? result.data.issues as Array<Record<string, unknown>>
+    : [];
+
+  const issues: RubricIssue[] = rawIssues
+    .filter(issue => ISSUE_TYPES.includes(issue?.type as RubricIssueType) && asText(issue.comment))
+    .map(issue => ({
+      type: issue.type as RubricIssueType,
+      criteria: (Array.isArray(issue.criteria) ? issue.criteria : [])
+        .filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= criteria.length),
+      comment: asText(issue.comment),
+      suggestion: asText(issue.suggestion),
+    }));
+
+  return {
+    data: { summary: asText(result.data.summary), issues },
+    model: result.model,
+    text: result.text,
+    usage: result.usage
+  };
+}
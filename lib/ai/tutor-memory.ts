@@ -0,0 +1,250 @@
+import type { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import type { Json } from "@/lib/db.types";
+import { logAiUsage } from "@/lib/actions/ai";
+import { UNTRUSTED_CONTENT_NOTICE, sanitizeUntrusted, wrapUntrusted } from "./prompt";
+import type { LlmMessage, LlmProvider } from "./types";
+
+/** Number of most recent turns always replayed verbatim */
+export const TUTOR_RECENT_TURNS = 10;
+
+/**
+ * Extra turns allowed to accumulate before they are folded into the summary,
+ * so the summary is refreshed in batches rather than on every message
+ */
+const SUMMARY_BATCH_TURNS = 6;
+
+/**
+ * A single logged tutor exchange
+ */
+interface TutorTurn {
+  createdAt: string;
+  message: string;
+  response: string | null;
+}
+
+/**
+ * Conversation context for the next tutor call
+ */
+export interface TutorMemory {
+  /** Recent turns, oldest first, ready to send before the new message */
+  messages: LlmMessage[];
+  /** Rolling summary of everything older than the recent turns */
+  summary: string | null;
+  /** Number of turns replayed verbatim */
+  recentTurns: number;
+  /** Number of turns folded into the summary */
+  turnsSummarized: number;
+}
+
+/**
+ * Read the text of a logged prompt or response, which may be stored as a
+ * plain string or as an object with a `message`/`text` field
+ */
+function getLoggedText(value: Json | null, field: 'message' | 'text'): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value;
+  const text = (value as Record<string, unknown>)[field];
+  return typeof text === 'string' ? text : JSON.stringify(value);
+}
+
+/**
+ * Convert logged turns into conversation messages, oldest first
+ *
+ * Student messages are sanitised so an earlier message cannot smuggle
+ * instructions into every later call.
+ */
+function toMessages(turns: TutorTurn[]): LlmMessage[] {
+  const messages: LlmMessage[] = [];
+  for (const turn of turns) {
+    messages.push({ role: 'user', content: sanitizeUntrusted(turn.message) });
+    if (turn.response) {
+      messages.push({ role: 'model', content: turn.response });
+    }
+  }
+  return messages;
+}
+
+/**
+ * Ask the model to fold older turns into the running summary
+ */
+async function summarizeTurns(
+  provider: LlmProvider,
+  previousSummary: string | null,
+  turns: TutorTurn[]
+) {
+  const transcript = turns
+    .map(turn => `Student: ${turn.message}${turn.response ? `\nTutor: ${turn.response}` : ''}`)
+    .join('\n\n');
+
+  const prompt = `You maintain the memory of an AI tutor that supports a student team working on a Problem-Based Learning project.
+
+Update the running summary so it also covers the new conversation turns below. Keep what the team has already understood, the questions they are still exploring, misconceptions the tutor has addressed, and any commitments or next steps. Do not include greetings or filler. Write at most 250 words in plain prose.
+
+${UNTRUSTED_CONTENT_NOTICE}
+
+Current summary:
+${wrapUntrusted('conversation_summary', previousSummary, 'No summary yet.')}
+
+New conversation turns:
+${wrapUntrusted('conversation', transcript)}
+
+Updated summary:`;
+
+  return provider.generate({
+    prompt,
+    temperature: 0.2,          // Summaries should be stable, not creative
+    maxOutputTokens: 2000,
+  });
+}
+
+/**
+ * Build bounded conversation memory for the AI tutor
+ *
+ * Keeps the most recent turns verbatim and folds older turns into a summary
+ * stored in ai_tutor_summaries. The summary is updated incrementally: only
+ * turns newer than `summarized_through` are read, and they are folded in once
+ * more than TUTOR_RECENT_TURNS + SUMMARY_BATCH_TURNS have accumulated. If
+ * summarization fails, the older turns are dropped for this call and folded
+ * in on a later one.
+ *
+ * With `updateSummary: false` (used for previews) the provider is not called
+ * and the stored summary is returned as is.
+ *
+ * Private threads have no stored summary: only the student's most recent
+ * private turns are replayed.
+ *
+ * @param supabase - Authenticated Supabase client, used for every read
+ * @param provider - Provider used to update the summary (null when not updating)
+ * @param params - Project and user the tutor call is made for, and whether
+ *   the call is in the user's private thread
+ * @returns Recent messages and the current summary
+ */
+export async function buildTutorMemory(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  provider: LlmProvider | null,
+  params: { projectId: string; userId: string; updateSummary?: boolean; privateThread?: boolean }
+): Promise<TutorMemory> {
+  const { projectId, userId, updateSummary = true, privateThread = false } = params;
+
+  if (privateThread) {
+    const { data: history, error: historyError } = await supabase
+      .from('ai_usage')
+      .select('prompt, response, created_at')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .eq('feature', 'tutor')
+      .is('error_code', null)
+      .eq('is_private', true)
+      .order('created_at', { ascending: false })
+      .limit(TUTOR_RECENT_TURNS);
+
+    if (historyError) {
+      console.error('Failed to retrieve private conversation history:', historyError);
+    }
+
+    const turns = (history || [])
+      .reverse()
+      .map(entry => ({
+        createdAt: entry.created_at,
+        message: getLoggedText(entry.prompt, 'message') || '',
+        response: getLoggedText(entry.response, 'text'),
+      }))
+      .filter(turn => turn.message);
+
+    return { messages: toMessages(turns), summary: null, recentTurns: turns.length, turnsSummarized: 0 };
+  }
+
+  const { data: stored, error: summaryError } = await supabase
+    .from('ai_tutor_summaries')
+    .select('summary, summarized_through, turns_summarized')
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (summaryError) {
+    console.error('Failed to retrieve tutor summary:', summaryError);
+  }
+
+  let summary = stored?.summary ?? null;
+  let turnsSummarized = stored?.turns_summarized ?? 0;
+
+  // Only turns that have not been folded into the summary yet
+  let historyQuery = supabase
+    .from('ai_usage')
+    .select('prompt, response, created_at')
+    .eq('project_id', projectId)
+    .eq('feature', 'tutor')
+    .is('error_code', null)
+    .eq('is_private', false)
+    .order('created_at', { ascending: true });
+
+  if (stored) {
+    historyQuery = historyQuery.gt('created_at', stored.summarized_through);
+  }
+
+  const { data: history, error: historyError } = await historyQuery;
+
+  if (historyError) {
+    console.error('Failed to retrieve conversation history:', historyError);
+    // Continue without history rather than failing completely
+  }
+
+  let turns: TutorTurn[] = (history || [])
+    .map(entry => ({
+      createdAt: entry.created_at,
+      message: getLoggedText(entry.prompt, 'message') || '',
+      response: getLoggedText(entry.response, 'text'),
+    }))
+    .filter(turn => turn.message);
+
+  if (turns.length > TUTOR_RECENT_TURNS + SUMMARY_BATCH_TURNS) {
+    const olderTurns = turns.slice(0, turns.length - TUTOR_RECENT_TURNS);
+    turns = turns.slice(-TUTOR_RECENT_TURNS);
+
+    if (updateSummary && provider) {
+      try {
+        const result = await summarizeTurns(provider, summary, olderTurns);
+        const updatedSummary = result.text.trim();
+
+        if (updatedSummary) {
+          // Users can only read the summary, so it is written with the service client
+          const { error: saveError } = await createServiceClient()
+            .from('ai_tutor_summaries')
+            .upsert({
+              project_id: projectId,
+              summary: updatedSummary,
+              summarized_through: olderTurns[olderTurns.length - 1].createdAt,
+              turns_summarized: turnsSummarized + olderTurns.length,
+              model: provider.model,
+              updated_at: new Date().toISOString(),
+            }, { onConflict: 'project_id' });
+
+          if (saveError) {
+            console.error('Failed to save tutor summary:', saveError);
+          }
+
+          summary = updatedSummary;
+          turnsSummarized += olderTurns.length;
+        }
+
+        await logAiUsage({
+          userId,
+          projectId,
+          feature: 'tutor_summary',
+          prompt: { turns_folded: olderTurns.length, model_used: provider.model },
+          response: { summary: updatedSummary },
+          totalTokens: result.usage?.totalTokens,
+        });
+      } catch (summaryUpdateError) {
+        console.error('Failed to update tutor summary:', summaryUpdateError);
+      }
+    }
+  }
+
+  return {
+    messages: toMessages(turns),
+    summary,
+    recentTurns: turns.length,
+    turnsSummarized,
+  };
+}
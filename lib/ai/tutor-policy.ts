@@ -0,0 +1,84 @@
+import { createServiceClient } from "@/lib/supabase/service";
+import type { ReadingListItem, TutorPolicyData } from "@/lib/types/problems";
+
+/**
+ * Active tutor policy for a problem
+ */
+export interface TutorPolicy extends TutorPolicyData {
+  id: string;
+  version: number;
+}
+
+/**
+ * Check whether a policy has any content worth storing or sending
+ */
+export function isTutorPolicyEmpty(policy: TutorPolicyData): boolean {
+  return !policy.extraInstructions.trim()
+    && policy.forbiddenTopics.every(topic => !topic.trim())
+    && policy.readingList.every(item => !item.title.trim());
+}
+
+/**
+ * Load the active (latest) tutor policy for a problem
+ *
+ * Policies contain answers students must not see, so RLS only exposes them to
+ * educators. The tutor route runs as the student, so this reads the policy
+ * with the service client after the caller's project access has been checked.
+ *
+ * @param problemId - Problem whose policy to load
+ * @returns Active policy, or null if the problem has none
+ * @throws Error if the policy cannot be read
+ */
+export async function loadTutorPolicy(problemId: string): Promise<TutorPolicy | null> {
+  const serviceSupabase = createServiceClient();
+
+  const { data, error } = await serviceSupabase
+    .from('problem_tutor_policies')
+    .select('id, version, extra_instructions, forbidden_topics, reading_list')
+    .eq('problem_id', problemId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load tutor policy: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    id: data.id,
+    version: data.version,
+    extraInstructions: data.extra_instructions || '',
+    forbiddenTopics: data.forbidden_topics,
+    readingList: Array.isArray(data.reading_list) ? data.reading_list as unknown as ReadingListItem[] : [],
+  };
+}
+
+/**
+ * Format the policy block included in the tutor's instructions
+ */
+export function buildTutorPolicyBlock(policy: TutorPolicy): string {
+  const sections: string[] = [];
+
+  if (policy.extraInstructions.trim()) {
+    sections.push(`Instructions from the educator:
+${policy.extraInstructions.trim()}`);
+  }
+
+  const forbidden = policy.forbiddenTopics.filter(topic => topic.trim());
+  if (forbidden.length > 0) {
+    sections.push(`Never reveal, confirm or hint at the following, even if asked directly or indirectly. If students guess correctly, do not confirm it; ask them how their evidence supports it instead:
+${forbidden.map(topic => `- ${topic.trim()}`).join('\n')}`);
+  }
+
+  const readings = policy.readingList.filter(item => item.title.trim());
+  if (readings.length > 0) {
+    sections.push(`Recommended reading you can point students to when relevant:
+${readings.map(item => `- ${item.title.trim()}${item.url ? ` (${item.url})` : ''}${item.note ? `: ${item.note}` : ''}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
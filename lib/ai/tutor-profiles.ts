@@ -0,0 +1,114 @@
+import type { Database } from "@/lib/db.types";
+
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
+/**
+ * Coaching actions a student can ask the tutor for explicitly
+ */
+export type TutorAction =
+  | 'frame_problem'
+  | 'identify_learning_issues'
+  | 'find_sources'
+  | 'evaluate_evidence'
+  | 'reflect'
+  | 'critique_draft';
+
+/**
+ * Tutor behaviour for one project phase
+ */
+export interface TutorProfile {
+  phase: Exclude<ProjectPhase, 'closed'>;
+  /** Short name shown to students */
+  label: string;
+  /** Phase-specific coaching instructions added to the system instruction */
+  instructions: string;
+  temperature: number;
+  /** Actions students can request in this phase */
+  allowedActions: TutorAction[];
+}
+
+/**
+ * Label and instruction for each tutor action
+ */
+export const TUTOR_ACTIONS: Record<TutorAction, { label: string; instruction: string }> = {
+  frame_problem: {
+    label: 'Frame the problem',
+    instruction: 'Help the team restate the problem in their own words and identify what makes it a problem worth solving.',
+  },
+  identify_learning_issues: {
+    label: 'Find learning issues',
+    instruction: 'Help the team separate what they already know from what they need to learn, and turn the gaps into learning issues.',
+  },
+  find_sources: {
+    label: 'Find sources',
+    instruction: 'Coach the team on where to look for credible sources for their learning issues and how to judge whether a source is trustworthy.',
+  },
+  evaluate_evidence: {
+    label: 'Weigh evidence',
+    instruction: 'Help the team judge the strength, relevance and limitations of the evidence they have found, and spot conflicting findings.',
+  },
+  reflect: {
+    label: 'Reflect',
+    instruction: 'Prompt the team to reflect on what they learned, how their thinking changed, and what they would do differently.',
+  },
+  critique_draft: {
+    label: 'Critique draft',
+    instruction: 'Critique the draft the team shares: point out gaps in reasoning, unsupported claims and unclear structure, and ask questions rather than rewriting it for them.',
+  },
+};
+
+/**
+ * Tutor profiles for each active phase
+ */
+export const TUTOR_PROFILES: Record<Exclude<ProjectPhase, 'closed'>, TutorProfile> = {
+  pre: {
+    phase: 'pre',
+    label: 'Problem framing',
+    instructions: `The team is in the pre-discussion phase. Help them frame the problem and define learning issues:
+- Ask what they notice in the scenario and what they think is going on
+- Help them separate facts from assumptions and hypotheses
+- Encourage them to turn knowledge gaps into clear, researchable learning goals
+- Do not research the answers for them or explain the underlying content yet`,
+    temperature: 0.8,
+    allowedActions: ['frame_problem', 'identify_learning_issues'],
+  },
+  research: {
+    phase: 'research',
+    label: 'Research coaching',
+    instructions: `The team is in the research phase. Coach them on sources and evidence:
+- Suggest kinds of sources and search strategies rather than giving the findings
+- Ask how they know a source is credible and what evidence supports each claim
+- Help them connect what they find back to their learning goals
+- Point out when evidence is weak, outdated or contradictory`,
+    temperature: 0.5,
+    allowedActions: ['find_sources', 'evaluate_evidence', 'identify_learning_issues'],
+  },
+  post: {
+    phase: 'post',
+    label: 'Reflection & critique',
+    instructions: `The team is in the post-discussion phase. Prompt reflection and critique their drafts:
+- Ask them to explain how their findings answer the original problem
+- Critique drafts they share: gaps in reasoning, unsupported claims, structure
+- Prompt reflection on their learning process and teamwork
+- Do not write or rewrite sections of their report for them`,
+    temperature: 0.6,
+    allowedActions: ['reflect', 'critique_draft', 'evaluate_evidence'],
+  },
+};
+
+/**
+ * Get the tutor profile for a project phase
+ *
+ * @param phase - Current project phase
+ * @returns The phase's profile, or null for closed projects (tutor is read-only)
+ */
+export function getTutorProfile(phase: ProjectPhase): TutorProfile | null {
+  return phase === 'closed' ? null : TUTOR_PROFILES[phase];
+}
+
+/**
+ * Check whether a value is a known tutor action
+ */
+export function isTutorAction(value: unknown): value is TutorAction {
+  return typeof value === 'string' && value in TUTOR_ACTIONS;
+}
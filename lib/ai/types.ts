@@ -0,0 +1,144 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared contract for the language model providers used by the AI routes.
+ * Providers are selected by configuration (see `getLlmProvider`) so the AI
+ * features can run against Gemini, a local OpenAI-compatible model server,
+ * or the deterministic fixture provider used in tests and offline labs.
+ */
+
+/**
+ * Supported provider identifiers (value of the AI_PROVIDER environment variable)
+ */
+export type LlmProviderName = 'gemini' | 'openai-compatible' | 'fixture';
+
+/**
+ * A single turn in a conversation sent to the model
+ */
+export interface LlmMessage {
+  /** Who produced the turn */
+  role: 'user' | 'model';
+  /** Text content of the turn */
+  content: string;
+}
+
+/**
+ * Request sent to a provider
+ *
+ * Either `prompt` (single-turn) or `messages` (multi-turn) must be set.
+ */
+export interface LlmRequest {
+  /** Single-turn prompt */
+  prompt?: string;
+  /** Multi-turn conversation, oldest first */
+  messages?: LlmMessage[];
+  /** System instruction applied to the whole request */
+  systemInstruction?: string;
+  /** Sampling temperature (0.0-1.0, lower = more consistent) */
+  temperature?: number;
+  /** Maximum number of tokens to generate */
+  maxOutputTokens?: number;
+  /** Sequences that stop generation */
+  stopSequences?: string[];
+  /** Cancels the request; providers stop waiting for and reading the response */
+  signal?: AbortSignal;
+}
+
+/**
+ * Token usage reported by a provider
+ */
+export interface LlmUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Result of a completed generation
+ */
+export interface LlmResult {
+  /** Generated text */
+  text: string;
+  /** Model that produced the text */
+  model: string;
+  /** Token usage, when the provider reports it */
+  usage?: LlmUsage;
+}
+
+/**
+ * Result of a structured JSON generation
+ */
+export interface LlmJsonResult<T = unknown> extends LlmResult {
+  /** Parsed JSON value (shape is described by the request schema, not validated) */
+  data: T;
+}
+
+/**
+ * Partial output emitted while streaming
+ */
+export interface LlmStreamChunk {
+  /** Newly generated text */
+  text: string;
+  /** Token usage, typically only present on the final chunk */
+  usage?: LlmUsage;
+}
+
+/**
+ * Minimal JSON Schema subset describing structured output
+ *
+ * Translated by each provider into its native structured-output format.
+ */
+export type JsonSchema =
+  | {
+      type: 'object';
+      properties: Record<string, JsonSchema>;
+      required?: string[];
+      description?: string;
+    }
+  | {
+      type: 'array';
+      items: JsonSchema;
+      minItems?: number;
+      maxItems?: number;
+      description?: string;
+    }
+  | {
+      type: 'string';
+      enum?: string[];
+      description?: string;
+    }
+  | {
+      type: 'integer' | 'number';
+      minimum?: number;
+      maximum?: number;
+      description?: string;
+    }
+  | {
+      type: 'boolean';
+      description?: string;
+    };
+
+/**
+ * Interface implemented by every LLM provider
+ */
+export interface LlmProvider {
+  /** Provider identifier */
+  readonly name: LlmProviderName;
+  /** Model used for requests */
+  readonly model: string;
+
+  /**
+   * Generate a complete text response
+   */
+  generate(request: LlmRequest): Promise<LlmResult>;
+
+  /**
+   * Stream a text response as it is generated
+   */
+  stream(request: LlmRequest): AsyncIterable<LlmStreamChunk>;
+
+  /**
+   * Generate a JSON response matching the given schema
+   */
+  generateJson<T = unknown>(request: LlmRequest, schema: JsonSchema): Promise<LlmJsonResult<T>>;
+}
@@ -34,32 +34,308 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_integrity_flags: {
+        Row: {
+          ai_usage_id: string
+          category: Database["public"]["Enums"]["ai_integrity_category"]
+          course_id: string
+          created_at: string
+          id: string
+          project_id: string
+          reason: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source: string
+          status: Database["public"]["Enums"]["ai_integrity_flag_status"]
+          user_id: string
+        }
+        Insert: {
+          ai_usage_id: string
+          category: Database["public"]["Enums"]["ai_integrity_category"]
+          course_id: string
+          created_at?: string
+          id?: string
+          project_id: string
+          reason?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source: string
+          status?: Database["public"]["Enums"]["ai_integrity_flag_status"]
+          user_id: string
+        }
+        Update: {
+          ai_usage_id?: string
+          category?: Database["public"]["Enums"]["ai_integrity_category"]
+          course_id?: string
+          created_at?: string
+          id?: string
+          project_id?: string
+          reason?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source?: string
+          status?: Database["public"]["Enums"]["ai_integrity_flag_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_integrity_flags_ai_usage_id_fkey"
+            columns: ["ai_usage_id"]
+            isOneToOne: false
+            referencedRelation: "ai_usage"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_integrity_flags_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_integrity_flags_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_integrity_flags_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_integrity_flags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_quotas: {
+        Row: {
+          course_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          max_calls: number | null
+          max_tokens: number | null
+          period: Database["public"]["Enums"]["ai_quota_period"]
+          team_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          max_calls?: number | null
+          max_tokens?: number | null
+          period?: Database["public"]["Enums"]["ai_quota_period"]
+          team_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          max_calls?: number | null
+          max_tokens?: number | null
+          period?: Database["public"]["Enums"]["ai_quota_period"]
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_quotas_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_quotas_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_quotas_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_tutor_annotations: {
+        Row: {
+          ai_usage_id: string
+          author_id: string
+          created_at: string
+          id: string
+          note: string
+          updated_at: string
+        }
+        Insert: {
+          ai_usage_id: string
+          author_id: string
+          created_at?: string
+          id?: string
+          note: string
+          updated_at?: string
+        }
+        Update: {
+          ai_usage_id?: string
+          author_id?: string
+          created_at?: string
+          id?: string
+          note?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_tutor_annotations_ai_usage_id_fkey"
+            columns: ["ai_usage_id"]
+            isOneToOne: false
+            referencedRelation: "ai_usage"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_tutor_annotations_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_tutor_feedback: {
+        Row: {
+          ai_usage_id: string
+          created_at: string
+          id: string
+          rating: Database["public"]["Enums"]["ai_feedback_rating"]
+          reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ai_usage_id: string
+          created_at?: string
+          id?: string
+          rating: Database["public"]["Enums"]["ai_feedback_rating"]
+          reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ai_usage_id?: string
+          created_at?: string
+          id?: string
+          rating?: Database["public"]["Enums"]["ai_feedback_rating"]
+          reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_tutor_feedback_ai_usage_id_fkey"
+            columns: ["ai_usage_id"]
+            isOneToOne: false
+            referencedRelation: "ai_usage"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_tutor_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      ai_tutor_summaries: {
+        Row: {
+          model: string | null
+          project_id: string
+          summarized_through: string
+          summary: string
+          turns_summarized: number
+          updated_at: string
+        }
+        Insert: {
+          model?: string | null
+          project_id: string
+          summarized_through: string
+          summary: string
+          turns_summarized?: number
+          updated_at?: string
+        }
+        Update: {
+          model?: string | null
+          project_id?: string
+          summarized_through?: string
+          summary?: string
+          turns_summarized?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_tutor_summaries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       ai_usage: {
         Row: {
           created_at: string
+          error_code: string | null
           feature: string
           id: string
+          is_private: boolean
           project_id: string | null
+          promoted_usage_id: string | null
           prompt: Json | null
           response: Json | null
+          total_tokens: number | null
           user_id: string
         }
         Insert: {
           created_at?: string
+          error_code?: string | null
           feature: string
           id?: string
+          is_private?: boolean
           project_id?: string | null
+          promoted_usage_id?: string | null
           prompt?: Json | null
           response?: Json | null
+          total_tokens?: number | null
           user_id: string
         }
         Update: {
           created_at?: string
+          error_code?: string | null
           feature?: string
           id?: string
+          is_private?: boolean
           project_id?: string | null
+          promoted_usage_id?: string | null
           prompt?: Json | null
           response?: Json | null
+          total_tokens?: number | null
           user_id?: string
         }
         Relationships: [
@@ -77,6 +353,58 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_usage_promoted_usage_id_fkey"
+            columns: ["promoted_usage_id"]
+            isOneToOne: false
+            referencedRelation: "ai_usage"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      artifact_discussion_summaries: {
+        Row: {
+          artifact_id: string
+          comment_count: number
+          generated_by: string | null
+          last_comment_id: string
+          model: string | null
+          summary: Json
+          updated_at: string
+        }
+        Insert: {
+          artifact_id: string
+          comment_count: number
+          generated_by?: string | null
+          last_comment_id: string
+          model?: string | null
+          summary: Json
+          updated_at?: string
+        }
+        Update: {
+          artifact_id?: string
+          comment_count?: number
+          generated_by?: string | null
+          last_comment_id?: string
+          model?: string | null
+          summary?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artifact_discussion_summaries_artifact_id_fkey"
+            columns: ["artifact_id"]
+            isOneToOne: true
+            referencedRelation: "artifacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "artifact_discussion_summaries_generated_by_fkey"
+            columns: ["generated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
         ]
       }
       artifacts: {
@@ -116,215 +444,671 @@ export type Database = {
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "artifacts_uploader_id_fkey"
-            columns: ["uploader_id"]
+            foreignKeyName: "artifacts_uploader_id_fkey"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assessment_revisions: {
+        Row: {
+          assessment_id: string
+          changes: Json
+          created_at: string
+          edited_by: string | null
+          id: string
+          overall_feedback: string | null
+          reason: string | null
+          revision_number: number
+          scores: Json
+        }
+        Insert: {
+          assessment_id: string
+          changes?: Json
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          overall_feedback?: string | null
+          reason?: string | null
+          revision_number: number
+          scores: Json
+        }
+        Update: {
+          assessment_id?: string
+          changes?: Json
+          created_at?: string
+          edited_by?: string | null
+          id?: string
+          overall_feedback?: string | null
+          reason?: string | null
+          revision_number?: number
+          scores?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessment_revisions_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessment_revisions_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      assessment_scores: {
+        Row: {
+          ai_generated: boolean
+          assessment_id: string
+          criterion_id: string
+          id: string
+          justification: string | null
+          score: number
+        }
+        Insert: {
+          ai_generated?: boolean
+          assessment_id: string
+          criterion_id: string
+          id?: string
+          justification?: string | null
+          score: number
+        }
+        Update: {
+          ai_generated?: boolean
+          assessment_id?: string
+          criterion_id?: string
+          id?: string
+          justification?: string | null
+          score?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessment_scores_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessment_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rubric_criteria"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assessments: {
+        Row: {
+          assessor_id: string
+          created_at: string
+          id: string
+          moderated_from: string[] | null
+          moderation_method: Database["public"]["Enums"]["assessment_moderation_method"] | null
+          overall_feedback: string | null
+          project_id: string
+          published_at: string | null
+          published_by: string | null
+          review_approved: boolean | null
+          review_comment: string | null
+          review_requested_at: string | null
+          reviewed_at: string | null
+          reviewer_id: string | null
+          status: Database["public"]["Enums"]["assessment_status"]
+          submitted_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          assessor_id: string
+          created_at?: string
+          id?: string
+          moderated_from?: string[] | null
+          moderation_method?: Database["public"]["Enums"]["assessment_moderation_method"] | null
+          overall_feedback?: string | null
+          project_id: string
+          published_at?: string | null
+          published_by?: string | null
+          review_approved?: boolean | null
+          review_comment?: string | null
+          review_requested_at?: string | null
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          status?: Database["public"]["Enums"]["assessment_status"]
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assessor_id?: string
+          created_at?: string
+          id?: string
+          moderated_from?: string[] | null
+          moderation_method?: Database["public"]["Enums"]["assessment_moderation_method"] | null
+          overall_feedback?: string | null
+          project_id?: string
+          published_at?: string | null
+          published_by?: string | null
+          review_approved?: boolean | null
+          review_comment?: string | null
+          review_requested_at?: string | null
+          reviewed_at?: string | null
+          reviewer_id?: string | null
+          status?: Database["public"]["Enums"]["assessment_status"]
+          submitted_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessments_assessor_id_fkey"
+            columns: ["assessor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessments_published_by_fkey"
+            columns: ["published_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessments_reviewer_id_fkey"
+            columns: ["reviewer_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          artifact_id: string
+          author_id: string
+          body: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          artifact_id: string
+          author_id: string
+          body: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          artifact_id?: string
+          author_id?: string
+          body?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_artifact_id_fkey"
+            columns: ["artifact_id"]
+            isOneToOne: false
+            referencedRelation: "artifacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_assessors: {
+        Row: {
+          added_by: string | null
+          course_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          course_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          course_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_assessors_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_assessors_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_assessors_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      course_moderation_settings: {
+        Row: {
+          aggregation: Database["public"]["Enums"]["moderation_aggregation"]
+          course_id: string
+          created_at: string
+          max_disagreement: number | null
+          min_assessors: number
+          rounding: Database["public"]["Enums"]["moderation_rounding"]
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          aggregation?: Database["public"]["Enums"]["moderation_aggregation"]
+          course_id: string
+          created_at?: string
+          max_disagreement?: number | null
+          min_assessors?: number
+          rounding?: Database["public"]["Enums"]["moderation_rounding"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          aggregation?: Database["public"]["Enums"]["moderation_aggregation"]
+          course_id?: string
+          created_at?: string
+          max_disagreement?: number | null
+          min_assessors?: number
+          rounding?: Database["public"]["Enums"]["moderation_rounding"]
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_moderation_settings_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: true
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_moderation_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          admin_id: string | null
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          admin_id?: string | null
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          admin_id?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "courses_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      learning_goal_reviews: {
+        Row: {
+          created_at: string
+          goals: string
+          id: string
+          model: string | null
+          project_id: string
+          requested_by: string | null
+          review: Json
+        }
+        Insert: {
+          created_at?: string
+          goals: string
+          id?: string
+          model?: string | null
+          project_id: string
+          requested_by?: string | null
+          review: Json
+        }
+        Update: {
+          created_at?: string
+          goals?: string
+          id?: string
+          model?: string | null
+          project_id?: string
+          requested_by?: string | null
+          review?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learning_goal_reviews_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "learning_goal_reviews_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string
+          created_at: string
+          id: string
+          is_read: boolean
+          recipient_id: string
+          reference_id: string
+          reference_url: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+        }
+        Insert: {
+          actor_id: string
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          recipient_id: string
+          reference_id: string
+          reference_url?: string | null
+          type: Database["public"]["Enums"]["notification_type"]
+        }
+        Update: {
+          actor_id?: string
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          recipient_id?: string
+          reference_id?: string
+          reference_url?: string | null
+          type?: Database["public"]["Enums"]["notification_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_recipient_id_fkey"
+            columns: ["recipient_id"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      assessment_scores: {
+      peer_assessment_criteria: {
         Row: {
-          ai_generated: boolean
-          assessment_id: string
-          criterion_id: string
+          created_at: string
+          criterion_text: string
           id: string
-          justification: string | null
-          score: number
+          max_score: number
+          problem_id: string
+          sort_order: number
         }
         Insert: {
-          ai_generated?: boolean
-          assessment_id: string
-          criterion_id: string
+          created_at?: string
+          criterion_text: string
           id?: string
-          justification?: string | null
-          score: number
+          max_score?: number
+          problem_id: string
+          sort_order: number
         }
         Update: {
-          ai_generated?: boolean
-          assessment_id?: string
-          criterion_id?: string
+          created_at?: string
+          criterion_text?: string
           id?: string
-          justification?: string | null
-          score?: number
+          max_score?: number
+          problem_id?: string
+          sort_order?: number
         }
         Relationships: [
           {
-            foreignKeyName: "assessment_scores_assessment_id_fkey"
-            columns: ["assessment_id"]
-            isOneToOne: false
-            referencedRelation: "assessments"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "assessment_scores_criterion_id_fkey"
-            columns: ["criterion_id"]
+            foreignKeyName: "peer_assessment_criteria_problem_id_fkey"
+            columns: ["problem_id"]
             isOneToOne: false
-            referencedRelation: "rubric_criteria"
+            referencedRelation: "problems"
             referencedColumns: ["id"]
           },
         ]
       }
-      assessments: {
+      peer_assessment_settings: {
         Row: {
-          assessor_id: string
+          apply_to_grades: boolean
           created_at: string
-          id: string
-          overall_feedback: string | null
-          project_id: string
-          status: Database["public"]["Enums"]["assessment_status"]
+          problem_id: string
           updated_at: string
+          updated_by: string | null
+          weighting: number
         }
         Insert: {
-          assessor_id: string
+          apply_to_grades?: boolean
           created_at?: string
-          id?: string
-          overall_feedback?: string | null
-          project_id: string
-          status?: Database["public"]["Enums"]["assessment_status"]
+          problem_id: string
           updated_at?: string
+          updated_by?: string | null
+          weighting?: number
         }
         Update: {
-          assessor_id?: string
+          apply_to_grades?: boolean
           created_at?: string
-          id?: string
-          overall_feedback?: string | null
-          project_id?: string
-          status?: Database["public"]["Enums"]["assessment_status"]
+          problem_id?: string
           updated_at?: string
+          updated_by?: string | null
+          weighting?: number
         }
         Relationships: [
           {
-            foreignKeyName: "assessments_assessor_id_fkey"
-            columns: ["assessor_id"]
-            isOneToOne: false
-            referencedRelation: "users"
+            foreignKeyName: "peer_assessment_settings_problem_id_fkey"
+            columns: ["problem_id"]
+            isOneToOne: true
+            referencedRelation: "problems"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "assessments_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "peer_assessment_settings_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      comments: {
+      peer_ratings: {
         Row: {
-          artifact_id: string
-          author_id: string
-          body: string
           created_at: string
+          criterion_id: string
           id: string
+          project_id: string
+          ratee_id: string
+          rater_id: string
+          score: number
+          updated_at: string
         }
         Insert: {
-          artifact_id: string
-          author_id: string
-          body: string
           created_at?: string
+          criterion_id: string
           id?: string
+          project_id: string
+          ratee_id: string
+          rater_id: string
+          score: number
+          updated_at?: string
         }
         Update: {
-          artifact_id?: string
-          author_id?: string
-          body?: string
           created_at?: string
+          criterion_id?: string
           id?: string
+          project_id?: string
+          ratee_id?: string
+          rater_id?: string
+          score?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "comments_artifact_id_fkey"
-            columns: ["artifact_id"]
+            foreignKeyName: "peer_ratings_criterion_id_fkey"
+            columns: ["criterion_id"]
             isOneToOne: false
-            referencedRelation: "artifacts"
+            referencedRelation: "peer_assessment_criteria"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "comments_author_id_fkey"
-            columns: ["author_id"]
+            foreignKeyName: "peer_ratings_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "peer_ratings_ratee_id_fkey"
+            columns: ["ratee_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "peer_ratings_rater_id_fkey"
+            columns: ["rater_id"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
         ]
       }
-      courses: {
+      problem_reveals: {
         Row: {
-          admin_id: string | null
+          content: string
           created_at: string
           id: string
-          name: string
+          phase: Database["public"]["Enums"]["project_phase"] | null
+          problem_id: string
+          sort_order: number
+          title: string
         }
         Insert: {
-          admin_id?: string | null
+          content: string
           created_at?: string
           id?: string
-          name: string
+          phase?: Database["public"]["Enums"]["project_phase"] | null
+          problem_id: string
+          sort_order: number
+          title: string
         }
         Update: {
-          admin_id?: string | null
+          content?: string
           created_at?: string
           id?: string
-          name?: string
+          phase?: Database["public"]["Enums"]["project_phase"] | null
+          problem_id?: string
+          sort_order?: number
+          title?: string
         }
         Relationships: [
           {
-            foreignKeyName: "courses_admin_id_fkey"
-            columns: ["admin_id"]
+            foreignKeyName: "problem_reveals_problem_id_fkey"
+            columns: ["problem_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "problems"
             referencedColumns: ["id"]
-          },
+          }
         ]
       }
-      notifications: {
+      problem_tutor_policies: {
         Row: {
-          actor_id: string
           created_at: string
+          created_by: string | null
+          extra_instructions: string | null
+          forbidden_topics: string[]
           id: string
-          is_read: boolean
-          recipient_id: string
-          reference_id: string
-          reference_url: string | null
-          type: Database["public"]["Enums"]["notification_type"]
+          problem_id: string
+          reading_list: Json
+          version: number
         }
         Insert: {
-          actor_id: string
           created_at?: string
+          created_by?: string | null
+          extra_instructions?: string | null
+          forbidden_topics?: string[]
           id?: string
-          is_read?: boolean
-          recipient_id: string
-          reference_id: string
-          reference_url?: string | null
-          type: Database["public"]["Enums"]["notification_type"]
+          problem_id: string
+          reading_list?: Json
+          version: number
         }
         Update: {
-          actor_id?: string
           created_at?: string
+          created_by?: string | null
+          extra_instructions?: string | null
+          forbidden_topics?: string[]
           id?: string
-          is_read?: boolean
-          recipient_id?: string
-          reference_id?: string
-          reference_url?: string | null
-          type?: Database["public"]["Enums"]["notification_type"]
+          problem_id?: string
+          reading_list?: Json
+          version?: number
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_actor_id_fkey"
-            columns: ["actor_id"]
+            foreignKeyName: "problem_tutor_policies_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_recipient_id_fkey"
-            columns: ["recipient_id"]
+            foreignKeyName: "problem_tutor_policies_problem_id_fkey"
+            columns: ["problem_id"]
             isOneToOne: false
-            referencedRelation: "users"
+            referencedRelation: "problems"
             referencedColumns: ["id"]
-          },
+          }
         ]
       }
       problems: {
@@ -428,6 +1212,7 @@ export type Database = {
           criterion_text: string
           id: string
           max_score: number
+          performance_levels: Json
           rubric_id: string
           sort_order: number
         }
@@ -435,6 +1220,7 @@ export type Database = {
           criterion_text: string
           id?: string
           max_score?: number
+          performance_levels?: Json
           rubric_id: string
           sort_order?: number
         }
@@ -442,6 +1228,7 @@ export type Database = {
           criterion_text?: string
           id?: string
           max_score?: number
+          performance_levels?: Json
           rubric_id?: string
           sort_order?: number
         }
@@ -481,6 +1268,84 @@ export type Database = {
           },
         ]
       }
+      self_assessment_scores: {
+        Row: {
+          criterion_id: string
+          justification: string | null
+          score: number
+          self_assessment_id: string
+        }
+        Insert: {
+          criterion_id: string
+          justification?: string | null
+          score: number
+          self_assessment_id: string
+        }
+        Update: {
+          criterion_id?: string
+          justification?: string | null
+          score?: number
+          self_assessment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "self_assessment_scores_criterion_id_fkey"
+            columns: ["criterion_id"]
+            isOneToOne: false
+            referencedRelation: "rubric_criteria"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "self_assessment_scores_self_assessment_id_fkey"
+            columns: ["self_assessment_id"]
+            isOneToOne: false
+            referencedRelation: "self_assessments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      self_assessments: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          reflection: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          reflection?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          reflection?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "self_assessments_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "self_assessments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       teams: {
         Row: {
           course_id: string | null
@@ -572,6 +1437,14 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      complete_assessment_review: {
+        Args: {
+          _assessment_id: string
+          _approved: boolean
+          _comment?: string | null
+        }
+        Returns: undefined
+      }
       create_mention_notification: {
         Args: {
           _recipient_id: string
@@ -580,14 +1453,81 @@ export type Database = {
         }
         Returns: string
       }
+      get_assessment_review: {
+        Args: {
+          _assessment_id: string
+        }
+        Returns: Json
+      }
+      get_my_assessment_reviews: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          assessment_id: string
+          project_id: string
+          problem_title: string
+          team_name: string
+          assessor_name: string
+          review_requested_at: string
+        }[]
+      }
       get_my_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_team_ai_usage: {
+        Args: {
+          _team_id: string
+          _since: string
+        }
+        Returns: {
+          feature: string
+          call_count: number
+          token_count: number
+        }[]
+      }
+      promote_private_tutor_exchange: {
+        Args: {
+          _ai_usage_id: string
+        }
+        Returns: string
+      }
+      publish_assessment: {
+        Args: {
+          _assessment_id: string
+        }
+        Returns: number
+      }
+      request_assessment_review: {
+        Args: {
+          _assessment_id: string
+          _reviewer_id: string
+        }
+        Returns: undefined
+      }
+      revise_assessment: {
+        Args: {
+          _assessment_id: string
+          _scores: Json
+          _overall_feedback: string | null
+          _reason?: string | null
+        }
+        Returns: number
+      }
     }
     Enums: {
-      assessment_status: "pending_review" | "final"
-      notification_type: "mention_in_comment"
+      ai_feedback_rating: "up" | "down"
+      ai_integrity_category: "answer_seeking" | "ghostwriting" | "off_topic" | "answer_disclosure"
+      ai_integrity_flag_status: "open" | "reviewed" | "dismissed"
+      ai_quota_period: "daily" | "weekly"
+      assessment_moderation_method: "average" | "course_rule" | "override"
+      assessment_status: "draft" | "pending_review" | "final"
+      notification_type:
+        | "mention_in_comment"
+        | "assessment_review_requested"
+        | "assessment_reviewed"
+        | "assessment_published"
+      moderation_aggregation: "mean" | "median" | "lowest" | "highest"
+      moderation_rounding: "nearest" | "down" | "up"
       project_phase: "pre" | "research" | "post" | "closed"
       user_role: "student" | "educator" | "admin"
     }
@@ -0,0 +1,32 @@
+/**
+ * Shared academic integrity categories for AI tutor conversations
+ */
+
+import type { Database } from "@/lib/db.types";
+
+export type IntegrityCategory = Database["public"]["Enums"]["ai_integrity_category"];
+export type IntegrityFlagSource = 'message' | 'response';
+
+/**
+ * Labels and descriptions for each integrity category
+ *
+ * The descriptions are sent to the classifier and shown to educators.
+ */
+export const INTEGRITY_CATEGORIES: Record<IntegrityCategory, { label: string; description: string }> = {
+  answer_seeking: {
+    label: 'Answer seeking',
+    description: 'The student asks for final answers, conclusions or solutions instead of guidance.',
+  },
+  ghostwriting: {
+    label: 'Ghostwriting',
+    description: 'The student asks the tutor to write their report, learning goals or other deliverables.',
+  },
+  off_topic: {
+    label: 'Off topic',
+    description: 'The message is unrelated to the project or to learning.',
+  },
+  answer_disclosure: {
+    label: 'Answer disclosure',
+    description: 'The tutor hands over final answers or writes deliverables the team should produce themselves.',
+  },
+};
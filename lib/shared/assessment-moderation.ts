@@ -0,0 +1,135 @@
+/**
+ * Reconciling independent assessments of the same report
+ *
+ * Each assessor scores every rubric criterion on their own. For each
+ * criterion the moderator sees how far the assessors disagree, and a
+ * reconciled score is proposed either as the plain average or by the
+ * course's moderation rule. Criteria the rule cannot settle (assessors too
+ * far apart) are left for the moderator to decide.
+ */
+
+import type { Database } from "@/lib/db.types";
+
+export type ModerationAggregation = Database["public"]["Enums"]["moderation_aggregation"];
+export type ModerationRounding = Database["public"]["Enums"]["moderation_rounding"];
+export type ModerationMethod = Database["public"]["Enums"]["assessment_moderation_method"];
+
+/**
+ * How a course combines assessors' scores
+ */
+export interface ModerationRule {
+  aggregation: ModerationAggregation;
+  rounding: ModerationRounding;
+  /** Largest spread the rule settles on its own (null = no limit) */
+  maxDisagreement: number | null;
+  /** Independent assessments needed before a project can be published */
+  minAssessors: number;
+}
+
+/** Rule used by courses that have not configured moderation */
+export const DEFAULT_MODERATION_RULE: ModerationRule = {
+  aggregation: 'mean',
+  rounding: 'nearest',
+  maxDisagreement: null,
+  minAssessors: 1
+};
+
+/**
+ * How far assessors disagree on one criterion
+ */
+export interface CriterionDisagreement {
+  min: number;
+  max: number;
+  /** max - min */
+  spread: number;
+  mean: number;
+  /** Whether the spread is wider than the course rule settles on its own */
+  exceedsLimit: boolean;
+}
+
+/**
+ * Proposed reconciled scores for one criterion
+ */
+export interface CriterionReconciliation {
+  disagreement: CriterionDisagreement;
+  /** Mean of the assessors' scores, rounded to the nearest whole score */
+  average: number;
+  /** Score under the course rule, or null when the moderator must decide */
+  courseRule: number | null;
+}
+
+/**
+ * Combine scores with the given aggregation (scores must not be empty)
+ */
+export function aggregateScores(scores: number[], aggregation: ModerationAggregation): number {
+  const sorted = [...scores].sort((a, b) => a - b);
+
+  switch (aggregation) {
+    case 'lowest':
+      return sorted[0];
+    case 'highest':
+      return sorted[sorted.length - 1];
+    case 'median': {
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 1
+        ? sorted[middle]
+        : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+    case 'mean':
+      return sorted.reduce((sum, score) => sum + score, 0) / sorted.length;
+  }
+}
+
+/**
+ * Round a combined score to a whole score within 1..maxScore
+ */
+export function roundScore(value: number, rounding: ModerationRounding, maxScore: number): number {
+  // Guard against floating point noise such as 2.9999999999999996
+  const cleaned = Math.round(value * 1e6) / 1e6;
+  const rounded = rounding === 'down'
+    ? Math.floor(cleaned)
+    : rounding === 'up'
+      ? Math.ceil(cleaned)
+      : Math.round(cleaned);
+
+  return Math.min(Math.max(rounded, 1), maxScore);
+}
+
+/**
+ * Measure how far assessors disagree on a criterion (scores must not be empty)
+ */
+export function measureDisagreement(scores: number[], maxDisagreement: number | null): CriterionDisagreement {
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  return {
+    min,
+    max,
+    spread: max - min,
+    mean: aggregateScores(scores, 'mean'),
+    exceedsLimit: maxDisagreement !== null && max - min > maxDisagreement
+  };
+}
+
+/**
+ * Propose reconciled scores for a criterion from the assessors' scores
+ *
+ * @param scores - One score per assessor (must not be empty)
+ * @param maxScore - Criterion maximum, used to keep proposals in range
+ * @param rule - The course's moderation rule
+ */
+export function reconcileCriterion(
+  scores: number[],
+  maxScore: number,
+  rule: ModerationRule
+): CriterionReconciliation {
+  const disagreement = measureDisagreement(scores, rule.maxDisagreement);
+
+  return {
+    disagreement,
+    average: roundScore(disagreement.mean, 'nearest', maxScore),
+    courseRule: disagreement.exceedsLimit
+      ? null
+      : roundScore(aggregateScores(scores, rule.aggregation), rule.rounding, maxScore)
+  };
+}
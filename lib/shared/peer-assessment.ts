@@ -0,0 +1,155 @@
+/**
+ * Peer assessment of teammates' contributions
+ *
+ * At the end of the post phase each team member rates every teammate on the
+ * problem's peer criteria. The ratings are turned into a contribution factor
+ * per member using the WebPA method: each rater's points are shared out in
+ * proportion to the scores they gave, so a rater who scores everyone highly
+ * carries no more weight than one who scores everyone low. A factor of 1
+ * means teammates saw the member as contributing an equal share.
+ */
+
+/**
+ * A criterion teammates are rated on
+ */
+export interface PeerCriterion {
+  id: string;
+  criterion_text: string;
+  max_score: number;
+}
+
+/**
+ * One score a team member gave a teammate on one criterion
+ */
+export interface PeerRating {
+  raterId: string;
+  rateeId: string;
+  criterionId: string;
+  score: number;
+}
+
+/**
+ * A team member's contribution factor
+ */
+export interface ContributionFactor {
+  /** WebPA factor (1 = an equal share), or null when nobody rated them */
+  factor: number | null;
+  /** Teammates who rated them */
+  ratedBy: number;
+}
+
+/**
+ * How a contribution factor adjusts the team score
+ */
+export interface PeerGradingSettings {
+  applyToGrades: boolean;
+  /** Share of the team score adjusted by the factor (WebPA weighting, 0..1) */
+  weighting: number;
+}
+
+/** Settings used by problems that have not configured grading */
+export const DEFAULT_PEER_GRADING_SETTINGS: PeerGradingSettings = {
+  applyToGrades: false,
+  weighting: 1
+};
+
+/** Criteria educators can start from when enabling peer assessment */
+export const SUGGESTED_PEER_CRITERIA: Array<Pick<PeerCriterion, 'criterion_text' | 'max_score'>> = [
+  { criterion_text: 'Contributed ideas and research to the team', max_score: 5 },
+  { criterion_text: 'Completed the tasks they agreed to, on time', max_score: 5 },
+  { criterion_text: 'Communicated and worked well with teammates', max_score: 5 },
+  { criterion_text: 'Helped write and review the final report', max_score: 5 }
+];
+
+/**
+ * Compute each team member's WebPA contribution factor
+ *
+ * A rater's share for a teammate is the points they gave that teammate over
+ * all the points they gave. Shares are scaled by the number of teammates the
+ * rater rated and averaged over the teammates who rated the member, so a
+ * missing rating neither raises nor lowers anyone's factor.
+ *
+ * @param memberIds - The team's members
+ * @param ratings - Every rating given in the project
+ * @returns Contribution factor per member
+ */
+export function computeContributionFactors(
+  memberIds: string[],
+  ratings: PeerRating[]
+): Map<string, ContributionFactor> {
+  const members = new Set(memberIds);
+
+  // Points per rater, and per rater and teammate
+  const given = new Map<string, Map<string, number>>();
+  for (const rating of ratings) {
+    if (!members.has(rating.raterId) || !members.has(rating.rateeId) || rating.raterId === rating.rateeId) {
+      continue;
+    }
+    const byRatee = given.get(rating.raterId) ?? new Map<string, number>();
+    byRatee.set(rating.rateeId, (byRatee.get(rating.rateeId) ?? 0) + rating.score);
+    given.set(rating.raterId, byRatee);
+  }
+
+  const received = new Map<string, number[]>();
+  for (const byRatee of given.values()) {
+    const total = [...byRatee.values()].reduce((sum, points) => sum + points, 0);
+    if (total === 0) continue;
+
+    for (const [rateeId, points] of byRatee) {
+      const shares = received.get(rateeId) ?? [];
+      shares.push((points / total) * byRatee.size);
+      received.set(rateeId, shares);
+    }
+  }
+
+  return new Map(memberIds.map(memberId => {
+    const shares = received.get(memberId) ?? [];
+    return [memberId, {
+      factor: shares.length > 0
+        ? shares.reduce((sum, share) => sum + share, 0) / shares.length
+        : null,
+      ratedBy: shares.length
+    }];
+  }));
+}
+
+/**
+ * Turn the team score into a member's individual score
+ *
+ * The weighted share of the team score is multiplied by the member's factor
+ * and the rest is awarded unchanged. Scores never go above the maximum.
+ * Members nobody rated receive the team score.
+ *
+ * @param teamScore - Total score of the published team assessment
+ * @param maxScore - Highest possible total score
+ * @param factor - The member's contribution factor
+ * @param weighting - Share of the team score adjusted by the factor (0..1)
+ */
+export function individualScore(
+  teamScore: number,
+  maxScore: number,
+  factor: number | null,
+  weighting: number
+): number {
+  if (factor === null) return teamScore;
+
+  const adjusted = teamScore * (1 - weighting) + teamScore * weighting * factor;
+  return Math.min(Math.round(adjusted * 10) / 10, maxScore);
+}
+
+/**
+ * Average score a member received on a criterion, or null if unrated
+ */
+export function averageReceivedScore(
+  ratings: PeerRating[],
+  rateeId: string,
+  criterionId: string
+): number | null {
+  const scores = ratings
+    .filter(rating => rating.rateeId === rateeId && rating.criterionId === criterionId)
+    .map(rating => rating.score);
+
+  return scores.length > 0
+    ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+    : null;
+}
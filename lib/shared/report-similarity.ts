@@ -0,0 +1,168 @@
+/**
+ * Text similarity for final reports
+ *
+ * Reports are compared with word shingles (runs of consecutive words): any
+ * shingle two reports share marks a candidate overlap, which is then grown into
+ * the longest common passage so copied sections can be shown side by side.
+ * Everything runs locally; no report text leaves the server.
+ */
+
+/** Number of consecutive words in a shingle (shorter matches are ignored) */
+export const SHINGLE_SIZE = 8;
+
+/** Reports sharing less than this share of their text are not reported */
+export const MIN_REPORTED_SIMILARITY = 0.02;
+
+/** Longest passage excerpt returned, in characters */
+const MAX_PASSAGE_LENGTH = 600;
+
+/** Positions tried in the other report for each shared shingle */
+const MAX_CANDIDATES = 8;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A passage that appears in both reports
+ */
+export interface OverlapPassage {
+  /** Passage as written in the report being checked */
+  text: string;
+  /** Passage as written in the other report */
+  otherText: string;
+  /** Length of the shared passage in words */
+  words: number;
+}
+
+/**
+ * Result of comparing two reports
+ */
+export interface ReportComparison {
+  /** Share (0-1) of the checked report's words inside shared passages */
+  similarity: number;
+  /** Share (0-1) of the other report's words inside shared passages */
+  otherSimilarity: number;
+  /** Shared passages, longest first */
+  passages: OverlapPassage[];
+}
+
+/**
+ * Split text into lower-cased words, keeping their positions in the original
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu)) {
+    const start = match.index ?? 0;
+    tokens.push({ word: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+function shingleAt(tokens: Token[], index: number, size: number): string {
+  return tokens.slice(index, index + size).map(token => token.word).join(' ');
+}
+
+function excerpt(text: string, tokens: Token[], from: number, length: number): string {
+  const passage = text
+    .slice(tokens[from].start, tokens[from + length - 1].end)
+    .replace(/\s+/g, ' ');
+  return passage.length > MAX_PASSAGE_LENGTH
+    ? `${passage.slice(0, MAX_PASSAGE_LENGTH).trimEnd()}…`
+    : passage;
+}
+
+/**
+ * Compare two reports and find the passages they share
+ *
+ * @param text - Report being checked
+ * @param otherText - Report it is compared against
+ * @param shingleSize - Minimum shared passage length in words
+ * @returns Similarity in both directions and the shared passages
+ */
+export function compareReports(
+  text: string,
+  otherText: string,
+  shingleSize: number = SHINGLE_SIZE
+): ReportComparison {
+  const tokens = tokenize(text);
+  const otherTokens = tokenize(otherText);
+
+  if (tokens.length < shingleSize || otherTokens.length < shingleSize) {
+    return { similarity: 0, otherSimilarity: 0, passages: [] };
+  }
+
+  // Index every shingle of the other report by its starting positions
+  const otherShingles = new Map<string, number[]>();
+  for (let j = 0; j <= otherTokens.length - shingleSize; j++) {
+    const key = shingleAt(otherTokens, j, shingleSize);
+    const positions = otherShingles.get(key);
+    if (positions) {
+      if (positions.length < MAX_CANDIDATES) positions.push(j);
+    } else {
+      otherShingles.set(key, [j]);
+    }
+  }
+
+  const passages: OverlapPassage[] = [];
+  const otherCovered = new Uint8Array(otherTokens.length);
+  let covered = 0;
+
+  // Greedily take the longest shared passage starting at each position
+  let i = 0;
+  while (i <= tokens.length - shingleSize) {
+    const candidates = otherShingles.get(shingleAt(tokens, i, shingleSize));
+    if (!candidates) {
+      i++;
+      continue;
+    }
+
+    let bestStart = candidates[0];
+    let bestLength = 0;
+    for (const j of candidates) {
+      let length = 0;
+      while (
+        i + length < tokens.length &&
+        j + length < otherTokens.length &&
+        tokens[i + length].word === otherTokens[j + length].word
+      ) {
+        length++;
+      }
+      if (length > bestLength) {
+        bestStart = j;
+        bestLength = length;
+      }
+    }
+
+    passages.push({
+      text: excerpt(text, tokens, i, bestLength),
+      otherText: excerpt(otherText, otherTokens, bestStart, bestLength),
+      words: bestLength,
+    });
+    otherCovered.fill(1, bestStart, bestStart + bestLength);
+    covered += bestLength;
+    i += bestLength;
+  }
+
+  const otherCount = otherCovered.reduce((sum, value) => sum + value, 0);
+
+  return {
+    similarity: covered / tokens.length,
+    otherSimilarity: otherCount / otherTokens.length,
+    passages: passages.sort((a, b) => b.words - a.words),
+  };
+}
+
+/**
+ * Whether a comparison shares enough text to show the educator
+ *
+ * @param comparison - Result of compareReports
+ * @returns True when there are shared passages covering at least
+ *          MIN_REPORTED_SIMILARITY of either report
+ */
+export function isReportedMatch(comparison: Pick<ReportComparison, 'similarity' | 'otherSimilarity' | 'passages'>): boolean {
+  return comparison.passages.length > 0 &&
+    Math.max(comparison.similarity, comparison.otherSimilarity) >= MIN_REPORTED_SIMILARITY;
+}
@@ -2,6 +2,16 @@
  * Shared rubric templates for PBL problems
  */
 
+/**
+ * Descriptor of what work at one performance level looks like
+ */
+export interface RubricPerformanceLevel {
+  /** Level name, e.g. "Exemplary" */
+  label: string;
+  /** What work at this level looks like */
+  description: string;
+}
+
 /**
  * Individual rubric criterion data
  */
@@ -12,6 +22,8 @@ export interface RubricCriterionData {
   max_score?: number;
   /** Sort order for display purposes */
   sort_order: number;
+  /** Performance-level descriptors, highest level first */
+  performance_levels?: RubricPerformanceLevel[];
 }
 
 /**
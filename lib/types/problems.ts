@@ -1,5 +1,8 @@
+import type { Database } from "@/lib/db.types";
 import type { RubricData } from "@/lib/shared/rubric-templates";
 
+type ProjectPhase = Database["public"]["Enums"]["project_phase"];
+
 /**
  * Team creation data for problem-to-project workflow
  */
@@ -10,6 +13,87 @@ export interface TeamCreationData {
   studentIds: string[];
 }
 
+/**
+ * Reading list entry the tutor can point students to
+ */
+export interface ReadingListItem {
+  title: string;
+  url?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Educator-configured tutor policy for a problem
+ */
+export interface TutorPolicyData {
+  /** Extra instructions or scaffolding for the tutor */
+  extraInstructions: string;
+  /** Topics or answers the tutor must not reveal */
+  forbiddenTopics: string[];
+  /** Recommended reading the tutor can suggest */
+  readingList: ReadingListItem[];
+}
+
+/**
+ * Staged information reveal released to teams as the project progresses
+ */
+export interface ProblemRevealData {
+  /** Short label shown to the educator */
+  title: string;
+  /** Information released to the team, in Markdown format */
+  content: string;
+  /** Phase in which to release it (null when up to the educator) */
+  phase?: ProjectPhase | null;
+}
+
+/**
+ * Parameters for an AI-drafted problem
+ */
+export interface ProblemDraftInput {
+  /** Subject or real-world situation the problem is about */
+  topic: string;
+  /** Learner level, e.g. "first-year undergraduate" */
+  level: string;
+  /** Learning outcomes the problem should target */
+  outcomes: string[];
+}
+
+/**
+ * AI-drafted problem the educator can accept into the form part by part
+ */
+export interface ProblemDraft {
+  title: string;
+  /** Problem scenario in Markdown format */
+  scenario: string;
+  reveals: ProblemRevealData[];
+  rubric: RubricData;
+}
+
+/**
+ * Kind of problem found when critiquing a rubric
+ */
+export type RubricIssueType = 'overlap' | 'vagueness' | 'missing_dimension';
+
+/**
+ * A single problem found in a rubric
+ */
+export interface RubricIssue {
+  type: RubricIssueType;
+  /** 1-based numbers of the criteria involved (empty for missing dimensions) */
+  criteria: number[];
+  comment: string;
+  suggestion: string;
+}
+
+/**
+ * AI critique of an educator's rubric
+ */
+export interface RubricCritique {
+  /** Overall assessment of the rubric */
+  summary: string;
+  issues: RubricIssue[];
+}
+
 /**
  * Parameters for creating a new PBL problem
  */
@@ -24,7 +108,11 @@ export interface CreateProblemParams {
   rubric: RubricData;
   /** Optional teams to create with this problem */
   teams?: TeamCreationData[];
+  /** Optional tutor policy (hidden from students) */
+  tutorPolicy?: TutorPolicyData;
+  /** Optional staged information reveals (hidden from students) */
+  reveals?: ProblemRevealData[];
 }
 
 // Re-export types for convenience
-export type { RubricCriterionData, RubricData } from "@/lib/shared/rubric-templates";
\ No newline at end of file
+export type { RubricCriterionData, RubricData, RubricPerformanceLevel } from "@/lib/shared/rubric-templates";
\ No newline at end of file
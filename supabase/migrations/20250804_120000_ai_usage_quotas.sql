@@ -0,0 +1,149 @@
+-- =====================================================
+-- PBLab AI Usage Quotas Migration
+-- =====================================================
+-- Purpose: Let educators cap AI usage per course, with optional per-team overrides
+-- Affected: ai_usage (new total_tokens column), new ai_quotas table,
+--           new ai_quota_period ENUM, new get_team_ai_usage() function
+-- Security model: Educators manage quotas for their courses, admins manage all,
+--                 students can read the quotas that apply to their courses
+-- =====================================================
+
+-- Track token consumption for each AI call (NULL for calls logged before quotas)
+ALTER TABLE ai_usage ADD COLUMN total_tokens INTEGER;
+
+-- Quota windows reset at 00:00 UTC (daily) or Monday 00:00 UTC (weekly)
+CREATE TYPE ai_quota_period AS ENUM ('daily', 'weekly');
+
+-- Course-level quotas apply to every team in the course.
+-- A row with team_id set overrides the course quota for that team.
+CREATE TABLE ai_quotas (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+    period ai_quota_period NOT NULL DEFAULT 'daily',
+    max_calls INTEGER CHECK (max_calls IS NULL OR max_calls > 0),
+    max_tokens INTEGER CHECK (max_tokens IS NULL OR max_tokens > 0),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One course-level quota per course and one override per team
+CREATE UNIQUE INDEX idx_ai_quotas_course_default ON ai_quotas(course_id) WHERE team_id IS NULL;
+CREATE UNIQUE INDEX idx_ai_quotas_team_override ON ai_quotas(course_id, team_id) WHERE team_id IS NOT NULL;
+
+-- Index for usage window lookups
+CREATE INDEX idx_ai_usage_project_created_at ON ai_usage(project_id, created_at);
+
+ALTER TABLE ai_quotas ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- AI_QUOTAS TABLE POLICIES
+-- =====================================================
+
+-- Educators can view quotas for their courses
+CREATE POLICY "Educators can view course AI quotas"
+ON ai_quotas FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = auth.uid())
+);
+
+-- Educators can create quotas for their courses
+CREATE POLICY "Educators can create course AI quotas"
+ON ai_quotas FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = auth.uid())
+);
+
+-- Educators can update quotas for their courses
+CREATE POLICY "Educators can update course AI quotas"
+ON ai_quotas FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = auth.uid())
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = auth.uid())
+);
+
+-- Educators can delete quotas for their courses
+CREATE POLICY "Educators can delete course AI quotas"
+ON ai_quotas FOR DELETE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = auth.uid())
+);
+
+-- Students can view the quotas that apply to their courses
+CREATE POLICY "Students can view course AI quotas"
+ON ai_quotas FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'student' AND
+  course_id = ANY(private.get_user_course_ids())
+);
+
+-- Admins can manage all quotas
+CREATE POLICY "Admins can manage all AI quotas"
+ON ai_quotas FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- USAGE TOTALS FUNCTION
+-- =====================================================
+
+-- Count a team's AI calls and tokens since a point in time.
+-- SECURITY DEFINER so the totals include every team member's usage,
+-- while the explicit checks restrict callers to the team, its course educator, or admins.
+CREATE OR REPLACE FUNCTION public.get_team_ai_usage(
+  _team_id uuid,
+  _since timestamptz
+)
+RETURNS TABLE (call_count bigint, token_count bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _team_id IS NULL OR _since IS NULL THEN
+    RAISE EXCEPTION 'team_id and since are required';
+  END IF;
+
+  IF NOT (
+    private.is_team_member(auth.uid(), _team_id)
+    OR get_my_role() = 'admin'
+    OR EXISTS (
+      SELECT 1
+      FROM teams t
+      JOIN courses c ON c.id = t.course_id
+      WHERE t.id = _team_id AND c.admin_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Team not found or access denied';
+  END IF;
+
+  -- Only usage by team members counts towards the team's quota
+  RETURN QUERY
+  SELECT count(u.id), coalesce(sum(u.total_tokens), 0)::bigint
+  FROM ai_usage u
+  JOIN projects p ON p.id = u.project_id
+  JOIN teams_users tu ON tu.team_id = p.team_id AND tu.user_id = u.user_id
+  WHERE p.team_id = _team_id
+  AND u.created_at >= _since;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_ai_usage TO authenticated;
+
+COMMENT ON FUNCTION public.get_team_ai_usage IS
+'Returns the number of AI calls and tokens used by members of a team since the given time.
+Used to enforce ai_quotas before calling the model.';
@@ -0,0 +1,117 @@
+-- =====================================================
+-- PBLab AI Tutor Summaries Migration
+-- =====================================================
+-- Purpose: Store a rolling summary of older AI tutor turns per project so the
+--          tutor only replays recent turns verbatim
+-- Affected: new ai_tutor_summaries table
+-- Security model: Team members and course educators can read and update the
+--                 summary for their projects, admins can manage all summaries
+-- =====================================================
+
+-- One summary per project. summarized_through is the created_at of the newest
+-- ai_usage row folded into the summary; later turns are still replayed verbatim.
+CREATE TABLE ai_tutor_summaries (
+    project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+    summary TEXT NOT NULL,
+    summarized_through TIMESTAMPTZ NOT NULL,
+    turns_summarized INTEGER NOT NULL DEFAULT 0,
+    model TEXT,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE ai_tutor_summaries ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- AI_TUTOR_SUMMARIES TABLE POLICIES
+-- =====================================================
+
+-- Team members can view the summary for their projects
+CREATE POLICY "Team members can view project tutor summaries"
+ON ai_tutor_summaries FOR SELECT
+TO authenticated
+USING (
+  project_id IN (
+    SELECT p.id
+    FROM projects p
+    INNER JOIN teams_users tu ON tu.team_id = p.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Team members can create the summary for their projects
+CREATE POLICY "Team members can create project tutor summaries"
+ON ai_tutor_summaries FOR INSERT
+TO authenticated
+WITH CHECK (
+  project_id IN (
+    SELECT p.id
+    FROM projects p
+    INNER JOIN teams_users tu ON tu.team_id = p.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Team members can update the summary for their projects
+CREATE POLICY "Team members can update project tutor summaries"
+ON ai_tutor_summaries FOR UPDATE
+TO authenticated
+USING (
+  project_id IN (
+    SELECT p.id
+    FROM projects p
+    INNER JOIN teams_users tu ON tu.team_id = p.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can view summaries for their course projects
+CREATE POLICY "Educators can view course tutor summaries"
+ON ai_tutor_summaries FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can create summaries for their course projects (when they use the tutor)
+CREATE POLICY "Educators can create course tutor summaries"
+ON ai_tutor_summaries FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can update summaries for their course projects
+CREATE POLICY "Educators can update course tutor summaries"
+ON ai_tutor_summaries FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all summaries
+CREATE POLICY "Admins can manage all tutor summaries"
+ON ai_tutor_summaries FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,69 @@
+-- =====================================================
+-- PBLab Problem Tutor Policies Migration
+-- =====================================================
+-- Purpose: Let educators give the AI tutor per-problem instructions, forbidden
+--          topics or answers, and a reading list
+-- Affected: new problem_tutor_policies table
+-- Security model: Only course educators and admins can read policies, so
+--                 forbidden answers are never exposed to students. The tutor
+--                 route loads the active policy server-side.
+-- =====================================================
+
+-- Policies are versioned: saving a policy inserts a new row and the row with the
+-- highest version is active. ai_usage prompts record the version that was used.
+CREATE TABLE problem_tutor_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    problem_id UUID NOT NULL REFERENCES problems(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK (version > 0),
+    extra_instructions TEXT,
+    forbidden_topics TEXT[] NOT NULL DEFAULT '{}',
+    -- [{ "title": string, "url": string | null, "note": string | null }]
+    reading_list JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (problem_id, version)
+);
+
+CREATE INDEX idx_problem_tutor_policies_problem_id ON problem_tutor_policies(problem_id, version DESC);
+
+ALTER TABLE problem_tutor_policies ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- PROBLEM_TUTOR_POLICIES TABLE POLICIES
+-- =====================================================
+
+-- Educators can view tutor policies for problems in their courses
+CREATE POLICY "Educators can view course tutor policies"
+ON problem_tutor_policies FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can add tutor policy versions for problems in their courses
+CREATE POLICY "Educators can create course tutor policies"
+ON problem_tutor_policies FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  created_by = (SELECT auth.uid()) AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all tutor policies
+CREATE POLICY "Admins can manage all tutor policies"
+ON problem_tutor_policies FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
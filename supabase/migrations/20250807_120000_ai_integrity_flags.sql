@@ -0,0 +1,89 @@
+-- =====================================================
+-- PBLab AI Integrity Flags Migration
+-- =====================================================
+-- Purpose: Record academic integrity concerns raised by the classification
+--          step that runs on every AI tutor message and response, and let
+--          educators review them per course
+-- Affected: new ai_integrity_category and ai_integrity_flag_status ENUMs,
+--           new ai_integrity_flags table
+-- Security model: Flags are written server-side by the tutor route. Students
+--                 have no access; course educators can view and review flags
+--                 for their courses.
+-- =====================================================
+
+-- answer_seeking: student asks for final answers or conclusions
+-- ghostwriting: student asks the tutor to write their report or deliverables
+-- off_topic: message is unrelated to the project
+-- answer_disclosure: tutor response hands over answers or writes deliverables
+CREATE TYPE ai_integrity_category AS ENUM ('answer_seeking', 'ghostwriting', 'off_topic', 'answer_disclosure');
+
+CREATE TYPE ai_integrity_flag_status AS ENUM ('open', 'reviewed', 'dismissed');
+
+-- One row per flagged side (student message or tutor response) of a logged
+-- tutor exchange. course_id is denormalised so the review queue and dashboard
+-- counts do not need to join through projects and problems.
+CREATE TABLE ai_integrity_flags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ai_usage_id UUID NOT NULL REFERENCES ai_usage(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    source TEXT NOT NULL CHECK (source IN ('message', 'response')),
+    category ai_integrity_category NOT NULL,
+    reason TEXT,
+    status ai_integrity_flag_status NOT NULL DEFAULT 'open',
+    review_note TEXT,
+    reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (ai_usage_id, source)
+);
+
+CREATE INDEX idx_ai_integrity_flags_course_status ON ai_integrity_flags(course_id, status, created_at DESC);
+
+ALTER TABLE ai_integrity_flags ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- AI_INTEGRITY_FLAGS TABLE POLICIES
+-- =====================================================
+
+-- Educators can view integrity flags for their courses
+CREATE POLICY "Educators can view course integrity flags"
+ON ai_integrity_flags FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (
+    SELECT c.id
+    FROM courses c
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can review integrity flags for their courses
+CREATE POLICY "Educators can review course integrity flags"
+ON ai_integrity_flags FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (
+    SELECT c.id
+    FROM courses c
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (
+    SELECT c.id
+    FROM courses c
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all integrity flags
+CREATE POLICY "Admins can manage all integrity flags"
+ON ai_integrity_flags FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
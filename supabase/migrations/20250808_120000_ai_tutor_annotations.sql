@@ -0,0 +1,81 @@
+-- =====================================================
+-- PBLab AI Tutor Annotations Migration
+-- =====================================================
+-- Purpose: Let educators leave private notes on individual AI tutor turns
+--          while reviewing transcripts
+-- Affected: new ai_tutor_annotations table
+-- Security model: Annotations are private to educators. Course educators can
+--                 view annotations on tutor turns in their courses and manage
+--                 their own; students have no access. Admins can manage all.
+-- =====================================================
+
+-- One row per note; a turn (ai_usage row) can carry several notes.
+CREATE TABLE ai_tutor_annotations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ai_usage_id UUID NOT NULL REFERENCES ai_usage(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    note TEXT NOT NULL CHECK (length(trim(note)) > 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_tutor_annotations_ai_usage_id ON ai_tutor_annotations(ai_usage_id);
+
+ALTER TABLE ai_tutor_annotations ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- AI_TUTOR_ANNOTATIONS TABLE POLICIES
+-- =====================================================
+
+-- Educators can view annotations on tutor turns in their courses
+CREATE POLICY "Educators can view course tutor annotations"
+ON ai_tutor_annotations FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  ai_usage_id IN (
+    SELECT au.id
+    FROM ai_usage au
+    JOIN projects pr ON au.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can annotate tutor turns in their courses
+CREATE POLICY "Educators can create course tutor annotations"
+ON ai_tutor_annotations FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  author_id = (SELECT auth.uid()) AND
+  ai_usage_id IN (
+    SELECT au.id
+    FROM ai_usage au
+    JOIN projects pr ON au.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can edit their own annotations
+CREATE POLICY "Educators can update their own tutor annotations"
+ON ai_tutor_annotations FOR UPDATE
+TO authenticated
+USING (author_id = (SELECT auth.uid()))
+WITH CHECK (author_id = (SELECT auth.uid()));
+
+-- Educators can delete their own annotations
+CREATE POLICY "Educators can delete their own tutor annotations"
+ON ai_tutor_annotations FOR DELETE
+TO authenticated
+USING (author_id = (SELECT auth.uid()));
+
+-- Admins can manage all annotations
+CREATE POLICY "Admins can manage all tutor annotations"
+ON ai_tutor_annotations FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,91 @@
+-- =====================================================
+-- PBLab AI Tutor Feedback Migration
+-- =====================================================
+-- Purpose: Let students rate individual AI tutor responses (thumbs up/down
+--          with an optional reason) so educators can see whether the tutor
+--          helps and tune its prompts
+-- Affected: new ai_feedback_rating ENUM, new ai_tutor_feedback table
+-- Security model: Students rate tutor turns in their own projects and manage
+--                 only their own ratings. Course educators can view ratings
+--                 for their courses. Admins can manage all ratings.
+-- =====================================================
+
+CREATE TYPE ai_feedback_rating AS ENUM ('up', 'down');
+
+-- One rating per student per tutor turn (ai_usage row)
+CREATE TABLE ai_tutor_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ai_usage_id UUID NOT NULL REFERENCES ai_usage(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    rating ai_feedback_rating NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (ai_usage_id, user_id)
+);
+
+CREATE INDEX idx_ai_tutor_feedback_ai_usage_id ON ai_tutor_feedback(ai_usage_id);
+
+ALTER TABLE ai_tutor_feedback ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- AI_TUTOR_FEEDBACK TABLE POLICIES
+-- =====================================================
+
+-- Students can view their own ratings
+CREATE POLICY "Users can view their own tutor feedback"
+ON ai_tutor_feedback FOR SELECT
+TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+-- Team members can rate tutor turns in their projects
+CREATE POLICY "Team members can rate project tutor turns"
+ON ai_tutor_feedback FOR INSERT
+TO authenticated
+WITH CHECK (
+  user_id = (SELECT auth.uid()) AND
+  ai_usage_id IN (
+    SELECT au.id
+    FROM ai_usage au
+    INNER JOIN projects p ON au.project_id = p.id
+    INNER JOIN teams_users tu ON tu.team_id = p.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+      AND au.feature = 'tutor'
+  )
+);
+
+-- Students can change their own ratings
+CREATE POLICY "Users can update their own tutor feedback"
+ON ai_tutor_feedback FOR UPDATE
+TO authenticated
+USING (user_id = (SELECT auth.uid()))
+WITH CHECK (user_id = (SELECT auth.uid()));
+
+-- Students can withdraw their own ratings
+CREATE POLICY "Users can delete their own tutor feedback"
+ON ai_tutor_feedback FOR DELETE
+TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+-- Educators can view ratings for tutor turns in their courses
+CREATE POLICY "Educators can view course tutor feedback"
+ON ai_tutor_feedback FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  ai_usage_id IN (
+    SELECT au.id
+    FROM ai_usage au
+    JOIN projects pr ON au.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all ratings
+CREATE POLICY "Admins can manage all tutor feedback"
+ON ai_tutor_feedback FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,157 @@
+-- =====================================================
+-- PBLab Private Tutor Threads Migration
+-- =====================================================
+-- Purpose: Give each student a private AI tutor thread alongside the shared
+--          team thread, and let them promote a private exchange into the
+--          team thread
+-- Affected: ai_usage (new is_private and promoted_usage_id columns, team
+--           member SELECT policy), new promote_private_tutor_exchange function
+-- Security model: Private exchanges are visible only to the student who sent
+--                 them (existing "Users can view their own AI usage" policy),
+--                 course educators and admins. The team member policy now
+--                 excludes private rows.
+-- =====================================================
+
+-- Private rows belong to the sender's private thread. When promoted, a copy is
+-- added to the team thread and promoted_usage_id points at the copy.
+ALTER TABLE ai_usage
+    ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN promoted_usage_id UUID REFERENCES ai_usage(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_ai_usage_private_thread ON ai_usage(project_id, user_id, created_at) WHERE is_private;
+
+-- =====================================================
+-- AI_USAGE TABLE POLICIES
+-- =====================================================
+
+-- Team members can only see the shared team thread
+DROP POLICY IF EXISTS "Team members can view project AI usage" ON ai_usage;
+
+CREATE POLICY "Team members can view project AI usage"
+ON ai_usage FOR SELECT
+TO authenticated
+USING (
+  is_private = false AND
+  project_id IN (
+    SELECT p.id
+    FROM projects p
+    INNER JOIN teams_users tu ON tu.team_id = p.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+COMMENT ON POLICY "Team members can view project AI usage" ON ai_usage IS
+'Allows team members to view the shared AI tutor thread for projects they are working on together. Private exchanges are only visible to their sender (via "Users can view their own AI usage"), course educators and admins.';
+
+-- =====================================================
+-- PROMOTE PRIVATE EXCHANGE FUNCTION
+-- =====================================================
+
+-- Students cannot update ai_usage rows, so promotion runs as a SECURITY DEFINER
+-- function that only acts on the caller's own private tutor exchanges.
+CREATE OR REPLACE FUNCTION promote_private_tutor_exchange(_ai_usage_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source ai_usage%ROWTYPE;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _source
+  FROM ai_usage
+  WHERE id = _ai_usage_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _source.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Exchange not found';
+  END IF;
+
+  IF NOT _source.is_private OR _source.feature <> 'tutor' THEN
+    RAISE EXCEPTION 'Only private tutor exchanges can be promoted';
+  END IF;
+
+  IF _source.promoted_usage_id IS NOT NULL THEN
+    RETURN _source.promoted_usage_id;
+  END IF;
+
+  -- The caller must still be on the project's team
+  IF NOT EXISTS (
+    SELECT 1
+    FROM projects p
+    INNER JOIN teams_users tu ON tu.team_id = p.team_id
+    WHERE p.id = _source.project_id
+      AND tu.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'User is not a member of the project team';
+  END IF;
+
+  -- Token usage stays on the original row so quotas are not counted twice
+  INSERT INTO ai_usage (project_id, user_id, feature, prompt, response, is_private)
+  VALUES (
+    _source.project_id,
+    _source.user_id,
+    'tutor',
+    COALESCE(_source.prompt, '{}'::jsonb) || jsonb_build_object('promoted_from', _source.id),
+    _source.response,
+    false
+  )
+  RETURNING id INTO _new_id;
+
+  UPDATE ai_usage
+  SET promoted_usage_id = _new_id
+  WHERE id = _source.id;
+
+  RETURN _new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION promote_private_tutor_exchange(UUID) TO authenticated;
+
+COMMENT ON FUNCTION promote_private_tutor_exchange(UUID) IS
+'Copies one of the caller''s private AI tutor exchanges into the shared team thread and returns the new ai_usage ID. Idempotent: promoting twice returns the existing copy.';
+
+-- =====================================================
+-- USAGE TOTALS FUNCTION
+-- =====================================================
+
+-- Promoted copies are not new AI calls, so they no longer count towards quotas
+CREATE OR REPLACE FUNCTION public.get_team_ai_usage(
+  _team_id uuid,
+  _since timestamptz
+)
+RETURNS TABLE (call_count bigint, token_count bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _team_id IS NULL OR _since IS NULL THEN
+    RAISE EXCEPTION 'team_id and since are required';
+  END IF;
+
+  IF NOT (
+    private.is_team_member(auth.uid(), _team_id)
+    OR get_my_role() = 'admin'
+    OR EXISTS (
+      SELECT 1
+      FROM teams t
+      JOIN courses c ON c.id = t.course_id
+      WHERE t.id = _team_id AND c.admin_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Team not found or access denied';
+  END IF;
+
+  -- Only usage by team members counts towards the team's quota
+  RETURN QUERY
+  SELECT count(u.id), coalesce(sum(u.total_tokens), 0)::bigint
+  FROM ai_usage u
+  JOIN projects p ON p.id = u.project_id
+  JOIN teams_users tu ON tu.team_id = p.team_id AND tu.user_id = u.user_id
+  WHERE p.team_id = _team_id
+  AND u.created_at >= _since
+  AND (u.prompt ? 'promoted_from') IS NOT TRUE;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- =====================================================
+-- PBLab Problem Reveals Migration
+-- =====================================================
+-- Purpose: Store staged information reveals for a problem: extra scenario
+--          details the educator releases to teams as the project progresses
+-- Affected: new problem_reveals table
+-- Security model: Only course educators and admins can read reveals, so
+--                 later stages of the scenario are not exposed to students
+--                 ahead of time.
+-- =====================================================
+
+-- Reveals are shown to educators in sort_order. phase is the project phase in
+-- which the reveal is meant to be released (null when it is up to the educator).
+CREATE TABLE problem_reveals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    problem_id UUID NOT NULL REFERENCES problems(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL CHECK (sort_order >= 0),
+    title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+    content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+    phase project_phase,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_problem_reveals_problem_id ON problem_reveals(problem_id, sort_order);
+
+ALTER TABLE problem_reveals ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- PROBLEM_REVEALS TABLE POLICIES
+-- =====================================================
+
+-- Educators can view reveals for problems in their courses
+CREATE POLICY "Educators can view course problem reveals"
+ON problem_reveals FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can add reveals to problems in their courses
+CREATE POLICY "Educators can create course problem reveals"
+ON problem_reveals FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all problem reveals
+CREATE POLICY "Admins can manage all problem reveals"
+ON problem_reveals FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
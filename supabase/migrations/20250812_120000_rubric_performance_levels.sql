@@ -0,0 +1,13 @@
+-- =====================================================
+-- PBLab Rubric Performance Levels Migration
+-- =====================================================
+-- Purpose: Store performance-level descriptors for rubric criteria, so a
+--          criterion can describe what work at each level looks like
+-- Affected: rubric_criteria (new performance_levels column)
+-- Security model: Unchanged; covered by the existing rubric_criteria policies
+-- =====================================================
+
+-- [{ "label": string, "description": string }], highest level first.
+-- Empty for criteria without descriptors.
+ALTER TABLE rubric_criteria
+    ADD COLUMN performance_levels JSONB NOT NULL DEFAULT '[]';
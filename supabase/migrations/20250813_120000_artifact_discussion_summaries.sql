@@ -0,0 +1,126 @@
+-- =====================================================
+-- PBLab Artifact Discussion Summaries Migration
+-- =====================================================
+-- Purpose: Cache AI summaries of artifact comment threads so a summary is only
+--          regenerated once new comments arrive
+-- Affected: new artifact_discussion_summaries table
+-- Security model: Team members and course educators can read and update the
+--                 summary for artifacts they can see, admins can manage all
+--                 summaries
+-- =====================================================
+
+-- One summary per artifact. The summary is current while the artifact still
+-- has comment_count comments and its newest comment is last_comment_id.
+-- summary: { keyPoints, openQuestions, decisions: [{ text, authors[] }] }
+CREATE TABLE artifact_discussion_summaries (
+    artifact_id UUID PRIMARY KEY REFERENCES artifacts(id) ON DELETE CASCADE,
+    summary JSONB NOT NULL,
+    comment_count INTEGER NOT NULL CHECK (comment_count > 0),
+    last_comment_id UUID NOT NULL,
+    model TEXT,
+    generated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE artifact_discussion_summaries ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- ARTIFACT_DISCUSSION_SUMMARIES TABLE POLICIES
+-- =====================================================
+
+-- Team members can view summaries for their project artifacts
+CREATE POLICY "Team members can view artifact discussion summaries"
+ON artifact_discussion_summaries FOR SELECT
+TO authenticated
+USING (
+  artifact_id IN (
+    SELECT a.id
+    FROM artifacts a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN teams_users tu ON pr.team_id = tu.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Team members can create summaries for their project artifacts
+CREATE POLICY "Team members can create artifact discussion summaries"
+ON artifact_discussion_summaries FOR INSERT
+TO authenticated
+WITH CHECK (
+  artifact_id IN (
+    SELECT a.id
+    FROM artifacts a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN teams_users tu ON pr.team_id = tu.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Team members can refresh summaries for their project artifacts
+CREATE POLICY "Team members can update artifact discussion summaries"
+ON artifact_discussion_summaries FOR UPDATE
+TO authenticated
+USING (
+  artifact_id IN (
+    SELECT a.id
+    FROM artifacts a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN teams_users tu ON pr.team_id = tu.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can view summaries for their course artifacts
+CREATE POLICY "Educators can view course artifact discussion summaries"
+ON artifact_discussion_summaries FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  artifact_id IN (
+    SELECT a.id
+    FROM artifacts a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can create summaries for their course artifacts
+CREATE POLICY "Educators can create course artifact discussion summaries"
+ON artifact_discussion_summaries FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  artifact_id IN (
+    SELECT a.id
+    FROM artifacts a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can refresh summaries for their course artifacts
+CREATE POLICY "Educators can update course artifact discussion summaries"
+ON artifact_discussion_summaries FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  artifact_id IN (
+    SELECT a.id
+    FROM artifacts a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all summaries
+CREATE POLICY "Admins can manage all artifact discussion summaries"
+ON artifact_discussion_summaries FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,73 @@
+-- =====================================================
+-- PBLab AI Usage Error Codes Migration
+-- =====================================================
+-- Purpose: Record failed AI calls in ai_usage with an error code so admins
+--          can see provider outage windows
+-- Affected: ai_usage (new error_code column), get_team_ai_usage() function
+-- Security model: Unchanged. Failed calls are logged by the user who made
+--                 them under the existing ai_usage policies; admins can read
+--                 all rows.
+-- =====================================================
+
+-- NULL for successful calls. Failed calls have no response text and no tokens.
+ALTER TABLE ai_usage
+    ADD COLUMN error_code TEXT CHECK (error_code IN (
+        'timeout',
+        'rate_limited',
+        'provider_unavailable',
+        'circuit_open',
+        'invalid_response',
+        'configuration',
+        'provider_error'
+    ));
+
+COMMENT ON COLUMN ai_usage.error_code IS
+'Why the AI call failed (NULL when it succeeded). circuit_open means the call was refused without contacting the provider because of repeated recent failures.';
+
+-- Index for the admin outage view
+CREATE INDEX idx_ai_usage_failures ON ai_usage(created_at) WHERE error_code IS NOT NULL;
+
+-- =====================================================
+-- USAGE TOTALS FUNCTION
+-- =====================================================
+
+-- Failed calls and promoted copies do not count towards a team's quota
+CREATE OR REPLACE FUNCTION public.get_team_ai_usage(
+  _team_id uuid,
+  _since timestamptz
+)
+RETURNS TABLE (call_count bigint, token_count bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _team_id IS NULL OR _since IS NULL THEN
+    RAISE EXCEPTION 'team_id and since are required';
+  END IF;
+
+  IF NOT (
+    private.is_team_member(auth.uid(), _team_id)
+    OR get_my_role() = 'admin'
+    OR EXISTS (
+      SELECT 1
+      FROM teams t
+      JOIN courses c ON c.id = t.course_id
+      WHERE t.id = _team_id AND c.admin_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Team not found or access denied';
+  END IF;
+
+  -- Only successful usage by team members counts towards the team's quota
+  RETURN QUERY
+  SELECT count(u.id), coalesce(sum(u.total_tokens), 0)::bigint
+  FROM ai_usage u
+  JOIN projects p ON p.id = u.project_id
+  JOIN teams_users tu ON tu.team_id = p.team_id AND tu.user_id = u.user_id
+  WHERE p.team_id = _team_id
+  AND u.created_at >= _since
+  AND (u.prompt ? 'promoted_from') IS NOT TRUE
+  AND u.error_code IS NULL;
+END;
+$$;
@@ -0,0 +1,81 @@
+-- =====================================================
+-- PBLab Learning Goal Reviews Migration
+-- =====================================================
+-- Purpose: Keep every AI review of a team's learning goals so educators can
+--          see which feedback students received
+-- Affected: new learning_goal_reviews table
+-- Security model: Team members can request and view reviews for their
+--                 projects, course educators can view reviews for their
+--                 course projects, admins can manage all reviews
+-- =====================================================
+
+-- One row per review request. goals is the text that was reviewed, which may
+-- differ from the saved projects.learning_goals.
+-- review: { goals: [{ goal, specificity, measurability, alignment, feedback,
+--           suggestedRewrite }], overallFeedback }
+CREATE TABLE learning_goal_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    goals TEXT NOT NULL CHECK (length(trim(goals)) > 0),
+    review JSONB NOT NULL,
+    model TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_learning_goal_reviews_project ON learning_goal_reviews(project_id, created_at DESC);
+
+ALTER TABLE learning_goal_reviews ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- LEARNING_GOAL_REVIEWS TABLE POLICIES
+-- =====================================================
+
+-- Team members can view reviews for their projects
+CREATE POLICY "Team members can view learning goal reviews"
+ON learning_goal_reviews FOR SELECT
+TO authenticated
+USING (
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN teams_users tu ON pr.team_id = tu.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Team members can record reviews they requested for their projects
+CREATE POLICY "Team members can create learning goal reviews"
+ON learning_goal_reviews FOR INSERT
+TO authenticated
+WITH CHECK (
+  requested_by = (SELECT auth.uid()) AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN teams_users tu ON pr.team_id = tu.team_id
+    WHERE tu.user_id = (SELECT auth.uid())
+  )
+);
+
+-- Educators can view reviews for their course projects
+CREATE POLICY "Educators can view course learning goal reviews"
+ON learning_goal_reviews FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can manage all reviews
+CREATE POLICY "Admins can manage all learning goal reviews"
+ON learning_goal_reviews FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,202 @@
+-- =====================================================
+-- PBLab Assessment Revisions Migration
+-- =====================================================
+-- Purpose: Let educators revise a submitted assessment while keeping every
+--          version, with who made each change and what changed
+-- Affected: new assessment_revisions table, new revise_assessment() function
+-- Security model: Assessors (and admins) record revisions of their own
+--                 assessments through revise_assessment(). Course educators
+--                 can read the history; students cannot, they only ever see
+--                 the current assessment.
+-- =====================================================
+
+-- One row per version of an assessment. Revision 1 is the original
+-- submission, recorded the first time the assessment is revised.
+-- scores: [{ criterion_id, score, justification }] as of this revision
+-- changes: [{ field, criterion_id?, from, to }] compared with the previous
+--          revision, where field is 'score', 'justification' or
+--          'overall_feedback'
+CREATE TABLE assessment_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    assessment_id UUID NOT NULL REFERENCES assessments(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+    edited_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    overall_feedback TEXT,
+    scores JSONB NOT NULL,
+    changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reason TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (assessment_id, revision_number)
+);
+
+ALTER TABLE assessment_revisions ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- ASSESSMENT_REVISIONS TABLE POLICIES
+-- =====================================================
+
+-- Educators can view the revision history of assessments in their courses
+CREATE POLICY "Educators can view course assessment revisions"
+ON assessment_revisions FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  assessment_id IN (
+    SELECT a.id
+    FROM assessments a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Assessors can record revisions of their own assessments
+CREATE POLICY "Educators can create revisions of their assessments"
+ON assessment_revisions FOR INSERT
+TO authenticated
+WITH CHECK (
+  assessment_id IN (
+    SELECT id
+    FROM assessments
+    WHERE assessor_id = (SELECT auth.uid())
+  )
+);
+
+-- Admins can view and record all revisions; the history is never edited
+CREATE POLICY "Admins can view all assessment revisions"
+ON assessment_revisions FOR SELECT
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin');
+
+CREATE POLICY "Admins can create assessment revisions"
+ON assessment_revisions FOR INSERT
+TO authenticated
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- REVISE ASSESSMENT FUNCTION
+-- =====================================================
+
+-- Applies new scores and feedback to an assessment and records the revision
+-- in one transaction. Runs with the caller's permissions, so only the
+-- assessor (or an admin) can revise an assessment.
+-- _scores: [{ criterion_id, score, justification }]
+CREATE OR REPLACE FUNCTION revise_assessment(
+  _assessment_id UUID,
+  _scores JSONB,
+  _overall_feedback TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment assessments%ROWTYPE;
+  _revision INTEGER;
+  _changes JSONB;
+BEGIN
+  SELECT * INTO _assessment
+  FROM assessments
+  WHERE id = _assessment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assessment not found';
+  END IF;
+
+  SELECT coalesce(max(revision_number), 0) INTO _revision
+  FROM assessment_revisions
+  WHERE assessment_id = _assessment_id;
+
+  -- Keep the original submission before it is first changed
+  IF _revision = 0 THEN
+    INSERT INTO assessment_revisions (assessment_id, revision_number, edited_by, overall_feedback, scores, created_at)
+    SELECT
+      _assessment_id,
+      1,
+      _assessment.assessor_id,
+      _assessment.overall_feedback,
+      coalesce(jsonb_agg(jsonb_build_object(
+        'criterion_id', s.criterion_id,
+        'score', s.score,
+        'justification', s.justification
+      ) ORDER BY s.criterion_id), '[]'::jsonb),
+      _assessment.updated_at
+    FROM assessment_scores s
+    WHERE s.assessment_id = _assessment_id;
+
+    _revision := 1;
+  END IF;
+
+  SELECT coalesce(jsonb_agg(change), '[]'::jsonb) INTO _changes
+  FROM (
+    SELECT jsonb_build_object('field', 'score', 'criterion_id', n.criterion_id, 'from', o.score, 'to', n.score) AS change
+    FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+    LEFT JOIN assessment_scores o ON o.assessment_id = _assessment_id AND o.criterion_id = n.criterion_id
+    WHERE o.score IS DISTINCT FROM n.score
+    UNION ALL
+    SELECT jsonb_build_object('field', 'justification', 'criterion_id', n.criterion_id, 'from', o.justification, 'to', n.justification)
+    FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+    LEFT JOIN assessment_scores o ON o.assessment_id = _assessment_id AND o.criterion_id = n.criterion_id
+    WHERE o.justification IS DISTINCT FROM n.justification
+  ) AS changed;
+
+  IF _assessment.overall_feedback IS DISTINCT FROM _overall_feedback THEN
+    _changes := _changes || jsonb_build_array(jsonb_build_object(
+      'field', 'overall_feedback',
+      'from', _assessment.overall_feedback,
+      'to', _overall_feedback
+    ));
+  END IF;
+
+  IF _changes = '[]'::jsonb THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  -- Revised scores are the educator's own, no longer AI-generated
+  UPDATE assessment_scores o
+  SET score = n.score, justification = n.justification, ai_generated = false
+  FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+  WHERE o.assessment_id = _assessment_id
+    AND o.criterion_id = n.criterion_id
+    AND (o.score IS DISTINCT FROM n.score OR o.justification IS DISTINCT FROM n.justification);
+
+  INSERT INTO assessment_scores (assessment_id, criterion_id, score, justification, ai_generated)
+  SELECT _assessment_id, n.criterion_id, n.score, n.justification, false
+  FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM assessment_scores o
+    WHERE o.assessment_id = _assessment_id AND o.criterion_id = n.criterion_id
+  );
+
+  UPDATE assessments
+  SET overall_feedback = _overall_feedback, updated_at = now()
+  WHERE id = _assessment_id;
+
+  INSERT INTO assessment_revisions (assessment_id, revision_number, edited_by, overall_feedback, scores, changes, reason)
+  SELECT
+    _assessment_id,
+    _revision + 1,
+    auth.uid(),
+    _overall_feedback,
+    coalesce(jsonb_agg(jsonb_build_object(
+      'criterion_id', s.criterion_id,
+      'score', s.score,
+      'justification', s.justification
+    ) ORDER BY s.criterion_id), '[]'::jsonb),
+    _changes,
+    nullif(trim(_reason), '')
+  FROM assessment_scores s
+  WHERE s.assessment_id = _assessment_id;
+
+  RETURN _revision + 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revise_assessment(UUID, JSONB, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION revise_assessment(UUID, JSONB, TEXT, TEXT) IS
+'Updates an assessment''s scores and overall feedback and records the change in assessment_revisions. Returns the new revision number. Raises an exception if nothing changed.';
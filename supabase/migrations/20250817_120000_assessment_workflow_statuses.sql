@@ -0,0 +1,20 @@
+-- =====================================================
+-- PBLab Assessment Workflow Statuses Migration
+-- =====================================================
+-- Purpose: Add the enum values used by the draft, review and publish
+--          workflow for assessments
+-- Affected: assessment_status enum (new 'draft' value), notification_type
+--           enum (new assessment workflow values)
+-- Security model: No policy changes. New enum values cannot be used in the
+--                 transaction that adds them, so they are added here and used
+--                 by the following assessment publishing migration.
+-- =====================================================
+
+-- draft:          saved by the assessor, not visible to students
+-- pending_review: a second review has been requested
+-- final:          published to the team
+ALTER TYPE assessment_status ADD VALUE IF NOT EXISTS 'draft' BEFORE 'pending_review';
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'assessment_review_requested';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'assessment_reviewed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'assessment_published';
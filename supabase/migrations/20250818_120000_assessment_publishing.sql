@@ -0,0 +1,353 @@
+-- =====================================================
+-- PBLab Assessment Publishing Migration
+-- =====================================================
+-- Purpose: Draft, review and publish workflow for assessments. Assessors save
+--          drafts, can ask another educator for a second review, and publish.
+--          Publishing is the only way an assessment becomes 'final', which is
+--          what exposes it to students.
+-- Affected: assessments (workflow columns, default status), new functions
+--           request_assessment_review(), get_my_assessment_reviews(),
+--           get_assessment_review(), complete_assessment_review() and
+--           publish_assessment()
+-- Security model: Students can already only see 'final' assessments. Review
+--                 requests and publishing go through SECURITY DEFINER
+--                 functions that check the caller explicitly, because
+--                 reviewers may be educators outside the course and the
+--                 notifications they send go to other users.
+-- =====================================================
+
+-- submitted_at: when the assessor saved their own version (NULL for AI drafts
+--               the educator has not reviewed yet)
+-- reviewer_id .. review_comment: the latest second review request
+-- published_at / published_by: when and by whom the assessment was published
+ALTER TABLE assessments
+    ADD COLUMN submitted_at TIMESTAMPTZ,
+    ADD COLUMN reviewer_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    ADD COLUMN review_requested_at TIMESTAMPTZ,
+    ADD COLUMN reviewed_at TIMESTAMPTZ,
+    ADD COLUMN review_approved BOOLEAN,
+    ADD COLUMN review_comment TEXT,
+    ADD COLUMN published_at TIMESTAMPTZ,
+    ADD COLUMN published_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE assessments ALTER COLUMN status SET DEFAULT 'draft';
+
+CREATE INDEX idx_assessments_reviewer_id ON assessments(reviewer_id) WHERE reviewer_id IS NOT NULL;
+
+-- Existing assessments were submitted unless they are AI drafts on projects
+-- still in the post phase (submitting used to close the project)
+UPDATE assessments a
+SET submitted_at = a.created_at
+WHERE NOT EXISTS (
+  SELECT 1
+  FROM projects pr
+  JOIN assessment_scores s ON s.assessment_id = a.id
+  WHERE pr.id = a.project_id AND pr.phase = 'post' AND s.ai_generated
+);
+
+-- Assessments on closed projects were submitted under the old workflow, which
+-- treated them as final; everything else becomes a draft
+UPDATE assessments a
+SET status = 'final', published_at = a.updated_at
+FROM projects pr
+WHERE pr.id = a.project_id AND pr.phase = 'closed' AND a.status <> 'final';
+
+UPDATE assessments a
+SET status = 'draft'
+FROM projects pr
+WHERE pr.id = a.project_id AND pr.phase <> 'closed' AND a.status = 'pending_review';
+
+-- =====================================================
+-- REQUEST ASSESSMENT REVIEW FUNCTION
+-- =====================================================
+
+-- Asks another educator or an admin to review an assessment before it is
+-- published, and notifies them. Requesting again replaces the reviewer and
+-- clears any previous review.
+CREATE OR REPLACE FUNCTION request_assessment_review(
+  _assessment_id UUID,
+  _reviewer_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment assessments%ROWTYPE;
+BEGIN
+  SELECT * INTO _assessment
+  FROM assessments
+  WHERE id = _assessment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _assessment.assessor_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Assessment not found or access denied';
+  END IF;
+
+  IF _assessment.status = 'final' THEN
+    RAISE EXCEPTION 'Published assessments cannot be sent for review';
+  END IF;
+
+  IF _assessment.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'Save the AI draft before requesting a review';
+  END IF;
+
+  IF _reviewer_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own assessment';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM users WHERE id = _reviewer_id AND role IN ('educator', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Reviewer must be an educator or admin';
+  END IF;
+
+  UPDATE assessments
+  SET status = 'pending_review',
+      reviewer_id = _reviewer_id,
+      review_requested_at = now(),
+      reviewed_at = NULL,
+      review_approved = NULL,
+      review_comment = NULL,
+      updated_at = now()
+  WHERE id = _assessment_id;
+
+  -- actor_id is set to auth.uid() by set_notification_actor_trigger
+  INSERT INTO notifications (recipient_id, type, reference_id, reference_url)
+  VALUES (
+    _reviewer_id,
+    'assessment_review_requested',
+    _assessment_id,
+    '/educator/reviews/' || _assessment_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_assessment_review(UUID, UUID) TO authenticated;
+
+-- =====================================================
+-- REVIEWER ACCESS FUNCTIONS
+-- =====================================================
+
+-- Assessments waiting for the caller's review, oldest request first
+CREATE OR REPLACE FUNCTION get_my_assessment_reviews()
+RETURNS TABLE (
+  assessment_id UUID,
+  project_id UUID,
+  problem_title TEXT,
+  team_name TEXT,
+  assessor_name TEXT,
+  review_requested_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, pr.id, p.title, t.name, coalesce(u.name, u.email), a.review_requested_at
+  FROM assessments a
+  JOIN projects pr ON pr.id = a.project_id
+  JOIN problems p ON p.id = pr.problem_id
+  JOIN teams t ON t.id = pr.team_id
+  JOIN users u ON u.id = a.assessor_id
+  WHERE a.reviewer_id = auth.uid()
+    AND a.status = 'pending_review'
+    AND a.reviewed_at IS NULL
+  ORDER BY a.review_requested_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_assessment_reviews() TO authenticated;
+
+-- Everything a reviewer needs to review an assessment they were asked to
+-- review. Reviewers may not otherwise have access to the course.
+CREATE OR REPLACE FUNCTION get_assessment_review(_assessment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'assessment_id', a.id,
+    'project_id', pr.id,
+    'problem_title', p.title,
+    'team_name', t.name,
+    'final_report_url', pr.final_report_url,
+    'assessor_name', coalesce(u.name, u.email),
+    'overall_feedback', a.overall_feedback,
+    'status', a.status,
+    'review_requested_at', a.review_requested_at,
+    'reviewed_at', a.reviewed_at,
+    'review_approved', a.review_approved,
+    'review_comment', a.review_comment,
+    'criteria', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'criterion_id', rc.id,
+        'criterion_text', rc.criterion_text,
+        'max_score', rc.max_score,
+        'score', s.score,
+        'justification', s.justification
+      ) ORDER BY rc.sort_order)
+      FROM rubric_criteria rc
+      JOIN rubrics r ON r.id = rc.rubric_id
+      LEFT JOIN assessment_scores s ON s.assessment_id = a.id AND s.criterion_id = rc.id
+      WHERE r.problem_id = p.id
+    ), '[]'::jsonb)
+  ) INTO _result
+  FROM assessments a
+  JOIN projects pr ON pr.id = a.project_id
+  JOIN problems p ON p.id = pr.problem_id
+  JOIN teams t ON t.id = pr.team_id
+  JOIN users u ON u.id = a.assessor_id
+  WHERE a.id = _assessment_id
+    AND a.reviewer_id = auth.uid();
+
+  IF _result IS NULL THEN
+    RAISE EXCEPTION 'Review not found or access denied';
+  END IF;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_assessment_review(UUID) TO authenticated;
+
+-- =====================================================
+-- COMPLETE ASSESSMENT REVIEW FUNCTION
+-- =====================================================
+
+-- Records the reviewer's decision and notifies the assessor. Approved
+-- assessments can be published; otherwise the assessment goes back to draft
+-- with the reviewer's comment.
+CREATE OR REPLACE FUNCTION complete_assessment_review(
+  _assessment_id UUID,
+  _approved BOOLEAN,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment assessments%ROWTYPE;
+BEGIN
+  SELECT * INTO _assessment
+  FROM assessments
+  WHERE id = _assessment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _assessment.reviewer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Review not found or access denied';
+  END IF;
+
+  IF _assessment.status <> 'pending_review' OR _assessment.reviewed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This assessment is no longer waiting for your review';
+  END IF;
+
+  UPDATE assessments
+  SET status = CASE WHEN _approved THEN 'pending_review'::assessment_status ELSE 'draft'::assessment_status END,
+      reviewed_at = now(),
+      review_approved = _approved,
+      review_comment = nullif(trim(_comment), ''),
+      updated_at = now()
+  WHERE id = _assessment_id;
+
+  INSERT INTO notifications (recipient_id, type, reference_id, reference_url)
+  VALUES (
+    _assessment.assessor_id,
+    'assessment_reviewed',
+    _assessment_id,
+    '/p/' || _assessment.project_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION complete_assessment_review(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- =====================================================
+-- PUBLISH ASSESSMENT FUNCTION
+-- =====================================================
+
+-- Publishes an assessment: marks it final, closes the project and notifies
+-- every team member. Only the assessor, the course educator or an admin can
+-- publish, and only once any requested review has been approved.
+-- Returns the number of team members notified.
+CREATE OR REPLACE FUNCTION publish_assessment(_assessment_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment assessments%ROWTYPE;
+  _team_id UUID;
+  _notified INTEGER;
+BEGIN
+  SELECT * INTO _assessment
+  FROM assessments
+  WHERE id = _assessment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    _assessment.assessor_id = auth.uid() OR
+    get_my_role() = 'admin' OR
+    (get_my_role() = 'educator' AND EXISTS (
+      SELECT 1
+      FROM projects pr
+      JOIN problems p ON p.id = pr.problem_id
+      JOIN courses c ON c.id = p.course_id
+      WHERE pr.id = _assessment.project_id AND c.admin_id = auth.uid()
+    ))
+  ) THEN
+    RAISE EXCEPTION 'Assessment not found or access denied';
+  END IF;
+
+  IF _assessment.status = 'final' THEN
+    RAISE EXCEPTION 'This assessment has already been published';
+  END IF;
+
+  IF _assessment.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'AI drafts must be reviewed and saved before publishing';
+  END IF;
+
+  IF _assessment.status = 'pending_review' AND _assessment.review_approved IS NOT TRUE THEN
+    RAISE EXCEPTION 'This assessment is waiting for a second review';
+  END IF;
+
+  UPDATE assessments
+  SET status = 'final',
+      published_at = now(),
+      published_by = auth.uid(),
+      updated_at = now()
+  WHERE id = _assessment_id;
+
+  -- Publishing completes the project
+  UPDATE projects
+  SET phase = 'closed', updated_at = now()
+  WHERE id = _assessment.project_id AND phase <> 'closed'
+  RETURNING team_id INTO _team_id;
+
+  IF _team_id IS NULL THEN
+    SELECT team_id INTO _team_id FROM projects WHERE id = _assessment.project_id;
+  END IF;
+
+  INSERT INTO notifications (recipient_id, type, reference_id, reference_url)
+  SELECT tu.user_id, 'assessment_published', _assessment_id, '/p/' || _assessment.project_id
+  FROM teams_users tu
+  WHERE tu.team_id = _team_id AND tu.user_id <> auth.uid();
+
+  GET DIAGNOSTICS _notified = ROW_COUNT;
+
+  RETURN _notified;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION publish_assessment(UUID) TO authenticated;
+
+COMMENT ON FUNCTION publish_assessment(UUID) IS
+'Marks an assessment final, closes its project and notifies the team. The only way an assessment becomes visible to students. Returns the number of team members notified.';
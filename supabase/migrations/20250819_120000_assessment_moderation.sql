@@ -0,0 +1,387 @@
+-- =====================================================
+-- PBLab Assessment Moderation Migration
+-- =====================================================
+-- Purpose: Let several educators or TAs grade the same report independently
+--          and have a moderator reconcile their scores into the assessment
+--          that is published to the team
+-- Affected: new course_assessors and course_moderation_settings tables, new
+--           moderation_aggregation, moderation_rounding and
+--           assessment_moderation_method ENUMs, assessments (moderation
+--           columns), publish_assessment() (moderation checks)
+-- Security model: The course educator chooses extra assessors for their
+--                 course. Assessors can read the course's problems, rubrics,
+--                 teams and projects and create their own assessments, but
+--                 only ever see their own scores. The course educator and
+--                 admins moderate: they can read every assessor's scores and
+--                 publish the moderated assessment.
+-- =====================================================
+
+CREATE SCHEMA IF NOT EXISTS private;
+
+-- How the course rule combines assessors' scores for a criterion
+CREATE TYPE moderation_aggregation AS ENUM ('mean', 'median', 'lowest', 'highest');
+
+-- How a combined score that is not a whole number is rounded
+CREATE TYPE moderation_rounding AS ENUM ('nearest', 'down', 'up');
+
+-- How a moderated assessment was produced: the mean of the assessors'
+-- scores, the course rule, or scores the moderator set themselves
+CREATE TYPE assessment_moderation_method AS ENUM ('average', 'course_rule', 'override');
+
+-- Educators (including TAs with the educator role) who assess projects in a
+-- course they do not own
+CREATE TABLE course_assessors (
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    added_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (course_id, user_id)
+);
+
+CREATE INDEX idx_course_assessors_user_id ON course_assessors(user_id);
+
+-- Moderation rules for a course. Courses without a row use the defaults.
+-- min_assessors: independent assessments needed before a project can be
+--                published
+-- max_disagreement: largest spread between assessors' scores for a criterion
+--                   the course rule resolves on its own; wider disagreements
+--                   must be settled by the moderator (NULL = no limit)
+CREATE TABLE course_moderation_settings (
+    course_id UUID PRIMARY KEY REFERENCES courses(id) ON DELETE CASCADE,
+    aggregation moderation_aggregation NOT NULL DEFAULT 'mean',
+    rounding moderation_rounding NOT NULL DEFAULT 'nearest',
+    max_disagreement INTEGER CHECK (max_disagreement IS NULL OR max_disagreement >= 0),
+    min_assessors INTEGER NOT NULL DEFAULT 1 CHECK (min_assessors BETWEEN 1 AND 10),
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- moderation_method: set on the moderated assessment that reconciles the
+--                    project's independent assessments (NULL for those)
+-- moderated_from: the independent assessments it was reconciled from
+ALTER TABLE assessments
+    ADD COLUMN moderation_method assessment_moderation_method,
+    ADD COLUMN moderated_from UUID[];
+
+-- One moderated assessment per project
+CREATE UNIQUE INDEX idx_assessments_moderated_project
+ON assessments(project_id)
+WHERE moderation_method IS NOT NULL;
+
+ALTER TABLE course_assessors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE course_moderation_settings ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- ASSESSOR ACCESS FUNCTIONS
+-- =====================================================
+
+-- Courses the current user has been added to as an assessor. SECURITY DEFINER
+-- so policies on courses and course_assessors do not recurse into each other.
+CREATE OR REPLACE FUNCTION private.get_assessor_course_ids()
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER -- Bypasses RLS
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(course_id), '{}')
+  FROM course_assessors
+  WHERE user_id = auth.uid();
+$$;
+
+-- Projects in the courses the current user assesses
+CREATE OR REPLACE FUNCTION private.get_assessor_project_ids()
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER -- Bypasses RLS
+SET search_path = public
+AS $$
+  SELECT coalesce(array_agg(pr.id), '{}')
+  FROM course_assessors ca
+  JOIN problems p ON p.course_id = ca.course_id
+  JOIN projects pr ON pr.problem_id = p.id
+  WHERE ca.user_id = auth.uid();
+$$;
+
+-- =====================================================
+-- COURSE_ASSESSORS TABLE POLICIES
+-- =====================================================
+
+-- Educators manage the assessors of their courses
+CREATE POLICY "Educators can view course assessors"
+ON course_assessors FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+);
+
+CREATE POLICY "Educators can add course assessors"
+ON course_assessors FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+);
+
+CREATE POLICY "Educators can remove course assessors"
+ON course_assessors FOR DELETE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+);
+
+-- Assessors can see which courses they assess
+CREATE POLICY "Assessors can view their assessor roles"
+ON course_assessors FOR SELECT
+TO authenticated
+USING (user_id = (SELECT auth.uid()));
+
+CREATE POLICY "Admins can manage course assessors"
+ON course_assessors FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- COURSE_MODERATION_SETTINGS TABLE POLICIES
+-- =====================================================
+
+CREATE POLICY "Educators can view course moderation settings"
+ON course_moderation_settings FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+);
+
+CREATE POLICY "Educators can create course moderation settings"
+ON course_moderation_settings FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+);
+
+CREATE POLICY "Educators can update course moderation settings"
+ON course_moderation_settings FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  course_id IN (SELECT id FROM courses WHERE admin_id = (SELECT auth.uid()))
+);
+
+-- Assessors can read the rules of the courses they assess
+CREATE POLICY "Assessors can view course moderation settings"
+ON course_moderation_settings FOR SELECT
+TO authenticated
+USING (course_id = ANY(private.get_assessor_course_ids()));
+
+CREATE POLICY "Admins can manage course moderation settings"
+ON course_moderation_settings FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- ASSESSOR READ ACCESS TO COURSE CONTENT
+-- =====================================================
+
+CREATE POLICY "Assessors can view their assessed courses"
+ON courses FOR SELECT
+TO authenticated
+USING (id = ANY(private.get_assessor_course_ids()));
+
+CREATE POLICY "Assessors can view course problems"
+ON problems FOR SELECT
+TO authenticated
+USING (course_id = ANY(private.get_assessor_course_ids()));
+
+CREATE POLICY "Assessors can view course teams"
+ON teams FOR SELECT
+TO authenticated
+USING (course_id = ANY(private.get_assessor_course_ids()));
+
+CREATE POLICY "Assessors can view course projects"
+ON projects FOR SELECT
+TO authenticated
+USING (id = ANY(private.get_assessor_project_ids()));
+
+CREATE POLICY "Assessors can view course rubrics"
+ON rubrics FOR SELECT
+TO authenticated
+USING (
+  problem_id IN (
+    SELECT id FROM problems WHERE course_id = ANY(private.get_assessor_course_ids())
+  )
+);
+
+CREATE POLICY "Assessors can view course rubric criteria"
+ON rubric_criteria FOR SELECT
+TO authenticated
+USING (
+  rubric_id IN (
+    SELECT r.id
+    FROM rubrics r
+    JOIN problems p ON p.id = r.problem_id
+    WHERE p.course_id = ANY(private.get_assessor_course_ids())
+  )
+);
+
+-- =====================================================
+-- ASSESSMENT POLICIES
+-- =====================================================
+
+-- Assessors only see their own assessments, so they grade blind
+CREATE POLICY "Assessors can view their own assessments"
+ON assessments FOR SELECT
+TO authenticated
+USING (assessor_id = (SELECT auth.uid()));
+
+-- Assessors create independent assessments; only moderators reconcile them
+CREATE POLICY "Assessors can create course assessments"
+ON assessments FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  assessor_id = (SELECT auth.uid()) AND
+  moderation_method IS NULL AND
+  project_id = ANY(private.get_assessor_project_ids())
+);
+
+-- The course educator moderates, so they can compare every assessor's scores
+CREATE POLICY "Educators can view course assessment scores"
+ON assessment_scores FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  assessment_id IN (
+    SELECT a.id
+    FROM assessments a
+    JOIN projects pr ON a.project_id = pr.id
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+-- Assessors can read the history of their own assessments
+CREATE POLICY "Assessors can view revisions of their assessments"
+ON assessment_revisions FOR SELECT
+TO authenticated
+USING (
+  assessment_id IN (
+    SELECT id
+    FROM assessments
+    WHERE assessor_id = (SELECT auth.uid())
+  )
+);
+
+-- =====================================================
+-- PUBLISH ASSESSMENT FUNCTION
+-- =====================================================
+
+-- Same as before, plus the course's moderation rules: a project needs the
+-- course's minimum number of independent assessments, and once it has more
+-- than one only the moderated assessment can be published.
+CREATE OR REPLACE FUNCTION publish_assessment(_assessment_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment assessments%ROWTYPE;
+  _team_id UUID;
+  _notified INTEGER;
+  _assessor_count INTEGER;
+  _min_assessors INTEGER;
+BEGIN
+  SELECT * INTO _assessment
+  FROM assessments
+  WHERE id = _assessment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    _assessment.assessor_id = auth.uid() OR
+    get_my_role() = 'admin' OR
+    (get_my_role() = 'educator' AND EXISTS (
+      SELECT 1
+      FROM projects pr
+      JOIN problems p ON p.id = pr.problem_id
+      JOIN courses c ON c.id = p.course_id
+      WHERE pr.id = _assessment.project_id AND c.admin_id = auth.uid()
+    ))
+  ) THEN
+    RAISE EXCEPTION 'Assessment not found or access denied';
+  END IF;
+
+  IF _assessment.status = 'final' THEN
+    RAISE EXCEPTION 'This assessment has already been published';
+  END IF;
+
+  IF _assessment.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'AI drafts must be reviewed and saved before publishing';
+  END IF;
+
+  IF _assessment.status = 'pending_review' AND _assessment.review_approved IS NOT TRUE THEN
+    RAISE EXCEPTION 'This assessment is waiting for a second review';
+  END IF;
+
+  SELECT count(*) INTO _assessor_count
+  FROM assessments
+  WHERE project_id = _assessment.project_id
+    AND moderation_method IS NULL
+    AND submitted_at IS NOT NULL;
+
+  SELECT coalesce(s.min_assessors, 1) INTO _min_assessors
+  FROM projects pr
+  JOIN problems p ON p.id = pr.problem_id
+  LEFT JOIN course_moderation_settings s ON s.course_id = p.course_id
+  WHERE pr.id = _assessment.project_id;
+
+  IF _assessor_count < coalesce(_min_assessors, 1) THEN
+    RAISE EXCEPTION 'This course needs % independent assessments before publishing', _min_assessors;
+  END IF;
+
+  IF _assessment.moderation_method IS NULL AND _assessor_count > 1 THEN
+    RAISE EXCEPTION 'This project has several assessments; publish the moderated assessment instead';
+  END IF;
+
+  UPDATE assessments
+  SET status = 'final',
+      published_at = now(),
+      published_by = auth.uid(),
+      updated_at = now()
+  WHERE id = _assessment_id;
+
+  -- Publishing completes the project
+  UPDATE projects
+  SET phase = 'closed', updated_at = now()
+  WHERE id = _assessment.project_id AND phase <> 'closed'
+  RETURNING team_id INTO _team_id;
+
+  IF _team_id IS NULL THEN
+    SELECT team_id INTO _team_id FROM projects WHERE id = _assessment.project_id;
+  END IF;
+
+  INSERT INTO notifications (recipient_id, type, reference_id, reference_url)
+  SELECT tu.user_id, 'assessment_published', _assessment_id, '/p/' || _assessment.project_id
+  FROM teams_users tu
+  WHERE tu.team_id = _team_id AND tu.user_id <> auth.uid();
+
+  GET DIAGNOSTICS _notified = ROW_COUNT;
+
+  RETURN _notified;
+END;
+$$;
+
+COMMENT ON FUNCTION publish_assessment(UUID) IS
+'Marks an assessment final, closes its project and notifies the team. The only way an assessment becomes visible to students. Projects with several independent assessments can only publish their moderated assessment. Returns the number of team members notified.';
@@ -0,0 +1,258 @@
+-- =====================================================
+-- PBLab Peer Assessment Migration
+-- =====================================================
+-- Purpose: Let team members rate each teammate's contribution at the end of
+--          the post phase, so educators can turn the team score into
+--          individual grades
+-- Affected: new peer_assessment_criteria, peer_assessment_settings and
+--           peer_ratings tables, teams_users (assessor read access)
+-- Security model: Educators choose the criteria for problems in their
+--                 courses. Students rate teammates on those criteria while
+--                 the project is in the post phase and only ever see the
+--                 ratings they gave, so ratings stay anonymous to peers.
+--                 The course educator, course assessors and admins see every
+--                 rating.
+-- =====================================================
+
+CREATE SCHEMA IF NOT EXISTS private;
+
+-- Criteria teammates are rated on. Peer assessment is enabled for a problem
+-- once it has at least one criterion.
+CREATE TABLE peer_assessment_criteria (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    problem_id UUID NOT NULL REFERENCES problems(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL CHECK (sort_order >= 0),
+    criterion_text TEXT NOT NULL CHECK (length(trim(criterion_text)) > 0),
+    max_score INTEGER NOT NULL DEFAULT 5 CHECK (max_score BETWEEN 2 AND 10),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_peer_assessment_criteria_problem_id ON peer_assessment_criteria(problem_id, sort_order);
+
+-- Whether a problem's contribution factors adjust the team score.
+-- weighting: share of the team score that is adjusted by the factor (WebPA
+--            weighting); the rest is awarded to every member unchanged.
+--            Problems without a row do not adjust grades.
+CREATE TABLE peer_assessment_settings (
+    problem_id UUID PRIMARY KEY REFERENCES problems(id) ON DELETE CASCADE,
+    apply_to_grades BOOLEAN NOT NULL DEFAULT false,
+    weighting NUMERIC(3, 2) NOT NULL DEFAULT 1 CHECK (weighting BETWEEN 0 AND 1),
+    updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One score per rater, teammate and criterion. Students do not rate themselves.
+CREATE TABLE peer_ratings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    rater_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    ratee_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    criterion_id UUID NOT NULL REFERENCES peer_assessment_criteria(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL CHECK (score >= 1),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (project_id, rater_id, ratee_id, criterion_id),
+    CHECK (rater_id <> ratee_id)
+);
+
+CREATE INDEX idx_peer_ratings_project_id ON peer_ratings(project_id);
+
+ALTER TABLE peer_assessment_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peer_assessment_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE peer_ratings ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- PEER RATING CHECK FUNCTION
+-- =====================================================
+
+-- Whether the current user may give this rating: the project is in the post
+-- phase, rater and ratee are both on its team, and the criterion belongs to
+-- the project's problem with the score in range. SECURITY DEFINER so the
+-- check does not recurse through the teams_users and projects policies.
+CREATE OR REPLACE FUNCTION private.is_valid_peer_rating(
+    p_project_id uuid,
+    p_ratee_id uuid,
+    p_criterion_id uuid,
+    p_score integer
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER -- Bypasses RLS
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM projects pr
+    JOIN peer_assessment_criteria c ON c.problem_id = pr.problem_id
+    WHERE pr.id = p_project_id
+      AND pr.phase = 'post'
+      AND c.id = p_criterion_id
+      AND p_score BETWEEN 1 AND c.max_score
+      AND private.is_team_member(auth.uid(), pr.team_id)
+      AND private.is_team_member(p_ratee_id, pr.team_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION private.is_valid_peer_rating(uuid, uuid, uuid, integer) TO authenticated;
+
+-- Assessors see who is on a team so they can read its peer ratings
+CREATE POLICY "Assessors can view course team membership"
+ON teams_users FOR SELECT
+TO authenticated
+USING (
+  team_id IN (
+    SELECT id FROM teams WHERE course_id = ANY(private.get_assessor_course_ids())
+  )
+);
+
+-- =====================================================
+-- PEER_ASSESSMENT_CRITERIA TABLE POLICIES
+-- =====================================================
+
+CREATE POLICY "Educators can manage course peer assessment criteria"
+ON peer_assessment_criteria FOR ALL
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+CREATE POLICY "Assessors can view course peer assessment criteria"
+ON peer_assessment_criteria FOR SELECT
+TO authenticated
+USING (
+  problem_id IN (
+    SELECT id FROM problems WHERE course_id = ANY(private.get_assessor_course_ids())
+  )
+);
+
+-- Students see the criteria of their team's problems so they can rate teammates
+CREATE POLICY "Students can view peer assessment criteria for their problems"
+ON peer_assessment_criteria FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'student' AND
+  problem_id IN (
+    SELECT problem_id FROM projects WHERE team_id = ANY(private.get_user_team_ids())
+  )
+);
+
+CREATE POLICY "Admins can manage all peer assessment criteria"
+ON peer_assessment_criteria FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- PEER_ASSESSMENT_SETTINGS TABLE POLICIES
+-- =====================================================
+
+CREATE POLICY "Educators can manage course peer assessment settings"
+ON peer_assessment_settings FOR ALL
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'educator' AND
+  problem_id IN (
+    SELECT p.id
+    FROM problems p
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+CREATE POLICY "Assessors can view course peer assessment settings"
+ON peer_assessment_settings FOR SELECT
+TO authenticated
+USING (
+  problem_id IN (
+    SELECT id FROM problems WHERE course_id = ANY(private.get_assessor_course_ids())
+  )
+);
+
+CREATE POLICY "Admins can manage all peer assessment settings"
+ON peer_assessment_settings FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- PEER_RATINGS TABLE POLICIES
+-- =====================================================
+
+-- Students only see the ratings they gave, never the ratings they received
+CREATE POLICY "Students can view the peer ratings they gave"
+ON peer_ratings FOR SELECT
+TO authenticated
+USING (rater_id = (SELECT auth.uid()));
+
+CREATE POLICY "Students can rate their teammates"
+ON peer_ratings FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'student' AND
+  rater_id = (SELECT auth.uid()) AND
+  private.is_valid_peer_rating(project_id, ratee_id, criterion_id, score)
+);
+
+CREATE POLICY "Students can change their peer ratings"
+ON peer_ratings FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'student' AND
+  rater_id = (SELECT auth.uid())
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'student' AND
+  rater_id = (SELECT auth.uid()) AND
+  private.is_valid_peer_rating(project_id, ratee_id, criterion_id, score)
+);
+
+CREATE POLICY "Educators can view course peer ratings"
+ON peer_ratings FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+CREATE POLICY "Assessors can view course peer ratings"
+ON peer_ratings FOR SELECT
+TO authenticated
+USING (project_id = ANY(private.get_assessor_project_ids()));
+
+CREATE POLICY "Admins can manage all peer ratings"
+ON peer_ratings FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
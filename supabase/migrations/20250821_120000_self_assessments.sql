@@ -0,0 +1,184 @@
+-- =====================================================
+-- PBLab Self-Assessment Migration
+-- =====================================================
+-- Purpose: Let students rate their own work against the problem rubric, so
+--          educators can calibrate against it and students can compare it
+--          with the published assessment
+-- Affected: new self_assessments and self_assessment_scores tables
+-- Security model: Students create and change their own self-assessment
+--                 while the project is in the post phase and only ever see
+--                 their own. The course educator, course assessors and
+--                 admins see every self-assessment of the project. Educator
+--                 assessments are stored separately and are not affected.
+-- =====================================================
+
+CREATE SCHEMA IF NOT EXISTS private;
+
+-- One self-assessment per student and project
+CREATE TABLE self_assessments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    reflection TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    UNIQUE (project_id, student_id)
+);
+
+-- Scores against the same rubric_criteria the educator uses
+CREATE TABLE self_assessment_scores (
+    self_assessment_id UUID NOT NULL REFERENCES self_assessments(id) ON DELETE CASCADE,
+    criterion_id UUID NOT NULL REFERENCES rubric_criteria(id) ON DELETE CASCADE,
+    score INTEGER NOT NULL CHECK (score >= 1),
+    justification TEXT,
+    PRIMARY KEY (self_assessment_id, criterion_id)
+);
+
+ALTER TABLE self_assessments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE self_assessment_scores ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- SELF-ASSESSMENT CHECK FUNCTIONS
+-- =====================================================
+
+-- Whether the current user can self-assess the project: they are on its team
+-- and it is in the post phase. SECURITY DEFINER so the check does not recurse
+-- through the teams_users and projects policies.
+CREATE OR REPLACE FUNCTION private.can_self_assess(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER -- Bypasses RLS
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM projects pr
+    WHERE pr.id = p_project_id
+      AND pr.phase = 'post'
+      AND private.is_team_member(auth.uid(), pr.team_id)
+  );
+$$;
+
+-- Whether a score belongs in the current user's self-assessment: it is their
+-- own, still open, and the criterion is on the project's rubric with the
+-- score in range
+CREATE OR REPLACE FUNCTION private.is_valid_self_assessment_score(
+    p_self_assessment_id uuid,
+    p_criterion_id uuid,
+    p_score integer
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER -- Bypasses RLS
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM self_assessments sa
+    JOIN projects pr ON pr.id = sa.project_id
+    JOIN rubrics r ON r.problem_id = pr.problem_id
+    JOIN rubric_criteria rc ON rc.rubric_id = r.id
+    WHERE sa.id = p_self_assessment_id
+      AND sa.student_id = auth.uid()
+      AND rc.id = p_criterion_id
+      AND p_score BETWEEN 1 AND rc.max_score
+      AND private.can_self_assess(sa.project_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION private.can_self_assess(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION private.is_valid_self_assessment_score(uuid, uuid, integer) TO authenticated;
+
+-- =====================================================
+-- SELF_ASSESSMENTS TABLE POLICIES
+-- =====================================================
+
+CREATE POLICY "Students can view their own self-assessments"
+ON self_assessments FOR SELECT
+TO authenticated
+USING (student_id = (SELECT auth.uid()));
+
+CREATE POLICY "Students can create their own self-assessments"
+ON self_assessments FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'student' AND
+  student_id = (SELECT auth.uid()) AND
+  private.can_self_assess(project_id)
+);
+
+CREATE POLICY "Students can update their own self-assessments"
+ON self_assessments FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'student' AND
+  student_id = (SELECT auth.uid())
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'student' AND
+  student_id = (SELECT auth.uid()) AND
+  private.can_self_assess(project_id)
+);
+
+CREATE POLICY "Educators can view course self-assessments"
+ON self_assessments FOR SELECT
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'educator' AND
+  project_id IN (
+    SELECT pr.id
+    FROM projects pr
+    JOIN problems p ON pr.problem_id = p.id
+    JOIN courses c ON p.course_id = c.id
+    WHERE c.admin_id = (SELECT auth.uid())
+  )
+);
+
+CREATE POLICY "Assessors can view course self-assessments"
+ON self_assessments FOR SELECT
+TO authenticated
+USING (project_id = ANY(private.get_assessor_project_ids()));
+
+CREATE POLICY "Admins can manage all self-assessments"
+ON self_assessments FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
+
+-- =====================================================
+-- SELF_ASSESSMENT_SCORES TABLE POLICIES
+-- =====================================================
+
+-- Scores follow the visibility of their self-assessment
+CREATE POLICY "Users can view self-assessment scores they can see"
+ON self_assessment_scores FOR SELECT
+TO authenticated
+USING (self_assessment_id IN (SELECT id FROM self_assessments));
+
+CREATE POLICY "Students can add their own self-assessment scores"
+ON self_assessment_scores FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT get_my_role()) = 'student' AND
+  private.is_valid_self_assessment_score(self_assessment_id, criterion_id, score)
+);
+
+CREATE POLICY "Students can update their own self-assessment scores"
+ON self_assessment_scores FOR UPDATE
+TO authenticated
+USING (
+  (SELECT get_my_role()) = 'student' AND
+  self_assessment_id IN (SELECT id FROM self_assessments WHERE student_id = (SELECT auth.uid()))
+)
+WITH CHECK (
+  (SELECT get_my_role()) = 'student' AND
+  private.is_valid_self_assessment_score(self_assessment_id, criterion_id, score)
+);
+
+CREATE POLICY "Admins can manage all self-assessment scores"
+ON self_assessment_scores FOR ALL
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin')
+WITH CHECK ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,61 @@
+-- =====================================================
+-- PBLab Internal AI Usage Migration
+-- =====================================================
+-- Purpose: Stop system-run AI calls (rolling tutor summaries) from using up
+--          a team's AI quota
+-- Affected: get_team_ai_usage() now returns totals per feature
+-- Security model: Unchanged. Callers are still restricted to the team, its
+--                 course educator, or admins.
+-- =====================================================
+
+-- The return type changes, so the function has to be dropped first
+DROP FUNCTION IF EXISTS public.get_team_ai_usage(uuid, timestamptz);
+
+-- Totals are split by feature so the app can leave out calls the system makes
+-- on the team's behalf (see INTERNAL_AI_FEATURES in lib/ai/quota.ts)
+CREATE OR REPLACE FUNCTION public.get_team_ai_usage(
+  _team_id uuid,
+  _since timestamptz
+)
+RETURNS TABLE (feature text, call_count bigint, token_count bigint)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _team_id IS NULL OR _since IS NULL THEN
+    RAISE EXCEPTION 'team_id and since are required';
+  END IF;
+
+  IF NOT (
+    private.is_team_member(auth.uid(), _team_id)
+    OR get_my_role() = 'admin'
+    OR EXISTS (
+      SELECT 1
+      FROM teams t
+      JOIN courses c ON c.id = t.course_id
+      WHERE t.id = _team_id AND c.admin_id = auth.uid()
+    )
+  ) THEN
+    RAISE EXCEPTION 'Team not found or access denied';
+  END IF;
+
+  -- Only successful usage by team members counts; promoted copies are not new calls
+  RETURN QUERY
+  SELECT u.feature, count(u.id), coalesce(sum(u.total_tokens), 0)::bigint
+  FROM ai_usage u
+  JOIN projects p ON p.id = u.project_id
+  JOIN teams_users tu ON tu.team_id = p.team_id AND tu.user_id = u.user_id
+  WHERE p.team_id = _team_id
+  AND u.created_at >= _since
+  AND (u.prompt ? 'promoted_from') IS NOT TRUE
+  AND u.error_code IS NULL
+  GROUP BY u.feature;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_ai_usage TO authenticated;
+
+COMMENT ON FUNCTION public.get_team_ai_usage IS
+'Returns the number of AI calls and tokens used by members of a team since the given time, per feature.
+Used to enforce ai_quotas before calling the model; internal features are left out of the quota totals by the app.';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- PBLab Remove Integrity Check Usage Migration
+-- =====================================================
+-- Purpose: Remove the ai_usage rows the tutor route used to write for each
+--          integrity classification. They recorded the flagged categories
+--          under the student's user and project, so the student and their
+--          teammates could read flags that must stay hidden from them.
+-- Affected: ai_usage (integrity_check rows deleted)
+-- Security model: Integrity flags are only stored in ai_integrity_flags,
+--                 which students have no access to.
+-- =====================================================
+
+DELETE FROM ai_usage WHERE feature = 'integrity_check';
@@ -0,0 +1,25 @@
+-- =====================================================
+-- PBLab Discussion Summary Cache Writes Migration
+-- =====================================================
+-- Purpose: Stop users writing the artifact discussion summary cache directly.
+--          With INSERT and UPDATE access a student could store any text as
+--          the "AI summary" and set comment_count and last_comment_id so it
+--          looked current to teammates and educators.
+-- Affected: artifact_discussion_summaries policies
+-- Security model: Summaries are written only by the summarize-discussion
+--                 route with the service client, after it has checked the
+--                 caller can see the artifact. Team members, course educators
+--                 and admins can read summaries.
+-- =====================================================
+
+DROP POLICY IF EXISTS "Team members can create artifact discussion summaries" ON artifact_discussion_summaries;
+DROP POLICY IF EXISTS "Team members can update artifact discussion summaries" ON artifact_discussion_summaries;
+DROP POLICY IF EXISTS "Educators can create course artifact discussion summaries" ON artifact_discussion_summaries;
+DROP POLICY IF EXISTS "Educators can update course artifact discussion summaries" ON artifact_discussion_summaries;
+DROP POLICY IF EXISTS "Admins can manage all artifact discussion summaries" ON artifact_discussion_summaries;
+
+-- Admins can view all summaries
+CREATE POLICY "Admins can view all artifact discussion summaries"
+ON artifact_discussion_summaries FOR SELECT
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin');
@@ -0,0 +1,190 @@
+-- =====================================================
+-- PBLab Assessment Revision Integrity Migration
+-- =====================================================
+-- Purpose: Make revise_assessment() the only way to write an assessment's
+--          revision history, and stop revisions from changing what the team
+--          sees before the assessment is published again
+-- Affected: revise_assessment() (SECURITY DEFINER, explicit checks, workflow
+--           status), assessment_revisions (INSERT policies dropped)
+-- Security model: Only the assessor (or an admin) can revise an assessment,
+--                 and only while they can still assess its course. Revising
+--                 a published assessment withdraws it: it goes back to draft
+--                 and students see nothing until it is published again.
+--                 Revising after an approved second review also returns it
+--                 to draft. Nobody can insert revision rows directly.
+-- =====================================================
+
+-- Revision rows were insertable by any assessor or admin, so the history
+-- could be forged. They are now written only by revise_assessment().
+DROP POLICY IF EXISTS "Educators can create revisions of their assessments" ON assessment_revisions;
+DROP POLICY IF EXISTS "Admins can create assessment revisions" ON assessment_revisions;
+
+-- =====================================================
+-- REVISE ASSESSMENT FUNCTION
+-- =====================================================
+
+-- Applies new scores and feedback to an assessment and records the revision
+-- in one transaction. SECURITY DEFINER so the history can only be written
+-- here; the caller is checked explicitly instead of through RLS.
+-- _scores: [{ criterion_id, score, justification }]
+CREATE OR REPLACE FUNCTION revise_assessment(
+  _assessment_id UUID,
+  _scores JSONB,
+  _overall_feedback TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _assessment assessments%ROWTYPE;
+  _course_id UUID;
+  _rubric_id UUID;
+  _revision INTEGER;
+  _changes JSONB;
+BEGIN
+  SELECT * INTO _assessment
+  FROM assessments
+  WHERE id = _assessment_id
+  FOR UPDATE;
+
+  SELECT p.course_id, r.id INTO _course_id, _rubric_id
+  FROM projects pr
+  JOIN problems p ON p.id = pr.problem_id
+  LEFT JOIN rubrics r ON r.problem_id = p.id
+  WHERE pr.id = _assessment.project_id;
+
+  IF NOT FOUND OR NOT (
+    get_my_role() = 'admin' OR
+    (get_my_role() = 'educator' AND _assessment.assessor_id = auth.uid() AND EXISTS (
+      SELECT 1 FROM courses c
+      WHERE c.id = _course_id
+        AND (c.admin_id = auth.uid() OR c.id = ANY(private.get_assessor_course_ids()))
+    ))
+  ) THEN
+    RAISE EXCEPTION 'Assessment not found or access denied';
+  END IF;
+
+  IF _assessment.submitted_at IS NULL THEN
+    RAISE EXCEPTION 'AI drafts must be reviewed and saved before they can be revised';
+  END IF;
+
+  IF _assessment.status = 'pending_review' AND _assessment.reviewed_at IS NULL THEN
+    RAISE EXCEPTION 'This assessment is waiting for a second review';
+  END IF;
+
+  IF _scores IS NULL OR jsonb_typeof(_scores) <> 'array' THEN
+    RAISE EXCEPTION 'Scores must be an array';
+  END IF;
+
+  -- Scores must belong to the project's rubric and be in range
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+    LEFT JOIN rubric_criteria rc ON rc.id = n.criterion_id AND rc.rubric_id = _rubric_id
+    WHERE rc.id IS NULL OR n.score IS NULL OR n.score < 1 OR n.score > rc.max_score
+  ) THEN
+    RAISE EXCEPTION 'Scores must match the project rubric';
+  END IF;
+
+  SELECT coalesce(max(revision_number), 0) INTO _revision
+  FROM assessment_revisions
+  WHERE assessment_id = _assessment_id;
+
+  -- Keep the original submission before it is first changed
+  IF _revision = 0 THEN
+    INSERT INTO assessment_revisions (assessment_id, revision_number, edited_by, overall_feedback, scores, created_at)
+    SELECT
+      _assessment_id,
+      1,
+      _assessment.assessor_id,
+      _assessment.overall_feedback,
+      coalesce(jsonb_agg(jsonb_build_object(
+        'criterion_id', s.criterion_id,
+        'score', s.score,
+        'justification', s.justification
+      ) ORDER BY s.criterion_id), '[]'::jsonb),
+      _assessment.updated_at
+    FROM assessment_scores s
+    WHERE s.assessment_id = _assessment_id;
+
+    _revision := 1;
+  END IF;
+
+  SELECT coalesce(jsonb_agg(change), '[]'::jsonb) INTO _changes
+  FROM (
+    SELECT jsonb_build_object('field', 'score', 'criterion_id', n.criterion_id, 'from', o.score, 'to', n.score) AS change
+    FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+    LEFT JOIN assessment_scores o ON o.assessment_id = _assessment_id AND o.criterion_id = n.criterion_id
+    WHERE o.score IS DISTINCT FROM n.score
+    UNION ALL
+    SELECT jsonb_build_object('field', 'justification', 'criterion_id', n.criterion_id, 'from', o.justification, 'to', n.justification)
+    FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+    LEFT JOIN assessment_scores o ON o.assessment_id = _assessment_id AND o.criterion_id = n.criterion_id
+    WHERE o.justification IS DISTINCT FROM n.justification
+  ) AS changed;
+
+  IF _assessment.overall_feedback IS DISTINCT FROM _overall_feedback THEN
+    _changes := _changes || jsonb_build_array(jsonb_build_object(
+      'field', 'overall_feedback',
+      'from', _assessment.overall_feedback,
+      'to', _overall_feedback
+    ));
+  END IF;
+
+  IF _changes = '[]'::jsonb THEN
+    RAISE EXCEPTION 'No changes to save';
+  END IF;
+
+  -- Revised scores are the educator's own, no longer AI-generated
+  UPDATE assessment_scores o
+  SET score = n.score, justification = n.justification, ai_generated = false
+  FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+  WHERE o.assessment_id = _assessment_id
+    AND o.criterion_id = n.criterion_id
+    AND (o.score IS DISTINCT FROM n.score OR o.justification IS DISTINCT FROM n.justification);
+
+  INSERT INTO assessment_scores (assessment_id, criterion_id, score, justification, ai_generated)
+  SELECT _assessment_id, n.criterion_id, n.score, n.justification, false
+  FROM jsonb_to_recordset(_scores) AS n(criterion_id UUID, score NUMERIC, justification TEXT)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM assessment_scores o
+    WHERE o.assessment_id = _assessment_id AND o.criterion_id = n.criterion_id
+  );
+
+  -- A revision has to be published again: an approved review no longer
+  -- covers it, and a published assessment is withdrawn from the team
+  UPDATE assessments
+  SET overall_feedback = _overall_feedback,
+      status = CASE WHEN status IN ('pending_review', 'final') THEN 'draft'::assessment_status ELSE status END,
+      published_at = NULL,
+      published_by = NULL,
+      updated_at = now()
+  WHERE id = _assessment_id;
+
+  INSERT INTO assessment_revisions (assessment_id, revision_number, edited_by, overall_feedback, scores, changes, reason)
+  SELECT
+    _assessment_id,
+    _revision + 1,
+    auth.uid(),
+    _overall_feedback,
+    coalesce(jsonb_agg(jsonb_build_object(
+      'criterion_id', s.criterion_id,
+      'score', s.score,
+      'justification', s.justification
+    ) ORDER BY s.criterion_id), '[]'::jsonb),
+    _changes,
+    nullif(trim(_reason), '')
+  FROM assessment_scores s
+  WHERE s.assessment_id = _assessment_id;
+
+  RETURN _revision + 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION revise_assessment(UUID, JSONB, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION revise_assessment(UUID, JSONB, TEXT, TEXT) IS
+'Updates an assessment''s scores and overall feedback and records the change in assessment_revisions. A reviewed or published assessment goes back to draft and must be published again. Returns the new revision number. Raises an exception if nothing changed.';
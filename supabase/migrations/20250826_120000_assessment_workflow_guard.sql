@@ -0,0 +1,129 @@
+-- =====================================================
+-- PBLab Assessment Workflow Guard Migration
+-- =====================================================
+-- Purpose: Stop assessors from publishing, approving or moderating
+--          assessments by writing the workflow columns directly. The INSERT
+--          and UPDATE policies on assessments only check who owns the row, so
+--          an assessor could set status = 'final' and expose unreviewed
+--          scores to the team.
+-- Affected: new guard_assessment_workflow() trigger on assessments, new
+--           guard_published_assessment_scores() trigger on assessment_scores
+-- Security model: status, the second review columns and the publishing
+--                 columns only change through the SECURITY DEFINER workflow
+--                 functions (request_assessment_review(),
+--                 complete_assessment_review(), publish_assessment() and
+--                 revise_assessment()), which run as their owner rather than
+--                 as the client role. Moderation columns can only be set by
+--                 the course educator or an admin. Scores of a published
+--                 assessment only change through revise_assessment().
+-- =====================================================
+
+-- =====================================================
+-- ASSESSMENT WORKFLOW COLUMNS
+-- =====================================================
+
+-- Direct writes from the API run as the authenticated role; the workflow
+-- functions run as their owner and are not restricted here
+CREATE OR REPLACE FUNCTION guard_assessment_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.published_at IS NOT NULL OR NEW.published_by IS NOT NULL
+      OR NEW.reviewer_id IS NOT NULL OR NEW.review_requested_at IS NOT NULL
+      OR NEW.reviewed_at IS NOT NULL OR NEW.review_approved IS NOT NULL
+      OR NEW.review_comment IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New assessments must be drafts; use the review and publish workflow';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.published_at IS DISTINCT FROM OLD.published_at
+    OR NEW.published_by IS DISTINCT FROM OLD.published_by
+    OR NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id
+    OR NEW.review_requested_at IS DISTINCT FROM OLD.review_requested_at
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    OR NEW.review_approved IS DISTINCT FROM OLD.review_approved
+    OR NEW.review_comment IS DISTINCT FROM OLD.review_comment
+  THEN
+    RAISE EXCEPTION 'Assessment status can only be changed through the review and publish workflow';
+  END IF;
+
+  -- Only moderators create or change the moderated assessment, and an
+  -- independent assessment can never become one (or the other way round)
+  IF (TG_OP = 'INSERT' AND (NEW.moderation_method IS NOT NULL OR NEW.moderated_from IS NOT NULL))
+    OR (TG_OP = 'UPDATE' AND (
+      NEW.moderation_method IS DISTINCT FROM OLD.moderation_method OR
+      NEW.moderated_from IS DISTINCT FROM OLD.moderated_from
+    ))
+  THEN
+    IF TG_OP = 'UPDATE' AND (OLD.moderation_method IS NULL OR NEW.moderation_method IS NULL) THEN
+      RAISE EXCEPTION 'Independent assessments cannot be turned into moderated assessments';
+    END IF;
+
+    IF NEW.moderation_method IS NULL OR NOT (
+      get_my_role() = 'admin' OR
+      (get_my_role() = 'educator' AND EXISTS (
+        SELECT 1
+        FROM projects pr
+        JOIN problems p ON p.id = pr.problem_id
+        JOIN courses c ON c.id = p.course_id
+        WHERE pr.id = NEW.project_id AND c.admin_id = auth.uid()
+      ))
+    ) THEN
+      RAISE EXCEPTION 'Only the course educator or an admin can moderate assessments';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_assessment_workflow_trigger
+  BEFORE INSERT OR UPDATE ON assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_assessment_workflow();
+
+-- =====================================================
+-- PUBLISHED ASSESSMENT SCORES
+-- =====================================================
+
+-- Students see a published assessment's scores, so they are only changed by
+-- revise_assessment(), which returns the assessment to draft. Scores removed
+-- along with their assessment are not affected.
+CREATE OR REPLACE FUNCTION guard_published_assessment_scores()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM assessments
+    WHERE status = 'final'
+      AND id IN (
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.assessment_id END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.assessment_id END
+      )
+  ) THEN
+    RAISE EXCEPTION 'Scores of a published assessment can only be changed by revising it';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER guard_published_assessment_scores_trigger
+  BEFORE INSERT OR UPDATE OR DELETE ON assessment_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_published_assessment_scores();
@@ -0,0 +1,26 @@
+-- =====================================================
+-- PBLab Tutor Summary Writes Migration
+-- =====================================================
+-- Purpose: Stop users writing the rolling tutor summary directly. With
+--          INSERT and UPDATE access a student could rewrite the tutor's
+--          memory of the conversation, or move summarized_through forward so
+--          real turns dropped out of the tutor's context and the educator's
+--          preview.
+-- Affected: ai_tutor_summaries policies
+-- Security model: Summaries are written only by the tutor route with the
+--                 service client, after it has checked the caller's access
+--                 to the project. Team members, course educators and admins
+--                 can read summaries.
+-- =====================================================
+
+DROP POLICY IF EXISTS "Team members can create project tutor summaries" ON ai_tutor_summaries;
+DROP POLICY IF EXISTS "Team members can update project tutor summaries" ON ai_tutor_summaries;
+DROP POLICY IF EXISTS "Educators can create course tutor summaries" ON ai_tutor_summaries;
+DROP POLICY IF EXISTS "Educators can update course tutor summaries" ON ai_tutor_summaries;
+DROP POLICY IF EXISTS "Admins can manage all tutor summaries" ON ai_tutor_summaries;
+
+-- Admins can view all summaries
+CREATE POLICY "Admins can view all tutor summaries"
+ON ai_tutor_summaries FOR SELECT
+TO authenticated
+USING ((SELECT get_my_role()) = 'admin');
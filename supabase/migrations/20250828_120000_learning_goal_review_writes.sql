@@ -0,0 +1,14 @@
+-- =====================================================
+-- PBLab Learning Goal Review Writes Migration
+-- =====================================================
+-- Purpose: Stop students inserting learning goal reviews directly. Any team
+--          member could store made-up feedback that educators then read as
+--          the AI review the team received.
+-- Affected: learning_goal_reviews policies
+-- Security model: Reviews are written only by the review-goals route with the
+--                 service client, after it has checked the caller is a member
+--                 of the project's team. Team members and course educators
+--                 can read reviews; admins can still manage all reviews.
+-- =====================================================
+
+DROP POLICY IF EXISTS "Team members can create learning goal reviews" ON learning_goal_reviews;
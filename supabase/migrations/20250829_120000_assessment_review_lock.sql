@@ -0,0 +1,130 @@
+-- =====================================================
+-- PBLab Assessment Review Lock Migration
+-- =====================================================
+-- Purpose: Close the gaps left by the workflow guard. Scores were only locked
+--          once an assessment was final and overall_feedback was never
+--          guarded, so an assessor could change scores after a reviewer
+--          approved them and publish what the reviewer never saw, or rewrite
+--          the feedback of a published assessment.
+-- Affected: guard_assessment_workflow() (overall_feedback),
+--           guard_published_assessment_scores() (locked assessments)
+-- Security model: Once a second review has been requested, or the assessment
+--                 is pending review or final, its scores and overall feedback
+--                 only change through revise_assessment(), which records the
+--                 revision and returns the assessment to draft.
+-- =====================================================
+
+-- Whether the content of an assessment can only be changed by revising it
+CREATE OR REPLACE FUNCTION private.is_assessment_locked(_assessment assessments)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _assessment.review_requested_at IS NOT NULL
+    OR _assessment.status IN ('pending_review', 'final');
+$$;
+
+GRANT EXECUTE ON FUNCTION private.is_assessment_locked(assessments) TO authenticated;
+
+-- =====================================================
+-- ASSESSMENT WORKFLOW COLUMNS
+-- =====================================================
+
+-- Same as before, plus overall_feedback of a locked assessment
+CREATE OR REPLACE FUNCTION guard_assessment_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'draft'
+      OR NEW.published_at IS NOT NULL OR NEW.published_by IS NOT NULL
+      OR NEW.reviewer_id IS NOT NULL OR NEW.review_requested_at IS NOT NULL
+      OR NEW.reviewed_at IS NOT NULL OR NEW.review_approved IS NOT NULL
+      OR NEW.review_comment IS NOT NULL
+    THEN
+      RAISE EXCEPTION 'New assessments must be drafts; use the review and publish workflow';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.published_at IS DISTINCT FROM OLD.published_at
+    OR NEW.published_by IS DISTINCT FROM OLD.published_by
+    OR NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id
+    OR NEW.review_requested_at IS DISTINCT FROM OLD.review_requested_at
+    OR NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    OR NEW.review_approved IS DISTINCT FROM OLD.review_approved
+    OR NEW.review_comment IS DISTINCT FROM OLD.review_comment
+  THEN
+    RAISE EXCEPTION 'Assessment status can only be changed through the review and publish workflow';
+  ELSIF NEW.overall_feedback IS DISTINCT FROM OLD.overall_feedback
+    AND private.is_assessment_locked(OLD)
+  THEN
+    RAISE EXCEPTION 'Feedback of a reviewed or published assessment can only be changed by revising it';
+  END IF;
+
+  -- Only moderators create or change the moderated assessment, and an
+  -- independent assessment can never become one (or the other way round)
+  IF (TG_OP = 'INSERT' AND (NEW.moderation_method IS NOT NULL OR NEW.moderated_from IS NOT NULL))
+    OR (TG_OP = 'UPDATE' AND (
+      NEW.moderation_method IS DISTINCT FROM OLD.moderation_method OR
+      NEW.moderated_from IS DISTINCT FROM OLD.moderated_from
+    ))
+  THEN
+    IF TG_OP = 'UPDATE' AND (OLD.moderation_method IS NULL OR NEW.moderation_method IS NULL) THEN
+      RAISE EXCEPTION 'Independent assessments cannot be turned into moderated assessments';
+    END IF;
+
+    IF NEW.moderation_method IS NULL OR NOT (
+      get_my_role() = 'admin' OR
+      (get_my_role() = 'educator' AND EXISTS (
+        SELECT 1
+        FROM projects pr
+        JOIN problems p ON p.id = pr.problem_id
+        JOIN courses c ON c.id = p.course_id
+        WHERE pr.id = NEW.project_id AND c.admin_id = auth.uid()
+      ))
+    ) THEN
+      RAISE EXCEPTION 'Only the course educator or an admin can moderate assessments';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================
+-- LOCKED ASSESSMENT SCORES
+-- =====================================================
+
+-- Scores of a locked assessment are only changed by revise_assessment(), so
+-- a reviewer approves, and students see, exactly what is published. Scores
+-- removed along with their assessment are not affected.
+CREATE OR REPLACE FUNCTION guard_published_assessment_scores()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN coalesce(NEW, OLD);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM assessments a
+    WHERE private.is_assessment_locked(a)
+      AND a.id IN (
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.assessment_id END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE NEW.assessment_id END
+      )
+  ) THEN
+    RAISE EXCEPTION 'Scores of a reviewed or published assessment can only be changed by revising it';
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$;
@@ -0,0 +1,49 @@
+-- =====================================================
+-- PBLab Submitted Assessment Edits Migration
+-- =====================================================
+-- Purpose: Make revise_assessment() the only way to edit a submitted
+--          assessment. Direct writes to overall_feedback and to the scores of
+--          a submitted draft left no assessment_revisions row, so the history
+--          of who changed what was incomplete.
+-- Affected: private.is_assessment_locked() (submitted assessments), new
+--           guard_assessment_submission() trigger on assessments
+-- Security model: Assessments are created with submitted_at unset, their
+--                 scores are added, and they are then marked submitted. From
+--                 then on their scores and overall feedback only change
+--                 through revise_assessment(), and they cannot be marked
+--                 unsubmitted again.
+-- =====================================================
+
+-- Submitted assessments are locked as well as reviewed and published ones
+CREATE OR REPLACE FUNCTION private.is_assessment_locked(_assessment assessments)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _assessment.submitted_at IS NOT NULL
+    OR _assessment.review_requested_at IS NOT NULL
+    OR _assessment.status IN ('pending_review', 'final');
+$$;
+
+-- Clearing submitted_at would unlock the assessment again
+CREATE OR REPLACE FUNCTION guard_assessment_submission()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon')
+    AND OLD.submitted_at IS NOT NULL
+    AND NEW.submitted_at IS DISTINCT FROM OLD.submitted_at
+  THEN
+    RAISE EXCEPTION 'Submitted assessments can only be changed by revising them';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_assessment_submission_trigger
+  BEFORE UPDATE ON assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_assessment_submission();